@@ -2,6 +2,7 @@
  * Background Service Worker
  *
  * Purpose: Handles extension icon clicks and manages navigation to options page
+ * and the display windows (audience view, stream overlay)
  *
  * SRS Reference:
  * - Extension UX improvements
@@ -33,4 +34,32 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     });
     return true; // Keep message channel open for async response
   }
+
+  if (request.action === 'openAudienceView') {
+    openDisplayWindow('audience.html', 1280, 800, sendResponse);
+    return true; // Keep message channel open for async response
+  }
+
+  if (request.action === 'openStreamOverlay') {
+    openDisplayWindow('overlay.html', request.width, request.height, sendResponse);
+    return true; // Keep message channel open for async response
+  }
 });
+
+// Open a display window driven by the side panel, or focus it if it is already open
+function openDisplayWindow(page, width, height, sendResponse) {
+  const url = chrome.runtime.getURL(page);
+  chrome.runtime
+    .getContexts({ contextTypes: ['TAB'], documentUrls: [url] })
+    .then((contexts) => {
+      if (contexts.length > 0) {
+        return chrome.windows.update(contexts[0].windowId, { focused: true });
+      }
+      return chrome.windows.create({ url, type: 'popup', width, height });
+    })
+    .then(() => sendResponse({ success: true }))
+    .catch((err) => {
+      console.error(`Failed to open ${page}:`, err);
+      sendResponse({ success: false, error: err.message });
+    });
+}
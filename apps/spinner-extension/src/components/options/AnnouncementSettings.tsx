@@ -0,0 +1,151 @@
+/**
+ * Announcement Settings Component
+ *
+ * Purpose: Configures the optional spoken winner announcement: the voice,
+ * speaking rate and message template, plus a privacy option to say only
+ * the winner's first name.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (spoken announcement)
+ */
+
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type {
+  AnnouncementSettings as Announcement,
+  SpinnerSettings,
+} from '@raffle-spinner/storage';
+import { isSpeechSupported, speakAnnouncement } from '@/lib/speech';
+import { useSpeechVoices } from '@/hooks/useSpeechVoices';
+import {
+  ANNOUNCEMENT_PLACEHOLDERS,
+  DEFAULT_ANNOUNCEMENT,
+  buildAnnouncement,
+} from '@/utils/winner-announcement';
+import { Volume2 } from 'lucide-react';
+
+// Select items cannot have an empty value, so the browser's voice gets its own
+const DEFAULT_VOICE = 'default';
+
+const SAMPLE_DRAW = {
+  winner: { firstName: 'Sarah', lastName: 'Jones', ticketNumber: '1042' },
+  competitionName: 'Summer Raffle',
+  prizeName: 'Hamper',
+};
+
+interface AnnouncementSettingsProps {
+  settings: SpinnerSettings;
+  onUpdate: (settings: Partial<SpinnerSettings>) => void;
+}
+
+export function AnnouncementSettings({ settings, onUpdate }: AnnouncementSettingsProps) {
+  const voices = useSpeechVoices();
+  const announcement = { ...DEFAULT_ANNOUNCEMENT, ...settings.announcement };
+
+  const update = (changes: Partial<Announcement>) =>
+    onUpdate({ announcement: { ...announcement, ...changes } });
+
+  if (!isSpeechSupported()) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Spoken announcements are not supported in this browser.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="announcement-enabled"
+          checked={announcement.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+        />
+        <Label htmlFor="announcement-enabled">Announce the winner when the spin stops</Label>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Voice</Label>
+        <Select
+          value={announcement.voiceURI ?? DEFAULT_VOICE}
+          onValueChange={(value) =>
+            update({ voiceURI: value === DEFAULT_VOICE ? undefined : value })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_VOICE}>Browser default</SelectItem>
+            {voices.map((voice) => (
+              <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                {voice.name} ({voice.lang})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="announcement-rate">Speaking Rate: {announcement.rate.toFixed(1)}x</Label>
+        <Slider
+          id="announcement-rate"
+          min={0.5}
+          max={2}
+          step={0.1}
+          value={[announcement.rate]}
+          onValueChange={([rate]) => update({ rate })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="announcement-template">Message</Label>
+        <Input
+          id="announcement-template"
+          value={announcement.template}
+          onChange={(e) => update({ template: e.target.value })}
+          placeholder={DEFAULT_ANNOUNCEMENT.template}
+        />
+        <ul className="text-xs text-muted-foreground space-y-0.5">
+          {ANNOUNCEMENT_PLACEHOLDERS.map(({ key, description }) => (
+            <li key={key}>
+              <code>{key}</code> {description}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="announcement-first-name"
+          checked={announcement.firstNameOnly}
+          onCheckedChange={(firstNameOnly) => update({ firstNameOnly })}
+        />
+        <Label htmlFor="announcement-first-name">Say the first name only</Label>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 rounded-md bg-muted p-3">
+        <p className="text-sm">{buildAnnouncement(announcement, SAMPLE_DRAW)}</p>
+        <Button
+          size="sm"
+          variant="outline"
+          type="button"
+          onClick={() => speakAnnouncement(announcement, SAMPLE_DRAW)}
+        >
+          <Volume2 className="h-4 w-4 mr-1" />
+          Test
+        </Button>
+      </div>
+    </div>
+  );
+}
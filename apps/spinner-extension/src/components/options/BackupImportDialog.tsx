@@ -0,0 +1,177 @@
+/**
+ * Backup Import Dialog Component
+ *
+ * Purpose: Asks whether a backup should be merged into or replace this
+ * install's data, lists competitions that exist in both, and reports what
+ * was restored.
+ *
+ * SRS Reference:
+ * - Data Layer: Backup and restore
+ */
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import {
+  planBackupImport,
+  type BackupConflict,
+  type BackupImportMode,
+  type BackupImportPlan,
+} from '@raffle-spinner/storage';
+import type { BackupImportState } from '@/hooks/useDataBackup';
+
+const MODE_DESCRIPTIONS: Record<BackupImportMode, string> = {
+  merge: 'Add competitions and saved mappings that are not here yet. Existing data is kept.',
+  replace: 'Make this install match the backup, including settings, theme and session.',
+};
+
+function ConflictList({
+  conflicts,
+  mode,
+}: {
+  conflicts: BackupConflict[];
+  mode: BackupImportMode;
+}) {
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert>
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription className="space-y-1">
+        <p>
+          {conflicts.length} competitions already exist here and will be{' '}
+          {mode === 'merge' ? 'kept as they are' : 'overwritten by the backup'}:
+        </p>
+        <ul className="max-h-32 overflow-y-auto text-xs space-y-0.5">
+          {conflicts.map((conflict) => (
+            <li key={conflict.id}>
+              {conflict.name} (here: {new Date(conflict.currentUpdatedAt).toLocaleDateString()},
+              backup: {new Date(conflict.backupUpdatedAt).toLocaleDateString()})
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+function describeResult(plan: BackupImportPlan): string {
+  const parts = [
+    `${plan.competitionsToSave.length} competitions restored`,
+    `${plan.mappingsToSave.length} saved mappings restored`,
+  ];
+  if (plan.competitionsToDelete.length > 0) {
+    parts.push(`${plan.competitionsToDelete.length} competitions removed`);
+  }
+  if (plan.mode === 'merge' && plan.conflicts.length > 0) {
+    parts.push(`${plan.conflicts.length} conflicting competitions kept as they were`);
+  }
+  return `${parts.join(', ')}.`;
+}
+
+interface ImportOptionsProps {
+  state: Extract<BackupImportState, { stage: 'confirm' }>;
+  mode: BackupImportMode;
+  onModeChange: (mode: BackupImportMode) => void;
+}
+
+function ImportOptions({ state, mode, onModeChange }: ImportOptionsProps) {
+  const { backup, current } = state;
+  const preview = planBackupImport(current, backup.data, mode);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm">
+        {backup.data.competitions.length} competitions · {backup.data.savedMappings?.length ?? 0}{' '}
+        saved mappings
+      </p>
+      <RadioGroup value={mode} onValueChange={(value) => onModeChange(value as BackupImportMode)}>
+        {(['merge', 'replace'] as const).map((option) => (
+          <div key={option} className="flex items-start gap-2">
+            <RadioGroupItem value={option} id={`backup-${option}`} className="mt-0.5" />
+            <Label htmlFor={`backup-${option}`} className="space-y-0.5">
+              <span className="capitalize">{option}</span>
+              <p className="text-xs text-muted-foreground font-normal">
+                {MODE_DESCRIPTIONS[option]}
+              </p>
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+      <ConflictList conflicts={preview.conflicts} mode={mode} />
+      {preview.competitionsToDelete.length > 0 && (
+        <p className="text-xs text-destructive">
+          {preview.competitionsToDelete.length} competitions not in the backup will be deleted.
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface BackupImportDialogProps {
+  state: BackupImportState | null;
+  onImport: (mode: BackupImportMode) => void;
+  onClose: () => void;
+}
+
+export function BackupImportDialog({ state, onImport, onClose }: BackupImportDialogProps) {
+  const [mode, setMode] = useState<BackupImportMode>('merge');
+  const isConfirming = state?.stage === 'confirm';
+
+  return (
+    <Dialog open={!!state} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Backup</DialogTitle>
+          <DialogDescription>
+            {state?.stage === 'confirm' &&
+              `${state.fileName}, exported ${new Date(state.backup.exportedAt).toLocaleString()}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {state?.stage === 'confirm' && (
+          <ImportOptions state={state} mode={mode} onModeChange={setMode} />
+        )}
+        {state?.stage === 'done' && (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>{describeResult(state.plan)}</AlertDescription>
+          </Alert>
+        )}
+        {state?.stage === 'error' && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{state.message}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {isConfirming ? 'Cancel' : 'Close'}
+          </Button>
+          {isConfirming && (
+            <Button
+              variant={mode === 'replace' ? 'destructive' : 'default'}
+              onClick={() => onImport(mode)}
+            >
+              {mode === 'replace' ? 'Replace All Data' : 'Merge Backup'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
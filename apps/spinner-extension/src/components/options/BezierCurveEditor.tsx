@@ -4,8 +4,14 @@ import { BezierCurveEditorProps } from './bezier-curve/types';
 import { CanvasRenderer } from './bezier-curve/CanvasRenderer';
 import { ControlPointSliders } from './bezier-curve/ControlPointSliders';
 import { PresetButtons } from './bezier-curve/PresetButtons';
+import { ProfilePreview } from './bezier-curve/ProfilePreview';
 
-export function BezierCurveEditor({ value, onChange }: BezierCurveEditorProps) {
+export function BezierCurveEditor({
+  value,
+  onChange,
+  preview,
+  curveEditable = true,
+}: BezierCurveEditorProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDragging, setIsDragging] = useState<'p1' | 'p2' | null>(null);
 
@@ -65,30 +71,36 @@ export function BezierCurveEditor({ value, onChange }: BezierCurveEditorProps) {
         <CardTitle>Spin Animation Curve</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="relative bg-gray-900 rounded-lg p-4">
-          <canvas
-            ref={canvasRef}
-            width={300}
-            height={300}
-            className="cursor-pointer"
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
-          />
-          <CanvasRenderer canvasRef={canvasRef} value={value} />
-        </div>
+        {curveEditable && (
+          <>
+            <div className="relative bg-gray-900 rounded-lg p-4">
+              <canvas
+                ref={canvasRef}
+                width={300}
+                height={300}
+                className="cursor-pointer"
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={handleMouseUp}
+              />
+              <CanvasRenderer canvasRef={canvasRef} value={value} />
+            </div>
 
-        <ControlPointSliders value={value} onChange={onChange} />
-        <PresetButtons value={value} onChange={onChange} />
+            <ControlPointSliders value={value} onChange={onChange} />
+            <PresetButtons value={value} onChange={onChange} />
 
-        <div className="space-y-2">
-          <label className="text-sm font-medium">CSS Value</label>
-          <code className="block p-2 bg-gray-800 rounded text-xs">
-            cubic-bezier({value.x1.toFixed(2)}, {value.y1.toFixed(2)}, {value.x2.toFixed(2)},{' '}
-            {value.y2.toFixed(2)})
-          </code>
-        </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">CSS Value</label>
+              <code className="block p-2 bg-gray-800 rounded text-xs">
+                cubic-bezier({value.x1.toFixed(2)}, {value.y1.toFixed(2)}, {value.x2.toFixed(2)},{' '}
+                {value.y2.toFixed(2)})
+              </code>
+            </div>
+          </>
+        )}
+
+        {preview && <ProfilePreview easing={preview} />}
       </CardContent>
     </Card>
   );
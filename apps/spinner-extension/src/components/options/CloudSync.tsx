@@ -0,0 +1,67 @@
+/**
+ * Cloud Sync Component
+ *
+ * Purpose: Options page switch to sync competitions, saved mappings and the
+ * theme across the user's computers, with the current sync status.
+ *
+ * SRS Reference:
+ * - Data Layer: Cross-device sync
+ */
+
+import { useAuth } from '@drawday/auth';
+import { RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useCloudSync } from '@/hooks/useCloudSync';
+
+export function CloudSync() {
+  const { isAuthenticated } = useAuth();
+  const { theme } = useTheme();
+  const { syncState, isSyncing, syncNow, setSyncEnabled } = useCloudSync({ trackTheme: true });
+  const enabled = syncState?.enabled ?? false;
+  const pending = syncState?.queue.length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Sync competitions, saved mappings and your theme to your DrawDay account, so every computer
+        you log in on has the same data. Settings, sessions and the draw audit log stay on this
+        computer.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="cloud-sync"
+          checked={enabled}
+          disabled={!isAuthenticated}
+          onCheckedChange={(checked) => setSyncEnabled(checked, theme)}
+        />
+        <Label htmlFor="cloud-sync">Sync across devices</Label>
+      </div>
+
+      {!isAuthenticated && <p className="text-sm text-muted-foreground">Log in to turn on sync.</p>}
+
+      {enabled && (
+        <div className="flex items-center justify-between gap-4">
+          <div className="text-sm text-muted-foreground space-y-1">
+            <p>
+              {syncState?.lastSyncedAt
+                ? `Last synced ${new Date(syncState.lastSyncedAt).toLocaleString()}`
+                : 'Not synced yet'}
+              {pending > 0 && ` · ${pending} change${pending === 1 ? '' : 's'} waiting to sync`}
+            </p>
+            {syncState?.lastError && (
+              <p className="text-destructive">Sync failed: {syncState.lastError}</p>
+            )}
+          </div>
+          <Button variant="outline" size="sm" onClick={syncNow} disabled={isSyncing}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+            Sync Now
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
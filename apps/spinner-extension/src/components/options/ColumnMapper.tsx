@@ -34,6 +34,25 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { InfoIcon } from 'lucide-react';
 import { InfoTooltip } from '@/components/ui/info-tooltip';
 import { helpContent } from '@/lib/help-content';
+import { TicketExpansionColumns } from './TicketExpansionColumns';
+import { ExtraColumnsSelector, getMappedColumns } from './ExtraColumnsSelector';
+
+/** Keeps only the columns for the chosen name format and the extra columns still unmapped */
+function buildFinalMapping(mapping: Partial<ColumnMapping>, useFullName: boolean) {
+  // A ticket range column can stand in for the ticket number column
+  const ticketColumns = {
+    ticketNumber: mapping.ticketNumber || mapping.ticketRange,
+    quantity: mapping.quantity,
+    ticketRange: mapping.ticketRange,
+  };
+  const finalMapping = useFullName
+    ? { fullName: mapping.fullName, ...ticketColumns }
+    : { firstName: mapping.firstName, lastName: mapping.lastName, ...ticketColumns };
+
+  const mappedColumns = getMappedColumns(finalMapping);
+  const extraColumns = mapping.extraColumns?.filter((field) => !mappedColumns.includes(field.key));
+  return { ...finalMapping, extraColumns };
+}
 
 interface ColumnMapperProps {
   open: boolean;
@@ -81,19 +100,15 @@ export function ColumnMapper({
     );
   }, [detectedMapping, suggestedMappingId, savedMappings]);
 
+  const hasTicketColumn = mapping.ticketNumber || mapping.ticketRange;
+  const isValid = useFullName
+    ? mapping.fullName && hasTicketColumn
+    : mapping.firstName && mapping.lastName && hasTicketColumn;
+
   const handleConfirm = async () => {
-    const finalMapping = useFullName
-      ? { fullName: mapping.fullName, ticketNumber: mapping.ticketNumber }
-      : {
-          firstName: mapping.firstName,
-          lastName: mapping.lastName,
-          ticketNumber: mapping.ticketNumber,
-        };
+    const finalMapping = buildFinalMapping(mapping, useFullName);
 
-    if (
-      (useFullName && finalMapping.fullName && finalMapping.ticketNumber) ||
-      (!useFullName && finalMapping.firstName && finalMapping.lastName && finalMapping.ticketNumber)
-    ) {
+    if (isValid) {
       let savedMapping: SavedMapping | undefined;
 
       if (shouldSaveMapping && mappingName.trim()) {
@@ -143,13 +158,9 @@ export function ColumnMapper({
     }
   };
 
-  const isValid = useFullName
-    ? mapping.fullName && mapping.ticketNumber
-    : mapping.firstName && mapping.lastName && mapping.ticketNumber;
-
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             Map CSV Columns
@@ -294,7 +305,9 @@ export function ColumnMapper({
           )}
 
           <div className="space-y-2">
-            <Label htmlFor="ticketNumber">Ticket Number Column</Label>
+            <Label htmlFor="ticketNumber">
+              Ticket Number Column{mapping.ticketRange && ' (optional)'}
+            </Label>
             <Select
               value={mapping.ticketNumber || ''}
               onValueChange={(value) => setMapping({ ...mapping, ticketNumber: value })}
@@ -312,6 +325,10 @@ export function ColumnMapper({
             </Select>
           </div>
 
+          <TicketExpansionColumns headers={headers} mapping={mapping} onChange={setMapping} />
+
+          <ExtraColumnsSelector headers={headers} mapping={mapping} onChange={setMapping} />
+
           {/* Save Mapping Option */}
           <div className="space-y-2 pt-4 border-t">
             <div className="flex items-center space-x-2">
@@ -9,21 +9,41 @@
  */
 
 import { useState } from 'react';
-import { Competition } from '@raffle-spinner/storage';
+import { Competition, Prize } from '@raffle-spinner/storage';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { ImageUpload } from '@/components/ui/image-upload';
-import { Trash2, Users, AlertCircle } from 'lucide-react';
+import { Trash2, Users, AlertCircle, Gift, RefreshCw } from 'lucide-react';
+import { PrizeEditorDialog } from './PrizeEditorDialog';
 
 interface CompetitionListProps {
   competitions: Competition[];
   onDelete: (id: string) => void;
   onUpdateBanner?: (id: string, banner: string | undefined) => void;
+  onUpdatePrizes?: (id: string, prizes: Prize[]) => void;
+  onUpdateEntries?: (competition: Competition) => void;
 }
 
-export function CompetitionList({ competitions, onDelete, onUpdateBanner }: CompetitionListProps) {
+const describePrizes = (prizes: Prize[] = []) => {
+  const winners = prizes.reduce((sum, p) => sum + p.quantity, 0);
+  return prizes.length ? ` · ${prizes.length} prizes, ${winners} winners` : '';
+};
+
+const describeVersion = ({ versions = [], updatedAt }: Competition) =>
+  versions.length > 1
+    ? ` · Version ${versions[versions.length - 1].version}, updated ${new Date(updatedAt).toLocaleDateString()}`
+    : '';
+
+export function CompetitionList({
+  competitions,
+  onDelete,
+  onUpdateBanner,
+  onUpdatePrizes,
+  onUpdateEntries,
+}: CompetitionListProps) {
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [prizeTarget, setPrizeTarget] = useState<Competition | null>(null);
 
   if (competitions.length === 0) {
     return (
@@ -52,9 +72,32 @@ export function CompetitionList({ competitions, onDelete, onUpdateBanner }: Comp
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <div className="space-y-1">
               <CardTitle className="text-lg">{competition.name}</CardTitle>
-              <CardDescription>{competition.participants.length} participants</CardDescription>
+              <CardDescription>
+                {competition.participants.length} participants
+                {describePrizes(competition.prizes)}
+              </CardDescription>
             </div>
             <div className="flex items-center gap-2">
+              {onUpdateEntries && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onUpdateEntries(competition)}
+                  title="Update entries from a new file"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              )}
+              {onUpdatePrizes && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setPrizeTarget(competition)}
+                  title="Edit prizes"
+                >
+                  <Gift className="h-4 w-4" />
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="icon"
@@ -78,11 +121,20 @@ export function CompetitionList({ competitions, onDelete, onUpdateBanner }: Comp
 
               <div className="text-xs text-muted-foreground">
                 Created: {new Date(competition.createdAt).toLocaleDateString()}
+                {describeVersion(competition)}
               </div>
             </div>
           </CardContent>
         </Card>
       ))}
+
+      {onUpdatePrizes && (
+        <PrizeEditorDialog
+          competition={prizeTarget}
+          onSave={onUpdatePrizes}
+          onClose={() => setPrizeTarget(null)}
+        />
+      )}
     </div>
   );
 }
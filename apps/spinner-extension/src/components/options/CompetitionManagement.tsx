@@ -9,6 +9,7 @@
  * - FR-1.1: CSV File Upload Interface
  */
 
+import { SUPPORTED_IMPORT_EXTENSIONS } from '@raffle-spinner/csv-parser';
 import { Competition, ColumnMapping } from '@raffle-spinner/storage';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -46,7 +47,7 @@ export function CompetitionManagement({
               <InfoTooltip {...helpContent.competitions.overview} />
             </CardTitle>
             <CardDescription>
-              Upload CSV files to create competitions for your raffles
+              Upload CSV or Excel files to create competitions for your raffles
             </CardDescription>
           </div>
         </div>
@@ -56,7 +57,7 @@ export function CompetitionManagement({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".csv"
+            accept={SUPPORTED_IMPORT_EXTENSIONS.join(',')}
             onChange={onFileSelect}
             className="hidden"
           />
@@ -4,12 +4,17 @@
  * Card-less version of CompetitionManagement for use in collapsible sections
  */
 
-import { Competition, ColumnMapping } from '@raffle-spinner/storage';
+import { SUPPORTED_IMPORT_EXTENSIONS } from '@raffle-spinner/csv-parser';
+import { Competition, ColumnMapping, Prize } from '@raffle-spinner/storage';
 import { logger } from '@drawday/utils';
 import { Button } from '@/components/ui/button';
 import { ContestantGuard } from '@/components/ui/subscription-guard';
 import { Upload, Settings, Play } from 'lucide-react';
 import { CompetitionList } from './CompetitionList';
+import { UpdateEntriesDialog } from './UpdateEntriesDialog';
+import { ImportIssuesDialog } from './ImportIssuesDialog';
+import { DuplicateHandler } from './DuplicateHandler';
+import { useEntryUpdate } from '@/hooks/useEntryUpdate';
 
 interface CompetitionManagementContentProps {
   competitions: Competition[];
@@ -19,6 +24,7 @@ interface CompetitionManagementContentProps {
   onDeleteCompetition: (id: string) => void;
   onOpenMapper: () => void;
   onUpdateBanner?: (id: string, banner: string | undefined) => void;
+  onUpdatePrizes?: (id: string, prizes: Prize[]) => void;
   onUpgradeClick?: () => void;
 }
 
@@ -30,8 +36,10 @@ export function CompetitionManagementContent({
   onDeleteCompetition,
   onOpenMapper,
   onUpdateBanner,
+  onUpdatePrizes,
   onUpgradeClick,
 }: CompetitionManagementContentProps) {
+  const entryUpdate = useEntryUpdate();
   const totalContestants = competitions.reduce(
     (total, comp) => total + comp.participants.length,
     0
@@ -42,14 +50,14 @@ export function CompetitionManagementContent({
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv"
+          accept={SUPPORTED_IMPORT_EXTENSIONS.join(',')}
           className="hidden"
           onChange={onFileSelect}
         />
         <ContestantGuard currentCount={totalContestants} onUpgradeClick={onUpgradeClick}>
           <Button onClick={() => fileInputRef.current?.click()}>
             <Upload className="w-4 h-4 mr-2" />
-            Upload CSV
+            Upload CSV / Excel
           </Button>
         </ContestantGuard>
         <Button variant="outline" onClick={onOpenMapper}>
@@ -96,7 +104,24 @@ export function CompetitionManagementContent({
         competitions={competitions}
         onDelete={onDeleteCompetition}
         onUpdateBanner={onUpdateBanner}
+        onUpdatePrizes={onUpdatePrizes}
+        onUpdateEntries={entryUpdate.startUpdate}
       />
+
+      <input
+        ref={entryUpdate.fileInputRef}
+        type="file"
+        accept={SUPPORTED_IMPORT_EXTENSIONS.join(',')}
+        className="hidden"
+        onChange={entryUpdate.handleFileChange}
+      />
+      <UpdateEntriesDialog
+        state={entryUpdate.state}
+        onApprove={entryUpdate.approve}
+        onCancel={entryUpdate.cancel}
+      />
+      <ImportIssuesDialog {...entryUpdate.importReview} />
+      <DuplicateHandler {...entryUpdate.duplicateReview} />
     </div>
   );
 }
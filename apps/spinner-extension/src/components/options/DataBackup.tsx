@@ -0,0 +1,60 @@
+/**
+ * Data Backup Component
+ *
+ * Purpose: Options page actions to export all extension data to a backup
+ * file and import it again, e.g. after reinstalling or on a new computer.
+ *
+ * SRS Reference:
+ * - Data Layer: Backup and restore
+ */
+
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Download, Upload } from 'lucide-react';
+import { useDataBackup } from '@/hooks/useDataBackup';
+import { BackupImportDialog } from './BackupImportDialog';
+
+export function DataBackup() {
+  const {
+    fileInputRef,
+    importState,
+    exportError,
+    exportBackup,
+    handleFileChange,
+    applyImport,
+    closeImport,
+  } = useDataBackup();
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Backups include competitions with their banners and prize images, saved mappings, settings,
+        theme and the current session. The draw audit log is not included.
+      </p>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={exportBackup}>
+          <Download className="mr-2 h-4 w-4" />
+          Export All Data
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" />
+          Import Backup
+        </Button>
+      </div>
+      {exportError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Export failed: {exportError}</AlertDescription>
+        </Alert>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <BackupImportDialog state={importState} onImport={applyImport} onClose={closeImport} />
+    </div>
+  );
+}
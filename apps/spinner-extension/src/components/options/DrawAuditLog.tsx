@@ -0,0 +1,105 @@
+/**
+ * Draw Audit Log Component
+ *
+ * Purpose: Shows the tamper-evident draw log, checks its hash chain for edited
+ * or deleted entries and exports it for customers who dispute a draw.
+ *
+ * SRS Reference:
+ * - FR-2.4: Winner Display and Session History (auditable draw history)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { storage, DrawLogEntry, DrawLogVerification } from '@raffle-spinner/storage';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Download, ShieldCheck } from 'lucide-react';
+import { downloadFile } from '@/utils/download';
+
+const RECENT_ENTRY_COUNT = 10;
+
+export function DrawAuditLog() {
+  const [entries, setEntries] = useState<DrawLogEntry[]>([]);
+  const [verification, setVerification] = useState<DrawLogVerification | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const checkLog = useCallback(async () => {
+    setIsChecking(true);
+    try {
+      const [result, log] = await Promise.all([storage.verifyDrawLog(), storage.getDrawLog()]);
+      setVerification(result);
+      setEntries(log);
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    checkLog();
+  }, [checkLog]);
+
+  const handleExport = () => {
+    downloadFile(
+      JSON.stringify({ exportedAt: Date.now(), verification, entries }, null, 2),
+      `draw-audit-log-${Date.now()}.json`,
+      'application/json'
+    );
+  };
+
+  const recentEntries = entries.slice(-RECENT_ENTRY_COUNT).reverse();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{entries.length} draws recorded</span>
+          {verification &&
+            (verification.valid ? (
+              <Badge variant="secondary">Chain intact</Badge>
+            ) : (
+              <Badge variant="destructive">Tampering detected</Badge>
+            ))}
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={checkLog} disabled={isChecking}>
+            <ShieldCheck className="h-4 w-4 mr-1" />
+            Verify
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleExport} disabled={!entries.length}>
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </Button>
+        </div>
+      </div>
+
+      {verification && !verification.valid && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {verification.issues.map((issue, i) => (
+                <li key={i}>{issue.message}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {recentEntries.length > 0 && (
+        <div className="space-y-1 text-xs">
+          {recentEntries.map((entry) => (
+            <div key={entry.hash} className="flex justify-between gap-2 p-2 border rounded">
+              <span>
+                #{entry.sequence + 1} · Ticket {entry.winner.ticketNumber} ·{' '}
+                {entry.winner.firstName} {entry.winner.lastName}
+              </span>
+              <span className="text-muted-foreground">
+                {entry.operator} · {new Date(entry.timestamp).toLocaleString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,21 @@
 /**
  * Duplicate Handler Component
  *
- * Purpose: Modal dialog for handling duplicate ticket numbers found in CSV uploads,
- * allowing users to proceed with first occurrence only or cancel the upload.
+ * Purpose: Modal dialog for resolving duplicate ticket numbers found in CSV
+ * uploads. Each ticket can keep its first or last entry, keep every entry by
+ * renumbering, or keep a chosen entry; bulk actions apply one strategy to all
+ * tickets, and a report of discarded and renumbered rows can be downloaded.
  *
  * SRS Reference:
  * - FR-1.5: Data Validation and Error Handling
  */
 
+import { useEffect, useState } from 'react';
+import type {
+  DuplicateResolution,
+  DuplicateStrategy,
+  DuplicateTicket,
+} from '@raffle-spinner/csv-parser';
 import {
   Dialog,
   DialogContent,
@@ -17,56 +25,96 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import { AlertTriangle } from 'lucide-react';
+import { Download } from 'lucide-react';
 import { InfoTooltip } from '@/components/ui/info-tooltip';
 import { helpContent } from '@/lib/help-content';
+import { DUPLICATE_STRATEGIES, DuplicateTicketRow } from './DuplicateTicketRow';
+
+const KEEP_FIRST: DuplicateResolution = { strategy: 'keepFirst' };
+
+// Manual choices only make sense per ticket
+const BULK_STRATEGIES = DUPLICATE_STRATEGIES.filter(({ value }) => value !== 'manual');
 
 interface DuplicateHandlerProps {
   open: boolean;
-  duplicates: Array<{ ticketNumber: string; names: string[] }>;
-  onProceed: () => void;
+  duplicates: DuplicateTicket[];
+  /** Duplicates that involve a row expanded from a ticket quantity or range */
+  overlappingTickets?: number;
+  onProceed: (resolutions: Record<string, DuplicateResolution>) => void;
+  onDownloadReport: (resolutions: Record<string, DuplicateResolution>) => void;
   onCancel: () => void;
 }
 
-export function DuplicateHandler({ open, duplicates, onProceed, onCancel }: DuplicateHandlerProps) {
+export function DuplicateHandler({
+  open,
+  duplicates,
+  overlappingTickets = 0,
+  onProceed,
+  onDownloadReport,
+  onCancel,
+}: DuplicateHandlerProps) {
+  const [resolutions, setResolutions] = useState<Record<string, DuplicateResolution>>({});
+
+  // Each import starts from keeping the first entry
+  useEffect(() => setResolutions({}), [duplicates]);
+
+  const applyToAll = (strategy: DuplicateStrategy) =>
+    setResolutions(Object.fromEntries(duplicates.map((d) => [d.ticketNumber, { strategy }])));
+
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-3xl">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             Duplicate Ticket Numbers Found
             <InfoTooltip {...helpContent.ticketHandling.duplicates} />
           </DialogTitle>
           <DialogDescription>
-            We found duplicate ticket numbers in your CSV file. Only the first occurrence of each
-            duplicate will be kept if you proceed.
+            We found {duplicates.length} ticket numbers used by more than one row in your file.
+            Choose which entries to keep for each ticket.
           </DialogDescription>
         </DialogHeader>
 
-        <div className="max-h-64 overflow-y-auto space-y-2">
+        {overlappingTickets > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {overlappingTickets} of these come from overlapping ticket ranges or quantities. Check
+            the ranges in your file if that isn&apos;t expected.
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Apply to all:</span>
+          {BULK_STRATEGIES.map(({ value, label }) => (
+            <Button key={value} size="sm" variant="outline" onClick={() => applyToAll(value)}>
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="max-h-80 overflow-y-auto space-y-2">
           {duplicates.map((dup) => (
-            <Alert key={dup.ticketNumber} className="py-2">
-              <AlertTriangle className="h-4 w-4" />
-              <AlertDescription>
-                <strong>Ticket #{dup.ticketNumber}</strong>
-                <ul className="mt-1 ml-4 text-xs">
-                  {dup.names.map((name, idx) => (
-                    <li key={idx}>{name}</li>
-                  ))}
-                </ul>
-              </AlertDescription>
-            </Alert>
+            <DuplicateTicketRow
+              key={dup.ticketNumber}
+              duplicate={dup}
+              resolution={resolutions[dup.ticketNumber] ?? KEEP_FIRST}
+              onChange={(resolution) =>
+                setResolutions({ ...resolutions, [dup.ticketNumber]: resolution })
+              }
+            />
           ))}
         </div>
 
-        <DialogFooter>
-          <Button variant="outline" onClick={onCancel}>
-            Cancel Upload
-          </Button>
-          <Button onClick={onProceed} variant="destructive">
-            Proceed (Keep First Only)
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={() => onDownloadReport(resolutions)}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Report
           </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel Upload
+            </Button>
+            <Button onClick={() => onProceed(resolutions)}>Proceed</Button>
+          </div>
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,117 @@
+/**
+ * Duplicate Ticket Row Component
+ *
+ * Purpose: One duplicate ticket in the DuplicateHandler: its entries with
+ * their source row and columns, the resolution chosen for it and, for the
+ * manual strategy, which entry to keep.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (duplicate handling)
+ */
+
+import type {
+  DuplicateEntry,
+  DuplicateResolution,
+  DuplicateStrategy,
+  DuplicateTicket,
+} from '@raffle-spinner/csv-parser';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export const DUPLICATE_STRATEGIES: { value: DuplicateStrategy; label: string }[] = [
+  { value: 'keepFirst', label: 'Keep first' },
+  { value: 'keepLast', label: 'Keep last' },
+  { value: 'keepAll', label: 'Keep all (renumber)' },
+  { value: 'manual', label: 'Choose manually' },
+];
+
+function entryOutcome(resolution: DuplicateResolution, index: number, count: number): string {
+  switch (resolution.strategy) {
+    case 'keepAll':
+      return index === 0 ? 'Kept' : 'Renumbered';
+    case 'keepLast':
+      return index === count - 1 ? 'Kept' : 'Discarded';
+    case 'manual':
+      return index === (resolution.keepIndex ?? 0) ? 'Kept' : 'Discarded';
+    default:
+      return index === 0 ? 'Kept' : 'Discarded';
+  }
+}
+
+function EntryDetails({ entry }: { entry: DuplicateEntry }) {
+  const { row, participant, data } = entry;
+  const columns = Object.entries(data).filter(([, value]) => value);
+  return (
+    <div className="min-w-0">
+      <p className="text-sm">
+        <span className="text-muted-foreground">Row {row}:</span> {participant.firstName}{' '}
+        {participant.lastName}
+      </p>
+      <p className="text-xs text-muted-foreground truncate">
+        {columns.map(([column, value]) => `${column}: ${value}`).join(' · ')}
+      </p>
+    </div>
+  );
+}
+
+interface DuplicateTicketRowProps {
+  duplicate: DuplicateTicket;
+  resolution: DuplicateResolution;
+  onChange: (resolution: DuplicateResolution) => void;
+}
+
+export function DuplicateTicketRow({ duplicate, resolution, onChange }: DuplicateTicketRowProps) {
+  const { ticketNumber, entries } = duplicate;
+  const manual = resolution.strategy === 'manual';
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <strong className="font-mono">Ticket #{ticketNumber}</strong>
+        <Select
+          value={resolution.strategy}
+          onValueChange={(strategy: DuplicateStrategy) => onChange({ strategy, keepIndex: 0 })}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DUPLICATE_STRATEGIES.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <RadioGroup
+        value={String(resolution.keepIndex ?? 0)}
+        onValueChange={(value) => onChange({ strategy: 'manual', keepIndex: Number(value) })}
+      >
+        {entries.map((entry, index) => {
+          const outcome = entryOutcome(resolution, index, entries.length);
+          return (
+            <div key={index} className="flex items-center gap-2">
+              {manual && <RadioGroupItem value={String(index)} id={`${ticketNumber}-${index}`} />}
+              <EntryDetails entry={entry} />
+              <Badge
+                variant={outcome === 'Discarded' ? 'destructive' : 'secondary'}
+                className="ml-auto shrink-0"
+              >
+                {outcome}
+              </Badge>
+            </div>
+          );
+        })}
+      </RadioGroup>
+    </div>
+  );
+}
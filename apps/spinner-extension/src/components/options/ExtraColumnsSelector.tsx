@@ -0,0 +1,90 @@
+/**
+ * Extra Columns Selector Component
+ *
+ * Purpose: Lets the user keep unmapped columns (email, phone, order id...) as
+ * participant metadata, with a privacy flag per column.
+ * Extracted from ColumnMapper.tsx to maintain file size limits
+ *
+ * SRS Reference:
+ * - FR-1.4: Column Mapping Interface (extra columns)
+ */
+
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import type { ColumnMapping, ParticipantField } from '@raffle-spinner/storage';
+
+/** Columns already mapped to a participant field */
+export function getMappedColumns(mapping: Partial<ColumnMapping>): string[] {
+  const { firstName, lastName, fullName, ticketNumber, quantity, ticketRange } = mapping;
+  return [firstName, lastName, fullName, ticketNumber, quantity, ticketRange].filter(
+    (column): column is string => !!column
+  );
+}
+
+interface ExtraColumnsSelectorProps {
+  headers: string[];
+  mapping: Partial<ColumnMapping>;
+  onChange: (mapping: Partial<ColumnMapping>) => void;
+}
+
+export function ExtraColumnsSelector({ headers, mapping, onChange }: ExtraColumnsSelectorProps) {
+  const mappedColumns = getMappedColumns(mapping);
+  const columns = headers.filter((header) => !mappedColumns.includes(header));
+  const fields = mapping.extraColumns ?? [];
+
+  if (columns.length === 0) {
+    return null;
+  }
+
+  const setFields = (extraColumns: ParticipantField[]) => onChange({ ...mapping, extraColumns });
+
+  const toggleColumn = (key: string, keep: boolean) =>
+    setFields(
+      keep ? [...fields, { key, isPrivate: false }] : fields.filter((field) => field.key !== key)
+    );
+
+  const setPrivate = (key: string, isPrivate: boolean) =>
+    setFields(fields.map((field) => (field.key === key ? { ...field, isPrivate } : field)));
+
+  return (
+    <div className="space-y-2">
+      <Label>Extra Columns to Keep (optional)</Label>
+      <p className="text-xs text-muted-foreground">
+        Kept with each entry so you can contact winners. Never shown to the audience; private
+        columns are also left out of winner exports.
+      </p>
+      <div className="max-h-40 overflow-y-auto space-y-2 rounded-md border p-2">
+        {columns.map((header, index) => {
+          const field = fields.find((f) => f.key === header);
+          return (
+            <div key={header} className="flex items-center justify-between gap-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`extra-column-${index}`}
+                  checked={!!field}
+                  onCheckedChange={(checked) => toggleColumn(header, checked === true)}
+                />
+                <Label htmlFor={`extra-column-${index}`} className="font-normal cursor-pointer">
+                  {header}
+                </Label>
+              </div>
+              {field && (
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`extra-column-private-${index}`}
+                    checked={field.isPrivate}
+                    onCheckedChange={(isPrivate) => setPrivate(header, isPrivate)}
+                  />
+                  <Label htmlFor={`extra-column-private-${index}`} className="text-xs font-normal">
+                    Private
+                  </Label>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
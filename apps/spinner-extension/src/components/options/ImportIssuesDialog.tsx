@@ -0,0 +1,145 @@
+/**
+ * Import Issues Dialog Component
+ *
+ * Purpose: Shown after parsing when rows were skipped or hold suspicious
+ * values. Lists every issue in a filterable table, downloads them as CSV and
+ * lets the user fix skipped rows inline before the competition is created.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (row validation report)
+ */
+
+import { useEffect, useState } from 'react';
+import type { ValidationError, ValidationIssueType } from '@raffle-spinner/csv-parser';
+import type { ColumnMapping } from '@raffle-spinner/storage';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Download } from 'lucide-react';
+import { ISSUE_TYPE_LABELS, exportIssuesReport } from '@/utils/import-issues';
+import { getMappedColumns } from './ExtraColumnsSelector';
+import { ImportIssuesTable } from './ImportIssuesTable';
+
+// Issues listed before the rest are left to the downloaded report
+const MAX_ROWS = 100;
+
+type IssueFilter = ValidationIssueType | 'all';
+
+function matchesFilter(issue: ValidationError, type: IssueFilter, search: string): boolean {
+  if (type !== 'all' && issue.type !== type) return false;
+  const text = [issue.row, issue.column, issue.reason, ...Object.values(issue.data)].join(' ');
+  return text.toLowerCase().includes(search.trim().toLowerCase());
+}
+
+interface ImportIssuesDialogProps {
+  open: boolean;
+  issues: ValidationError[];
+  mapping: ColumnMapping | null;
+  onApplyFixes: (fixes: Record<number, Record<string, string>>) => void;
+  onProceed: () => void;
+  onCancel: () => void;
+}
+
+export function ImportIssuesDialog({
+  open,
+  issues,
+  mapping,
+  onApplyFixes,
+  onProceed,
+  onCancel,
+}: ImportIssuesDialogProps) {
+  const [type, setType] = useState<IssueFilter>('all');
+  const [search, setSearch] = useState('');
+  const [fixes, setFixes] = useState<Record<number, Record<string, string>>>({});
+
+  // Fixes are applied to the issues they were made for
+  useEffect(() => setFixes({}), [issues]);
+
+  const filtered = issues.filter((issue) => matchesFilter(issue, type, search));
+  const skippedRows = new Set(issues.filter((i) => i.skipped).map((i) => i.row)).size;
+  const fixCount = Object.keys(fixes).length;
+
+  const proceed = () => {
+    if (fixCount > 0) onApplyFixes(fixes);
+    onProceed();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Import Issues</DialogTitle>
+          <DialogDescription>
+            {skippedRows} row(s) will be skipped and {issues.length - skippedRows} value(s) look
+            suspicious. Fix skipped rows below to include them in the competition.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Select value={type} onValueChange={(value: IssueFilter) => setType(value)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All issues</SelectItem>
+              {Object.entries(ISSUE_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Search rows..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+
+        <ImportIssuesTable
+          issues={filtered.slice(0, MAX_ROWS)}
+          fixableColumns={mapping ? getMappedColumns(mapping) : []}
+          fixes={fixes}
+          onFix={(row, data) => setFixes({ ...fixes, [row]: data })}
+        />
+        {filtered.length > MAX_ROWS && (
+          <p className="text-sm text-muted-foreground">
+            ... and {filtered.length - MAX_ROWS} more issues. Download the report for the full list.
+          </p>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={() => exportIssuesReport(issues)}>
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel Import
+            </Button>
+            {fixCount > 0 && (
+              <Button variant="secondary" onClick={() => onApplyFixes(fixes)}>
+                Re-check {fixCount} Fixed Row(s)
+              </Button>
+            )}
+            <Button onClick={proceed}>Continue Import</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * Import Issues Table Component
+ *
+ * Purpose: Lists row-level import issues with the row, column and reason,
+ * and opens an inline editor for skipped rows so they can be fixed.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (row validation report)
+ */
+
+import { Fragment, useState } from 'react';
+import type { ValidationError } from '@raffle-spinner/csv-parser';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ISSUE_TYPE_LABELS } from '@/utils/import-issues';
+import { RowFixEditor } from './RowFixEditor';
+
+interface ImportIssuesTableProps {
+  issues: ValidationError[];
+  /** Mapped columns the user can correct */
+  fixableColumns: string[];
+  fixes: Record<number, Record<string, string>>;
+  onFix: (row: number, data: Record<string, string>) => void;
+}
+
+export function ImportIssuesTable({
+  issues,
+  fixableColumns,
+  fixes,
+  onFix,
+}: ImportIssuesTableProps) {
+  const [editingRow, setEditingRow] = useState<number | null>(null);
+  // Rows can have several issues; the editor opens under the first of them
+  const editorShown = new Set<number>();
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Row</TableHead>
+            <TableHead>Issue</TableHead>
+            <TableHead>Column</TableHead>
+            <TableHead>Reason</TableHead>
+            <TableHead></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {issues.map((issue, index) => {
+            const showEditor = editingRow === issue.row && !editorShown.has(issue.row);
+            if (showEditor) editorShown.add(issue.row);
+            return (
+              <Fragment key={index}>
+                <TableRow>
+                  <TableCell>{issue.row}</TableCell>
+                  <TableCell>
+                    <Badge variant={issue.skipped ? 'destructive' : 'secondary'}>
+                      {ISSUE_TYPE_LABELS[issue.type]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{issue.column}</TableCell>
+                  <TableCell className="text-sm">{issue.reason}</TableCell>
+                  <TableCell className="text-right">
+                    {issue.skipped &&
+                      (fixes[issue.row] ? (
+                        <Badge variant="outline">Fixed</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setEditingRow(issue.row)}
+                        >
+                          Fix
+                        </Button>
+                      ))}
+                  </TableCell>
+                </TableRow>
+                {showEditor && (
+                  <TableRow>
+                    <TableCell colSpan={5}>
+                      <RowFixEditor
+                        row={issue.row}
+                        data={issue.data}
+                        columns={fixableColumns}
+                        onSave={(data) => {
+                          onFix(issue.row, data);
+                          setEditingRow(null);
+                        }}
+                        onCancel={() => setEditingRow(null)}
+                      />
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Import Status Component
+ *
+ * Purpose: Shows the progress of a running CSV import with a cancel button,
+ * and the summary once the import finishes.
+ * Extracted from OptionsPage.tsx to maintain file size limits
+ *
+ * SRS Reference:
+ * - FR-1.2: CSV Parser Integration (import progress)
+ * - FR-1.5: Data Validation and Error Handling (import summary)
+ */
+
+import type { ParseProgress } from '@raffle-spinner/csv-parser';
+import { Alert, AlertDescription } from '@drawday/ui';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, Loader2, X } from 'lucide-react';
+
+interface ImportStatusProps {
+  isImporting: boolean;
+  progress: ParseProgress | null;
+  summary: { success: boolean; message: string } | null;
+  onCancel: () => void;
+}
+
+export function ImportStatus({ isImporting, progress, summary, onCancel }: ImportStatusProps) {
+  if (isImporting) {
+    const percent = progress?.totalBytes
+      ? Math.min(100, Math.round((progress.bytesProcessed / progress.totalBytes) * 100))
+      : 0;
+
+    return (
+      <div className="space-y-2 rounded-lg border border-border p-4">
+        <div className="flex items-center gap-3">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="flex-1 text-sm">
+            Importing entries... {progress?.rowsProcessed.toLocaleString() ?? 0} rows ({percent}%)
+          </span>
+          <Button size="sm" variant="outline" onClick={onCancel}>
+            <X className="h-4 w-4 mr-1" />
+            Cancel
+          </Button>
+        </div>
+        <div className="h-1.5 w-full overflow-hidden rounded bg-muted">
+          <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    );
+  }
+
+  if (!summary) return null;
+
+  return (
+    <Alert variant={summary.success ? 'default' : 'destructive'}>
+      {summary.success && <CheckCircle className="h-4 w-4" />}
+      <AlertDescription>{summary.message}</AlertDescription>
+    </Alert>
+  );
+}
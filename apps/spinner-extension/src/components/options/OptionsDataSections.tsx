@@ -0,0 +1,57 @@
+/**
+ * OptionsPage data sections
+ * Extracted from OptionsPageContent.tsx to maintain file size limits
+ *
+ * SRS Reference:
+ * - FR-2.4: Winner Display and Session History (auditable draw history)
+ * - Data Layer: Backup and restore
+ * - Data Layer: Cross-device sync
+ */
+
+import { CollapsibleCard } from '@drawday/ui';
+import { useCollapsibleState } from '@/contexts/CollapsibleStateContext';
+import { DrawAuditLog } from './DrawAuditLog';
+import { DataBackup } from './DataBackup';
+import { CloudSync } from './CloudSync';
+
+interface OptionsDataSectionsProps {
+  onToggle: (sectionKey: string) => void;
+}
+
+export function OptionsDataSections({ onToggle }: OptionsDataSectionsProps) {
+  const { collapsedSections } = useCollapsibleState();
+
+  return (
+    <>
+      <CollapsibleCard
+        sectionKey="audit"
+        title="Draw Audit Log"
+        description="Verify and export the tamper-evident record of every draw"
+        isCollapsed={collapsedSections.audit}
+        onToggle={onToggle}
+      >
+        <DrawAuditLog />
+      </CollapsibleCard>
+
+      <CollapsibleCard
+        sectionKey="backup"
+        title="Backup & Restore"
+        description="Export all data to a file or restore it on another computer"
+        isCollapsed={collapsedSections.backup}
+        onToggle={onToggle}
+      >
+        <DataBackup />
+      </CollapsibleCard>
+
+      <CollapsibleCard
+        sectionKey="sync"
+        title="Cloud Sync"
+        description="Keep competitions, mappings and your theme in sync across computers"
+        isCollapsed={collapsedSections.sync}
+        onToggle={onToggle}
+      >
+        <CloudSync />
+      </CollapsibleCard>
+    </>
+  );
+}
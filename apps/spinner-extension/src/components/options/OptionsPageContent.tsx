@@ -6,13 +6,17 @@
 import { CollapsibleCard } from '@drawday/ui';
 import { useCollapsibleState } from '@/contexts/CollapsibleStateContext';
 import { useSettings } from '@/contexts/SettingsContext';
-import { Competition, ColumnMapping } from '@raffle-spinner/storage';
+import { useCompetitions } from '@/contexts/CompetitionContext';
+import { Competition, ColumnMapping, Prize } from '@raffle-spinner/storage';
 import { CompetitionManagementContent } from './CompetitionManagementContent';
 import { SpinnerSettings } from './SpinnerSettings';
+import { StreamOverlaySettings } from './StreamOverlaySettings';
+import { SoundSettings } from './SoundSettings';
 import { SpinnerCustomization } from './SpinnerCustomization';
 import { ThemeColors } from './ThemeColors';
 import { BrandingSettings } from './BrandingSettings';
 import { SavedMappingsManager } from './SavedMappingsManager';
+import { OptionsDataSections } from './OptionsDataSections';
 
 interface OptionsPageContentProps {
   competitions: Competition[];
@@ -39,6 +43,7 @@ export function OptionsPageContent({
 }: OptionsPageContentProps) {
   const { collapsedSections, toggleSection } = useCollapsibleState();
   const { settings, updateSettings } = useSettings();
+  const { updateCompetition } = useCompetitions();
 
   // Type-safe wrapper for toggleSection
   const handleToggle = (sectionKey: string) => {
@@ -64,6 +69,7 @@ export function OptionsPageContent({
           onDeleteCompetition={onDeleteCompetition}
           onOpenMapper={onOpenMapper}
           onUpdateBanner={onUpdateBanner}
+          onUpdatePrizes={(id: string, prizes: Prize[]) => updateCompetition(id, { prizes })}
           onUpgradeClick={onUpgradeClick}
         />
       </CollapsibleCard>
@@ -71,11 +77,17 @@ export function OptionsPageContent({
       <CollapsibleCard
         sectionKey="settings"
         title="Spinner Settings"
-        description="Configure spin duration and physics"
+        description="Configure spin duration, physics and sound effects"
         isCollapsed={collapsedSections.settings}
         onToggle={handleToggle}
       >
         <SpinnerSettings settings={settings} onUpdate={updateSettings} />
+        <div className="mt-6">
+          <StreamOverlaySettings settings={settings} onUpdate={updateSettings} />
+        </div>
+        <div className="mt-6">
+          <SoundSettings />
+        </div>
       </CollapsibleCard>
 
       <CollapsibleCard
@@ -116,6 +128,8 @@ export function OptionsPageContent({
       >
         <SavedMappingsManager />
       </CollapsibleCard>
+
+      <OptionsDataSections onToggle={handleToggle} />
     </>
   );
 }
\ No newline at end of file
@@ -8,6 +8,7 @@ import { UserInfoBar } from '@drawday/ui';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { SubscriptionStatus } from '@/components/ui/subscription-status';
 import { CheckCircle } from 'lucide-react';
+import { StorageMigrationAlert } from './StorageMigrationAlert';
 
 interface ImportSummary {
   success: boolean;
@@ -53,6 +54,8 @@ export function OptionsPageLayout({
             </p>
           </div>
 
+          <StorageMigrationAlert />
+
           {importSummary && (
             <Alert variant={importSummary.success ? 'default' : 'destructive'}>
               {importSummary.success && <CheckCircle className="h-4 w-4" />}
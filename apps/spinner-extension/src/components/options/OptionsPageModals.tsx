@@ -3,10 +3,19 @@
  * Extracted from OptionsPage.tsx to improve file size and separation of concerns
  */
 
-import { Competition, ColumnMapping, SavedMapping } from '@raffle-spinner/storage';
+import {
+  Competition,
+  ColumnMapping,
+  Participant,
+  SavedMapping,
+  TicketNormalization,
+} from '@raffle-spinner/storage';
+import type { DuplicateResolution, DuplicateTicket } from '@raffle-spinner/csv-parser';
 import { CSVUploadModal } from './CSVUploadModal';
+import { SheetPickerDialog } from './SheetPickerDialog';
 import { ColumnMapper } from './ColumnMapper';
 import { DuplicateHandler } from './DuplicateHandler';
+import { ImportIssuesDialog } from './ImportIssuesDialog';
 import { TicketConversionDialog } from './TicketConversionDialog';
 import { DeleteConfirmDialog } from './DeleteConfirmDialog';
 
@@ -17,6 +26,12 @@ interface OptionsPageModalsProps {
   onNameModalClose: () => void;
   onNameConfirm: (name: string) => void;
   
+  // Sheet Picker (workbooks with several sheets)
+  sheetPicker: React.ComponentProps<typeof SheetPickerDialog>;
+
+  // Import Issues Review (rows skipped or holding suspicious values)
+  importReview: React.ComponentProps<typeof ImportIssuesDialog>;
+
   // Column Mapper Modal
   showMapperModal: boolean;
   detectedHeaders: string[];
@@ -28,19 +43,16 @@ interface OptionsPageModalsProps {
   
   // Duplicate Handler Modal
   showDuplicateModal: boolean;
-  duplicates: Array<{ ticketNumber: string; names: string[] }>;
-  onDuplicateProceed: () => void;
+  duplicates: DuplicateTicket[];
+  duplicateOverlaps: number;
+  onDuplicateProceed: (resolutions: Record<string, DuplicateResolution>) => void;
+  onDuplicateReport: (resolutions: Record<string, DuplicateResolution>) => void;
   onDuplicateCancel: () => void;
   
   // Ticket Conversion Modal
   showConversionModal: boolean;
-  ticketConversions: Array<{
-    original: string;
-    converted: string | null;
-    firstName: string;
-    lastName: string;
-  }>;
-  onConversionProceed: () => void;
+  pendingParticipants: Participant[];
+  onConversionProceed: (policy: TicketNormalization) => void;
   onConversionCancel: () => void;
   
   // Delete Confirmation Modal
@@ -55,6 +67,8 @@ export function OptionsPageModals({
   selectedFile,
   onNameModalClose,
   onNameConfirm,
+  sheetPicker,
+  importReview,
   showMapperModal,
   detectedHeaders,
   detectedMapping,
@@ -64,10 +78,12 @@ export function OptionsPageModals({
   onMappingConfirm,
   showDuplicateModal,
   duplicates,
+  duplicateOverlaps,
   onDuplicateProceed,
+  onDuplicateReport,
   onDuplicateCancel,
   showConversionModal,
-  ticketConversions,
+  pendingParticipants,
   onConversionProceed,
   onConversionCancel,
   showDeleteDialog,
@@ -84,6 +100,8 @@ export function OptionsPageModals({
         fileName={selectedFile?.name || ''}
       />
 
+      <SheetPickerDialog {...sheetPicker} />
+
       <ColumnMapper
         open={showMapperModal}
         onClose={onMapperModalClose}
@@ -97,13 +115,17 @@ export function OptionsPageModals({
       <DuplicateHandler
         open={showDuplicateModal}
         duplicates={duplicates}
+        overlappingTickets={duplicateOverlaps}
         onProceed={onDuplicateProceed}
+        onDownloadReport={onDuplicateReport}
         onCancel={onDuplicateCancel}
       />
 
+      <ImportIssuesDialog {...importReview} />
+
       <TicketConversionDialog
         open={showConversionModal}
-        conversions={ticketConversions}
+        participants={pendingParticipants}
         onProceed={onConversionProceed}
         onCancel={onConversionCancel}
       />
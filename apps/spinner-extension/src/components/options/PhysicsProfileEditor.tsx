@@ -0,0 +1,97 @@
+/**
+ * Physics Profile Editor Component
+ *
+ * Purpose: Picks the spin physics profile used by every spinner type and
+ * edits saved profiles, with a preview of the whole spin.
+ *
+ * SRS Reference:
+ * - FR-1.7: Spinner Physics Configuration (named physics profiles)
+ */
+
+import { useMemo } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SpinnerSettings as Settings } from '@raffle-spinner/storage';
+import { DECELERATION_CURVES, createProfileEasing } from '@raffle-spinner/spinner-physics';
+import { usePhysicsProfile } from '@/hooks/usePhysicsProfile';
+import { BezierCurveEditor } from './BezierCurveEditor';
+import { ProfileMotionFields } from './physics-profile/ProfileMotionFields';
+
+// One entry as a share of the spin, enlarged so overshoots show in the preview
+const PREVIEW_ITEM_FRACTION = 0.05;
+
+interface PhysicsProfileEditorProps {
+  settings: Settings;
+  onUpdate: (settings: Partial<Settings>) => void;
+}
+
+export function PhysicsProfileEditor({ settings, onUpdate }: PhysicsProfileEditorProps) {
+  const { profile, profiles, isSaved, selectProfile, updateProfile, deleteProfile } =
+    usePhysicsProfile(settings, onUpdate);
+  const { deceleration } = profile;
+  const preview = useMemo(() => createProfileEasing(profile, PREVIEW_ITEM_FRACTION), [profile]);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="physics-profile">Physics Profile</Label>
+        <div className="flex gap-2">
+          <Select value={profile.id} onValueChange={selectProfile}>
+            <SelectTrigger id="physics-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profile.id === 'custom' && (
+                <SelectItem value="custom">Custom (from basic settings)</SelectItem>
+              )}
+              {profiles.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isSaved && (
+            <Button variant="outline" size="icon" onClick={deleteProfile} title="Delete profile">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {isSaved
+            ? 'Changes are saved to this profile.'
+            : 'Changing a built-in profile saves your changes as a new profile.'}
+        </p>
+      </div>
+
+      {isSaved && (
+        <div className="space-y-2">
+          <Label htmlFor="physics-profile-name">Profile Name</Label>
+          <Input
+            id="physics-profile-name"
+            value={profile.name}
+            onChange={(e) => updateProfile({ name: e.target.value })}
+          />
+        </div>
+      )}
+
+      <ProfileMotionFields profile={profile} onChange={updateProfile} />
+
+      <BezierCurveEditor
+        value={deceleration.type === 'bezier' ? deceleration.curve : DECELERATION_CURVES.slow}
+        onChange={(curve) => updateProfile({ deceleration: { type: 'bezier', curve } })}
+        preview={preview}
+        curveEditable={deceleration.type === 'bezier'}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Prize Editor Dialog Component
+ *
+ * Purpose: Lets the user define a competition's prize tiers (name, quantity,
+ * draw order and optional image) for multi-prize draws.
+ *
+ * SRS Reference:
+ * - FR-1.6: Competition Management (prize tiers)
+ */
+
+import { useEffect, useState } from 'react';
+import type { Competition, Prize } from '@raffle-spinner/storage';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Plus } from 'lucide-react';
+import { PrizeRow } from './PrizeRow';
+
+interface PrizeEditorDialogProps {
+  competition: Competition | null;
+  onSave: (id: string, prizes: Prize[]) => void;
+  onClose: () => void;
+}
+
+const sortByOrder = (prizes: Prize[] = []) => [...prizes].sort((a, b) => a.order - b.order);
+
+export function PrizeEditorDialog({ competition, onSave, onClose }: PrizeEditorDialogProps) {
+  const [prizes, setPrizes] = useState<Prize[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPrizes(sortByOrder(competition?.prizes));
+    setError(null);
+  }, [competition]);
+
+  const updatePrize = (index: number, changes: Partial<Prize>) => {
+    setPrizes((prev) => prev.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const movePrize = (index: number, direction: -1 | 1) => {
+    setPrizes((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addPrize = () => {
+    setPrizes((prev) => [
+      ...prev,
+      { id: `prize-${Date.now()}`, name: '', quantity: 1, order: prev.length },
+    ]);
+  };
+
+  const handleSave = () => {
+    if (!competition) return;
+    if (prizes.some((p) => !p.name.trim() || p.quantity < 1)) {
+      setError('Every prize needs a name and a quantity of at least 1');
+      return;
+    }
+
+    const totalWinners = prizes.reduce((sum, p) => sum + p.quantity, 0);
+    if (totalWinners > competition.participants.length) {
+      setError(
+        `${totalWinners} winners cannot be drawn from ${competition.participants.length} entries`
+      );
+      return;
+    }
+
+    onSave(
+      competition.id,
+      prizes.map((p, order) => ({ ...p, name: p.name.trim(), order }))
+    );
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!competition} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Prizes for {competition?.name}</DialogTitle>
+          <DialogDescription>
+            Prizes are drawn from top to bottom. A ticket can only win one prize.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {prizes.map((prize, index) => (
+            <PrizeRow
+              key={prize.id}
+              prize={prize}
+              isFirst={index === 0}
+              isLast={index === prizes.length - 1}
+              onChange={(changes) => updatePrize(index, changes)}
+              onMove={(direction) => movePrize(index, direction)}
+              onRemove={() => setPrizes((prev) => prev.filter((_, i) => i !== index))}
+              onError={setError}
+            />
+          ))}
+          {prizes.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No prizes yet. Without prizes, each spin draws a single winner.
+            </p>
+          )}
+          <Button variant="outline" size="sm" onClick={addPrize}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add prize
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save prizes</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
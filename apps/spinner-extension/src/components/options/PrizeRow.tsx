@@ -0,0 +1,75 @@
+/**
+ * Prize Row Component
+ *
+ * Purpose: A single editable prize (name, quantity, image) with controls to
+ * move it up or down the draw order.
+ * Extracted from PrizeEditorDialog.tsx to maintain file size limits
+ */
+
+import type { Prize } from '@raffle-spinner/storage';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ImageUpload } from '@/components/ui/image-upload';
+import { ArrowDown, ArrowUp, Trash2 } from 'lucide-react';
+
+interface PrizeRowProps {
+  prize: Prize;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (changes: Partial<Prize>) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+  onError: (error: string) => void;
+}
+
+export function PrizeRow({
+  prize,
+  isFirst,
+  isLast,
+  onChange,
+  onMove,
+  onRemove,
+  onError,
+}: PrizeRowProps) {
+  return (
+    <div className="flex items-center gap-2 p-2 border rounded-lg">
+      <ImageUpload
+        value={prize.image}
+        onChange={(image) => onChange({ image })}
+        onError={onError}
+        height="h-12"
+        width="w-12"
+        className="shrink-0"
+        compact
+      />
+      <Input
+        placeholder="Prize name, e.g. £50 voucher"
+        value={prize.name}
+        onChange={(e) => onChange({ name: e.target.value })}
+        className="flex-1"
+      />
+      <Input
+        type="number"
+        min={1}
+        value={prize.quantity}
+        onChange={(e) => onChange({ quantity: parseInt(e.target.value, 10) || 0 })}
+        className="w-20"
+        aria-label="Quantity"
+      />
+      <Button variant="ghost" size="icon" onClick={() => onMove(-1)} disabled={isFirst}>
+        <ArrowUp className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={() => onMove(1)} disabled={isLast}>
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onRemove}
+        className="text-destructive hover:text-destructive/90"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
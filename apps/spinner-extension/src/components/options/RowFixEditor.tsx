@@ -0,0 +1,55 @@
+/**
+ * Row Fix Editor Component
+ *
+ * Purpose: Inline editor for the mapped cells of a skipped import row, so
+ * a missing name or ticket can be filled in before the competition is
+ * created.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (row validation report)
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface RowFixEditorProps {
+  row: number;
+  data: Record<string, string>;
+  /** Mapped columns the user can correct */
+  columns: string[];
+  onSave: (data: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+export function RowFixEditor({ row, data, columns, onSave, onCancel }: RowFixEditorProps) {
+  const [values, setValues] = useState(data);
+
+  return (
+    <div className="space-y-3 rounded-md bg-muted p-3">
+      <div className="grid grid-cols-2 gap-3">
+        {columns.map((column) => (
+          <div key={column} className="space-y-1">
+            <Label htmlFor={`fix-${row}-${column}`} className="text-xs">
+              {column}
+            </Label>
+            <Input
+              id={`fix-${row}-${column}`}
+              value={values[column] ?? ''}
+              onChange={(e) => setValues({ ...values, [column]: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={() => onSave(values)}>
+          Save Fix
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Sheet Picker Dialog Component
+ *
+ * Purpose: Asks which sheet holds the entries when an imported workbook
+ * (XLSX/XLS/ODS) has more than one sheet.
+ *
+ * SRS Reference:
+ * - FR-1.1: CSV File Upload Interface (spreadsheet import)
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+
+interface SheetPickerDialogProps {
+  /** Sheets to choose from; the dialog is closed while empty */
+  sheetNames: string[];
+  onSelect: (sheetName: string) => void;
+  onCancel: () => void;
+}
+
+export function SheetPickerDialog({ sheetNames, onSelect, onCancel }: SheetPickerDialogProps) {
+  const [selected, setSelected] = useState('');
+
+  useEffect(() => {
+    setSelected(sheetNames[0] ?? '');
+  }, [sheetNames]);
+
+  return (
+    <Dialog open={sheetNames.length > 0} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Choose a Sheet</DialogTitle>
+          <DialogDescription>
+            This workbook has {sheetNames.length} sheets. Pick the one that holds the entries.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={selected} onValueChange={setSelected} className="py-4">
+          {sheetNames.map((sheetName, index) => (
+            <div key={sheetName} className="flex items-center space-x-2">
+              <RadioGroupItem value={sheetName} id={`sheet-${index}`} />
+              <Label htmlFor={`sheet-${index}`}>{sheetName}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSelect(selected)} disabled={!selected}>
+            Use Sheet
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
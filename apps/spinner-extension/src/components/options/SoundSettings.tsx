@@ -0,0 +1,175 @@
+/**
+ * Sound Settings Component
+ *
+ * Purpose: Chooses the sound pack played during a draw, sets the volume or
+ * mutes it, and lets clients replace any sound with their own upload.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (sound effects)
+ */
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AudioUpload } from '@/components/ui/audio-upload';
+import { useTheme } from '@/contexts/ThemeContext';
+import { createSoundEngine } from '@/lib/sound-engine';
+import { DEFAULT_AUDIO, SOUND_EFFECT_LABELS, SOUND_PACKS } from '@/lib/sound-packs';
+import type { SoundEffect } from '@raffle-spinner/storage';
+import { AlertCircle, Play, Volume2 } from 'lucide-react';
+
+// How long the drum roll preview plays
+const DRUM_ROLL_PREVIEW = 1500;
+
+const SOUND_EFFECTS = Object.keys(SOUND_EFFECT_LABELS) as SoundEffect[];
+
+interface SoundRowProps {
+  effect: SoundEffect;
+  customSound?: string;
+  disabled: boolean;
+  onPreview: () => void;
+  onChange: (value: string | undefined) => void;
+  onError: (error: string) => void;
+}
+
+function SoundRow({ effect, customSound, disabled, onPreview, onChange, onError }: SoundRowProps) {
+  const label = SOUND_EFFECT_LABELS[effect];
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          variant="ghost"
+          type="button"
+          onClick={onPreview}
+          disabled={disabled}
+          title={`Preview ${label.toLowerCase()}`}
+        >
+          <Play className="h-4 w-4" />
+        </Button>
+        <span className="text-sm">{label}</span>
+      </div>
+      <AudioUpload value={customSound} onChange={onChange} onError={onError} />
+    </div>
+  );
+}
+
+export function SoundSettings() {
+  const { theme, updateAudio } = useTheme();
+  const audio = theme.audio ?? DEFAULT_AUDIO;
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [engine] = useState(createSoundEngine);
+
+  useEffect(() => () => engine.close(), [engine]);
+
+  useEffect(() => {
+    engine.configure(audio);
+  }, [engine, audio]);
+
+  const preview = async (effect: SoundEffect) => {
+    await engine.resume();
+    if (effect === 'tick') {
+      engine.playTick();
+    } else if (effect === 'fanfare') {
+      engine.playFanfare();
+    } else {
+      engine.startDrumRoll();
+      setTimeout(engine.stopDrumRoll, DRUM_ROLL_PREVIEW);
+    }
+  };
+
+  const updateCustomSound = (effect: SoundEffect, value: string | undefined) => {
+    setUploadError(null);
+    updateAudio({ customSounds: { ...audio.customSounds, [effect]: value } });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Volume2 className="h-5 w-5" />
+          Sound Effects
+        </CardTitle>
+        <CardDescription>
+          A tick as each entry passes the center, a drum roll as the spinner slows and a fanfare for
+          the winner
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {uploadError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{uploadError}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="mute-sounds"
+            checked={audio.muted}
+            onCheckedChange={(muted) => updateAudio({ muted })}
+          />
+          <Label htmlFor="mute-sounds">Mute sound effects</Label>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sound-volume">Volume: {Math.round(audio.volume * 100)}%</Label>
+          <Slider
+            id="sound-volume"
+            min={0}
+            max={1}
+            step={0.05}
+            value={[audio.volume]}
+            onValueChange={([volume]) => updateAudio({ volume })}
+            disabled={audio.muted}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Sound Pack</Label>
+          <Select value={audio.pack} onValueChange={(pack) => updateAudio({ pack })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SOUND_PACKS.map((pack) => (
+                <SelectItem key={pack.id} value={pack.id}>
+                  {pack.name} - {pack.description}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Sounds</Label>
+          <p className="text-xs text-muted-foreground">
+            Upload your own sound to replace the pack&apos;s. Uploads are stored with your theme.
+          </p>
+          {SOUND_EFFECTS.map((effect) => (
+            <SoundRow
+              key={effect}
+              effect={effect}
+              customSound={audio.customSounds?.[effect]}
+              disabled={audio.muted}
+              onPreview={() => preview(effect)}
+              onChange={(value) => updateCustomSound(effect, value)}
+              onError={setUploadError}
+            />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
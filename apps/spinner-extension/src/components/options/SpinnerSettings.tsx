@@ -2,10 +2,12 @@
  * Spinner Settings Component
  *
  * Purpose: User interface for configuring spinner physics parameters including
- * total rotations and animation curve for complete control over spin behavior.
+ * total rotations and the physics profile for complete control over spin behavior,
+ * plus how the winner is revealed and announced once the spin stops.
  *
  * SRS Reference:
  * - FR-1.7: Spinner Physics Configuration
+ * - FR-2.2: Winner Selection and Animation (winner reveal, spoken announcement)
  */
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,8 +15,18 @@ import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { SpinnerSettings as Settings } from '@raffle-spinner/storage';
 import { InfoTooltip } from '@/components/ui/info-tooltip';
-import { BezierCurveEditor } from './BezierCurveEditor';
+import { PhysicsProfileEditor } from './PhysicsProfileEditor';
+import { WinnerRevealSettings } from './WinnerRevealSettings';
+import { AnnouncementSettings } from './AnnouncementSettings';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { usePhysicsProfile } from '@/hooks/usePhysicsProfile';
+
+// Quick presets pick a built-in physics profile and a matching duration
+const QUICK_PRESETS = [
+  { label: 'Quick Draw', minSpinDuration: 2, physicsProfileId: 'quick-draw' },
+  { label: 'Standard', minSpinDuration: 3, physicsProfileId: 'standard' },
+  { label: 'Dramatic', minSpinDuration: 5, physicsProfileId: 'dramatic' },
+];
 
 interface SpinnerSettingsProps {
   settings: Settings;
@@ -22,9 +34,12 @@ interface SpinnerSettingsProps {
 }
 
 export function SpinnerSettings({ settings, onUpdate }: SpinnerSettingsProps) {
-  // Default values for new settings
-  const spinRotations = settings.spinRotations || 5;
-  const bezierCurve = settings.bezierCurve || { x1: 0.42, y1: 0, x2: 0.58, y2: 1.0 };
+  const { profile, updateProfile } = usePhysicsProfile(settings, onUpdate);
+  const spinRotations = profile.rotations;
+
+  // Settings without a profile keep their rotations in spinRotations
+  const updateRotations = (rotations: number) =>
+    profile.id === 'custom' ? onUpdate({ spinRotations: rotations }) : updateProfile({ rotations });
 
   return (
     <Card>
@@ -36,9 +51,11 @@ export function SpinnerSettings({ settings, onUpdate }: SpinnerSettingsProps) {
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="basic" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="basic">Basic Settings</TabsTrigger>
-            <TabsTrigger value="advanced">Animation Curve</TabsTrigger>
+            <TabsTrigger value="advanced">Physics Profile</TabsTrigger>
+            <TabsTrigger value="reveal">Winner Reveal</TabsTrigger>
+            <TabsTrigger value="announcement">Announcement</TabsTrigger>
           </TabsList>
 
           <TabsContent value="basic" className="space-y-6">
@@ -78,7 +95,7 @@ export function SpinnerSettings({ settings, onUpdate }: SpinnerSettingsProps) {
                 max={15}
                 step={1}
                 value={[spinRotations]}
-                onValueChange={([value]) => onUpdate({ spinRotations: value })}
+                onValueChange={([value]) => updateRotations(value)}
                 className="w-full"
               />
               <p className="text-xs text-muted-foreground">
@@ -90,36 +107,15 @@ export function SpinnerSettings({ settings, onUpdate }: SpinnerSettingsProps) {
             <div className="space-y-2">
               <Label>Quick Presets</Label>
               <div className="grid grid-cols-3 gap-2">
-                <button
-                  onClick={() => onUpdate({
-                    minSpinDuration: 2,
-                    spinRotations: 3,
-                    bezierCurve: { x1: 0, y1: 0, x2: 0.58, y2: 1 }
-                  })}
-                  className="px-3 py-2 text-sm bg-secondary hover:bg-secondary/80 rounded-md transition-colors"
-                >
-                  Quick Draw
-                </button>
-                <button
-                  onClick={() => onUpdate({
-                    minSpinDuration: 3,
-                    spinRotations: 5,
-                    bezierCurve: { x1: 0.42, y1: 0, x2: 0.58, y2: 1 }
-                  })}
-                  className="px-3 py-2 text-sm bg-secondary hover:bg-secondary/80 rounded-md transition-colors"
-                >
-                  Standard
-                </button>
-                <button
-                  onClick={() => onUpdate({
-                    minSpinDuration: 5,
-                    spinRotations: 8,
-                    bezierCurve: { x1: 0.2, y1: 0.9, x2: 0.8, y2: 0.1 }
-                  })}
-                  className="px-3 py-2 text-sm bg-secondary hover:bg-secondary/80 rounded-md transition-colors"
-                >
-                  Dramatic
-                </button>
+                {QUICK_PRESETS.map(({ label, ...preset }) => (
+                  <button
+                    key={label}
+                    onClick={() => onUpdate(preset)}
+                    className="px-3 py-2 text-sm bg-secondary hover:bg-secondary/80 rounded-md transition-colors"
+                  >
+                    {label}
+                  </button>
+                ))}
               </div>
             </div>
           </TabsContent>
@@ -127,15 +123,20 @@ export function SpinnerSettings({ settings, onUpdate }: SpinnerSettingsProps) {
           <TabsContent value="advanced" className="space-y-4">
             <div className="space-y-2">
               <p className="text-sm text-muted-foreground">
-                Fine-tune the acceleration and deceleration of your spinner by adjusting the
-                animation curve. Drag the control points or use the sliders below.
+                Fine-tune how your spinner speeds up, slows down and lands. Profiles apply to
+                every spinner type.
               </p>
             </div>
 
-            <BezierCurveEditor
-              value={bezierCurve}
-              onChange={(curve) => onUpdate({ bezierCurve: curve })}
-            />
+            <PhysicsProfileEditor settings={settings} onUpdate={onUpdate} />
+          </TabsContent>
+
+          <TabsContent value="reveal">
+            <WinnerRevealSettings settings={settings} onUpdate={onUpdate} />
+          </TabsContent>
+
+          <TabsContent value="announcement">
+            <AnnouncementSettings settings={settings} onUpdate={onUpdate} />
           </TabsContent>
         </Tabs>
       </CardContent>
@@ -0,0 +1,67 @@
+/**
+ * Storage Migration Alert Component
+ *
+ * Purpose: Reports a stored data upgrade that failed after an extension
+ * update, and lets the user download the backup of their original data.
+ *
+ * SRS Reference:
+ * - Data Layer: Storage schema versioning
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  clearSchemaMigrationReport,
+  getSchemaMigrationBackup,
+  getSchemaMigrationReport,
+  type SchemaMigrationReport,
+} from '@raffle-spinner/storage';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertCircle } from 'lucide-react';
+import { downloadFile } from '@/utils/download';
+
+export function StorageMigrationAlert() {
+  const [report, setReport] = useState<SchemaMigrationReport | null>(null);
+
+  useEffect(() => {
+    getSchemaMigrationReport().then(setReport);
+  }, []);
+
+  if (!report) {
+    return null;
+  }
+
+  const handleDownload = async () => {
+    const backup = await getSchemaMigrationBackup(report);
+    downloadFile(
+      JSON.stringify({ report, backup }, null, 2),
+      `raffle-spinner-backup-v${report.fromVersion}.json`,
+      'application/json'
+    );
+  };
+
+  const handleDismiss = async () => {
+    await clearSchemaMigrationReport();
+    setReport(null);
+  };
+
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription className="space-y-2">
+        <p>
+          Your saved data could not be upgraded to this version (step {report.failedVersion}:{' '}
+          {report.error}). It has not been changed, and a backup was saved before the upgrade.
+        </p>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={handleDownload}>
+            Download Backup
+          </Button>
+          <Button size="sm" variant="ghost" onClick={handleDismiss}>
+            Dismiss
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
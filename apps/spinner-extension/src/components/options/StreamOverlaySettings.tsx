@@ -0,0 +1,107 @@
+/**
+ * Stream Overlay Settings Component
+ *
+ * Purpose: Output resolution and background for the OBS/live stream overlay
+ * that the side panel opens.
+ *
+ * SRS Reference:
+ * - FR-2.1: Side Panel Interface (streaming overlay)
+ */
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { InfoTooltip } from '@/components/ui/info-tooltip';
+import type { SpinnerSettings, StreamOverlaySettings as Overlay } from '@raffle-spinner/storage';
+import { getStreamOverlay, OVERLAY_RESOLUTIONS } from '@/lib/stream-overlay';
+
+interface StreamOverlaySettingsProps {
+  settings: SpinnerSettings;
+  onUpdate: (settings: Partial<SpinnerSettings>) => void;
+}
+
+export function StreamOverlaySettings({ settings, onUpdate }: StreamOverlaySettingsProps) {
+  const overlay = getStreamOverlay(settings);
+  const resolution = `${overlay.width}x${overlay.height}`;
+
+  const updateOverlay = (changes: Partial<Overlay>) => {
+    onUpdate({ streamOverlay: { ...overlay, ...changes } });
+  };
+
+  const handleResolutionChange = (value: string) => {
+    const [width, height] = value.split('x').map(Number);
+    updateOverlay({ width, height });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Streaming Overlay</CardTitle>
+        <CardDescription>
+          Output for OBS and live streams. Capture the overlay window and key out its background.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Resolution</Label>
+          <Select value={resolution} onValueChange={handleResolutionChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OVERLAY_RESOLUTIONS.map((option) => (
+                <SelectItem key={option.label} value={`${option.width}x${option.height}`}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Label>Background</Label>
+            <InfoTooltip content="Use a chroma key filter in OBS for window capture. Transparent only works where the capture keeps the alpha channel." />
+          </div>
+          <RadioGroup
+            value={overlay.background}
+            onValueChange={(value) => updateOverlay({ background: value as Overlay['background'] })}
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="chroma" id="overlay-chroma" />
+              <Label htmlFor="overlay-chroma">Chroma key</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="transparent" id="overlay-transparent" />
+              <Label htmlFor="overlay-transparent">Transparent</Label>
+            </div>
+          </RadioGroup>
+        </div>
+
+        {overlay.background === 'chroma' && (
+          <div className="space-y-2">
+            <Label htmlFor="overlay-chroma-color">Key colour</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="overlay-chroma-color"
+                type="color"
+                value={overlay.chromaColor}
+                onChange={(e) => updateOverlay({ chromaColor: e.target.value })}
+                className="w-16 p-1"
+              />
+              <span className="text-sm font-mono text-muted-foreground">{overlay.chromaColor}</span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * Ticket Collision Report Component
+ *
+ * Purpose: Lists the distinct tickets that the chosen matching rules would
+ * merge into one, so the user can loosen the rules before importing.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (ticket identity)
+ */
+
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { TicketCollision } from '@/utils/ticket-identity';
+
+// Collisions listed before the rest are summarised
+const MAX_ROWS = 10;
+
+interface TicketCollisionReportProps {
+  collisions: TicketCollision[];
+}
+
+export function TicketCollisionReport({ collisions }: TicketCollisionReportProps) {
+  if (collisions.length === 0) return null;
+
+  const mergedCount = collisions.reduce((sum, c) => sum + c.participants.length - 1, 0);
+
+  return (
+    <div className="space-y-2">
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>
+          <strong>These rules merge {collisions.length} group(s) of distinct tickets.</strong> Only
+          the first entry in each group is kept, so {mergedCount} entries will be dropped.
+        </AlertDescription>
+      </Alert>
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Matched As</TableHead>
+              <TableHead>Tickets</TableHead>
+              <TableHead>Names</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {collisions.slice(0, MAX_ROWS).map(({ key, participants }) => (
+              <TableRow key={key}>
+                <TableCell className="font-mono font-semibold">{key}</TableCell>
+                <TableCell className="font-mono">
+                  {participants.map((p) => p.ticketNumber).join(', ')}
+                </TableCell>
+                <TableCell>
+                  {participants.map((p) => `${p.firstName} ${p.lastName}`.trim()).join(', ')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {collisions.length > MAX_ROWS && (
+        <p className="text-sm text-muted-foreground">
+          ... and {collisions.length - MAX_ROWS} more collisions
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,16 @@
 /**
  * Ticket Conversion Dialog Component
  *
- * Purpose: Shows a preview of non-numeric ticket conversions and allows
- * the user to proceed or cancel the import.
+ * Purpose: Shown when imported tickets contain letters, separators or leading
+ * zeros. Tickets are kept as entered; the user chooses the competition's
+ * matching rules, previews how tickets will be matched and reviews any
+ * distinct tickets the rules would merge before proceeding.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (ticket identity)
  */
 
+import { useMemo, useState } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -14,6 +20,8 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { AlertCircle, ArrowRight } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { InfoTooltip } from '@/components/ui/info-tooltip';
@@ -26,113 +34,141 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-
-export interface TicketConversion {
-  original: string;
-  converted: string | null;
-  firstName: string;
-  lastName: string;
-}
+import type { Participant, TicketNormalization } from '@raffle-spinner/storage';
+import {
+  DEFAULT_TICKET_NORMALIZATION,
+  TICKET_NORMALIZATION_OPTIONS,
+  applyTicketNormalization,
+  getTicketKey,
+} from '@/utils/ticket-identity';
+import { TicketCollisionReport } from './TicketCollisionReport';
 
 interface TicketConversionDialogProps {
   open: boolean;
-  conversions: TicketConversion[];
-  onProceed: () => void;
+  participants: Participant[];
+  onProceed: (policy: TicketNormalization) => void;
   onCancel: () => void;
 }
 
+function MatchingPreview({
+  participants,
+  policy,
+}: {
+  participants: Participant[];
+  policy: TicketNormalization;
+}) {
+  const changed = participants
+    .map((p) => ({ participant: p, key: getTicketKey(p.ticketNumber, policy) }))
+    .filter(({ participant, key }) => key && key !== participant.ticketNumber);
+
+  if (changed.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Every ticket will be matched exactly as entered.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Tickets are shown as entered and matched when typed as:</p>
+      <div className="border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Ticket</TableHead>
+              <TableHead></TableHead>
+              <TableHead>Matched As</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changed.slice(0, 10).map(({ participant, key }, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  {participant.firstName} {participant.lastName}
+                </TableCell>
+                <TableCell className="font-mono">{participant.ticketNumber}</TableCell>
+                <TableCell>
+                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                </TableCell>
+                <TableCell className="font-mono font-semibold text-green-600">{key}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {changed.length > 10 && (
+        <p className="text-sm text-muted-foreground">... and {changed.length - 10} more tickets</p>
+      )}
+    </div>
+  );
+}
+
 export function TicketConversionDialog({
   open,
-  conversions,
+  participants,
   onProceed,
   onCancel,
 }: TicketConversionDialogProps) {
-  const invalidTickets = conversions.filter((c) => !c.converted);
-  const validConversions = conversions.filter((c) => c.converted);
+  const [policy, setPolicy] = useState<TicketNormalization>(DEFAULT_TICKET_NORMALIZATION);
+  const outcome = useMemo(
+    () => applyTicketNormalization(participants, policy),
+    [participants, policy]
+  );
 
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
       <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
-            Non-Numeric Ticket Numbers Detected
+            Review Ticket Matching
             <InfoTooltip {...helpContent.ticketHandling.nonNumeric} />
           </DialogTitle>
           <DialogDescription>
-            We found ticket numbers containing letters or special characters. We only support
-            numeric tickets and will extract the numeric portion where possible.
+            Some tickets contain letters, symbols or leading zeros. They are kept exactly as
+            entered; choose which differences to ignore when a ticket number is typed in for a draw.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 py-4">
-          {invalidTickets.length > 0 && (
+          <div className="grid grid-cols-2 gap-3">
+            {TICKET_NORMALIZATION_OPTIONS.map(({ key, label, example }) => (
+              <div key={key} className="flex items-start space-x-2">
+                <Checkbox
+                  id={`ticket-policy-${key}`}
+                  checked={policy[key]}
+                  onCheckedChange={(checked) => setPolicy({ ...policy, [key]: checked === true })}
+                />
+                <Label htmlFor={`ticket-policy-${key}`} className="font-normal cursor-pointer">
+                  {label}
+                  <span className="block text-xs text-muted-foreground">{example}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          {outcome.unmatchable.length > 0 && (
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
-                <strong>{invalidTickets.length} ticket(s) cannot be converted</strong> because they
-                contain no numeric characters. These entries will be skipped.
+                <strong>{outcome.unmatchable.length} ticket(s) cannot be matched</strong> because
+                these rules leave nothing to match on. These entries will be skipped.
               </AlertDescription>
             </Alert>
           )}
 
-          {validConversions.length > 0 && (
-            <div className="space-y-2">
-              <p className="text-sm font-medium">
-                The following tickets will be converted to numeric format:
-              </p>
-              <div className="border rounded-lg overflow-hidden">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Name</TableHead>
-                      <TableHead>Original Ticket</TableHead>
-                      <TableHead></TableHead>
-                      <TableHead>Converted Ticket</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {validConversions.slice(0, 10).map((conversion, index) => (
-                      <TableRow key={index}>
-                        <TableCell>
-                          {conversion.firstName} {conversion.lastName}
-                        </TableCell>
-                        <TableCell className="font-mono">{conversion.original}</TableCell>
-                        <TableCell>
-                          <ArrowRight className="h-4 w-4 text-muted-foreground" />
-                        </TableCell>
-                        <TableCell className="font-mono font-semibold text-green-600">
-                          {conversion.converted}
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-              {validConversions.length > 10 && (
-                <p className="text-sm text-muted-foreground">
-                  ... and {validConversions.length - 10} more conversions
-                </p>
-              )}
-            </div>
-          )}
+          <TicketCollisionReport collisions={outcome.collisions} />
 
-          <div className="bg-muted border rounded-lg p-3">
-            <p className="text-sm text-muted-foreground">
-              <strong className="text-foreground">Examples of conversion:</strong>
-              <br />• {'"ABC123"'} → {'"123"'}
-              <br />• {'"T-456-X"'} → {'"456"'}
-              <br />• {'"00789"'} → {'"789"'}
-              <br />• {'"TICKET"'} → (skipped - no numbers)
-            </p>
-          </div>
+          <MatchingPreview participants={participants} policy={policy} />
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={onCancel}>
             Cancel Import
           </Button>
-          <Button onClick={onProceed} disabled={validConversions.length === 0}>
-            Proceed with {validConversions.length} Valid Entries
+          <Button onClick={() => onProceed(policy)} disabled={outcome.participants.length === 0}>
+            Proceed with {outcome.participants.length} Entries
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,80 @@
+/**
+ * Ticket Expansion Columns Component
+ *
+ * Purpose: Optional column selectors for entry lists with one row per
+ * participant rather than one row per ticket: a ticket quantity column and a
+ * ticket list/range column ("12, 15, 19" or "100-104").
+ * Extracted from ColumnMapper.tsx to maintain file size limits
+ *
+ * SRS Reference:
+ * - FR-1.4: Column Mapping Interface
+ */
+
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ColumnMapping } from '@raffle-spinner/storage';
+
+// Select items can't have an empty value
+const NO_COLUMN = '__none__';
+
+type ExpansionField = 'quantity' | 'ticketRange';
+
+const FIELDS: Array<{ field: ExpansionField; label: string; hint: string }> = [
+  {
+    field: 'quantity',
+    label: 'Ticket Quantity Column (optional)',
+    hint: 'Tickets per row, counted up from the ticket number (e.g. 3 tickets from 0100).',
+  },
+  {
+    field: 'ticketRange',
+    label: 'Ticket List / Range Column (optional)',
+    hint: 'Lists like "12, 15, 19" or ranges like "100-104". Used instead of the ticket number when filled.',
+  },
+];
+
+interface TicketExpansionColumnsProps {
+  headers: string[];
+  mapping: Partial<ColumnMapping>;
+  onChange: (mapping: Partial<ColumnMapping>) => void;
+}
+
+export function TicketExpansionColumns({
+  headers,
+  mapping,
+  onChange,
+}: TicketExpansionColumnsProps) {
+  return (
+    <>
+      {FIELDS.map(({ field, label, hint }) => (
+        <div key={field} className="space-y-2">
+          <Label htmlFor={field}>{label}</Label>
+          <Select
+            value={mapping[field] || NO_COLUMN}
+            onValueChange={(value) =>
+              onChange({ ...mapping, [field]: value === NO_COLUMN ? undefined : value })
+            }
+          >
+            <SelectTrigger id={field}>
+              <SelectValue placeholder="None" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COLUMN}>None</SelectItem>
+              {headers.map((header) => (
+                <SelectItem key={header} value={header}>
+                  {header}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{hint}</p>
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * Update Entries Dialog Component
+ *
+ * Purpose: Shows the differences between a competition's entries and a newly
+ * imported file (added, removed and renamed tickets) for approval before the
+ * update is saved. Row issues and duplicates are reviewed in the import
+ * dialogs first.
+ *
+ * SRS Reference:
+ * - FR-1.6: Competition Management (entry updates)
+ */
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { hasParticipantChanges } from '@raffle-spinner/csv-parser';
+import type { EntryUpdateState } from '@/utils/entry-update';
+
+// Long lists are cut short; the counts above them stay exact
+const MAX_LISTED = 100;
+
+interface DiffSectionProps {
+  title: string;
+  items: string[];
+}
+
+function DiffSection({ title, items }: DiffSectionProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium">
+        {title} ({items.length})
+      </p>
+      <ul className="max-h-32 overflow-y-auto rounded-md border p-2 text-xs space-y-0.5">
+        {items.slice(0, MAX_LISTED).map((item) => (
+          <li key={item}>{item}</li>
+        ))}
+        {items.length > MAX_LISTED && (
+          <li className="text-muted-foreground">…and {items.length - MAX_LISTED} more</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+function DiffReview({ state }: { state: Extract<EntryUpdateState, { stage: 'review' }> }) {
+  const { competition, diff, skippedRows, mergedTickets } = state;
+  const wonTickets = new Set(competition.prizeWinners?.map((w) => w.ticketNumber));
+  const removedWinners = diff.removed.filter((p) => wonTickets.has(p.ticketNumber)).length;
+
+  if (!hasParticipantChanges(diff)) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No changes found. The entry list is already up to date.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        {diff.added.length} added · {diff.removed.length} removed · {diff.changed.length} changed ·{' '}
+        {diff.unchanged} unchanged
+      </p>
+      {removedWinners > 0 && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {removedWinners} removed tickets have already won a prize. Their wins are kept.
+          </AlertDescription>
+        </Alert>
+      )}
+      {skippedRows > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {skippedRows} rows in the file are left out of the update.
+        </p>
+      )}
+      {mergedTickets > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {mergedTickets} tickets match another ticket under this competition&apos;s matching rules;
+          the first entry for each is used.
+        </p>
+      )}
+      <DiffSection
+        title="Added"
+        items={diff.added.map((p) => `#${p.ticketNumber} ${p.firstName} ${p.lastName}`)}
+      />
+      <DiffSection
+        title="Removed"
+        items={diff.removed.map((p) => `#${p.ticketNumber} ${p.firstName} ${p.lastName}`)}
+      />
+      <DiffSection
+        title="Changed"
+        items={diff.changed.map(
+          ({ ticketNumber, before, after }) =>
+            `#${ticketNumber} ${before.firstName} ${before.lastName} → ${after.firstName} ${after.lastName}`
+        )}
+      />
+    </div>
+  );
+}
+
+interface UpdateEntriesDialogProps {
+  state: EntryUpdateState | null;
+  onApprove: () => void;
+  onCancel: () => void;
+}
+
+export function UpdateEntriesDialog({ state, onApprove, onCancel }: UpdateEntriesDialogProps) {
+  const canApprove = state?.stage === 'review' && hasParticipantChanges(state.diff);
+  // Row issues and duplicates open their own dialogs
+  const open = state?.stage === 'reading' || state?.stage === 'review' || state?.stage === 'error';
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Update Entries</DialogTitle>
+          <DialogDescription>
+            {state?.competition.name}
+            {state?.stage !== 'error' && state?.fileName && ` from ${state.fileName}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {state?.stage === 'reading' && (
+          <div className="flex items-center gap-2 py-4 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Reading entries…
+          </div>
+        )}
+        {state?.stage === 'error' && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{state.message}</AlertDescription>
+          </Alert>
+        )}
+        {state?.stage === 'review' && <DiffReview state={state} />}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={onApprove} disabled={!canApprove}>
+            Apply Update
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * Winner Reveal Settings Component
+ *
+ * Purpose: Picks how the winner is revealed once the spin stops, from an
+ * instant reveal to a suspenseful step-by-step reveal driven by the
+ * reveal shortcut (W).
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (winner reveal)
+ */
+
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import type { RevealMode, SpinnerSettings } from '@raffle-spinner/storage';
+import { DEFAULT_REVEAL_MODE, REVEAL_MODE_OPTIONS } from '@/utils/winner-reveal';
+
+interface WinnerRevealSettingsProps {
+  settings: SpinnerSettings;
+  onUpdate: (settings: Partial<SpinnerSettings>) => void;
+}
+
+export function WinnerRevealSettings({ settings, onUpdate }: WinnerRevealSettingsProps) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Choose how the winner appears when the spin stops. Apart from Instant, press W in the side
+        panel to reveal the next part, and once more to dismiss the winner.
+      </p>
+      <RadioGroup
+        value={settings.revealMode ?? DEFAULT_REVEAL_MODE}
+        onValueChange={(value) => onUpdate({ revealMode: value as RevealMode })}
+      >
+        {REVEAL_MODE_OPTIONS.map((option) => (
+          <div key={option.value} className="flex items-start gap-2">
+            <RadioGroupItem value={option.value} id={`reveal-${option.value}`} className="mt-0.5" />
+            <Label htmlFor={`reveal-${option.value}`} className="space-y-0.5">
+              <span>{option.label}</span>
+              <p className="text-xs text-muted-foreground font-normal">{option.description}</p>
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+}
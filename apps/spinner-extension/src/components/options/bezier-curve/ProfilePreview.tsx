@@ -0,0 +1,62 @@
+import { useEffect, useRef } from 'react';
+
+// Vertical space above the end position, so overshoots stay visible
+const HEADROOM = 0.15;
+
+interface ProfilePreviewProps {
+  easing: (t: number) => number;
+}
+
+/**
+ * Plots distance travelled over the whole spin, including the acceleration
+ * phase, near-miss overshoot and spring bounces.
+ */
+export function ProfilePreview({ easing }: ProfilePreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { width, height } = canvas;
+    const toY = (value: number) => height - (value / (1 + HEADROOM)) * height;
+
+    ctx.clearRect(0, 0, width, height);
+
+    // Winner position
+    ctx.strokeStyle = '#6B7280';
+    ctx.setLineDash([5, 5]);
+    ctx.beginPath();
+    ctx.moveTo(0, toY(1));
+    ctx.lineTo(width, toY(1));
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = '#10B981';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(0, toY(0));
+    for (let x = 1; x <= width; x++) {
+      ctx.lineTo(x, toY(easing(x / width)));
+    }
+    ctx.stroke();
+
+    ctx.fillStyle = '#F9FAFB';
+    ctx.font = '12px sans-serif';
+    ctx.fillText('Winner', 5, toY(1) - 5);
+  }, [easing]);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Full Spin Preview</label>
+      <div className="bg-gray-900 rounded-lg p-4">
+        <canvas ref={canvasRef} width={300} height={120} />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Distance travelled over the spin. Overshoots and bounces are enlarged so they are easy to
+        see.
+      </p>
+    </div>
+  );
+}
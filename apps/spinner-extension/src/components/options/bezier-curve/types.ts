@@ -8,6 +8,8 @@ export interface BezierCurve {
 export interface BezierCurveEditorProps {
   value: BezierCurve;
   onChange: (curve: BezierCurve) => void;
+  preview?: (t: number) => number; // Easing for the whole spin, plotted below the curve
+  curveEditable?: boolean; // False when the deceleration does not use the curve
 }
 
 export interface PresetCurve {
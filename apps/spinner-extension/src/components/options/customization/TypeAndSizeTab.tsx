@@ -7,7 +7,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { InfoTooltip } from '@/components/ui/info-tooltip';
-import { Square, RefreshCw, Type } from 'lucide-react';
+import { Square, RefreshCw, Type, Layers } from 'lucide-react';
 import type { SpinnerType } from '@raffle-spinner/storage';
 
 interface TypeAndSizeTabProps {
@@ -67,16 +67,16 @@ export function TypeAndSizeTab({
                 Slot Machine
               </div>
             </SelectItem>
-            <SelectItem value="wheel" disabled>
+            <SelectItem value="wheel">
               <div className="flex items-center gap-2">
                 <RefreshCw className="h-4 w-4" />
-                Spinning Wheel (Coming Soon)
+                Spinning Wheel
               </div>
             </SelectItem>
-            <SelectItem value="cards" disabled>
+            <SelectItem value="cards">
               <div className="flex items-center gap-2">
-                <Square className="h-4 w-4" />
-                Card Shuffle (Coming Soon)
+                <Layers className="h-4 w-4" />
+                Card Shuffle
               </div>
             </SelectItem>
           </SelectContent>
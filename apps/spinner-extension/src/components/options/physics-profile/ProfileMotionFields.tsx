@@ -0,0 +1,157 @@
+/**
+ * Profile Motion Fields
+ *
+ * Purpose: Controls for how a physics profile speeds up, stops and ticks.
+ * Extracted from PhysicsProfileEditor.tsx to maintain file size limits
+ *
+ * SRS Reference:
+ * - FR-1.7: Spinner Physics Configuration (named physics profiles)
+ */
+
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import type { PhysicsDeceleration, PhysicsProfile } from '@raffle-spinner/storage';
+import { DECELERATION_CURVES } from '@raffle-spinner/spinner-physics';
+
+const DEFAULT_SPRING: PhysicsDeceleration = { type: 'spring', stiffness: 150, damping: 5 };
+const DEFAULT_CURVE: PhysicsDeceleration = { type: 'bezier', curve: DECELERATION_CURVES.slow };
+const DEFAULT_NEAR_MISS = { overshoot: 0.6, settle: 0.15 };
+
+interface SliderFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+function SliderField({ id, label, value, min, max, step, onChange }: SliderFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Slider
+        id={id}
+        min={min}
+        max={max}
+        step={step}
+        value={[value]}
+        onValueChange={([next]) => onChange(next)}
+        className="w-full"
+      />
+    </div>
+  );
+}
+
+interface ProfileMotionFieldsProps {
+  profile: PhysicsProfile;
+  onChange: (changes: Partial<PhysicsProfile>) => void;
+}
+
+export function ProfileMotionFields({ profile, onChange }: ProfileMotionFieldsProps) {
+  const { deceleration, nearMiss } = profile;
+
+  return (
+    <div className="space-y-4">
+      <SliderField
+        id="profile-acceleration"
+        label={`Acceleration: ${Math.round(profile.acceleration * 100)}% of the spin`}
+        value={profile.acceleration}
+        min={0}
+        max={0.5}
+        step={0.05}
+        onChange={(acceleration) => onChange({ acceleration })}
+      />
+
+      <div className="space-y-2">
+        <Label>Deceleration</Label>
+        <RadioGroup
+          value={deceleration.type}
+          onValueChange={(type) =>
+            onChange({ deceleration: type === 'spring' ? DEFAULT_SPRING : DEFAULT_CURVE })
+          }
+          className="flex gap-4"
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="bezier" id="deceleration-bezier" />
+            <Label htmlFor="deceleration-bezier">Curve</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="spring" id="deceleration-spring" />
+            <Label htmlFor="deceleration-spring">Spring</Label>
+          </div>
+        </RadioGroup>
+      </div>
+
+      {deceleration.type === 'spring' && (
+        <div className="grid grid-cols-2 gap-4">
+          <SliderField
+            id="spring-stiffness"
+            label={`Stiffness: ${deceleration.stiffness}`}
+            value={deceleration.stiffness}
+            min={50}
+            max={400}
+            step={10}
+            onChange={(stiffness) => onChange({ deceleration: { ...deceleration, stiffness } })}
+          />
+          <SliderField
+            id="spring-damping"
+            label={`Damping: ${deceleration.damping}`}
+            value={deceleration.damping}
+            min={1}
+            max={15}
+            step={0.5}
+            onChange={(damping) => onChange({ deceleration: { ...deceleration, damping } })}
+          />
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="near-miss"
+          checked={!!nearMiss}
+          onCheckedChange={(checked) =>
+            onChange({ nearMiss: checked ? DEFAULT_NEAR_MISS : undefined })
+          }
+        />
+        <Label htmlFor="near-miss">Near miss: run just past the winner, then settle back</Label>
+      </div>
+
+      {nearMiss && (
+        <div className="grid grid-cols-2 gap-4">
+          <SliderField
+            id="near-miss-overshoot"
+            label={`Overshoot: ${nearMiss.overshoot.toFixed(1)} entries`}
+            value={nearMiss.overshoot}
+            min={0.2}
+            max={2}
+            step={0.1}
+            onChange={(overshoot) => onChange({ nearMiss: { ...nearMiss, overshoot } })}
+          />
+          <SliderField
+            id="near-miss-settle"
+            label={`Settle: ${Math.round(nearMiss.settle * 100)}% of the spin`}
+            value={nearMiss.settle}
+            min={0.05}
+            max={0.3}
+            step={0.05}
+            onChange={(settle) => onChange({ nearMiss: { ...nearMiss, settle } })}
+          />
+        </div>
+      )}
+
+      <SliderField
+        id="profile-tick-rate"
+        label={`Tick Rate: up to ${profile.tickRate} ticks per second`}
+        value={profile.tickRate}
+        min={5}
+        max={40}
+        step={1}
+        onChange={(tickRate) => onChange({ tickRate })}
+      />
+    </div>
+  );
+}
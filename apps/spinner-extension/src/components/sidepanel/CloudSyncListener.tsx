@@ -0,0 +1,16 @@
+/**
+ * Cloud Sync Listener
+ *
+ * Purpose: Pulls competitions and the theme from the user's other devices
+ * when the side panel opens, and again whenever the connection comes back.
+ *
+ * SRS Reference:
+ * - Data Layer: Cross-device sync
+ */
+
+import { useCloudSync } from '@/hooks/useCloudSync';
+
+export function CloudSyncListener() {
+  useCloudSync();
+  return null;
+}
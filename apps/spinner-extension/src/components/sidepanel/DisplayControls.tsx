@@ -0,0 +1,65 @@
+/**
+ * DisplayControls Component
+ *
+ * Purpose: Buttons for opening the display windows the side panel drives:
+ * the pop-out audience view and the OBS stream overlay
+ *
+ * SRS Reference:
+ * - FR-2.1: Side Panel Interface (audience display, streaming overlay)
+ *
+ * Architecture Decision:
+ * - The stream overlay belongs to the streaming product; without it the
+ *   button links to the streaming subscription page instead
+ */
+
+import { useAuth } from '@drawday/auth';
+import { createStreamingUpgradeUrl, openInNewTab } from '@drawday/utils';
+import { MonitorUp, Radio } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { hasStreamingAccess } from '@/lib/stream-overlay';
+import type { AudienceViewKind } from '@/lib/audience-channel';
+
+interface DisplayControlsProps {
+  openViews: Record<AudienceViewKind, boolean>;
+  onOpenAudienceView: () => void;
+  onOpenStreamOverlay: () => void;
+}
+
+export function DisplayControls({
+  openViews,
+  onOpenAudienceView,
+  onOpenStreamOverlay,
+}: DisplayControlsProps) {
+  const { user, tokens } = useAuth();
+  const canStream = hasStreamingAccess(user);
+
+  const handleStreamOverlay = () => {
+    if (canStream) {
+      onOpenStreamOverlay();
+    } else if (tokens?.access_token) {
+      openInNewTab(createStreamingUpgradeUrl(tokens.access_token));
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <Button variant="outline" size="sm" onClick={onOpenAudienceView}>
+        <MonitorUp className="h-4 w-4 mr-2" />
+        {openViews.audience ? 'Show audience view' : 'Open audience view'}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleStreamOverlay}
+        title={canStream ? undefined : 'Requires a DrawDay Streaming subscription'}
+      >
+        <Radio className="h-4 w-4 mr-2" />
+        {canStream
+          ? openViews.overlay
+            ? 'Show stream overlay'
+            : 'Open stream overlay'
+          : 'Get stream overlay'}
+      </Button>
+    </div>
+  );
+}
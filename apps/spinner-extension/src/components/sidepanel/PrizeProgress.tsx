@@ -0,0 +1,92 @@
+/**
+ * PrizeProgress Component
+ *
+ * Purpose: Shows which prize the next spin is for in a multi-prize
+ * competition ("Prize 2 of 5: £50 voucher") and lets the operator restart
+ * the prize draw after confirming, as restarting forgets every prize winner.
+ *
+ * SRS Reference:
+ * - FR-2.1: Side Panel Interface
+ * - FR-2.2: Winner Selection and Animation (prize tiers)
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Gift, RotateCcw } from 'lucide-react';
+import { formatPrizeProgress, type PrizeProgress as Progress } from '@/utils/prize-draw';
+
+interface PrizeProgressProps {
+  progress: Progress;
+  isSpinning: boolean;
+  onReset: () => void;
+}
+
+export function PrizeProgress({ progress, isSpinning, onReset }: PrizeProgressProps) {
+  const [confirmReset, setConfirmReset] = useState(false);
+  const drawn = progress.isComplete ? progress.totalDraws : progress.drawNumber - 1;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border bg-card/80 p-3">
+      <div className="flex items-center gap-3">
+        {progress.currentPrize?.image ? (
+          <img
+            src={progress.currentPrize.image}
+            alt={progress.currentPrize.name}
+            className="h-10 w-10 rounded object-cover"
+          />
+        ) : (
+          <Gift className="h-5 w-5 text-primary" />
+        )}
+        <span className="flex-1 font-medium">{formatPrizeProgress(progress)}</span>
+        {drawn > 0 && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setConfirmReset(true)}
+            disabled={isSpinning}
+            title="Restart the prize draw"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <div className="h-1.5 w-full overflow-hidden rounded bg-muted">
+        <div
+          className="h-full bg-primary transition-all"
+          style={{ width: `${(drawn / progress.totalDraws) * 100}%` }}
+        />
+      </div>
+
+      <AlertDialog open={confirmReset} onOpenChange={setConfirmReset}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restart the prize draw?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {drawn} prize {drawn === 1 ? 'winner' : 'winners'} drawn so far will be forgotten
+              and can win again. The draw log keeps its record of these draws.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={onReset}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Restart Draw
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -14,12 +14,16 @@ import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip
 import { Trophy, Download, Trash2 } from 'lucide-react';
 import { InfoTooltip } from '@/components/ui/info-tooltip';
 import { helpContent } from '@/lib/help-content';
+import { WinnerMetadata } from './WinnerMetadata';
 
 export interface Winner {
   firstName: string;
   lastName: string;
   ticketNumber: string;
   competition: string;
+  prize?: string;
+  metadata?: Record<string, string>;
+  privateFields?: string[];
   timestamp: number;
 }
 
@@ -97,6 +101,8 @@ export function SessionWinners({ winners, onExport, onClear }: SessionWinnersPro
                   {winner.firstName} {winner.lastName}
                 </p>
                 <p className="text-sm text-muted-foreground">Ticket #{winner.ticketNumber}</p>
+                {winner.prize && <p className="text-sm font-medium text-primary">{winner.prize}</p>}
+                <WinnerMetadata winner={winner} />
               </div>
               <div className="text-right">
                 <p className="text-sm font-medium">{winner.competition}</p>
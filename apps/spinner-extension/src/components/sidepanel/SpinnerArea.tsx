@@ -8,12 +8,25 @@
  * - Encapsulates spinner and winner display logic
  * - Reduces parent component complexity
  * - Clear separation of spinner concerns
+ * - Owns the winner reveal, so the overlay and audience displays share its stage
+ * - Plays the theme's sound effects alongside the spinner
+ * - Speaks the winner announcement, when enabled, once the reveal shows the name
  */
 
-import { SlotMachineWheel } from '@raffle-spinner/spinners';
+import { useMemo } from 'react';
+import { SpinnerRenderer } from './SpinnerRenderer';
 import { WinnerOverlay } from './WinnerOverlay';
 import { SpinControls } from './SpinControls';
+import { VerifiableDrawPanel } from './VerifiableDrawPanel';
+import { PrizeProgress } from './PrizeProgress';
+import { DisplayControls } from './DisplayControls';
 import { convertToSpinnerTheme } from '@/utils/theme-converter';
+import { formatPrizeProgress } from '@/utils/prize-draw';
+import { usePrizeDraw } from '@/hooks/usePrizeDraw';
+import { useAudienceDisplay } from '@/hooks/useAudienceDisplay';
+import { useWinnerReveal } from '@/hooks/useWinnerReveal';
+import { useSpinSounds } from '@/hooks/useSpinSounds';
+import { useWinnerAnnouncement } from '@/hooks/useWinnerAnnouncement';
 import type { Competition, Participant, ThemeSettings, SpinnerSettings } from '@raffle-spinner/storage';
 
 interface SpinnerAreaProps {
@@ -28,6 +41,10 @@ interface SpinnerAreaProps {
   onTicketChange: (value: string) => void;
   onSpin: () => void;
   onSpinComplete: (winner: Participant) => void;
+  /** Clears the winner once the reveal is over */
+  onDismissWinner: () => void;
+  /** Spins to the ticket derived by a verifiable "draw for me" */
+  onDrawRevealed: (ticketNumber: string) => void;
 }
 
 export function SpinnerArea({
@@ -42,25 +59,73 @@ export function SpinnerArea({
   onTicketChange,
   onSpin,
   onSpinComplete,
+  onDismissWinner,
+  onDrawRevealed,
 }: SpinnerAreaProps) {
+  // Tickets that already won a prize are left out of the wheel and the draw
+  const { progress, eligibleParticipants, resetPrizes } = usePrizeDraw(competition);
+  const drawCompetition = useMemo(
+    () => ({ ...competition, participants: eligibleParticipants }),
+    [competition, eligibleParticipants]
+  );
+  const { stage: revealStage, view: revealView } = useWinnerReveal(
+    currentWinner,
+    settings.revealMode,
+    onDismissWinner
+  );
+  const { playTick, playFanfare } = useSpinSounds(theme.audio, settings, isSpinning);
+  const { queueAnnouncement } = useWinnerAnnouncement(
+    settings.announcement,
+    competition.name,
+    currentWinner,
+    !!revealView?.showName
+  );
+  const { openViews, openAudienceView, openStreamOverlay } = useAudienceDisplay({
+    competition: drawCompetition,
+    settings,
+    theme,
+    prizeLabel: progress ? formatPrizeProgress(progress) : undefined,
+    isSpinning,
+    spinTarget,
+    currentWinner,
+    revealStage,
+  });
+
+  const handleSpinComplete = (winner: Participant) => {
+    playFanfare();
+    queueAnnouncement(winner, progress?.currentPrize?.name);
+    onSpinComplete(winner);
+  };
+
   return (
     <>
       <div className="relative flex justify-center">
-        <SlotMachineWheel
-          participants={competition.participants}
+        <SpinnerRenderer
+          type={theme.spinnerStyle.type}
+          participants={eligibleParticipants}
           targetTicketNumber={spinTarget || ticketNumber}
           settings={settings}
           isSpinning={isSpinning}
-          onSpinComplete={onSpinComplete}
+          onSpinComplete={handleSpinComplete}
+          onTick={playTick}
           onError={(errorMsg: string) => {
             console.error('Spinner error:', errorMsg);
           }}
           theme={convertToSpinnerTheme(theme)}
         />
         
-        <WinnerOverlay winner={currentWinner} />
+        <WinnerOverlay
+          winner={currentWinner}
+          revealMode={settings.revealMode}
+          revealStage={revealStage}
+          showRevealHint
+        />
       </div>
 
+      {progress && (
+        <PrizeProgress progress={progress} isSpinning={isSpinning} onReset={resetPrizes} />
+      )}
+
       <SpinControls
         ticketNumber={ticketNumber}
         isSpinning={isSpinning}
@@ -68,6 +133,18 @@ export function SpinnerArea({
         onTicketChange={onTicketChange}
         onSpin={onSpin}
       />
+
+      <VerifiableDrawPanel
+        competition={drawCompetition}
+        isSpinning={isSpinning}
+        onWinnerRevealed={onDrawRevealed}
+      />
+
+      <DisplayControls
+        openViews={openViews}
+        onOpenAudienceView={openAudienceView}
+        onOpenStreamOverlay={openStreamOverlay}
+      />
     </>
   );
 }
\ No newline at end of file
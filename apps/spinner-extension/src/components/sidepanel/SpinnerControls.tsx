@@ -13,7 +13,7 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { normalizeTicketNumber } from '@/lib/utils';
+import { findParticipantByTicket } from '@/utils/ticket-identity';
 import { AlertCircle } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import type { Competition, Participant } from '@raffle-spinner/storage';
@@ -65,10 +65,7 @@ export function SpinnerControls({
       return;
     }
 
-    const normalizedInput = normalizeTicketNumber(ticketNumber);
-    const participant = selectedCompetition.participants.find(
-      (p) => normalizeTicketNumber(p.ticketNumber) === normalizedInput
-    );
+    const participant = findParticipantByTicket(selectedCompetition, ticketNumber);
 
     if (!participant) {
       onError('Ticket number not found in this competition');
@@ -0,0 +1,31 @@
+/**
+ * SpinnerRenderer Component
+ *
+ * Purpose: Renders the spinner variant selected in the theme settings
+ * (spinnerStyle.type) so every side panel view switches spinners the same way.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation
+ * - FR-1.7: Spinner Physics Configuration (spinner type selection)
+ */
+
+import { CardShuffleSpinner, PrizeWheel, SlotMachineWheel } from '@raffle-spinner/spinners';
+import type { BaseSpinnerProps } from '@raffle-spinner/spinners';
+import type { SpinnerType } from '@raffle-spinner/storage';
+
+interface SpinnerRendererProps extends BaseSpinnerProps {
+  /** Spinner variant to render, from theme.spinnerStyle.type */
+  type: SpinnerType;
+}
+
+export function SpinnerRenderer({ type, ...spinnerProps }: SpinnerRendererProps) {
+  switch (type) {
+    case 'wheel':
+      return <PrizeWheel {...spinnerProps} />;
+    case 'cards':
+      return <CardShuffleSpinner {...spinnerProps} />;
+    case 'slotMachine':
+    default:
+      return <SlotMachineWheel {...spinnerProps} />;
+  }
+}
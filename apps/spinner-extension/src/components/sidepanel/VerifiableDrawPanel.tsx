@@ -0,0 +1,133 @@
+/**
+ * VerifiableDrawPanel Component
+ *
+ * Purpose: "Draw for me" controls. Shows the commitment (entry list hash and
+ * seed hash) before the draw, reveals the winner, and offers the proof bundle
+ * and entry list for download so the draw can be re-checked offline.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (verifiable random selection)
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Download, Lock, ShieldCheck } from 'lucide-react';
+import type { Competition } from '@raffle-spinner/storage';
+import { useVerifiableDraw } from '@/hooks/useVerifiableDraw';
+
+interface VerifiableDrawPanelProps {
+  competition: Competition;
+  isSpinning: boolean;
+  /** Called with the derived winning ticket once the seed is revealed */
+  onWinnerRevealed: (ticketNumber: string) => void;
+}
+
+function HashRow({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between gap-2 text-xs">
+      <span className="text-muted-foreground">{label}</span>
+      <code className="truncate font-mono" title={value}>
+        {value}
+      </code>
+    </div>
+  );
+}
+
+export function VerifiableDrawPanel({
+  competition,
+  isSpinning,
+  onWinnerRevealed,
+}: VerifiableDrawPanelProps) {
+  const [userSeed, setUserSeed] = useState('');
+  const {
+    commitment,
+    proof,
+    isWorking,
+    drawError,
+    prepareDraw,
+    revealWinner,
+    resetDraw,
+    downloadProof,
+    downloadEntryList,
+  } = useVerifiableDraw(competition);
+  const busy = isWorking || isSpinning;
+
+  const handleReveal = async () => {
+    const revealed = await revealWinner();
+    if (revealed) {
+      onWinnerRevealed(revealed.winner.ticketNumber);
+    }
+  };
+
+  return (
+    <Card className="bg-card/80 border-border">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ShieldCheck className="h-4 w-4" />
+          Draw for me (verifiable)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!commitment && (
+          <div className="flex gap-2">
+            <Input
+              placeholder="Public seed (optional)"
+              value={userSeed}
+              onChange={(e) => setUserSeed(e.target.value)}
+              disabled={busy}
+            />
+            <Button onClick={() => prepareDraw(userSeed)} disabled={busy}>
+              <Lock className="h-4 w-4 mr-1" />
+              Commit
+            </Button>
+          </div>
+        )}
+
+        {commitment && (
+          <div className="space-y-1">
+            <HashRow label="Entries hash" value={commitment.listHash} />
+            <HashRow label="Seed hash" value={commitment.seedHash} />
+            {commitment.publicSeed && <HashRow label="Public seed" value={commitment.publicSeed} />}
+            <HashRow label="Entries" value={String(commitment.participantCount)} />
+          </div>
+        )}
+
+        {commitment && !proof && (
+          <Button onClick={handleReveal} disabled={busy} className="w-full">
+            Reveal seed &amp; spin
+          </Button>
+        )}
+
+        {proof && (
+          <div className="space-y-2">
+            <HashRow label="Seed" value={proof.seed} />
+            <HashRow label="Winning entry" value={`#${proof.winnerIndex}`} />
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={downloadProof} disabled={busy}>
+                <Download className="h-4 w-4 mr-1" />
+                Proof
+              </Button>
+              <Button size="sm" variant="outline" onClick={downloadEntryList} disabled={busy}>
+                <Download className="h-4 w-4 mr-1" />
+                Entry list
+              </Button>
+              <Button size="sm" variant="ghost" onClick={resetDraw} disabled={busy}>
+                New draw
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {drawError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{drawError}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
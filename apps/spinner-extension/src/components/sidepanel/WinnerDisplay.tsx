@@ -13,15 +13,27 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Sparkles, RotateCcw } from 'lucide-react';
-import type { Participant } from '@raffle-spinner/storage';
+import type { Participant, RevealMode } from '@raffle-spinner/storage';
+import { DEFAULT_REVEAL_MODE, getRevealView } from '@/utils/winner-reveal';
 
 interface WinnerDisplayProps {
   winner: Participant;
+  revealMode?: RevealMode;
+  /** Current reveal stage, advanced with the reveal shortcut (W) */
+  revealStage?: number;
   onNewSession: () => void;
   onReset: () => void;
 }
 
-export function WinnerDisplay({ winner, onNewSession, onReset }: WinnerDisplayProps) {
+export function WinnerDisplay({
+  winner,
+  revealMode = DEFAULT_REVEAL_MODE,
+  revealStage = 0,
+  onNewSession,
+  onReset,
+}: WinnerDisplayProps) {
+  const view = getRevealView(revealMode, winner.ticketNumber, revealStage);
+
   return (
     <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 px-4 z-10 animate-winner-reveal">
       <Card className="bg-gradient-to-r from-brand-gold/95 to-brand-gold/90 border-brand-gold animate-winner-glow shadow-2xl">
@@ -30,11 +42,14 @@ export function WinnerDisplay({ winner, onNewSession, onReset }: WinnerDisplayPr
             <Sparkles className="h-12 w-12 text-gray-900 animate-pulse flex-shrink-0" />
             <div className="flex-1 text-center">
               <p className="text-4xl font-bold text-gray-900 leading-tight">
-                🎉 {winner.firstName} {winner.lastName}
+                {view.showName ? `🎉 ${winner.firstName} ${winner.lastName}` : 'And the winner is...'}
               </p>
-              <p className="text-2xl font-semibold text-gray-800 mt-2">
-                Ticket #{winner.ticketNumber}
+              <p className="text-2xl font-semibold text-gray-800 mt-2 tracking-widest">
+                Ticket #{view.ticket}
               </p>
+              {!view.isComplete && (
+                <p className="text-sm text-gray-800 mt-2">Press W to reveal more</p>
+              )}
             </div>
           </div>
           
@@ -0,0 +1,38 @@
+/**
+ * Winner Metadata Component
+ *
+ * Purpose: Lists the extra import columns (email, phone, order id...) kept for
+ * a session winner so the operator can contact them. Private fields are
+ * marked, as they are left out of winner exports.
+ *
+ * SRS Reference:
+ * - FR-2.4: Winner Display and Session History (winner details)
+ */
+
+import { Lock } from 'lucide-react';
+import type { Winner } from './SessionWinners';
+
+interface WinnerMetadataProps {
+  winner: Winner;
+}
+
+export function WinnerMetadata({ winner }: WinnerMetadataProps) {
+  const entries = Object.entries(winner.metadata ?? {});
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <dl className="mt-1 text-xs text-muted-foreground">
+      {entries.map(([key, value]) => (
+        <div key={key} className="flex items-center gap-1">
+          {winner.privateFields?.includes(key) && (
+            <Lock className="h-3 w-3" aria-label="Private, not exported" />
+          )}
+          <dt className="font-medium">{key}:</dt>
+          <dd className="break-all">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -8,20 +8,34 @@
  * - Simplified winner presentation without actions
  * - Used specifically for persistent session context
  * - Clear separation from interactive WinnerDisplay
+ * - Shows the reveal stage it is given, so every display reveals in step
  */
 import { Card, CardContent } from '@/components/ui/card';
 import { Sparkles } from 'lucide-react';
-import type { Participant } from '@raffle-spinner/storage';
+import type { Participant, RevealMode } from '@raffle-spinner/storage';
+import { DEFAULT_REVEAL_MODE, getRevealView } from '@/utils/winner-reveal';
 
 interface WinnerOverlayProps {
   winner: Participant | null;
+  revealMode?: RevealMode;
+  /** Current reveal stage (see getRevealView) */
+  revealStage?: number;
+  /** Tell the operator how to continue the reveal */
+  showRevealHint?: boolean;
 }
 
-export function WinnerOverlay({ winner }: WinnerOverlayProps) {
+export function WinnerOverlay({
+  winner,
+  revealMode = DEFAULT_REVEAL_MODE,
+  revealStage = 0,
+  showRevealHint = false,
+}: WinnerOverlayProps) {
   if (!winner) {
     return null;
   }
 
+  const view = getRevealView(revealMode, winner.ticketNumber, revealStage);
+
   return (
     <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 px-4 z-10 animate-winner-reveal">
       <Card className="bg-gradient-to-r from-brand-gold/95 to-brand-gold/90 border-brand-gold animate-winner-glow shadow-2xl">
@@ -30,13 +44,18 @@ export function WinnerOverlay({ winner }: WinnerOverlayProps) {
             <Sparkles className="h-12 w-12 text-gray-900 animate-pulse flex-shrink-0" />
             <div className="flex-1 text-center">
               <p className="text-4xl font-bold text-gray-900 leading-tight">
-                🎉 {winner.firstName} {winner.lastName}
+                {view.showName ? `🎉 ${winner.firstName} ${winner.lastName}` : 'And the winner is...'}
               </p>
-              <p className="text-2xl font-semibold text-gray-800 mt-2">
-                Ticket #{winner.ticketNumber}
+              <p className="text-2xl font-semibold text-gray-800 mt-2 tracking-widest">
+                Ticket #{view.ticket}
               </p>
             </div>
           </div>
+          {showRevealHint && revealMode !== DEFAULT_REVEAL_MODE && (
+            <p className="text-sm text-gray-800 text-center mt-4">
+              {view.isComplete ? 'Press W to dismiss' : 'Press W to reveal more'}
+            </p>
+          )}
         </CardContent>
       </Card>
     </div>
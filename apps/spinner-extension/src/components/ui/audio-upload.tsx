@@ -0,0 +1,102 @@
+/**
+ * Audio Upload Component
+ *
+ * Purpose: Reusable component for sound file uploads with file validation,
+ * storing the sound as a base64 data URL like the image uploads.
+ */
+
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { Music, Upload, Trash2 } from 'lucide-react';
+
+interface AudioUploadProps {
+  value?: string; // Base64 encoded sound
+  onChange: (value: string | undefined) => void;
+  onError?: (error: string) => void;
+  maxSize?: number; // In bytes
+  accept?: string;
+  className?: string;
+}
+
+export function AudioUpload({
+  value,
+  onChange,
+  onError,
+  maxSize = 1024 * 1024, // 1MB default, sounds share the storage quota with images
+  accept = 'audio/*',
+  className,
+}: AudioUploadProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileUpload = (file: File) => {
+    // Validate file size
+    if (file.size > maxSize) {
+      onError?.(`File size must be less than ${Math.round(maxSize / 1024)}KB`);
+      return;
+    }
+
+    // Validate file type
+    if (!file.type.startsWith('audio/')) {
+      onError?.('Only audio files are allowed');
+      return;
+    }
+
+    // Convert to base64
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      onChange(e.target?.result as string);
+    };
+    reader.onerror = () => {
+      onError?.('Failed to read file');
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      handleFileUpload(file);
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className={cn('flex items-center gap-2', className)}>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={accept}
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+
+      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+        <Music className="h-4 w-4" />
+        {value ? 'Custom sound' : 'Pack sound'}
+      </span>
+
+      <Button
+        size="sm"
+        variant="outline"
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        title={value ? 'Replace sound' : 'Upload sound'}
+      >
+        <Upload className="h-4 w-4" />
+      </Button>
+
+      {value && (
+        <Button
+          size="sm"
+          variant="destructive"
+          type="button"
+          onClick={() => onChange(undefined)}
+          title="Remove sound"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -20,6 +20,8 @@ const getApiUrl = () => {
 
 export const API_CONFIG = {
   DIRECTUS_URL: getApiUrl(),
+  // Cross-device sync; point at a local Directus instance to test sync on its own
+  SYNC_URL: import.meta.env.VITE_SYNC_URL || getApiUrl(),
 } as const;
 
 export default API_CONFIG;
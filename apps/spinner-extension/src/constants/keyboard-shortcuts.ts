@@ -41,7 +41,7 @@ export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
   {
     key: 'w',
     action: 'reveal-winner',
-    description: 'Reveal winner (when spin complete)',
+    description: 'Reveal the next part of the winner, then dismiss',
     category: 'spinner',
   },
 
@@ -13,6 +13,9 @@ interface CollapsibleState {
   theme: boolean;
   branding: boolean;
   help: boolean;
+  audit: boolean;
+  backup: boolean;
+  sync: boolean;
 }
 
 interface CollapsibleStateContextType {
@@ -32,6 +35,9 @@ const DEFAULT_STATE: CollapsibleState = {
   theme: true,
   branding: true,
   help: true,
+  audit: true,
+  backup: true,
+  sync: true,
 };
 
 export function CollapsibleStateProvider({ children }: { children: React.ReactNode }) {
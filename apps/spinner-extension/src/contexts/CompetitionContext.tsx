@@ -10,7 +10,7 @@
  * - Data Layer: Competition data persistence and retrieval
  */
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { Competition } from '@raffle-spinner/storage';
 import { storage } from '@raffle-spinner/storage';
 
@@ -24,6 +24,7 @@ interface CompetitionContextType {
   addCompetition: (competition: Competition) => Promise<void>;
   deleteCompetition: (id: string) => Promise<void>;
   updateCompetitionBanner: (id: string, banner: string | undefined) => Promise<void>;
+  updateCompetition: (id: string, changes: Partial<Competition>) => Promise<void>;
 }
 
 const CompetitionContext = createContext<CompetitionContextType | undefined>(undefined);
@@ -34,7 +35,8 @@ export function CompetitionProvider({ children }: { children: ReactNode }) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const loadCompetitions = async () => {
+  // Stable, so effects elsewhere can depend on it
+  const loadCompetitions = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
@@ -46,7 +48,7 @@ export function CompetitionProvider({ children }: { children: ReactNode }) {
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
   const selectCompetition = (id: string) => {
     const comp = competitions.find((c) => c.id === id);
@@ -85,6 +87,19 @@ export function CompetitionProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const updateCompetition = async (id: string, changes: Partial<Competition>) => {
+    const competition = competitions.find((c) => c.id === id);
+    if (!competition) return;
+
+    const updatedCompetition = { ...competition, ...changes, updatedAt: Date.now() };
+    await storage.saveCompetition(updatedCompetition);
+    await loadCompetitions();
+
+    if (selectedCompetition?.id === id) {
+      setSelectedCompetition(updatedCompetition);
+    }
+  };
+
   useEffect(() => {
     loadCompetitions();
 
@@ -124,6 +139,7 @@ export function CompetitionProvider({ children }: { children: ReactNode }) {
         addCompetition,
         deleteCompetition,
         updateCompetitionBanner,
+        updateCompetition,
       }}
     >
       {children}
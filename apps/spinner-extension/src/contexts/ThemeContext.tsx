@@ -11,16 +11,19 @@ import type {
   ThemeColors,
   SpinnerStyle,
   BrandingSettings,
+  AudioSettings,
   ColorScheme,
 } from '@raffle-spinner/storage';
 import { getDefaultTheme, getDefaultColors, getDefaultSpinnerStyle, DEFAULT_BRANDING, getSystemColorScheme } from './theme-defaults';
 import { applyThemeToDOM } from './theme-dom';
+import { DEFAULT_AUDIO } from '@/lib/sound-packs';
 
 interface ThemeContextType {
   theme: ThemeSettings;
   updateColors: (colors: Partial<ThemeColors>) => Promise<void>;
   updateSpinnerStyle: (style: Partial<SpinnerStyle>) => Promise<void>;
   updateBranding: (branding: Partial<BrandingSettings>) => Promise<void>;
+  updateAudio: (audio: Partial<AudioSettings>) => Promise<void>;
   updateColorScheme: (scheme: ColorScheme) => Promise<void>;
   resetTheme: () => Promise<void>;
   applyCustomCSS: (css: string) => Promise<void>;
@@ -100,6 +103,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
         colors: { ...getDefaultColors(isDark), ...data.theme.colors },
         spinnerStyle: { ...getDefaultSpinnerStyle(isDark), ...data.theme.spinnerStyle },
         branding: { ...DEFAULT_BRANDING, ...data.theme.branding },
+        audio: { ...DEFAULT_AUDIO, ...data.theme.audio },
         customCSS: data.theme.customCSS,
       };
       setTheme(loadedTheme);
@@ -149,6 +153,15 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
     await saveTheme(newTheme);
   };
 
+  const updateAudio = async (audio: Partial<AudioSettings>) => {
+    const newTheme = {
+      ...theme,
+      audio: { ...DEFAULT_AUDIO, ...theme.audio, ...audio },
+    };
+    setTheme(newTheme);
+    await saveTheme(newTheme);
+  };
+
   const updateColorScheme = async (scheme: ColorScheme) => {
     const isDark = determineIsDark(scheme);
     const newTheme = {
@@ -182,6 +195,7 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
         updateColors,
         updateSpinnerStyle,
         updateBranding,
+        updateAudio,
         updateColorScheme,
         resetTheme,
         applyCustomCSS,
@@ -5,6 +5,7 @@
  */
 
 import type { ThemeColors, SpinnerStyle, BrandingSettings, ThemeSettings } from '@raffle-spinner/storage';
+import { DEFAULT_AUDIO } from '@/lib/sound-packs';
 
 // Get system color scheme preference
 export const getSystemColorScheme = () => {
@@ -62,4 +63,5 @@ export const getDefaultTheme = (isDark?: boolean): ThemeSettings => ({
   colors: getDefaultColors(isDark),
   spinnerStyle: getDefaultSpinnerStyle(isDark),
   branding: DEFAULT_BRANDING,
+  audio: DEFAULT_AUDIO,
 });
\ No newline at end of file
@@ -114,5 +114,16 @@ describe('useKeyboardShortcuts - Session and Input', () => {
 
       document.body.removeChild(textarea);
     });
+
+    it('should leave keys alone when no handler is registered for them', () => {
+      renderHook(() => useKeyboardShortcuts({ onRevealWinner: vi.fn() }, state));
+
+      const event = new KeyboardEvent('keydown', { key: ' ', cancelable: true });
+      act(() => {
+        document.dispatchEvent(event);
+      });
+
+      expect(event.defaultPrevented).toBe(false);
+    });
   });
 });
@@ -0,0 +1,99 @@
+/**
+ * Spin Sounds Hook Tests
+ * Checks when the drum roll starts and stops and that the fanfare ends it
+ */
+
+import { renderHook } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { SpinnerSettings } from '@raffle-spinner/storage';
+import { useSpinSounds } from '../useSpinSounds';
+import { DEFAULT_AUDIO } from '@/lib/sound-packs';
+
+const engine = vi.hoisted(() => ({
+  configure: vi.fn(),
+  resume: vi.fn(async () => {}),
+  playTick: vi.fn(),
+  startDrumRoll: vi.fn(),
+  stopDrumRoll: vi.fn(),
+  playFanfare: vi.fn(),
+  close: vi.fn(),
+}));
+
+vi.mock('@/lib/sound-engine', () => ({ createSoundEngine: () => engine }));
+
+// The dramatic profile accelerates for 20% of the spin: 1000ms of 5 seconds
+const settings: SpinnerSettings = {
+  minSpinDuration: 5,
+  decelerationRate: 'medium',
+  physicsProfileId: 'dramatic',
+};
+
+const renderSounds = (isSpinning: boolean, spinnerSettings = settings) =>
+  renderHook((props) => useSpinSounds(DEFAULT_AUDIO, props.settings, props.isSpinning), {
+    initialProps: { isSpinning, settings: spinnerSettings },
+  });
+
+describe('useSpinSounds', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('should start the drum roll when the spinner starts slowing down', () => {
+    renderSounds(true);
+
+    expect(engine.resume).toHaveBeenCalled();
+    vi.advanceTimersByTime(999);
+    expect(engine.startDrumRoll).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(engine.startDrumRoll).toHaveBeenCalledTimes(1);
+  });
+
+  it('should start the drum roll straight away for profiles without acceleration', () => {
+    renderSounds(true, { minSpinDuration: 5, decelerationRate: 'medium' });
+
+    vi.advanceTimersByTime(0);
+    expect(engine.startDrumRoll).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stay quiet until a spin starts', () => {
+    renderSounds(false);
+    vi.advanceTimersByTime(10_000);
+
+    expect(engine.resume).not.toHaveBeenCalled();
+    expect(engine.startDrumRoll).not.toHaveBeenCalled();
+  });
+
+  it('should stop the drum roll when the spin ends, even before it started', () => {
+    const { rerender } = renderSounds(true);
+
+    rerender({ isSpinning: false, settings });
+    vi.advanceTimersByTime(10_000);
+
+    expect(engine.stopDrumRoll).toHaveBeenCalledTimes(1);
+    expect(engine.startDrumRoll).not.toHaveBeenCalled();
+  });
+
+  it('should play ticks and the fanfare through the engine', () => {
+    const { result } = renderSounds(true);
+
+    result.current.playTick();
+    result.current.playFanfare();
+
+    expect(engine.playTick).toHaveBeenCalledTimes(1);
+    expect(engine.playFanfare).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close the engine on unmount', () => {
+    const { unmount } = renderSounds(false);
+
+    unmount();
+
+    expect(engine.close).toHaveBeenCalled();
+  });
+});
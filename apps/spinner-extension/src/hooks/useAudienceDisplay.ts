@@ -0,0 +1,131 @@
+/**
+ * useAudienceDisplay Hook
+ *
+ * Purpose: Drives the pop-out audience view and the stream overlay from the
+ * operator side panel. Publishes the competition, settings and theme, starts the audience spinner
+ * when a spin starts and mirrors the winner reveal, stage by stage.
+ *
+ * SRS Reference:
+ * - FR-2.1: Side Panel Interface (audience display)
+ * - FR-2.2: Winner Selection and Animation
+ *
+ * Architecture Decision:
+ * - The side panel is the single source of truth; display windows only render
+ * - Display windows ask for the current state when they open, so they can be
+ *   opened or reloaded at any point in a session
+ * - Participant metadata (contact details) is stripped before publishing
+ * - Streaming access is published with the state; the overlay page will not
+ *   render without it, however it was opened
+ */
+
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import type {
+  Competition,
+  Participant,
+  SpinnerSettings,
+  ThemeSettings,
+} from '@raffle-spinner/storage';
+import { useAuth } from '@drawday/auth';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import {
+  openAudienceChannel,
+  type AudienceChannel,
+  type AudienceDisplayState,
+  type AudienceViewKind,
+} from '@/lib/audience-channel';
+import { getStreamOverlay, hasStreamingAccess } from '@/lib/stream-overlay';
+import { toAudienceCompetition, withoutMetadata } from '@/lib/participant-metadata';
+
+interface UseAudienceDisplayOptions {
+  competition: Competition | null;
+  settings: SpinnerSettings;
+  theme: ThemeSettings;
+  prizeLabel?: string;
+  isSpinning: boolean;
+  spinTarget: string;
+  currentWinner: Participant | null;
+  revealStage: number;
+}
+
+export function useAudienceDisplay({
+  competition,
+  settings,
+  theme,
+  prizeLabel,
+  isSpinning,
+  spinTarget,
+  currentWinner,
+  revealStage,
+}: UseAudienceDisplayOptions) {
+  const { hasBranding } = useSubscription();
+  const { user } = useAuth();
+  const [openViews, setOpenViews] = useState<Record<AudienceViewKind, boolean>>({
+    audience: false,
+    overlay: false,
+  });
+  const channelRef = useRef<AudienceChannel | null>(null);
+  const branded = hasBranding();
+  const streaming = hasStreamingAccess(user);
+
+  const state: AudienceDisplayState = useMemo(
+    () => ({
+      competition: competition && toAudienceCompetition(competition),
+      settings,
+      theme,
+      hasBranding: branded,
+      hasStreaming: streaming,
+      prizeLabel,
+    }),
+    [competition, settings, theme, branded, streaming, prizeLabel]
+  );
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => {
+    const channel = openAudienceChannel((message) => {
+      if (message.type === 'request-state') {
+        setOpenViews((prev) => ({ ...prev, [message.view]: true }));
+        channel.post({ type: 'state', state: stateRef.current });
+      } else if (message.type === 'closed') {
+        setOpenViews((prev) => ({ ...prev, [message.view]: false }));
+      }
+    });
+    channelRef.current = channel;
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    channelRef.current?.post({ type: 'state', state });
+  }, [state]);
+
+  useEffect(() => {
+    if (isSpinning && spinTarget) {
+      channelRef.current?.post({ type: 'spin', ticketNumber: spinTarget });
+    }
+  }, [isSpinning, spinTarget]);
+
+  useEffect(() => {
+    channelRef.current?.post(
+      currentWinner
+        ? { type: 'winner', winner: withoutMetadata(currentWinner), revealStage }
+        : { type: 'clear' }
+    );
+  }, [currentWinner, revealStage]);
+
+  const openAudienceView = useCallback(() => {
+    chrome.runtime.sendMessage({ action: 'openAudienceView' });
+  }, []);
+
+  // The overlay window is sized to the configured stream resolution
+  const openStreamOverlay = useCallback(() => {
+    if (!stateRef.current.hasStreaming) return;
+    const { width, height } = getStreamOverlay(stateRef.current.settings);
+    chrome.runtime.sendMessage({ action: 'openStreamOverlay', width, height });
+  }, []);
+
+  return { openViews, openAudienceView, openStreamOverlay };
+}
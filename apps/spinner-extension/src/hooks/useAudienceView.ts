@@ -0,0 +1,99 @@
+/**
+ * useAudienceView Hook
+ *
+ * Purpose: Receiving end of the audience channel. Keeps a display window
+ * (pop-out audience view or stream overlay) in step with the operator side
+ * panel and runs its own copy of the spin so the animation is smooth on the
+ * shared screen.
+ *
+ * SRS Reference:
+ * - FR-2.1: Side Panel Interface (audience display)
+ * - FR-2.2: Winner Selection and Animation
+ *
+ * Architecture Decision:
+ * - The audience spinner reveals its own winner when its animation lands;
+ *   the operator's winner message only covers views opened mid-reveal
+ * - The reveal stage always follows the operator, who steps through it
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import confetti from 'canvas-confetti';
+import type { Participant } from '@raffle-spinner/storage';
+import { applyThemeToDOM } from '@/contexts/theme-dom';
+import {
+  openAudienceChannel,
+  type AudienceDisplayState,
+  type AudienceViewKind,
+} from '@/lib/audience-channel';
+
+export function useAudienceView(view: AudienceViewKind) {
+  const [state, setState] = useState<AudienceDisplayState | null>(null);
+  const [spinTarget, setSpinTarget] = useState('');
+  const [isSpinning, setIsSpinning] = useState(false);
+  const [winner, setWinner] = useState<Participant | null>(null);
+  const [revealStage, setRevealStage] = useState(0);
+  const isSpinningRef = useRef(false);
+
+  useEffect(() => {
+    const channel = openAudienceChannel((message) => {
+      switch (message.type) {
+        case 'state':
+          applyThemeToDOM(message.state.theme);
+          setState(message.state);
+          break;
+        case 'spin':
+          isSpinningRef.current = true;
+          setWinner(null);
+          setRevealStage(0);
+          setSpinTarget(message.ticketNumber);
+          setIsSpinning(true);
+          break;
+        case 'winner':
+          if (!isSpinningRef.current) setWinner(message.winner);
+          setRevealStage(message.revealStage);
+          break;
+        case 'clear':
+          if (!isSpinningRef.current) setWinner(null);
+          break;
+      }
+    });
+
+    // Ask the side panel for the current competition and theme
+    channel.post({ type: 'request-state', view });
+
+    const handlePageHide = () => channel.post({ type: 'closed', view });
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      channel.close();
+    };
+  }, [view]);
+
+  const handleSpinComplete = useCallback((spinWinner: Participant) => {
+    isSpinningRef.current = false;
+    setIsSpinning(false);
+    setWinner(spinWinner);
+    confetti({
+      particleCount: 150,
+      spread: 90,
+      origin: { y: 0.6 },
+    });
+  }, []);
+
+  const handleSpinError = useCallback((errorMessage: string) => {
+    console.error('Audience spinner error:', errorMessage);
+    isSpinningRef.current = false;
+    setIsSpinning(false);
+  }, []);
+
+  return {
+    state,
+    spinTarget,
+    isSpinning,
+    winner,
+    revealStage,
+    handleSpinComplete,
+    handleSpinError,
+  };
+}
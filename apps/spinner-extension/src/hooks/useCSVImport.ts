@@ -1,8 +1,9 @@
 /**
  * CSV Import Hook
  *
- * Purpose: Handles the complete CSV import workflow including file selection,
- * column detection, mapping, duplicate handling, and competition creation.
+ * Purpose: Handles the complete CSV import workflow including file and sheet selection,
+ * column detection, mapping, review of row issues, ticket matching and duplicates, and
+ * competition creation.
  *
  * SRS Reference:
  * - FR-1.1: CSV File Upload Interface
@@ -12,8 +13,30 @@
  */
 
 import { useState, useRef, useEffect } from 'react';
-import { ColumnMapping, Competition, SavedMapping, storage } from '@raffle-spinner/storage';
-import { useCSVUpload } from './useCSVUpload';
+import {
+  ColumnMapping,
+  Competition,
+  SavedMapping,
+  TicketNormalization,
+  storage,
+} from '@raffle-spinner/storage';
+import type {
+  DuplicateResolution,
+  DuplicateTicket,
+  ValidationError,
+} from '@raffle-spinner/csv-parser';
+import { useCSVUpload, type UploadResult } from './useCSVUpload';
+import { formatImportSummary } from '@/utils/import-summary';
+import { suggestSavedMapping } from '@/utils/mapping-suggestion';
+import {
+  applyDuplicateResolutions,
+  applyRowFixes,
+  applyTicketPolicy,
+  nextReviewStep,
+  previewDuplicateResolution,
+  type ReviewStep,
+} from '@/utils/import-review';
+import { exportDuplicateReport } from '@/utils/duplicate-report';
 
 interface UseCSVImportProps {
   addCompetition: (competition: Competition) => Promise<void>;
@@ -26,31 +49,26 @@ export function useCSVImport({
   columnMapping,
   updateColumnMapping,
 }: UseCSVImportProps) {
-  const { upload, detectColumns } = useCSVUpload();
+  const { upload, detectColumns, cancelUpload, uploading, progress } = useCSVUpload();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Parsed once, then reused while the user reviews issues, conversions and duplicates
+  const pendingUploadRef = useRef<UploadResult | null>(null);
 
   const [savedMappings, setSavedMappings] = useState<SavedMapping[]>([]);
   const [suggestedMappingId, setSuggestedMappingId] = useState<string>('');
 
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState<string | undefined>();
   const [showNameModal, setShowNameModal] = useState(false);
   const [showMapperModal, setShowMapperModal] = useState(false);
   const [showDuplicateModal, setShowDuplicateModal] = useState(false);
   const [showConversionModal, setShowConversionModal] = useState(false);
+  const [showIssuesModal, setShowIssuesModal] = useState(false);
+  const [importIssues, setImportIssues] = useState<ValidationError[]>([]);
   const [detectedHeaders, setDetectedHeaders] = useState<string[]>([]);
   const [detectedMapping, setDetectedMapping] = useState<Partial<ColumnMapping>>({});
-  const [duplicates, setDuplicates] = useState<Array<{ ticketNumber: string; names: string[] }>>(
-    []
-  );
-  const [ticketConversions, setTicketConversions] = useState<
-    Array<{
-      original: string;
-      converted: string | null;
-      firstName: string;
-      lastName: string;
-    }>
-  >([]);
-  const [competitionName, setCompetitionName] = useState('');
+  const [duplicates, setDuplicates] = useState<DuplicateTicket[]>([]);
   const [importSummary, setImportSummary] = useState<{ success: boolean; message: string } | null>(
     null
   );
@@ -83,46 +101,26 @@ export function useCSVImport({
     if (!file) return;
 
     setSelectedFile(file);
+    setSelectedSheet(undefined);
     setImportSummary(null);
+    await detectFileColumns(file);
+  };
 
+  const detectFileColumns = async (file: File, sheetName?: string) => {
     try {
-      const { headers, detected } = await detectColumns(file);
+      const { headers, detected, sheetNames } = await detectColumns(file, sheetName);
+
+      // Workbooks with several sheets ask which sheet holds the entries
+      if (!sheetName && sheetNames.length > 1) {
+        setSheetNames(sheetNames);
+        return;
+      }
+
       setDetectedHeaders(headers);
 
       // Try to find the best matching saved mapping
       const defaultMapping = await storage.getDefaultMapping();
-      let bestMappingId = '';
-
-      if (defaultMapping) {
-        // Use default if set
-        bestMappingId = defaultMapping.id;
-      } else if (savedMappings.length > 0) {
-        // Try to match based on headers
-        const matchingMapping = savedMappings.find((mapping) => {
-          const m = mapping.mapping;
-          return (
-            headers.includes(m.ticketNumber) &&
-            (m.fullName
-              ? headers.includes(m.fullName)
-              : m.firstName &&
-                headers.includes(m.firstName) &&
-                m.lastName &&
-                headers.includes(m.lastName))
-          );
-        });
-
-        if (matchingMapping) {
-          bestMappingId = matchingMapping.id;
-        } else {
-          // Use most recently used mapping
-          const sortedByUsage = [...savedMappings].sort((a, b) => b.usageCount - a.usageCount);
-          if (sortedByUsage[0].usageCount > 0) {
-            bestMappingId = sortedByUsage[0].id;
-          }
-        }
-      }
-
-      setSuggestedMappingId(bestMappingId);
+      setSuggestedMappingId(suggestSavedMapping(headers, savedMappings, defaultMapping));
 
       // Always show mapper modal to give user chance to confirm or change
       setDetectedMapping({
@@ -130,6 +128,8 @@ export function useCSVImport({
         lastName: detected.lastName || '',
         fullName: detected.fullName || '',
         ticketNumber: detected.ticketNumber || '',
+        // A detected email column is suggested as a private extra column
+        ...(detected.email && { extraColumns: [{ key: detected.email, isPrivate: true }] }),
       });
       setShowMapperModal(true);
     } catch (error) {
@@ -137,6 +137,17 @@ export function useCSVImport({
     }
   };
 
+  const handleSheetSelect = (sheetName: string) => {
+    setSheetNames([]);
+    setSelectedSheet(sheetName);
+    if (selectedFile) detectFileColumns(selectedFile, sheetName);
+  };
+
+  const handleSheetCancel = () => {
+    setSheetNames([]);
+    resetFileInput();
+  };
+
   const handleMappingConfirm = async (mapping: ColumnMapping, savedMapping?: SavedMapping) => {
     await updateColumnMapping(mapping);
 
@@ -150,36 +161,20 @@ export function useCSVImport({
   };
 
   const handleNameConfirm = async (name: string) => {
-    setCompetitionName(name);
     setShowNameModal(false);
 
     if (!selectedFile || !columnMapping) return;
 
     try {
-      const result = await upload(selectedFile, name, columnMapping);
-
-      // Check for ticket conversions first
-      if (result.ticketConversions && result.ticketConversions.length > 0) {
-        setTicketConversions(result.ticketConversions);
-        setShowConversionModal(true);
-        // Don't proceed until user confirms conversions
+      const result = await upload(selectedFile, name, columnMapping, selectedSheet);
+      pendingUploadRef.current = result;
+      if (!result) {
+        setImportSummary({ success: false, message: 'Import cancelled.' });
+        resetFileInput();
         return;
       }
 
-      if (result.duplicates.length > 0) {
-        setDuplicates(result.duplicates);
-        setShowDuplicateModal(true);
-      } else {
-        await addCompetition(result.competition);
-        setImportSummary({
-          success: true,
-          message: `Success! ${result.competition.participants.length} participants imported. ${
-            result.skippedRows > 0
-              ? `${result.skippedRows} rows were skipped due to missing data.`
-              : ''
-          }`,
-        });
-      }
+      await continueImport(result);
     } catch (error) {
       setImportSummary({
         success: false,
@@ -190,67 +185,62 @@ export function useCSVImport({
     resetFileInput();
   };
 
-  const handleConversionProceed = async () => {
-    setShowConversionModal(false);
-
-    if (!selectedFile || !columnMapping || !competitionName) return;
+  /**
+   * Opens the next review step the upload needs: row issues, then ticket
+   * matching rules, then duplicates. Saves the competition once none is left.
+   */
+  const continueImport = async (result: UploadResult, after?: ReviewStep) => {
+    pendingUploadRef.current = result;
+    const step = nextReviewStep(result, after);
+
+    if (step === 'issues') {
+      setImportIssues(result.issues);
+      setShowIssuesModal(true);
+    } else if (step === 'tickets') {
+      setShowConversionModal(true);
+    } else if (step === 'duplicates') {
+      setDuplicates(result.duplicates);
+      setShowDuplicateModal(true);
+    } else {
+      await addCompetition(result.competition);
+      setImportSummary({ success: true, message: formatImportSummary(result) });
+    }
+  };
 
-    // Re-process the file - conversions are already handled in the parser
+  const continueAfter = async (step: ReviewStep, result: UploadResult) => {
     try {
-      const result = await upload(selectedFile, competitionName, columnMapping);
-
-      if (result.duplicates.length > 0) {
-        setDuplicates(result.duplicates);
-        setShowDuplicateModal(true);
-      } else {
-        await addCompetition(result.competition);
-        const conversionCount = ticketConversions.filter((c) => c.converted).length;
-        setImportSummary({
-          success: true,
-          message: `Success! ${result.competition.participants.length} participants imported. ${
-            conversionCount > 0
-              ? `${conversionCount} ticket numbers were converted to numeric format. `
-              : ''
-          }${
-            result.skippedRows > 0
-              ? `${result.skippedRows} rows were skipped due to missing data or invalid tickets.`
-              : ''
-          }`,
-        });
-      }
+      await continueImport(result, step);
     } catch (error) {
       setImportSummary({
         success: false,
         message: 'Failed to import CSV.',
       });
     }
+  };
 
-    resetFileInput();
+  const handleIssuesProceed = () => {
+    setShowIssuesModal(false);
+    if (pendingUploadRef.current) continueAfter('issues', pendingUploadRef.current);
   };
 
-  const handleDuplicateProceed = async () => {
-    setShowDuplicateModal(false);
+  const handleIssueFixes = (fixes: Record<number, Record<string, string>>) => {
+    if (!pendingUploadRef.current || !columnMapping) return;
+    const result = applyRowFixes(pendingUploadRef.current, fixes, columnMapping);
+    pendingUploadRef.current = result;
+    setImportIssues(result.issues);
+  };
 
-    if (!selectedFile || !columnMapping || !competitionName) return;
+  const handleConversionProceed = (policy: TicketNormalization) => {
+    setShowConversionModal(false);
+    if (pendingUploadRef.current) {
+      continueAfter('tickets', applyTicketPolicy(pendingUploadRef.current, policy));
+    }
+  };
 
-    try {
-      const result = await upload(selectedFile, competitionName, columnMapping);
-      await addCompetition(result.competition);
-      setImportSummary({
-        success: true,
-        message: `Success! ${result.competition.participants.length} participants imported. ${
-          result.duplicates.length
-        } duplicate ticket numbers were found (only first occurrence kept). ${
-          result.skippedRows > 0
-            ? `${result.skippedRows} rows were skipped due to missing data.`
-            : ''
-        }`,
-      });
-    } catch (error) {
-      setImportSummary({
-        success: false,
-        message: 'Failed to import CSV.',
-      });
+  const handleDuplicateProceed = (resolutions: Record<string, DuplicateResolution>) => {
+    setShowDuplicateModal(false);
+    if (pendingUploadRef.current) {
+      continueAfter('duplicates', applyDuplicateResolutions(pendingUploadRef.current, resolutions));
     }
   };
 
@@ -279,17 +269,36 @@ export function useCSVImport({
     showMapperModal,
     showDuplicateModal,
     showConversionModal,
+    importReview: {
+      open: showIssuesModal,
+      issues: importIssues,
+      mapping: columnMapping,
+      onApplyFixes: handleIssueFixes,
+      onProceed: handleIssuesProceed,
+      onCancel: () => setShowIssuesModal(false),
+    },
     detectedHeaders,
     detectedMapping,
     duplicates,
-    ticketConversions,
-    importSummary,
+    duplicateOverlaps: pendingUploadRef.current?.ticketExpansion?.overlappingTickets ?? 0,
+    pendingParticipants: pendingUploadRef.current?.competition.participants ?? [],
+    importStatus: {
+      isImporting: uploading,
+      progress,
+      summary: importSummary,
+      onCancel: cancelUpload,
+    },
+    sheetPicker: { sheetNames, onSelect: handleSheetSelect, onCancel: handleSheetCancel },
     savedMappings,
     suggestedMappingId,
     handleFileSelect,
     handleMappingConfirm,
     handleNameConfirm,
     handleDuplicateProceed,
+    handleDuplicateReport: (resolutions: Record<string, DuplicateResolution>) => {
+      const result = pendingUploadRef.current;
+      if (result) exportDuplicateReport(previewDuplicateResolution(result, resolutions));
+    },
     handleConversionProceed,
     setShowNameModal,
     setShowMapperModal,
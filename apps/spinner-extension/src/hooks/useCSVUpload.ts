@@ -3,6 +3,8 @@
  *
  * Purpose: Custom React hook for handling CSV file uploads including column detection,
  * data parsing, validation, duplicate handling, and competition creation.
+ * Parsing runs in a Web Worker and reports progress so it can be cancelled.
+ * Accepts CSV, TSV and spreadsheet (XLSX/XLS/ODS) files.
  *
  * SRS Reference:
  * - FR-1.1: CSV File Upload Interface
@@ -12,28 +14,49 @@
  * - FR-1.5: Data Validation and Error Handling
  */
 
-import { useState } from 'react';
-import { CSVParser, IntelligentColumnMapper } from '@raffle-spinner/csv-parser';
+import { useState, useRef } from 'react';
+import {
+  IntelligentColumnMapper,
+  type DuplicateResolutionResult,
+  type DuplicateTicket,
+  type ParseProgress,
+  type ParseResult,
+  type ValidationError,
+} from '@raffle-spinner/csv-parser';
 import { Competition, ColumnMapping } from '@raffle-spinner/storage';
+import { inspectFileInWorker, parseCSVInWorker, type CSVParseTask } from '@/lib/csv-worker';
+import { createInitialVersion } from '@/utils/competition-versions';
+import { DEFAULT_TICKET_NORMALIZATION } from '@/utils/ticket-identity';
 
 interface UseCSVUploadResult {
-  upload: (file: File, competitionName: string, mapping: ColumnMapping) => Promise<UploadResult>;
-  detectColumns: (file: File) => Promise<DetectedColumns>;
+  /** Resolves with null when the upload is cancelled */
+  upload: (
+    file: File,
+    competitionName: string,
+    mapping: ColumnMapping,
+    sheetName?: string
+  ) => Promise<UploadResult | null>;
+  detectColumns: (file: File, sheetName?: string) => Promise<DetectedColumns>;
+  cancelUpload: () => void;
   uploading: boolean;
+  progress: ParseProgress | null;
   error: string | null;
 }
 
-interface UploadResult {
+export interface UploadResult {
   competition: Competition;
-  duplicates: Array<{ ticketNumber: string; names: string[] }>;
+  duplicates: DuplicateTicket[];
   skippedRows: number;
   totalRows: number;
-  ticketConversions?: Array<{
-    original: string;
-    converted: string | null;
-    firstName: string;
-    lastName: string;
-  }>;
+  /** Row-level problems found while parsing, including rows that were skipped */
+  issues: ValidationError[];
+  /** Skipped rows the user corrected before importing */
+  fixedRows?: number;
+  ticketExpansion?: ParseResult['ticketExpansion'];
+  /** Distinct tickets merged by the competition's ticket matching rules */
+  mergedTickets?: number;
+  /** Set once the user has chosen how to resolve the duplicates */
+  duplicateResolution?: DuplicateResolutionResult;
 }
 
 interface DetectedColumns {
@@ -43,51 +66,52 @@ interface DetectedColumns {
     lastName: string | null;
     fullName: string | null;
     ticketNumber: string | null;
+    email: string | null;
   };
+  /** Sheets in a workbook; empty for CSV/TSV files */
+  sheetNames: string[];
 }
 
 export function useCSVUpload(): UseCSVUploadResult {
   const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const taskRef = useRef<CSVParseTask | null>(null);
 
-  const detectColumns = async (file: File): Promise<DetectedColumns> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const text = e.target?.result as string;
-        const lines = text.split('\n');
-        if (lines.length === 0) {
-          reject(new Error('Empty file'));
-          return;
-        }
+  const detectColumns = async (file: File, sheetName?: string): Promise<DetectedColumns> => {
+    const { headers, sheetNames, sampleRows } = await inspectFileInWorker(file, sheetName);
+    if (headers.length === 0) {
+      throw new Error('Empty file');
+    }
 
-        const headers = lines[0].split(',').map((h) => h.trim());
-        const mapper = new IntelligentColumnMapper();
-        const detected = mapper.detectHeaders(headers);
+    const mapper = new IntelligentColumnMapper();
+    const detected = mapper.detectHeaders(headers, sampleRows);
 
-        resolve({ headers, detected });
-      };
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
-    });
+    return { headers, detected, sheetNames };
   };
 
   const upload = async (
     file: File,
     competitionName: string,
-    mapping: ColumnMapping
-  ): Promise<UploadResult> => {
+    mapping: ColumnMapping,
+    sheetName?: string
+  ): Promise<UploadResult | null> => {
     setUploading(true);
+    setProgress(null);
     setError(null);
 
     try {
-      const parser = new CSVParser();
-      const result = await parser.parse(file, mapping);
+      taskRef.current = parseCSVInWorker(file, mapping, setProgress, sheetName);
+      const result = await taskRef.current.result;
+      if (!result) return null;
 
       const competition: Competition = {
         id: `comp_${Date.now()}`,
         name: competitionName,
         participants: result.participants,
+        participantFields: mapping.extraColumns,
+        ticketNormalization: DEFAULT_TICKET_NORMALIZATION,
+        versions: [createInitialVersion(file.name, result.participants.length)],
         createdAt: Date.now(),
         updatedAt: Date.now(),
       };
@@ -97,21 +121,30 @@ export function useCSVUpload(): UseCSVUploadResult {
         duplicates: result.duplicates,
         skippedRows: result.skippedRows,
         totalRows: result.totalRows,
-        ticketConversions: result.ticketConversions,
+        issues: result.issues,
+        ticketExpansion: result.ticketExpansion,
       };
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Upload failed';
       setError(message);
       throw err;
     } finally {
+      taskRef.current = null;
       setUploading(false);
+      setProgress(null);
     }
   };
 
+  const cancelUpload = () => {
+    taskRef.current?.cancel();
+  };
+
   return {
     upload,
     detectColumns,
+    cancelUpload,
     uploading,
+    progress,
     error,
   };
 }
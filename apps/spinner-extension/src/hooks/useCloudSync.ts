@@ -0,0 +1,97 @@
+/**
+ * useCloudSync Hook
+ *
+ * Purpose: Pulls changes from the user's other devices when a page opens or
+ * the connection comes back, applies them to the page, and exposes the sync
+ * status and controls for the options page.
+ *
+ * SRS Reference:
+ * - Data Layer: Cross-device sync
+ * - FR-1.6: Competition Management (shared competition data)
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@drawday/auth';
+import type { SyncState, ThemeSettings } from '@raffle-spinner/storage';
+import { useCompetitions } from '@/contexts/CompetitionContext';
+import { applySyncedTheme, setSyncSession, syncStorage } from '@/lib/cloud-sync';
+
+interface UseCloudSyncOptions {
+  trackTheme?: boolean; // Queue theme edits; only the page that edits the theme needs this
+}
+
+export function useCloudSync({ trackTheme = false }: UseCloudSyncOptions = {}) {
+  const { loadCompetitions } = useCompetitions();
+  const { tokens, refreshToken, isLoading: authLoading } = useAuth();
+  const [syncState, setSyncState] = useState<SyncState | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const appliedTheme = useRef<string | null>(null);
+
+  const refreshState = useCallback(async () => {
+    setSyncState(await syncStorage.getSyncState());
+  }, []);
+
+  // Apply remote changes, including those pulled by syncs after local edits
+  useEffect(() => {
+    return syncStorage.subscribe((result) => {
+      if (result.theme) {
+        appliedTheme.current = JSON.stringify(result.theme);
+        applySyncedTheme(result.theme);
+      }
+      loadCompetitions();
+      refreshState();
+    });
+  }, [loadCompetitions, refreshState]);
+
+  // Sync requests use the provider's session and never refresh it on their own
+  useEffect(() => {
+    setSyncSession({ tokens, refreshToken });
+  }, [tokens, refreshToken]);
+  const accessToken = tokens?.access_token;
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      await syncStorage.sync();
+    } finally {
+      setIsSyncing(false);
+      await refreshState();
+    }
+  }, [refreshState]);
+
+  // Pull on start, after logging in or refreshing, and whenever the connection comes back
+  useEffect(() => {
+    if (authLoading) return;
+    syncNow();
+    window.addEventListener('online', syncNow);
+    return () => window.removeEventListener('online', syncNow);
+  }, [syncNow, accessToken, authLoading]);
+
+  useEffect(() => {
+    if (!trackTheme) return;
+
+    const handleStorageChange = (changes: { [key: string]: chrome.storage.StorageChange }) => {
+      const theme: ThemeSettings | undefined = changes.data?.newValue?.theme;
+      const previous: ThemeSettings | undefined = changes.data?.oldValue?.theme;
+      if (!theme || JSON.stringify(theme) === JSON.stringify(previous)) return;
+      // Themes pulled from another device are not pushed back
+      if (JSON.stringify(theme) === appliedTheme.current) return;
+      syncStorage.saveTheme(theme).then(refreshState);
+    };
+
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+  }, [trackTheme, refreshState]);
+
+  const setSyncEnabled = async (enabled: boolean, theme?: ThemeSettings) => {
+    await syncStorage.setSyncEnabled(enabled);
+    if (enabled && theme) {
+      // Competitions and mappings are picked up by the first sync; the theme is
+      // queued as oldest so a theme from another device wins
+      await syncStorage.saveTheme(theme, 0);
+    }
+    await syncNow();
+  };
+
+  return { syncState, isSyncing, syncNow, setSyncEnabled };
+}
@@ -0,0 +1,145 @@
+/**
+ * useDataBackup Hook
+ *
+ * Purpose: Exports every competition, saved mapping, setting, theme and
+ * session to a backup file, and restores a backup by merging it into or
+ * replacing this install's data.
+ *
+ * SRS Reference:
+ * - Data Layer: Backup and restore
+ * - FR-1.6: Competition Management (portable competition data)
+ */
+
+import { useRef, useState } from 'react';
+import {
+  createBackup,
+  planBackupImport,
+  readBackup,
+  storage,
+  type BackupData,
+  type BackupFile,
+  type BackupImportMode,
+  type BackupImportPlan,
+} from '@raffle-spinner/storage';
+import { useCompetitions } from '@/contexts/CompetitionContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { downloadFile } from '@/utils/download';
+
+export type BackupImportState =
+  | { stage: 'confirm'; fileName: string; backup: BackupFile; current: BackupData }
+  | { stage: 'done'; plan: BackupImportPlan }
+  | { stage: 'error'; message: string };
+
+export function useDataBackup() {
+  const { loadCompetitions } = useCompetitions();
+  const { updateSettings, updateColumnMapping } = useSettings();
+  const { theme } = useTheme();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importState, setImportState] = useState<BackupImportState | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const readCurrentData = async (): Promise<BackupData> => {
+    const [competitions, settings, columnMapping, savedMappings, defaultMapping, session] =
+      await Promise.all([
+        storage.getCompetitions(),
+        storage.getSettings(),
+        storage.getColumnMapping(),
+        storage.getSavedMappings(),
+        storage.getDefaultMapping(),
+        storage.getSession(),
+      ]);
+
+    return {
+      competitions,
+      settings,
+      columnMapping,
+      savedMappings,
+      defaultMappingId: defaultMapping?.id,
+      theme,
+      session: session ?? undefined,
+    };
+  };
+
+  const exportBackup = async () => {
+    setExportError(null);
+    try {
+      const backup = await createBackup(await readCurrentData());
+      const date = new Date(backup.exportedAt).toISOString().slice(0, 10);
+      downloadFile(
+        JSON.stringify(backup, null, 2),
+        `raffle-spinner-backup-${date}.json`,
+        'application/json'
+      );
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      setExportError(error instanceof Error ? error.message : 'Failed to export backup');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const [backup, current] = await Promise.all([
+        readBackup(await file.text()),
+        readCurrentData(),
+      ]);
+      setImportState({ stage: 'confirm', fileName: file.name, backup, current });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to read backup';
+      setImportState({ stage: 'error', message });
+    }
+  };
+
+  const restoreSettings = async ({ data }: BackupFile) => {
+    await updateSettings(data.settings);
+    if (data.columnMapping) {
+      await updateColumnMapping(data.columnMapping);
+    }
+    await storage.setDefaultMapping(data.defaultMappingId ?? null);
+    if (data.theme) {
+      // ThemeContext picks up theme changes from chrome.storage
+      const result = await chrome.storage.local.get('data');
+      await chrome.storage.local.set({ data: { ...result.data, theme: data.theme } });
+    }
+    if (data.session) {
+      await storage.saveSession(data.session);
+    } else {
+      await storage.clearSession();
+    }
+  };
+
+  const applyImport = async (mode: BackupImportMode) => {
+    if (importState?.stage !== 'confirm') return;
+    const { backup, current } = importState;
+    const plan = planBackupImport(current, backup.data, mode);
+
+    try {
+      for (const id of plan.competitionsToDelete) await storage.deleteCompetition(id);
+      for (const competition of plan.competitionsToSave) await storage.saveCompetition(competition);
+      for (const id of plan.mappingsToDelete) await storage.deleteSavedMapping(id);
+      for (const mapping of plan.mappingsToSave) await storage.saveSavedMapping(mapping);
+      if (plan.restoreSettings) {
+        await restoreSettings(backup);
+      }
+      await loadCompetitions();
+      setImportState({ stage: 'done', plan });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to restore backup';
+      setImportState({ stage: 'error', message });
+    }
+  };
+
+  return {
+    fileInputRef,
+    importState,
+    exportError,
+    exportBackup,
+    handleFileChange,
+    applyImport,
+    closeImport: () => setImportState(null),
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * useDrawAuditLog Hook
+ *
+ * Purpose: Records every completed draw in the tamper-evident draw log so a
+ * disputed result can be traced back to the entry list, settings and operator
+ * that produced it.
+ *
+ * SRS Reference:
+ * - FR-2.4: Winner Display and Session History (auditable draw history)
+ *
+ * Architecture Decision:
+ * - Entry list is fingerprinted with the same hash as verifiable draws
+ * - Settings snapshot is taken from SettingsContext at the moment of the draw
+ * - Logging failures are reported but never interrupt the live draw
+ */
+
+import { useCallback } from 'react';
+import { useAuth } from '@drawday/auth';
+import { hashParticipantList } from '@raffle-spinner/draw-proof';
+import { storage, type Competition, type Participant, type Prize } from '@raffle-spinner/storage';
+import { useSettings } from '@/contexts/SettingsContext';
+
+interface RecordDrawOptions {
+  competition: Competition;
+  targetTicket: string;
+  winner: Participant;
+  prize?: Prize | null;
+}
+
+export function useDrawAuditLog() {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const operator = user?.email ?? 'unknown';
+
+  const recordDraw = useCallback(
+    async ({ competition, targetTicket, winner, prize }: RecordDrawOptions) => {
+      try {
+        await storage.appendDrawLogEntry({
+          competitionId: competition.id,
+          participantListHash: await hashParticipantList(competition.participants),
+          targetTicket,
+          winner: {
+            firstName: winner.firstName,
+            lastName: winner.lastName,
+            ticketNumber: winner.ticketNumber,
+          },
+          prize: prize?.name,
+          settings: { ...settings },
+          operator,
+          timestamp: Date.now(),
+        });
+      } catch (error) {
+        console.error('Failed to record draw in audit log:', error);
+      }
+    },
+    [operator, settings]
+  );
+
+  return { recordDraw };
+}
@@ -0,0 +1,189 @@
+/**
+ * useEntryUpdate Hook
+ *
+ * Purpose: Updates an existing competition's entries from a new CSV or
+ * spreadsheet export when ticket sales continue after the first upload.
+ * The new file goes through the import's row issue and duplicate review,
+ * is diffed against the current participants and only saved once the user
+ * approves the changes.
+ *
+ * SRS Reference:
+ * - FR-1.6: Competition Management (entry updates)
+ * - FR-1.2: CSV Parser Integration
+ * - FR-1.5: Data Validation and Error Handling
+ *
+ * Architecture Decision:
+ * - Parses with the current column mapping, as re-exports share the
+ *   original file's layout
+ * - Prize winners are kept even when their ticket is removed
+ */
+
+import { useRef, useState } from 'react';
+import type { DuplicateResolution } from '@raffle-spinner/csv-parser';
+import type { ColumnMapping, Competition } from '@raffle-spinner/storage';
+import { useCompetitions } from '@/contexts/CompetitionContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useSubscription } from '@/contexts/SubscriptionContext';
+import { parseCSVInWorker, type CSVParseTask } from '@/lib/csv-worker';
+import type { UploadResult } from '@/hooks/useCSVUpload';
+import { appendVersion } from '@/utils/competition-versions';
+import { exportDuplicateReport } from '@/utils/duplicate-report';
+import { nextUpdateState, toPendingUpdate, type EntryUpdateState } from '@/utils/entry-update';
+import {
+  applyDuplicateResolutions,
+  applyRowFixes,
+  previewDuplicateResolution,
+  type ReviewStep,
+} from '@/utils/import-review';
+
+export function useEntryUpdate() {
+  const { competitions, updateCompetition } = useCompetitions();
+  const { columnMapping } = useSettings();
+  const { canAddContestants } = useSubscription();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const targetRef = useRef<Competition | null>(null);
+  const taskRef = useRef<CSVParseTask | null>(null);
+  // Read by the review handlers, which can run twice before a re-render
+  const pendingRef = useRef<UploadResult | null>(null);
+  const [state, setState] = useState<EntryUpdateState | null>(null);
+
+  const startUpdate = (competition: Competition) => {
+    if (!columnMapping) {
+      setState({
+        stage: 'error',
+        competition,
+        message: 'Set a column mapping before updating entries.',
+      });
+      return;
+    }
+    targetRef.current = competition;
+    fileInputRef.current?.click();
+  };
+
+  const continueUpdate = (
+    competition: Competition,
+    fileName: string,
+    pending: UploadResult,
+    after?: ReviewStep
+  ) => {
+    pendingRef.current = pending;
+    setState(nextUpdateState(competition, fileName, pending, after));
+  };
+
+  const readFile = async (file: File, competition: Competition) => {
+    setState({ stage: 'reading', competition, fileName: file.name });
+
+    try {
+      taskRef.current = parseCSVInWorker(file, columnMapping!, () => {});
+      const result = await taskRef.current.result;
+      if (!result) return;
+
+      continueUpdate(competition, file.name, toPendingUpdate(competition, result, columnMapping!));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to read file';
+      setState({ stage: 'error', competition, message });
+    } finally {
+      taskRef.current = null;
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again for the next update
+    e.target.value = '';
+    if (file && targetRef.current) {
+      readFile(file, targetRef.current);
+    }
+  };
+
+  const proceedAfter = (step: ReviewStep, apply = (pending: UploadResult) => pending) => {
+    if (state?.stage !== step || !pendingRef.current) return;
+    continueUpdate(state.competition, state.fileName, apply(pendingRef.current), step);
+  };
+
+  const applyFixes = (fixes: Record<number, Record<string, string>>) => {
+    if (state?.stage !== 'issues' || !pendingRef.current || !columnMapping) return;
+    pendingRef.current = applyRowFixes(pendingRef.current, fixes, columnMapping);
+    setState({ ...state, pending: pendingRef.current });
+  };
+
+  const approve = async () => {
+    if (state?.stage !== 'review') return;
+    const { competition, fileName, participants, participantFields, diff } = state;
+
+    const totalContestants = competitions.reduce((total, c) => total + c.participants.length, 0);
+    const adding = participants.length - competition.participants.length;
+    if (adding > 0 && !canAddContestants(totalContestants, adding)) {
+      setState({
+        stage: 'error',
+        competition,
+        message:
+          'This update would exceed your contestant limit. Upgrade to Pro for unlimited contestants.',
+      });
+      return;
+    }
+
+    await updateCompetition(competition.id, {
+      participants,
+      participantFields,
+      versions: appendVersion(competition, fileName, diff, participants.length),
+    });
+    setState(null);
+  };
+
+  const cancel = () => {
+    taskRef.current?.cancel();
+    pendingRef.current = null;
+    setState(null);
+  };
+
+  return {
+    fileInputRef,
+    state,
+    startUpdate,
+    handleFileChange,
+    approve,
+    cancel,
+    ...reviewDialogs(state, pendingRef, columnMapping, { applyFixes, proceedAfter, cancel }),
+  };
+}
+
+interface ReviewHandlers {
+  applyFixes: (fixes: Record<number, Record<string, string>>) => void;
+  proceedAfter: (step: ReviewStep, apply?: (pending: UploadResult) => UploadResult) => void;
+  cancel: () => void;
+}
+
+/** Props for the import dialogs that review the update's row issues and duplicates */
+function reviewDialogs(
+  state: EntryUpdateState | null,
+  pendingRef: React.MutableRefObject<UploadResult | null>,
+  mapping: ColumnMapping | null,
+  { applyFixes, proceedAfter, cancel }: ReviewHandlers
+) {
+  const pending = state?.stage === 'issues' || state?.stage === 'duplicates' ? state.pending : null;
+
+  return {
+    importReview: {
+      open: state?.stage === 'issues',
+      issues: pending?.issues ?? [],
+      mapping,
+      onApplyFixes: applyFixes,
+      onProceed: () => proceedAfter('issues'),
+      onCancel: cancel,
+    },
+    duplicateReview: {
+      open: state?.stage === 'duplicates',
+      duplicates: pending?.duplicates ?? [],
+      overlappingTickets: pending?.ticketExpansion?.overlappingTickets ?? 0,
+      onProceed: (resolutions: Record<string, DuplicateResolution>) =>
+        proceedAfter('duplicates', (p) => applyDuplicateResolutions(p, resolutions)),
+      onDownloadReport: (resolutions: Record<string, DuplicateResolution>) => {
+        if (pendingRef.current) {
+          exportDuplicateReport(previewDuplicateResolution(pendingRef.current, resolutions));
+        }
+      },
+      onCancel: cancel,
+    },
+  };
+}
@@ -34,6 +34,22 @@ export interface KeyboardShortcutState {
   hasActiveModal: boolean;
 }
 
+// Handler called for each shortcut action
+const ACTION_HANDLERS: Record<string, keyof KeyboardShortcutHandlers> = {
+  spin: 'onSpin',
+  reset: 'onReset',
+  'reveal-winner': 'onRevealWinner',
+  'new-session': 'onNewSession',
+  'export-winners': 'onExportWinners',
+  'clear-winners': 'onClearWinners',
+  'competition-selector': 'onOpenCompetitionSelector',
+  settings: 'onOpenSettings',
+  'close-modal': 'onCloseModal',
+  help: 'onShowHelp',
+  'navigate-up': 'onNavigateUp',
+  'navigate-down': 'onNavigateDown',
+};
+
 export function useKeyboardShortcuts(
   handlers: KeyboardShortcutHandlers,
   state: KeyboardShortcutState
@@ -75,6 +91,11 @@ export function useKeyboardShortcuts(
         return;
       }
 
+      // Leave keys alone for actions this screen doesn't handle
+      if (!handlers[ACTION_HANDLERS[shortcut.action]]) {
+        return;
+      }
+
       event.preventDefault();
 
       // Route to appropriate handler based on action
@@ -0,0 +1,58 @@
+/**
+ * usePhysicsProfile Hook
+ *
+ * Purpose: Selects, edits and deletes spin physics profiles stored in the
+ * spinner settings. Editing a built-in profile saves an edited copy, so
+ * the built-ins always stay available.
+ *
+ * SRS Reference:
+ * - FR-1.7: Spinner Physics Configuration (named physics profiles)
+ */
+
+import type { PhysicsProfile, SpinnerSettings } from '@raffle-spinner/storage';
+import { getPhysicsProfiles, resolvePhysicsProfile } from '@raffle-spinner/spinner-physics';
+
+export function usePhysicsProfile(
+  settings: SpinnerSettings,
+  onUpdate: (settings: Partial<SpinnerSettings>) => void
+) {
+  const profile = resolvePhysicsProfile(settings);
+  const savedProfiles = settings.physicsProfiles ?? [];
+  const isSaved = savedProfiles.some((p) => p.id === profile.id);
+
+  const selectProfile = (id: string) => onUpdate({ physicsProfileId: id });
+
+  const updateProfile = (changes: Partial<PhysicsProfile>) => {
+    if (isSaved) {
+      onUpdate({
+        physicsProfiles: savedProfiles.map((p) => (p.id === profile.id ? { ...p, ...changes } : p)),
+      });
+      return;
+    }
+
+    const copy: PhysicsProfile = {
+      ...profile,
+      ...changes,
+      id: `profile-${Date.now()}`,
+      name: `${profile.name} (edited)`,
+    };
+    onUpdate({ physicsProfiles: [...savedProfiles, copy], physicsProfileId: copy.id });
+  };
+
+  const deleteProfile = () => {
+    if (!isSaved) return;
+    onUpdate({
+      physicsProfiles: savedProfiles.filter((p) => p.id !== profile.id),
+      physicsProfileId: undefined,
+    });
+  };
+
+  return {
+    profile,
+    profiles: getPhysicsProfiles(settings),
+    isSaved,
+    selectProfile,
+    updateProfile,
+    deleteProfile,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * usePrizeDraw Hook
+ *
+ * Purpose: Steps a multi-prize competition through its prizes in order,
+ * records which ticket won each prize and keeps previous winners out of
+ * later draws.
+ *
+ * SRS Reference:
+ * - FR-1.6: Competition Management (prize tiers)
+ * - FR-2.2: Winner Selection and Animation (no repeat winners)
+ *
+ * Architecture Decision:
+ * - Prize winners are stored on the competition so exclusions survive reloads
+ * - Progress and eligibility are derived from the competition, never duplicated
+ */
+
+import { useMemo, useCallback } from 'react';
+import type { Competition, Participant, Prize } from '@raffle-spinner/storage';
+import { useCompetitions } from '@/contexts/CompetitionContext';
+import { getEligibleParticipants, getPrizeProgress } from '@/utils/prize-draw';
+
+export function usePrizeDraw(competition: Competition | null) {
+  const { updateCompetition } = useCompetitions();
+
+  const progress = useMemo(
+    () => (competition ? getPrizeProgress(competition) : null),
+    [competition]
+  );
+
+  const eligibleParticipants = useMemo(
+    () => (competition ? getEligibleParticipants(competition) : []),
+    [competition]
+  );
+
+  /** Records the winner against the current prize and returns that prize */
+  const awardPrize = useCallback(
+    async (winner: Participant): Promise<Prize | null> => {
+      const prize = progress?.currentPrize;
+      if (!competition || !prize) return null;
+
+      await updateCompetition(competition.id, {
+        prizeWinners: [
+          ...(competition.prizeWinners ?? []),
+          { prizeId: prize.id, ticketNumber: winner.ticketNumber, timestamp: Date.now() },
+        ],
+      });
+      return prize;
+    },
+    [competition, progress, updateCompetition]
+  );
+
+  /** Starts the prize draw again from the first prize */
+  const resetPrizes = useCallback(async () => {
+    if (!competition) return;
+    await updateCompetition(competition.id, { prizeWinners: [] });
+  }, [competition, updateCompetition]);
+
+  return { progress, eligibleParticipants, awardPrize, resetPrizes };
+}
@@ -32,6 +32,7 @@ interface Winner {
   lastName: string;
   ticketNumber: string;
   competition: string;
+  prize?: string;
   timestamp: number;
 }
 
@@ -60,6 +61,7 @@ export function useSessionPersistence(options: UseSessionPersistenceOptions = {}
     lastName: sessionWinner.lastName,
     ticketNumber: sessionWinner.ticketNumber,
     competition: sessionWinner.competition,
+    prize: sessionWinner.prize,
     timestamp: sessionWinner.timestamp,
   });
 
@@ -0,0 +1,28 @@
+/**
+ * useSpeechVoices Hook
+ *
+ * Purpose: Lists the speech synthesis voices installed in the browser.
+ * Browsers load voices asynchronously, so the list updates when they arrive.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (spoken announcement)
+ */
+
+import { useEffect, useState } from 'react';
+import { isSpeechSupported } from '@/lib/speech';
+
+export function useSpeechVoices(): SpeechSynthesisVoice[] {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    if (!isSpeechSupported()) return;
+    const synth = window.speechSynthesis;
+    const updateVoices = () => setVoices(synth.getVoices());
+
+    updateVoices();
+    synth.addEventListener('voiceschanged', updateVoices);
+    return () => synth.removeEventListener('voiceschanged', updateVoices);
+  }, []);
+
+  return voices;
+}
@@ -11,9 +11,13 @@
  */
 
 import { useState, useRef, useCallback } from 'react';
-import { normalizeTicketNumber } from '@/lib/utils';
+import { findParticipantByTicket } from '@/utils/ticket-identity';
 import type { Participant, Competition } from '@raffle-spinner/storage';
 import type { Winner } from '@/components/sidepanel/SessionWinners';
+import { useDrawAuditLog } from './useDrawAuditLog';
+import { usePrizeDraw } from './usePrizeDraw';
+import { getPrizeDrawError } from '@/utils/prize-draw';
+import { getWinnerMetadata } from '@/lib/participant-metadata';
 import confetti from 'canvas-confetti';
 
 interface UseSpinHandlerProps {
@@ -31,7 +35,9 @@ interface UseSpinHandlerReturn {
   error: string | null;
   spinTarget: string;
   handleSpin: () => void;
+  startSpin: (ticket: string) => void;
   handleSpinComplete: (winner: Participant) => void;
+  dismissWinner: () => void;
   sessionWinners: Winner[];
   setSessionWinners: React.Dispatch<React.SetStateAction<Winner[]>>;
 }
@@ -50,8 +56,10 @@ export function useSpinHandler({
   const [spinTarget, setSpinTarget] = useState('');
   
   const confettiRef = useRef<boolean>(false);
+  const { recordDraw } = useDrawAuditLog();
+  const { progress, awardPrize } = usePrizeDraw(selectedCompetition);
 
-  const handleSpin = useCallback(() => {
+  const startSpin = useCallback((ticket: string) => {
     setError(null);
 
     // Check subscription limits
@@ -70,39 +78,52 @@ export function useSpinHandler({
       return;
     }
 
-    if (!ticketNumber) {
+    if (!ticket) {
       setError('Please enter a ticket number');
       return;
     }
 
-    const normalizedInput = normalizeTicketNumber(ticketNumber);
-    const participant = selectedCompetition.participants.find(
-      (p) => normalizeTicketNumber(p.ticketNumber) === normalizedInput
-    );
+    const participant = findParticipantByTicket(selectedCompetition, ticket);
 
-    if (!participant) {
-      setError('Ticket number not found in this competition');
+    const drawError = participant
+      ? getPrizeDrawError(selectedCompetition, participant.ticketNumber)
+      : 'Ticket number not found in this competition';
+    if (!participant || drawError) {
+      setError(drawError);
       return;
     }
 
+    // Spin to the ticket as entered in the competition, so the spinner
+    // matches it exactly
+    setTicketNumber(ticket);
     setIsSpinning(true);
     setCurrentWinner(null);
-    setSpinTarget(ticketNumber);
-  }, [ticketNumber, selectedCompetition, canConductRaffle, getRemainingRaffles]);
+    setSpinTarget(participant.ticketNumber);
+  }, [selectedCompetition, canConductRaffle, getRemainingRaffles]);
+
+  const handleSpin = useCallback(() => {
+    startSpin(ticketNumber);
+  }, [startSpin, ticketNumber]);
+
+  const dismissWinner = useCallback(() => {
+    setTicketNumber('');
+    setCurrentWinner(null);
+  }, []);
 
   const handleSpinComplete = useCallback(async (winner: Participant) => {
     setIsSpinning(false);
     setCurrentWinner(winner);
 
-    // Increment raffle count
-    await incrementRaffleCount();
-
-    // Add to session winners
+    // Add to session winners before anything is saved, so a storage failure
+    // never loses the result on screen
+    const prize = progress?.currentPrize ?? null;
     const newWinner: Winner = {
       firstName: winner.firstName,
       lastName: winner.lastName,
       ticketNumber: winner.ticketNumber,
       competition: selectedCompetition!.name,
+      prize: prize?.name,
+      ...getWinnerMetadata(selectedCompetition!, winner),
       timestamp: Date.now(),
     };
 
@@ -122,12 +143,23 @@ export function useSpinHandler({
       }, 1000);
     }
 
-    // Clear after 5 seconds
-    setTimeout(() => {
-      setTicketNumber('');
-      setCurrentWinner(null);
-    }, 5000);
-  }, [selectedCompetition, incrementRaffleCount]);
+    // Append to the tamper-evident draw log (failures are logged, not thrown)
+    await recordDraw({ competition: selectedCompetition!, targetTicket: spinTarget, winner, prize });
+
+    try {
+      // Increment raffle count
+      await incrementRaffleCount();
+
+      // Award the current prize; the ticket is then excluded from later draws
+      await awardPrize(winner);
+    } catch (saveError) {
+      console.error('Failed to save draw result:', saveError);
+      setError(
+        `Ticket ${winner.ticketNumber} won, but the result could not be saved. ` +
+          'Note the winner down before the next draw.'
+      );
+    }
+  }, [selectedCompetition, spinTarget, progress, incrementRaffleCount, awardPrize, recordDraw]);
 
   return {
     ticketNumber,
@@ -137,7 +169,9 @@ export function useSpinHandler({
     error,
     spinTarget,
     handleSpin,
+    startSpin,
     handleSpinComplete,
+    dismissWinner,
     sessionWinners,
     setSessionWinners,
   };
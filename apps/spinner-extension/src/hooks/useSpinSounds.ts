@@ -0,0 +1,48 @@
+/**
+ * useSpinSounds Hook
+ *
+ * Purpose: Plays the theme's sound effects along with a spin: a tick as each
+ * entry passes the center, a drum roll once the spinner starts slowing down
+ * and a fanfare when the winner lands.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (sound effects)
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { AudioSettings, SpinnerSettings } from '@raffle-spinner/storage';
+import { resolvePhysicsProfile } from '@raffle-spinner/spinner-physics';
+import { createSoundEngine } from '@/lib/sound-engine';
+import { DEFAULT_AUDIO } from '@/lib/sound-packs';
+
+export function useSpinSounds(
+  audio: AudioSettings = DEFAULT_AUDIO,
+  settings: SpinnerSettings,
+  isSpinning: boolean
+) {
+  const [engine] = useState(createSoundEngine);
+
+  useEffect(() => () => engine.close(), [engine]);
+
+  useEffect(() => {
+    engine.configure(audio);
+  }, [engine, audio]);
+
+  // The drum roll covers the deceleration, after the profile's acceleration share
+  useEffect(() => {
+    if (!isSpinning) return;
+    engine.resume();
+    const decelerationStart =
+      resolvePhysicsProfile(settings).acceleration * settings.minSpinDuration * 1000;
+    const timer = setTimeout(engine.startDrumRoll, decelerationStart);
+    return () => {
+      clearTimeout(timer);
+      engine.stopDrumRoll();
+    };
+  }, [engine, isSpinning, settings]);
+
+  const playTick = useCallback(() => engine.playTick(), [engine]);
+  const playFanfare = useCallback(() => engine.playFanfare(), [engine]);
+
+  return { playTick, playFanfare };
+}
@@ -0,0 +1,151 @@
+/**
+ * useVerifiableDraw Hook
+ *
+ * Purpose: Manages the "draw for me" mode. The operator commits to the entry
+ * list and a secret seed before the draw, then reveals the seed to derive the
+ * winner and obtain a proof bundle anyone can re-check offline.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (verifiable random selection)
+ *
+ * Architecture Decision:
+ * - Seed is held in a ref and never rendered until the reveal
+ * - Commitment is discarded whenever the competition or its entries change
+ * - A revealed proof survives the winner being excluded from later prizes
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+  createCommitment,
+  revealDraw,
+  generateSeed,
+  canonicalParticipantOrder,
+  type DrawCommitment,
+  type DrawProof,
+} from '@raffle-spinner/draw-proof';
+import type { Competition, Participant } from '@raffle-spinner/storage';
+import { downloadFile } from '@/utils/download';
+
+interface UseVerifiableDrawReturn {
+  commitment: DrawCommitment | null;
+  proof: DrawProof | null;
+  isWorking: boolean;
+  drawError: string | null;
+  prepareDraw: (userSeed?: string) => Promise<void>;
+  revealWinner: () => Promise<DrawProof | null>;
+  resetDraw: () => void;
+  downloadProof: () => void;
+  downloadEntryList: () => void;
+}
+
+export function useVerifiableDraw(competition: Competition | null): UseVerifiableDrawReturn {
+  const [commitment, setCommitment] = useState<DrawCommitment | null>(null);
+  const [proof, setProof] = useState<DrawProof | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [drawError, setDrawError] = useState<string | null>(null);
+  const seedRef = useRef<string | null>(null);
+  const revealedRef = useRef(false);
+  const entriesRef = useRef<Participant[]>([]);
+
+  const resetDraw = useCallback(() => {
+    seedRef.current = null;
+    revealedRef.current = false;
+    setCommitment(null);
+    setProof(null);
+    setDrawError(null);
+  }, []);
+
+  // A commitment only holds for the exact competition and entry list it was made for
+  useEffect(() => {
+    resetDraw();
+  }, [competition?.id, resetDraw]);
+
+  useEffect(() => {
+    if (!revealedRef.current) resetDraw();
+  }, [competition?.participants, resetDraw]);
+
+  const prepareDraw = useCallback(
+    async (userSeed?: string) => {
+      if (!competition || competition.participants.length === 0) {
+        setDrawError('Please select a competition with entries first');
+        return;
+      }
+
+      setIsWorking(true);
+      setDrawError(null);
+      setProof(null);
+      revealedRef.current = false;
+      try {
+        const seed = generateSeed(userSeed);
+        const newCommitment = await createCommitment(competition.participants, seed, userSeed);
+        seedRef.current = seed;
+        entriesRef.current = competition.participants;
+        setCommitment(newCommitment);
+      } catch (error) {
+        setDrawError(error instanceof Error ? error.message : 'Failed to commit the draw');
+      } finally {
+        setIsWorking(false);
+      }
+    },
+    [competition]
+  );
+
+  const revealWinner = useCallback(async () => {
+    if (!competition || !commitment || !seedRef.current) {
+      setDrawError('Commit the draw before revealing the winner');
+      return null;
+    }
+
+    setIsWorking(true);
+    setDrawError(null);
+    try {
+      const newProof = await revealDraw(competition.participants, seedRef.current, commitment);
+      revealedRef.current = true;
+      setProof(newProof);
+      return newProof;
+    } catch (error) {
+      setDrawError(error instanceof Error ? error.message : 'Failed to reveal the draw');
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  }, [competition, commitment]);
+
+  const downloadProof = useCallback(() => {
+    if (!proof || !competition) return;
+    const bundle = { competition: competition.name, ...proof };
+    downloadFile(
+      JSON.stringify(bundle, null, 2),
+      `draw-proof-${proof.winner.ticketNumber}-${proof.revealedAt}.json`,
+      'application/json'
+    );
+  }, [proof, competition]);
+
+  const downloadEntryList = useCallback(() => {
+    if (!competition) return;
+    // The committed list, even if a winner has since been excluded
+    const entries = commitment ? entriesRef.current : competition.participants;
+    const participants = canonicalParticipantOrder(entries).map((p) => ({
+      ticketNumber: p.ticketNumber,
+      firstName: p.firstName,
+      lastName: p.lastName,
+    }));
+    downloadFile(
+      JSON.stringify({ competition: competition.name, participants }, null, 2),
+      `draw-entries-${competition.id}.json`,
+      'application/json'
+    );
+  }, [competition, commitment]);
+
+  return {
+    commitment,
+    proof,
+    isWorking,
+    drawError,
+    prepareDraw,
+    revealWinner,
+    resetDraw,
+    downloadProof,
+    downloadEntryList,
+  };
+}
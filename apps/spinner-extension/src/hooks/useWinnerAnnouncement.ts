@@ -0,0 +1,50 @@
+/**
+ * useWinnerAnnouncement Hook
+ *
+ * Purpose: Speaks the winner announcement, when enabled, once the reveal
+ * shows the winner's name. Instant reveals announce as the spinner lands;
+ * suspense reveals (ticket first, digit by digit) wait for the operator's
+ * last reveal key press, so the name isn't given away early.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (spoken announcement, winner reveal)
+ */
+
+import { useEffect, useRef } from 'react';
+import type { AnnouncementSettings, Participant } from '@raffle-spinner/storage';
+import { speakAnnouncement } from '@/lib/speech';
+
+interface PendingAnnouncement {
+  winner: Participant;
+  /** Prize being drawn when the spin landed, before the win moves the draw on */
+  prizeName?: string;
+}
+
+export function useWinnerAnnouncement(
+  settings: AnnouncementSettings | undefined,
+  competitionName: string,
+  winner: Participant | null,
+  nameShown: boolean
+) {
+  const pendingRef = useRef<PendingAnnouncement | null>(null);
+  const contextRef = useRef({ settings, competitionName });
+  contextRef.current = { settings, competitionName };
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    if (!nameShown || !pending || pending.winner !== winner) return;
+
+    pendingRef.current = null;
+    const { settings, competitionName } = contextRef.current;
+    if (settings?.enabled) {
+      speakAnnouncement(settings, { ...pending, competitionName });
+    }
+  }, [winner, nameShown]);
+
+  /** Queues the announcement for a winner that just landed */
+  const queueAnnouncement = (landed: Participant, prizeName?: string) => {
+    pendingRef.current = { winner: landed, prizeName };
+  };
+
+  return { queueAnnouncement };
+}
@@ -0,0 +1,57 @@
+/**
+ * useWinnerReveal Hook
+ *
+ * Purpose: Steps through the configured winner reveal. The reveal shortcut
+ * (W) shows the next stage; once everything is shown, it dismisses the
+ * winner. Instant reveals dismiss themselves after a few seconds.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (winner reveal)
+ * - UX-3.1: Keyboard Navigation and Accessibility
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Participant, RevealMode } from '@raffle-spinner/storage';
+import { useKeyboardShortcuts } from './useKeyboardShortcuts';
+import { DEFAULT_REVEAL_MODE, getRevealView, shouldAutoClear } from '@/utils/winner-reveal';
+
+const AUTO_CLEAR_DELAY = 5000;
+
+export function useWinnerReveal(
+  winner: Participant | null,
+  mode: RevealMode = DEFAULT_REVEAL_MODE,
+  onDismiss: () => void
+) {
+  // The stage belongs to one winner, so a new winner always starts hidden
+  const [progress, setProgress] = useState<{ winner: Participant | null; stage: number }>({
+    winner: null,
+    stage: 0,
+  });
+  const stage = progress.winner === winner ? progress.stage : 0;
+  const view = winner ? getRevealView(mode, winner.ticketNumber, stage) : null;
+
+  const onDismissRef = useRef(onDismiss);
+  onDismissRef.current = onDismiss;
+
+  useEffect(() => {
+    if (!winner || !shouldAutoClear(mode)) return;
+    const timer = setTimeout(() => onDismissRef.current(), AUTO_CLEAR_DELAY);
+    return () => clearTimeout(timer);
+  }, [winner, mode]);
+
+  const advance = useCallback(() => {
+    if (!winner || !view) return;
+    if (view.isComplete) {
+      onDismissRef.current();
+    } else {
+      setProgress({ winner, stage: stage + 1 });
+    }
+  }, [winner, view, stage]);
+
+  useKeyboardShortcuts(
+    { onRevealWinner: advance },
+    { isHelpVisible: false, canSpin: false, canRevealWinner: !!winner, hasActiveModal: false }
+  );
+
+  return { stage, view, advance };
+}
@@ -0,0 +1,42 @@
+/**
+ * Participant Metadata Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Competition } from '@raffle-spinner/storage';
+import { toAudienceCompetition } from '../participant-metadata';
+
+const competition: Competition = {
+  id: 'c1',
+  name: 'Summer Raffle',
+  participants: [
+    {
+      firstName: 'Jane',
+      lastName: 'Doe',
+      ticketNumber: '42',
+      metadata: { Email: 'jane@example.com' },
+    },
+  ],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe('toAudienceCompetition', () => {
+  it('should strip participant metadata and fields', () => {
+    const audience = toAudienceCompetition({
+      ...competition,
+      participantFields: [{ key: 'Email', isPrivate: true }],
+    });
+
+    expect(audience.participants).toEqual([
+      { firstName: 'Jane', lastName: 'Doe', ticketNumber: '42' },
+    ]);
+    expect(audience.participantFields).toBeUndefined();
+  });
+
+  it('should strip metadata when no participant fields were recorded', () => {
+    const audience = toAudienceCompetition(competition);
+
+    expect(audience.participants[0].metadata).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Sound Engine Tests
+ * Checks which pack plays and that the fanfare ends the drum roll
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSoundEngine } from '../sound-engine';
+import { getSoundPack } from '../sound-packs';
+import { playSynthFanfare, playTone, startSynthDrumRoll } from '../sound-synth';
+
+const drumSource = vi.hoisted(() => ({ stop: vi.fn() }));
+
+vi.mock('../sound-synth', () => ({
+  playTone: vi.fn(),
+  playBuffer: vi.fn(),
+  startSynthDrumRoll: vi.fn(() => [drumSource]),
+  playSynthFanfare: vi.fn(),
+}));
+
+const gainNode = () => ({
+  connect: vi.fn(),
+  gain: {
+    value: 1,
+    cancelScheduledValues: vi.fn(),
+    setValueAtTime: vi.fn(),
+    linearRampToValueAtTime: vi.fn(),
+  },
+});
+
+class FakeAudioContext {
+  currentTime = 0;
+  state = 'running';
+  destination = {};
+  createGain = vi.fn(gainNode);
+  resume = vi.fn(async () => {});
+  close = vi.fn(async () => {});
+}
+
+describe('createSoundEngine', () => {
+  beforeEach(() => {
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it('should play the sounds of the selected pack', () => {
+    const engine = createSoundEngine();
+    engine.configure({ pack: 'arcade', volume: 0.5, muted: false });
+
+    engine.playTick();
+    engine.startDrumRoll();
+    engine.playFanfare();
+
+    const arcade = getSoundPack('arcade');
+    expect(playTone).toHaveBeenCalledWith(expect.anything(), expect.anything(), arcade.tick, 0);
+    expect(startSynthDrumRoll).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      arcade.drumRoll
+    );
+    expect(playSynthFanfare).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      arcade.fanfare
+    );
+  });
+
+  it('should stop the drum roll when the fanfare plays', () => {
+    const engine = createSoundEngine();
+
+    engine.startDrumRoll();
+    expect(drumSource.stop).not.toHaveBeenCalled();
+
+    engine.playFanfare();
+    expect(drumSource.stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop the drum roll even when muted before the fanfare', () => {
+    const engine = createSoundEngine();
+
+    engine.startDrumRoll();
+    engine.configure({ pack: 'classic', volume: 0.7, muted: true });
+    engine.playFanfare();
+
+    expect(drumSource.stop).toHaveBeenCalledTimes(1);
+    expect(playSynthFanfare).not.toHaveBeenCalled();
+  });
+
+  it('should not play anything while muted', () => {
+    const engine = createSoundEngine();
+    engine.configure({ pack: 'classic', volume: 0.7, muted: true });
+
+    engine.playTick();
+    engine.startDrumRoll();
+
+    expect(playTone).not.toHaveBeenCalled();
+    expect(startSynthDrumRoll).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Sound Packs Tests
+ * Tests picking a pack by id and the settings every pack relies on
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_AUDIO, SOUND_PACKS, getSoundPack } from '../sound-packs';
+
+describe('getSoundPack', () => {
+  it.each(SOUND_PACKS.map((pack) => pack.id))('should find the %s pack', (id) => {
+    expect(getSoundPack(id).id).toBe(id);
+  });
+
+  it('should fall back to the first pack for unknown ids', () => {
+    expect(getSoundPack('deleted-pack')).toBe(SOUND_PACKS[0]);
+    expect(getSoundPack('')).toBe(SOUND_PACKS[0]);
+  });
+
+  it('should default to a pack that exists', () => {
+    expect(SOUND_PACKS.some((pack) => pack.id === DEFAULT_AUDIO.pack)).toBe(true);
+  });
+});
+
+describe('SOUND_PACKS', () => {
+  it('should have unique ids', () => {
+    const ids = SOUND_PACKS.map((pack) => pack.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it.each(SOUND_PACKS.map((pack) => [pack.id, pack] as const))(
+    'should give every sound of %s a usable volume and timing',
+    (_, pack) => {
+      [pack.tick.gain, pack.drumRoll.gain, pack.fanfare.gain].forEach((gain) => {
+        expect(gain).toBeGreaterThan(0);
+        expect(gain).toBeLessThanOrEqual(1);
+      });
+      expect(pack.tick.duration).toBeGreaterThan(0);
+      expect(pack.drumRoll.rate).toBeGreaterThan(0);
+      expect(pack.fanfare.notes.length).toBeGreaterThan(0);
+      expect(pack.fanfare.noteLength).toBeGreaterThan(0);
+    }
+  );
+});
@@ -0,0 +1,63 @@
+/**
+ * Audience Channel
+ *
+ * Purpose: Message protocol between the operator side panel and its display
+ * windows (pop-out audience view and stream overlay). All are extension pages on the same origin, so a
+ * BroadcastChannel delivers messages without going through the service worker.
+ *
+ * SRS Reference:
+ * - FR-2.1: Side Panel Interface (audience display)
+ * - FR-2.2: Winner Selection and Animation
+ */
+
+import type {
+  Competition,
+  Participant,
+  SpinnerSettings,
+  ThemeSettings,
+} from '@raffle-spinner/storage';
+
+export const AUDIENCE_CHANNEL_NAME = 'drawday-audience-view';
+
+/** Display windows driven by the side panel */
+export type AudienceViewKind = 'audience' | 'overlay';
+
+/**
+ * Everything a display window needs to draw the current competition
+ */
+export interface AudienceDisplayState {
+  /** Competition with previous prize winners already excluded */
+  competition: Competition | null;
+  settings: SpinnerSettings;
+  theme: ThemeSettings;
+  hasBranding: boolean;
+  /** Whether the operator's plan includes the stream overlay */
+  hasStreaming: boolean;
+  /** Progress label for multi-prize competitions */
+  prizeLabel?: string;
+}
+
+export type AudienceMessage =
+  | { type: 'state'; state: AudienceDisplayState }
+  | { type: 'spin'; ticketNumber: string }
+  | { type: 'winner'; winner: Participant; revealStage: number }
+  | { type: 'clear' }
+  | { type: 'request-state'; view: AudienceViewKind }
+  | { type: 'closed'; view: AudienceViewKind };
+
+export interface AudienceChannel {
+  post: (message: AudienceMessage) => void;
+  close: () => void;
+}
+
+export function openAudienceChannel(
+  onMessage: (message: AudienceMessage) => void
+): AudienceChannel {
+  const channel = new BroadcastChannel(AUDIENCE_CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<AudienceMessage>) => onMessage(event.data);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
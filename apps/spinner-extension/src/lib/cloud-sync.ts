@@ -0,0 +1,77 @@
+/**
+ * Cloud Sync
+ *
+ * Purpose: Installs the sync storage adapter as the extension's storage, so
+ * competitions, saved mappings and the theme can follow a logged-in user
+ * across computers. Sync is off until the user turns it on in the options
+ * page; until then every call passes straight through.
+ *
+ * SRS Reference:
+ * - Data Layer: Cross-device sync
+ */
+
+import type { AuthTokens } from '@drawday/auth';
+import {
+  DirectusSyncTransport,
+  SyncStorageAdapter,
+  setStorageAdapter,
+  storage,
+  type ThemeSettings,
+} from '@raffle-spinner/storage';
+import { API_CONFIG } from '../config/api';
+
+/**
+ * Session of the page's AuthProvider. Tokens are only refreshed through the
+ * provider, so sync never races it with a rotating refresh token.
+ */
+export interface SyncSession {
+  tokens: AuthTokens | null;
+  refreshToken: () => Promise<void>;
+}
+
+let session: SyncSession = { tokens: null, refreshToken: async () => {} };
+let refreshing: Promise<void> | null = null;
+
+export function setSyncSession(next: SyncSession): void {
+  session = next;
+}
+
+/**
+ * Returns the logged-in user's access token. An expired token is refreshed
+ * through the provider and the sync skipped; the new token starts another.
+ */
+async function getAccessToken(): Promise<string | null> {
+  const { tokens, refreshToken } = session;
+  if (!tokens) return null;
+
+  if (Date.now() >= tokens.expires) {
+    refreshing ??= refreshToken()
+      .catch((error) => console.error('Failed to refresh session for sync:', error))
+      .finally(() => {
+        refreshing = null;
+      });
+    await refreshing;
+    return null;
+  }
+  return tokens.access_token;
+}
+
+export const syncStorage = new SyncStorageAdapter(
+  storage,
+  new DirectusSyncTransport({ baseUrl: API_CONFIG.SYNC_URL, getAccessToken })
+);
+
+/**
+ * Must run before the first render, so every storage call goes through sync
+ */
+export function installCloudSync(): void {
+  setStorageAdapter(syncStorage);
+}
+
+/**
+ * Writes a theme pulled from another device; ThemeContext picks it up from chrome.storage
+ */
+export async function applySyncedTheme(theme: ThemeSettings): Promise<void> {
+  const result = await chrome.storage.local.get('data');
+  await chrome.storage.local.set({ data: { ...result.data, theme } });
+}
@@ -0,0 +1,117 @@
+/**
+ * CSV Worker Client
+ *
+ * Purpose: Runs import file inspection and parsing in the parse worker and
+ * exposes progress, results and cancellation to the import hooks.
+ *
+ * SRS Reference:
+ * - FR-1.2: CSV Parser Integration
+ * - FR-1.4: Column Mapping Interface (header detection)
+ *
+ * Architecture Decision:
+ * - One short-lived worker per request; cancelling terminates the worker,
+ *   which stops Papa mid-file
+ * - Falls back to the main thread where workers are unavailable
+ *   (e.g. unit tests)
+ */
+
+import {
+  CSVParser,
+  inspectImportFile,
+  type FileInspection,
+  type ParseProgress,
+  type ParseResult,
+} from '@raffle-spinner/csv-parser';
+import type { ColumnMapping } from '@raffle-spinner/storage';
+
+export type CSVWorkerRequest =
+  | { type: 'inspect'; file: File; sheetName?: string }
+  | { type: 'parse'; file: File; mapping: ColumnMapping; sheetName?: string };
+
+export type CSVWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'inspection'; inspection: FileInspection }
+  | { type: 'result'; result: ParseResult }
+  | { type: 'error'; message: string };
+
+type CSVWorkerOutcome = Extract<CSVWorkerResponse, { type: 'inspection' | 'result' }>;
+
+export interface CSVParseTask {
+  /** Resolves with null when the parse is cancelled */
+  result: Promise<ParseResult | null>;
+  cancel: () => void;
+}
+
+function runInWorker(request: CSVWorkerRequest, onProgress?: (progress: ParseProgress) => void) {
+  const worker = new Worker(new URL('../workers/csv-parse.worker.ts', import.meta.url), {
+    type: 'module',
+  });
+  let settle: (outcome: CSVWorkerOutcome | null) => void = () => {};
+
+  const outcome = new Promise<CSVWorkerOutcome | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (event: MessageEvent<CSVWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+      } else {
+        resolve(message);
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'CSV worker failed'));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return {
+    outcome,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+}
+
+/**
+ * Reads the header row and, for workbooks, the sheet names of an import file
+ */
+export async function inspectFileInWorker(file: File, sheetName?: string): Promise<FileInspection> {
+  if (typeof Worker === 'undefined') {
+    return inspectImportFile(file, sheetName);
+  }
+
+  const outcome = await runInWorker({ type: 'inspect', file, sheetName }).outcome;
+  if (outcome?.type !== 'inspection') {
+    throw new Error('Failed to read file');
+  }
+  return outcome.inspection;
+}
+
+export function parseCSVInWorker(
+  file: File,
+  mapping: ColumnMapping,
+  onProgress: (progress: ParseProgress) => void,
+  sheetName?: string
+): CSVParseTask {
+  if (typeof Worker === 'undefined') {
+    return {
+      result: new CSVParser().parseFile(file, mapping, { sheetName, onProgress }),
+      cancel: () => {},
+    };
+  }
+
+  const task = runInWorker({ type: 'parse', file, mapping, sheetName }, onProgress);
+  return {
+    result: task.outcome.then((outcome) => (outcome?.type === 'result' ? outcome.result : null)),
+    cancel: task.cancel,
+  };
+}
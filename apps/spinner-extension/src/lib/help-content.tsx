@@ -66,7 +66,7 @@ export const helpContent = {
       description: 'Match CSV columns to required fields',
       details: {
         content:
-          'Column mapping tells the system which columns in your CSV file correspond to First Name, Last Name, and Ticket Number. The system will try to auto-detect common column names.',
+          'Column mapping tells the system which columns in your CSV file correspond to First Name, Last Name, and Ticket Number. The system will try to auto-detect columns from their names and from the values in the first rows, so generic headers like "Col1" can still be recognised. A column of email addresses is suggested as a private extra column.',
         examples: [
           'First Name → FirstName, fname, given_name',
           'Last Name → LastName, lname, surname, family_name',
@@ -141,33 +141,38 @@ export const helpContent = {
       description: 'Handling duplicate ticket numbers',
       details: {
         content:
-          'When duplicate ticket numbers are detected during import, you can choose how to handle them. This ensures data integrity in your competition.',
+          'When duplicate ticket numbers are detected during import, you can keep the first or last entry, keep every entry by renumbering the extras (7, 7-2, 7-3), or pick the entry to keep.',
         tips: [
-          'Review duplicates carefully before proceeding',
-          'Consider if duplicates are data entry errors',
-          'The system will show you which entries are duplicated',
+          'Each entry shows the row it came from in your file',
+          'Use the bulk actions to apply one choice to every ticket',
+          'Download the report to follow up on discarded or renumbered rows',
         ],
         warnings: [
-          'Allowing duplicates may cause confusion during draws',
-          'Only the first occurrence will be included if you proceed',
+          'Discarded entries are not included in the draw',
+          'Renumbered tickets must be typed with their new number',
         ],
       },
     },
     nonNumeric: {
-      title: 'Non-Numeric Tickets',
-      description: 'Converting tickets with letters or symbols',
+      title: 'Ticket Matching',
+      description: 'How tickets with letters, symbols or leading zeros are matched',
       details: {
         content:
-          'The system only supports numeric ticket numbers. When non-numeric characters are detected, the system will extract only the digits.',
-        examples: ['ABC123 → 123', 'T-456-X → 456', '#789 → 789', 'TICKET → (skipped, no numbers)'],
+          'Tickets are kept and shown exactly as entered. The matching rules you choose decide which typed ticket numbers find an entry, and apply to this competition only.',
+        examples: [
+          'Ignore letter case: a12 → A12',
+          'Ignore spaces and dashes: T-456 → T456',
+          'Ignore leading zeros: 007 → 7',
+          'Digits only: ABC123 → 123',
+        ],
         tips: [
-          'Review conversions before accepting',
-          'Ensure converted numbers remain unique',
+          'Keep the rules as strict as your ticket format allows',
+          'Check the collision report before accepting',
           'Consider updating your source data for consistency',
         ],
         warnings: [
-          'Tickets with no numeric characters will be skipped',
-          'Leading zeros will be removed (001 → 1)',
+          'Tickets that match each other are merged, keeping the first entry',
+          'Tickets left with nothing to match on are skipped',
         ],
       },
     },
@@ -0,0 +1,47 @@
+/**
+ * Participant Metadata
+ *
+ * Purpose: Visibility rules for the extra import columns (email, phone,
+ * order id...) kept on participants. Metadata is for the operator only: it is
+ * stripped before anything reaches the audience view or stream overlay, and
+ * private fields are left out of winner exports.
+ *
+ * SRS Reference:
+ * - FR-1.4: Column Mapping Interface (extra columns)
+ * - FR-2.4: Winner Display and Session History (winner details)
+ */
+
+import type { Competition, Participant } from '@raffle-spinner/storage';
+
+export function withoutMetadata({ firstName, lastName, ticketNumber }: Participant): Participant {
+  return { firstName, lastName, ticketNumber };
+}
+
+/**
+ * The competition as the audience may see it. Metadata is stripped even
+ * without participantFields, so nothing depends on them being recorded.
+ */
+export function toAudienceCompetition(competition: Competition): Competition {
+  const { participantFields: _fields, ...audienceCompetition } = competition;
+  return {
+    ...audienceCompetition,
+    participants: competition.participants.map(withoutMetadata),
+  };
+}
+
+/**
+ * Metadata recorded with a session winner, with the keys to keep out of exports
+ */
+export function getWinnerMetadata(
+  competition: Competition,
+  winner: Participant
+): { metadata?: Record<string, string>; privateFields?: string[] } {
+  if (!winner.metadata) {
+    return {};
+  }
+
+  const privateFields = (competition.participantFields ?? [])
+    .filter((field) => field.isPrivate)
+    .map((field) => field.key);
+  return { metadata: winner.metadata, privateFields };
+}
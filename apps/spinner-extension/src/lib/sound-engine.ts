@@ -0,0 +1,173 @@
+/**
+ * Sound Engine
+ *
+ * Purpose: Plays the spinner sound effects with Web Audio. Built-in packs are
+ * synthesized on the fly and uploaded sounds are decoded from the data URLs
+ * saved in the theme, so everything works offline inside the extension.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (sound effects)
+ *
+ * Architecture Decision:
+ * - The AudioContext is created on first use, after a user gesture started the spin
+ * - Uploads are decoded with atob rather than fetch, which the extension CSP blocks for data URLs
+ * - An upload that fails to decode falls back to the pack's sound
+ */
+
+import type { AudioSettings, SoundEffect } from '@raffle-spinner/storage';
+import { DEFAULT_AUDIO, getSoundPack } from './sound-packs';
+import { playBuffer, playSynthFanfare, playTone, startSynthDrumRoll } from './sound-synth';
+
+export interface SoundEngine {
+  configure: (audio: AudioSettings) => void;
+  /**
+   * Resumes audio after a user gesture, as browsers start contexts suspended.
+   * Resolves once uploaded sounds are decoded.
+   */
+  resume: () => Promise<void>;
+  playTick: () => void;
+  startDrumRoll: () => void;
+  stopDrumRoll: () => void;
+  playFanfare: () => void;
+  close: () => void;
+}
+
+interface PlayingSound {
+  gain: GainNode;
+  sources: AudioScheduledSourceNode[];
+}
+
+// Fade used to stop the drum roll without a click
+const FADE_OUT = 0.08;
+
+function decodeDataUrl(context: AudioContext, dataUrl: string): Promise<AudioBuffer | null> {
+  try {
+    const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return context.decodeAudioData(bytes.buffer).catch((error) => {
+      console.error('Failed to decode custom sound:', error);
+      return null;
+    });
+  } catch (error) {
+    console.error('Failed to read custom sound:', error);
+    return Promise.resolve(null);
+  }
+}
+
+/**
+ * Fades a looping sound out without a click, then stops its sources
+ */
+function fadeOut(context: AudioContext, { gain, sources }: PlayingSound) {
+  const end = context.currentTime + FADE_OUT;
+  gain.gain.cancelScheduledValues(context.currentTime);
+  gain.gain.setValueAtTime(gain.gain.value, context.currentTime);
+  gain.gain.linearRampToValueAtTime(0, end);
+  sources.forEach((source) => source.stop(end));
+}
+
+export function createSoundEngine(): SoundEngine {
+  let audio = DEFAULT_AUDIO;
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let drumRoll: PlayingSound | null = null;
+  const customBuffers = new Map<string, AudioBuffer | null>();
+  const decoding = new Map<string, Promise<void>>();
+
+  const getOutput = () => {
+    if (!context || !master) {
+      context = new AudioContext();
+      master = context.createGain();
+      master.connect(context.destination);
+    }
+    master.gain.value = audio.volume;
+    return { context, master };
+  };
+
+  // Decodes uploads up front so they are ready by the time the spinner plays them
+  const loadCustomSounds = async () => {
+    if (!context) return;
+    const activeContext = context;
+    const dataUrls = Object.values(audio.customSounds ?? {}).filter((url): url is string => !!url);
+    dataUrls.forEach((dataUrl) => {
+      if (decoding.has(dataUrl)) return;
+      const decoded = decodeDataUrl(activeContext, dataUrl).then((buffer) => {
+        customBuffers.set(dataUrl, buffer);
+      });
+      decoding.set(dataUrl, decoded);
+    });
+    await Promise.all(dataUrls.map((dataUrl) => decoding.get(dataUrl)));
+  };
+
+  const getCustomBuffer = (effect: SoundEffect) => {
+    const dataUrl = audio.customSounds?.[effect];
+    return dataUrl ? (customBuffers.get(dataUrl) ?? null) : null;
+  };
+
+  const canPlay = () => !audio.muted && audio.volume > 0;
+
+  const stopDrumRoll = () => {
+    if (!drumRoll || !context) return;
+    fadeOut(context, drumRoll);
+    drumRoll = null;
+  };
+
+  const startDrumRoll = () => {
+    if (!canPlay()) return;
+    stopDrumRoll();
+    const { context, master } = getOutput();
+    const gain = context.createGain();
+    gain.connect(master);
+
+    const custom = getCustomBuffer('drumRoll');
+    const sources = custom
+      ? [playBuffer(context, gain, custom, true)]
+      : startSynthDrumRoll(context, gain, getSoundPack(audio.pack).drumRoll);
+    drumRoll = { gain, sources };
+  };
+
+  return {
+    configure: (settings) => {
+      audio = { ...DEFAULT_AUDIO, ...settings };
+      if (master) master.gain.value = audio.volume;
+      loadCustomSounds();
+    },
+    resume: async () => {
+      const { context } = getOutput();
+      if (context.state === 'suspended') {
+        await context.resume().catch((error) => console.error('Failed to start audio:', error));
+      }
+      await loadCustomSounds();
+    },
+    playTick: () => {
+      if (!canPlay()) return;
+      const { context, master } = getOutput();
+      const custom = getCustomBuffer('tick');
+      if (custom) {
+        playBuffer(context, master, custom);
+      } else {
+        playTone(context, master, getSoundPack(audio.pack).tick, context.currentTime);
+      }
+    },
+    startDrumRoll,
+    stopDrumRoll,
+    playFanfare: () => {
+      stopDrumRoll();
+      if (!canPlay()) return;
+      const { context, master } = getOutput();
+      const custom = getCustomBuffer('fanfare');
+      if (custom) {
+        playBuffer(context, master, custom);
+        return;
+      }
+      playSynthFanfare(context, master, getSoundPack(audio.pack).fanfare);
+    },
+    close: () => {
+      stopDrumRoll();
+      context?.close();
+      context = null;
+      master = null;
+      customBuffers.clear();
+      decoding.clear();
+    },
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Sound Packs
+ *
+ * Purpose: Built-in sound effects for the spinner. Each pack describes its
+ * sounds as synthesizer settings, so the sound engine generates them with
+ * Web Audio and no audio files or network access are needed.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (sound effects)
+ */
+
+import type { AudioSettings, SoundEffect } from '@raffle-spinner/storage';
+
+/** A short tone with a fast decay */
+export interface ToneSound {
+  frequency: number; // Hz
+  wave: OscillatorType;
+  duration: number; // seconds
+  gain: number; // 0-1
+}
+
+/** Filtered noise pulsed at a steady rate */
+export interface DrumRollSound {
+  rate: number; // Strokes per second
+  filterFrequency: number; // Hz, lowpass cut-off shaping the drum
+  gain: number; // 0-1
+}
+
+/** A rising run of notes, the last one held */
+export interface FanfareSound {
+  notes: number[]; // Hz
+  noteLength: number; // seconds
+  wave: OscillatorType;
+  gain: number; // 0-1
+}
+
+export interface SoundPack {
+  id: string;
+  name: string;
+  description: string;
+  tick: ToneSound;
+  drumRoll: DrumRollSound;
+  fanfare: FanfareSound;
+}
+
+export const SOUND_PACKS: SoundPack[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: 'Wooden clicks, a snare roll and a brass-style fanfare',
+    tick: { frequency: 1800, wave: 'triangle', duration: 0.03, gain: 0.5 },
+    drumRoll: { rate: 18, filterFrequency: 3000, gain: 0.35 },
+    fanfare: {
+      notes: [523.25, 659.25, 783.99, 1046.5],
+      noteLength: 0.14,
+      wave: 'sawtooth',
+      gain: 0.25,
+    },
+  },
+  {
+    id: 'arcade',
+    name: 'Arcade',
+    description: 'Chiptune blips and a quick victory jingle',
+    tick: { frequency: 1200, wave: 'square', duration: 0.025, gain: 0.3 },
+    drumRoll: { rate: 24, filterFrequency: 6000, gain: 0.25 },
+    fanfare: {
+      notes: [659.25, 783.99, 1046.5, 1318.51, 1567.98],
+      noteLength: 0.09,
+      wave: 'square',
+      gain: 0.2,
+    },
+  },
+  {
+    id: 'soft',
+    name: 'Soft',
+    description: 'Gentle ticks and a mellow chime for quieter venues',
+    tick: { frequency: 900, wave: 'sine', duration: 0.04, gain: 0.4 },
+    drumRoll: { rate: 12, filterFrequency: 1200, gain: 0.3 },
+    fanfare: {
+      notes: [392, 493.88, 587.33, 783.99],
+      noteLength: 0.2,
+      wave: 'sine',
+      gain: 0.35,
+    },
+  },
+];
+
+export const DEFAULT_AUDIO: AudioSettings = {
+  pack: 'classic',
+  volume: 0.7,
+  muted: false,
+};
+
+export const SOUND_EFFECT_LABELS: Record<SoundEffect, string> = {
+  tick: 'Tick',
+  drumRoll: 'Drum roll',
+  fanfare: 'Fanfare',
+};
+
+/**
+ * Finds a pack by id, falling back to the first pack for unknown ids
+ */
+export function getSoundPack(id: string): SoundPack {
+  return SOUND_PACKS.find((pack) => pack.id === id) ?? SOUND_PACKS[0];
+}
@@ -0,0 +1,83 @@
+/**
+ * Sound Synth
+ *
+ * Purpose: Synthesizes the built-in sound packs' tick, drum roll and fanfare
+ * with Web Audio oscillators and filtered noise, and plays decoded sound
+ * buffers. Extracted from sound-engine.ts to maintain file size limits.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (sound effects)
+ */
+
+import type { DrumRollSound, FanfareSound, ToneSound } from './sound-packs';
+
+// Time constant of the drum roll crescendo
+const CRESCENDO = 1.2;
+
+function createNoiseBuffer(context: AudioContext): AudioBuffer {
+  const buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+  const samples = buffer.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.random() * 2 - 1;
+  }
+  return buffer;
+}
+
+export function playTone(context: AudioContext, output: AudioNode, tone: ToneSound, start: number) {
+  const oscillator = context.createOscillator();
+  const envelope = context.createGain();
+  oscillator.type = tone.wave;
+  oscillator.frequency.value = tone.frequency;
+  envelope.gain.setValueAtTime(tone.gain, start);
+  envelope.gain.exponentialRampToValueAtTime(0.001, start + tone.duration);
+  oscillator.connect(envelope).connect(output);
+  oscillator.start(start);
+  oscillator.stop(start + tone.duration);
+}
+
+export function playBuffer(
+  context: AudioContext,
+  output: AudioNode,
+  buffer: AudioBuffer,
+  loop = false
+) {
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.loop = loop;
+  source.connect(output);
+  source.start();
+  return source;
+}
+
+/**
+ * Noise through a lowpass filter, pulsed by an LFO and swelling towards the stop
+ */
+export function startSynthDrumRoll(context: AudioContext, output: GainNode, sound: DrumRollSound) {
+  const filter = context.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = sound.filterFrequency;
+  const strokes = context.createGain();
+  strokes.gain.value = 0.5;
+  const lfo = context.createOscillator();
+  lfo.frequency.value = sound.rate;
+  const depth = context.createGain();
+  depth.gain.value = 0.5;
+  lfo.connect(depth).connect(strokes.gain);
+  output.gain.setValueAtTime(sound.gain * 0.3, context.currentTime);
+  output.gain.setTargetAtTime(sound.gain, context.currentTime, CRESCENDO);
+
+  const noise = playBuffer(context, filter, createNoiseBuffer(context), true);
+  filter.connect(strokes).connect(output);
+  lfo.start();
+  return [noise, lfo];
+}
+
+export function playSynthFanfare(context: AudioContext, output: AudioNode, sound: FanfareSound) {
+  const { notes, noteLength, wave, gain } = sound;
+  notes.forEach((frequency, i) => {
+    // The final note rings on
+    const duration = i === notes.length - 1 ? noteLength * 4 : noteLength * 1.5;
+    const tone = { frequency, wave, duration, gain };
+    playTone(context, output, tone, context.currentTime + i * noteLength);
+  });
+}
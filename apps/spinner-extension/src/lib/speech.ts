@@ -0,0 +1,45 @@
+/**
+ * Speech
+ *
+ * Purpose: Speaks winner announcements with the browser's speech synthesis,
+ * which runs locally and needs no network access inside the extension.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (spoken announcement)
+ */
+
+import type { AnnouncementSettings } from '@raffle-spinner/storage';
+import { buildAnnouncement, type AnnouncementContext } from '@/utils/winner-announcement';
+
+export function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+function findVoice(voiceURI?: string): SpeechSynthesisVoice | undefined {
+  if (!voiceURI) return undefined;
+  return window.speechSynthesis.getVoices().find((voice) => voice.voiceURI === voiceURI);
+}
+
+/**
+ * Speaks the announcement for a winner, cutting off anything still being said.
+ * Falls back to the browser's default voice when the saved one is missing.
+ */
+export function speakAnnouncement(
+  settings: AnnouncementSettings,
+  context: Omit<AnnouncementContext, 'locale'>
+): void {
+  if (!isSpeechSupported()) return;
+
+  const voice = findVoice(settings.voiceURI);
+  const utterance = new SpeechSynthesisUtterance(
+    buildAnnouncement(settings, { ...context, locale: voice?.lang })
+  );
+  if (voice) {
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+  }
+  utterance.rate = settings.rate;
+
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+}
@@ -0,0 +1,67 @@
+/**
+ * Stream Overlay
+ *
+ * Purpose: Defaults, resolution presets and access rules for the OBS/live
+ * stream overlay, which renders only the spinner and winner reveal on a
+ * chroma-key or transparent background.
+ *
+ * SRS Reference:
+ * - FR-2.1: Side Panel Interface (streaming overlay)
+ */
+
+import type { User } from '@drawday/auth';
+import type { SpinnerSettings, StreamOverlaySettings } from '@raffle-spinner/storage';
+
+export const DEFAULT_STREAM_OVERLAY: StreamOverlaySettings = {
+  width: 1920,
+  height: 1080,
+  background: 'chroma',
+  chromaColor: '#00ff00',
+};
+
+export const OVERLAY_RESOLUTIONS = [
+  { label: '720p (1280 × 720)', width: 1280, height: 720 },
+  { label: '1080p (1920 × 1080)', width: 1920, height: 1080 },
+  { label: '1440p (2560 × 1440)', width: 2560, height: 1440 },
+  { label: 'Vertical (1080 × 1920)', width: 1080, height: 1920 },
+] as const;
+
+/** Spinner layout height the overlay scales up from */
+const BASE_STAGE_HEIGHT = 540;
+
+export function getStreamOverlay(settings: SpinnerSettings): StreamOverlaySettings {
+  return { ...DEFAULT_STREAM_OVERLAY, ...settings.streamOverlay };
+}
+
+export function getOverlayBackground(overlay: StreamOverlaySettings): string {
+  return overlay.background === 'transparent' ? 'transparent' : overlay.chromaColor;
+}
+
+export function getOverlayScale(overlay: StreamOverlaySettings): number {
+  return Math.min(overlay.width, overlay.height) / BASE_STAGE_HEIGHT;
+}
+
+/**
+ * The overlay is part of the streaming product, sold separately from the spinner
+ */
+export function hasStreamingAccess(user: User | null): boolean {
+  return (
+    user?.subscriptions?.some(
+      (s) => s.product === 'streaming' && (s.status === 'active' || s.status === 'trialing')
+    ) ?? false
+  );
+}
+
+/**
+ * Resize the overlay window so its page area matches the stream resolution
+ * exactly; window sizes passed to chrome.windows include the frame
+ */
+export function fitWindowToOverlay(width: number, height: number): void {
+  chrome.windows.getCurrent((win) => {
+    if (win.id === undefined || !win.width || !win.height) return;
+    chrome.windows.update(win.id, {
+      width: win.width + width - window.innerWidth,
+      height: win.height + height - window.innerHeight,
+    });
+  });
+}
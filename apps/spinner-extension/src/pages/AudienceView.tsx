@@ -0,0 +1,119 @@
+/**
+ * Audience View Page
+ *
+ * Purpose: Full-screen display for the audience or screen share. Shows only
+ * the branding header, the spinner and the winner reveal, while the operator
+ * types tickets and reviews session winners in the side panel.
+ *
+ * SRS Reference:
+ * - FR-2.1: Side Panel Interface (audience display)
+ * - FR-2.2: Winner Selection and Animation
+ */
+
+import { useEffect, useState } from 'react';
+import { Maximize } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { BrandingHeader } from '@/components/sidepanel/BrandingHeader';
+import { SpinnerRenderer } from '@/components/sidepanel/SpinnerRenderer';
+import { WinnerOverlay } from '@/components/sidepanel/WinnerOverlay';
+import { useAudienceView } from '@/hooks/useAudienceView';
+import { convertToSpinnerTheme } from '@/utils/theme-converter';
+
+const toggleFullscreen = () => {
+  if (document.fullscreenElement) {
+    document.exitFullscreen();
+  } else {
+    document.documentElement
+      .requestFullscreen()
+      .catch((error) => console.error('Failed to enter full screen:', error));
+  }
+};
+
+function useIsFullscreen() {
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+
+  useEffect(() => {
+    const update = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', update);
+    return () => document.removeEventListener('fullscreenchange', update);
+  }, []);
+
+  return isFullscreen;
+}
+
+export function AudienceView() {
+  const {
+    state,
+    spinTarget,
+    isSpinning,
+    winner,
+    revealStage,
+    handleSpinComplete,
+    handleSpinError,
+  } = useAudienceView('audience');
+  const isFullscreen = useIsFullscreen();
+
+  if (!state) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background text-muted-foreground">
+        Waiting for the DrawDay side panel...
+      </div>
+    );
+  }
+
+  const { competition, theme } = state;
+
+  return (
+    <div
+      className="min-h-screen flex flex-col bg-background"
+      onDoubleClick={toggleFullscreen}
+      title="Double-click to toggle full screen"
+    >
+      {/* Hidden in full screen so the audience never sees it */}
+      {!isFullscreen && (
+        <Button
+          variant="secondary"
+          size="sm"
+          className="fixed top-4 right-4 z-50"
+          onClick={toggleFullscreen}
+        >
+          <Maximize className="h-4 w-4 mr-1" />
+          Full screen
+        </Button>
+      )}
+      <BrandingHeader
+        competition={competition}
+        branding={theme.branding}
+        hasBranding={state.hasBranding}
+      />
+
+      <main className="flex-1 flex flex-col items-center justify-center gap-12 p-8">
+        {state.prizeLabel && (
+          <h2 className="text-4xl font-bold text-foreground">{state.prizeLabel}</h2>
+        )}
+
+        {competition ? (
+          <div className="relative flex justify-center scale-150">
+            <SpinnerRenderer
+              type={theme.spinnerStyle.type}
+              participants={competition.participants}
+              targetTicketNumber={spinTarget}
+              settings={state.settings}
+              isSpinning={isSpinning}
+              onSpinComplete={handleSpinComplete}
+              onError={handleSpinError}
+              theme={convertToSpinnerTheme(theme)}
+            />
+            <WinnerOverlay
+              winner={winner}
+              revealMode={state.settings.revealMode}
+              revealStage={revealStage}
+            />
+          </div>
+        ) : (
+          <p className="text-2xl text-muted-foreground">Waiting for a competition...</p>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -21,12 +21,12 @@ import { CollapsibleStateProvider } from '@/contexts/CollapsibleStateContext';
 import { useSubscription } from '@/contexts/SubscriptionContext';
 import { AuthGuard } from '@/components/auth/AuthGuard';
 import { useAuth } from '@drawday/auth';
-import { UserInfoBar, Alert, AlertDescription } from '@drawday/ui';
-import { CheckCircle } from 'lucide-react';
+import { UserInfoBar } from '@drawday/ui';
 import { useCSVImport } from '@/hooks/useCSVImport';
 import { useOptionsPageHandlers } from '@/hooks/useOptionsPageHandlers';
 import { OptionsPageContent } from '@/components/options/OptionsPageContent';
 import { OptionsPageModals } from '@/components/options/OptionsPageModals';
+import { ImportStatus } from '@/components/options/ImportStatus';
 
 function OptionsContent() {
   const { competitions, addCompetition, deleteCompetition, updateCompetitionBanner } =
@@ -58,17 +58,21 @@ function OptionsContent() {
     showMapperModal,
     showDuplicateModal,
     showConversionModal,
+    importReview,
     detectedHeaders,
     detectedMapping,
     duplicates,
-    ticketConversions,
-    importSummary,
+    duplicateOverlaps,
+    pendingParticipants,
+    importStatus,
+    sheetPicker,
     savedMappings,
     suggestedMappingId,
     handleFileSelect,
     handleMappingConfirm,
     handleNameConfirm,
     handleDuplicateProceed,
+    handleDuplicateReport,
     handleConversionProceed,
     setShowNameModal,
     setShowMapperModal,
@@ -99,12 +103,7 @@ function OptionsContent() {
             </p>
           </div>
 
-          {importSummary && (
-            <Alert variant={importSummary.success ? 'default' : 'destructive'}>
-              {importSummary.success && <CheckCircle className="h-4 w-4" />}
-              <AlertDescription>{importSummary.message}</AlertDescription>
-            </Alert>
-          )}
+          <ImportStatus {...importStatus} />
 
           {/* TODO: Add SubscriptionStatus component */}
 
@@ -125,6 +124,8 @@ function OptionsContent() {
             selectedFile={selectedFile}
             onNameModalClose={() => setShowNameModal(false)}
             onNameConfirm={handleNameConfirm}
+            sheetPicker={sheetPicker}
+            importReview={importReview}
             showMapperModal={showMapperModal}
             detectedHeaders={detectedHeaders}
             detectedMapping={detectedMapping}
@@ -134,10 +135,12 @@ function OptionsContent() {
             onMappingConfirm={handleMappingConfirm}
             showDuplicateModal={showDuplicateModal}
             duplicates={duplicates}
+            duplicateOverlaps={duplicateOverlaps}
             onDuplicateProceed={handleDuplicateProceed}
+            onDuplicateReport={handleDuplicateReport}
             onDuplicateCancel={() => setShowDuplicateModal(false)}
             showConversionModal={showConversionModal}
-            ticketConversions={ticketConversions}
+            pendingParticipants={pendingParticipants}
             onConversionProceed={handleConversionProceed}
             onConversionCancel={() => setShowConversionModal(false)}
             showDeleteDialog={showDeleteDialog}
@@ -16,8 +16,8 @@ import { SettingsProvider, useSettings } from '@/contexts/SettingsContext';
 import { ThemeProvider, useTheme } from '@/contexts/ThemeContext';
 import { AuthGuard } from '@/components/auth/AuthGuard';
 import { useSubscription } from '@/contexts/SubscriptionContext';
-import { SlotMachineWheel } from '@raffle-spinner/spinners';
 import type { SpinnerTheme } from '@raffle-spinner/spinners';
+import { SpinnerRenderer } from '@/components/sidepanel/SpinnerRenderer';
 import { SessionWinners, Winner } from '@/components/sidepanel/SessionWinners';
 import { CompetitionSelector } from '@/components/sidepanel/CompetitionSelector';
 import { SpinnerControls } from '@/components/sidepanel/SpinnerControls';
@@ -26,7 +26,9 @@ import { KeyboardShortcutsHelp } from '@/components/sidepanel/KeyboardShortcutsH
 import { Card, CardContent } from '@/components/ui/card';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { useWinnerReveal } from '@/hooks/useWinnerReveal';
 import { Participant } from '@raffle-spinner/storage';
+import { exportWinnersCsv } from '@/utils/winners-export';
 import confetti from 'canvas-confetti';
 
 function SidePanelContent() {
@@ -42,6 +44,10 @@ function SidePanelContent() {
   const [isHelpVisible, setIsHelpVisible] = useState(false);
 
   const confettiRef = useRef<boolean>(false);
+  // Steps through the reveal with W and clears instant reveals after 5 seconds
+  const { stage: revealStage } = useWinnerReveal(currentWinner, settings.revealMode, () =>
+    setCurrentWinner(null)
+  );
 
   const handleSpin = (participant: Participant) => {
     setError(null);
@@ -63,26 +69,7 @@ function SidePanelContent() {
   };
 
   const handleExportWinners = () => {
-    if (sessionWinners.length === 0) return;
-    
-    const csv = [
-      ['First Name', 'Last Name', 'Ticket Number', 'Competition', 'Time'],
-      ...sessionWinners.map(w => [
-        w.firstName,
-        w.lastName,
-        w.ticketNumber,
-        w.competition,
-        new Date(w.timestamp).toLocaleString()
-      ])
-    ].map(row => row.join(',')).join('\n');
-    
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `raffle-winners-${new Date().toISOString().slice(0, 10)}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+    exportWinnersCsv(sessionWinners);
   };
 
   const handleClearWinners = () => {
@@ -119,11 +106,6 @@ function SidePanelContent() {
         confettiRef.current = false;
       }, 1000);
     }
-
-    // Auto-clear winner after delay
-    setTimeout(() => {
-      setCurrentWinner(null);
-    }, 5000);
   };
 
   // Keyboard shortcuts handlers
@@ -136,9 +118,6 @@ function SidePanelContent() {
       }
     },
     onReset: handleReset,
-    onRevealWinner: () => {
-      // Future enhancement: reveal winner without auto-clear
-    },
     onNewSession: handleNewSession,
     onExportWinners: handleExportWinners,
     onClearWinners: handleClearWinners,
@@ -221,7 +200,8 @@ function SidePanelContent() {
           {selectedCompetition && (
             <>
               <div className="relative flex justify-center">
-                <SlotMachineWheel
+                <SpinnerRenderer
+                  type={theme.spinnerStyle.type}
                   participants={selectedCompetition.participants}
                   targetTicketNumber={spinTarget}
                   settings={settings}
@@ -251,6 +231,8 @@ function SidePanelContent() {
                 {currentWinner && (
                   <WinnerDisplay
                     winner={currentWinner}
+                    revealMode={settings.revealMode}
+                    revealStage={revealStage}
                     onNewSession={handleNewSession}
                     onReset={handleReset}
                   />
@@ -25,9 +25,11 @@ import { SessionWinners } from '@/components/sidepanel/SessionWinners';
 import { BrandingHeader } from '@/components/sidepanel/BrandingHeader';
 import { CompetitionSelector } from '@/components/sidepanel/CompetitionSelector';
 import { SpinnerArea } from '@/components/sidepanel/SpinnerArea';
+import { CloudSyncListener } from '@/components/sidepanel/CloudSyncListener';
 import { Card, CardContent } from '@/components/ui/card';
 import { useSessionPersistence } from '@/hooks/useSessionPersistence';
 import { useSpinHandler } from '@/hooks/useSpinHandler';
+import { exportWinnersCsv } from '@/utils/winners-export';
 
 function SidePanelContent() {
   const { competitions, selectedCompetition, selectCompetition } = useCompetitions();
@@ -44,7 +46,9 @@ function SidePanelContent() {
     error,
     spinTarget,
     handleSpin,
+    startSpin,
     handleSpinComplete,
+    dismissWinner,
     sessionWinners,
     setSessionWinners,
   } = useSpinHandler({
@@ -70,9 +74,7 @@ function SidePanelContent() {
       setSessionWinners([]);
       setTicketNumber('');
     },
-    onError: (errorMessage) => {
-      console.error('Session persistence error:', errorMessage);
-    }
+    onError: (errorMessage) => console.error('Session persistence error:', errorMessage),
   });
 
   // Save session state whenever it changes
@@ -125,13 +127,15 @@ function SidePanelContent() {
             onTicketChange={setTicketNumber}
             onSpin={handleSpin}
             onSpinComplete={handleSpinComplete}
+            onDismissWinner={dismissWinner}
+            onDrawRevealed={startSpin}
           />
         )}
 
         {sessionWinners.length > 0 && (
           <Card className="bg-card/80 border-border">
             <CardContent className="p-4">
-              <SessionWinners winners={sessionWinners} />
+              <SessionWinners winners={sessionWinners} onExport={() => exportWinnersCsv(sessionWinners)} />
             </CardContent>
           </Card>
         )}
@@ -145,6 +149,7 @@ export function SidePanelWithPersistence() {
     <ThemeProvider>
       <AuthGuard>
         <CompetitionProvider>
+          <CloudSyncListener />
           <SettingsProvider>
             <SidePanelContent />
           </SettingsProvider>
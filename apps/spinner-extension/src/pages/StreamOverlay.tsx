@@ -0,0 +1,97 @@
+/**
+ * Stream Overlay Page
+ *
+ * Purpose: Capture target for OBS and live streams. Renders only the spinner
+ * and winner reveal at the configured resolution on a chroma-key or
+ * transparent background, driven by the operator side panel. Only renders
+ * for operators on the streaming plan.
+ *
+ * SRS Reference:
+ * - FR-2.1: Side Panel Interface (streaming overlay)
+ * - FR-2.2: Winner Selection and Animation
+ */
+
+import { useEffect } from 'react';
+import { SpinnerRenderer } from '@/components/sidepanel/SpinnerRenderer';
+import { WinnerOverlay } from '@/components/sidepanel/WinnerOverlay';
+import { useAudienceView } from '@/hooks/useAudienceView';
+import { convertToSpinnerTheme } from '@/utils/theme-converter';
+import {
+  fitWindowToOverlay,
+  getOverlayBackground,
+  getOverlayScale,
+  getStreamOverlay,
+} from '@/lib/stream-overlay';
+
+export function StreamOverlay() {
+  const {
+    state,
+    spinTarget,
+    isSpinning,
+    winner,
+    revealStage,
+    handleSpinComplete,
+    handleSpinError,
+  } = useAudienceView('overlay');
+
+  const overlay = state ? getStreamOverlay(state.settings) : null;
+  const background = overlay ? getOverlayBackground(overlay) : 'transparent';
+
+  // The page itself must not paint a background behind the stage
+  useEffect(() => {
+    document.documentElement.style.background = background;
+    document.body.style.background = background;
+  }, [background]);
+
+  const width = overlay?.width;
+  const height = overlay?.height;
+  useEffect(() => {
+    if (width && height) fitWindowToOverlay(width, height);
+  }, [width, height]);
+
+  if (!state || !overlay) {
+    return null;
+  }
+
+  // Opening overlay.html directly must not get around the plan check
+  if (!state.hasStreaming) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background text-muted-foreground">
+        The stream overlay is part of the DrawDay streaming plan.
+      </div>
+    );
+  }
+
+  const { competition, theme } = state;
+  const spinnerTheme = { ...convertToSpinnerTheme(theme), canvasBackground: 'transparent' };
+  // Canvases draw at the scaled size, so the CSS scale does not stretch their pixels
+  const scale = getOverlayScale(overlay);
+
+  return (
+    <div
+      className="relative flex items-center justify-center overflow-hidden"
+      style={{ width: overlay.width, height: overlay.height, background }}
+    >
+      {competition && (
+        <div className="relative flex justify-center" style={{ transform: `scale(${scale})` }}>
+          <SpinnerRenderer
+            type={theme.spinnerStyle.type}
+            participants={competition.participants}
+            targetTicketNumber={spinTarget}
+            settings={state.settings}
+            isSpinning={isSpinning}
+            onSpinComplete={handleSpinComplete}
+            onError={handleSpinError}
+            theme={spinnerTheme}
+            resolution={scale * window.devicePixelRatio}
+          />
+          <WinnerOverlay
+            winner={winner}
+            revealMode={state.settings.revealMode}
+            revealStage={revealStage}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { ExtensionAuthProvider } from './providers/auth-provider';
+import { installCloudSync } from './lib/cloud-sync';
 import { SidePanelWithPersistence } from './pages/SidePanelWithPersistence';
 import './app.css';
 
+installCloudSync();
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <ExtensionAuthProvider>
@@ -0,0 +1,147 @@
+/**
+ * Entry Update Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ParseResult } from '@raffle-spinner/csv-parser';
+import type { ColumnMapping, Competition } from '@raffle-spinner/storage';
+import { nextUpdateState, toPendingUpdate } from '../entry-update';
+
+const competition: Competition = {
+  id: 'c1',
+  name: 'Summer Raffle',
+  participants: [{ firstName: 'Jane', lastName: 'Doe', ticketNumber: '1' }],
+  versions: [
+    {
+      version: 1,
+      timestamp: 0,
+      source: 'entries.csv',
+      participantCount: 1,
+      added: 1,
+      removed: 0,
+      changed: 0,
+    },
+  ],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+const mapping: ColumnMapping = {
+  firstName: 'First',
+  lastName: 'Last',
+  ticketNumber: 'Ticket',
+  extraColumns: [{ key: 'Email', isPrivate: true }],
+};
+
+function parseResult(overrides: Partial<ParseResult> = {}): ParseResult {
+  return {
+    participants: [
+      { firstName: 'Jane', lastName: 'Doe', ticketNumber: '1' },
+      { firstName: 'John', lastName: 'Smith', ticketNumber: '2', metadata: { Email: 'j@x.com' } },
+    ],
+    duplicates: [],
+    skippedRows: 0,
+    totalRows: 2,
+    issues: [],
+    ...overrides,
+  };
+}
+
+describe('nextUpdateState', () => {
+  it('should review row issues before the diff', () => {
+    const issue = {
+      row: 3,
+      type: 'missingTicket' as const,
+      column: 'Ticket',
+      reason: 'Missing ticket number',
+      skipped: true,
+      data: { First: 'Amy', Last: 'Lee', Ticket: '' },
+    };
+    const pending = toPendingUpdate(competition, parseResult({ issues: [issue] }), mapping);
+
+    expect(nextUpdateState(competition, 'update.csv', pending).stage).toBe('issues');
+    expect(nextUpdateState(competition, 'update.csv', pending, 'issues').stage).toBe('review');
+  });
+
+  it('should review duplicates but not ask for ticket matching rules again', () => {
+    const entry = { row: 1, participant: competition.participants[0], data: {} };
+    const result = parseResult({
+      participants: [{ firstName: 'A', lastName: 'B', ticketNumber: 'a-12' }],
+      duplicates: [{ ticketNumber: 'a-12', entries: [entry, { ...entry, row: 2 }] }],
+    });
+    const pending = toPendingUpdate(competition, result, mapping);
+
+    expect(nextUpdateState(competition, 'update.csv', pending).stage).toBe('duplicates');
+    expect(nextUpdateState(competition, 'update.csv', pending, 'duplicates').stage).toBe('review');
+  });
+
+  it('should carry the mapping extra columns into the review', () => {
+    const pending = toPendingUpdate(competition, parseResult(), mapping);
+    const state = nextUpdateState(competition, 'update.csv', pending);
+
+    expect(state).toMatchObject({
+      stage: 'review',
+      participantFields: mapping.extraColumns,
+      skippedRows: 0,
+    });
+    if (state.stage !== 'review') return;
+    expect(state.diff.added.map((p) => p.ticketNumber)).toEqual(['2']);
+    expect(state.diff.unchanged).toBe(1);
+  });
+
+  it('should report an error when no entries are left', () => {
+    const pending = toPendingUpdate(competition, parseResult({ participants: [] }), mapping);
+
+    expect(nextUpdateState(competition, 'update.csv', pending).stage).toBe('error');
+  });
+
+  it('should match tickets with the competition rules', () => {
+    // Legacy competitions match on digits, ignoring leading zeros
+    const result = parseResult({
+      participants: [
+        { firstName: 'Jane', lastName: 'Doe', ticketNumber: 'A001' },
+        { firstName: 'John', lastName: 'Smith', ticketNumber: '2' },
+      ],
+    });
+    const state = nextUpdateState(
+      competition,
+      'update.csv',
+      toPendingUpdate(competition, result, mapping)
+    );
+
+    expect(state).toMatchObject({ stage: 'review', mergedTickets: 0 });
+    if (state.stage !== 'review') return;
+    expect(state.diff.unchanged).toBe(1);
+    expect(state.diff.removed).toEqual([]);
+    expect(state.diff.added.map((p) => p.ticketNumber)).toEqual(['2']);
+  });
+
+  it('should merge tickets that are the same under the competition rules', () => {
+    const caseless: Competition = {
+      ...competition,
+      participants: [{ firstName: 'Jane', lastName: 'Doe', ticketNumber: 'A1' }],
+      ticketNormalization: {
+        ignoreCase: true,
+        ignoreSeparators: false,
+        ignoreLeadingZeros: false,
+        digitsOnly: false,
+      },
+    };
+    const result = parseResult({
+      participants: [
+        { firstName: 'Jane', lastName: 'Doe', ticketNumber: 'A1' },
+        { firstName: 'John', lastName: 'Smith', ticketNumber: 'a1' },
+      ],
+    });
+    const state = nextUpdateState(
+      caseless,
+      'update.csv',
+      toPendingUpdate(caseless, result, mapping)
+    );
+
+    expect(state).toMatchObject({ stage: 'review', mergedTickets: 1 });
+    if (state.stage !== 'review') return;
+    expect(state.participants.map((p) => p.ticketNumber)).toEqual(['A1']);
+    expect(state.diff.unchanged).toBe(1);
+  });
+});
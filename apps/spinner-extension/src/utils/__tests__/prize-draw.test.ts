@@ -0,0 +1,130 @@
+/**
+ * Prize Draw Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Competition, Prize } from '@raffle-spinner/storage';
+import {
+  formatPrizeProgress,
+  getEligibleParticipants,
+  getPrizeDrawError,
+  getPrizeProgress,
+  getPrizeSlots,
+} from '../prize-draw';
+
+const prizes: Prize[] = [
+  { id: 'voucher', name: '£50 voucher', quantity: 2, order: 2 },
+  { id: 'car', name: 'Car', quantity: 1, order: 1 },
+];
+
+const competition: Competition = {
+  id: 'c1',
+  name: 'Summer Raffle',
+  participants: [
+    { firstName: 'Jane', lastName: 'Doe', ticketNumber: 'A-12' },
+    { firstName: 'John', lastName: 'Smith', ticketNumber: 'b7' },
+    { firstName: 'Amy', lastName: 'Lee', ticketNumber: 'C3' },
+  ],
+  prizes,
+  ticketNormalization: {
+    ignoreCase: true,
+    ignoreSeparators: true,
+    ignoreLeadingZeros: false,
+    digitsOnly: false,
+  },
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+const withWinners = (...tickets: string[]): Competition => ({
+  ...competition,
+  prizeWinners: tickets.map((ticketNumber, i) => ({
+    prizeId: getPrizeSlots(prizes)[i].id,
+    ticketNumber,
+    timestamp: i,
+  })),
+});
+
+describe('getPrizeSlots', () => {
+  it('should list one slot per winner in draw order', () => {
+    expect(getPrizeSlots(prizes).map((p) => p.id)).toEqual(['car', 'voucher', 'voucher']);
+  });
+
+  it('should skip prizes without winners', () => {
+    expect(getPrizeSlots([{ ...prizes[1], quantity: 0 }])).toEqual([]);
+    expect(getPrizeSlots()).toEqual([]);
+  });
+});
+
+describe('getPrizeProgress', () => {
+  it('should draw the first prize first', () => {
+    const progress = getPrizeProgress(competition);
+
+    expect(progress).toMatchObject({ drawNumber: 1, totalDraws: 3, isComplete: false });
+    expect(progress?.currentPrize?.id).toBe('car');
+    expect(formatPrizeProgress(progress!)).toBe('Prize 1 of 3: Car');
+  });
+
+  it('should move on to the next prize after each winner', () => {
+    const progress = getPrizeProgress(withWinners('A-12'));
+
+    expect(progress).toMatchObject({ drawNumber: 2, isComplete: false });
+    expect(progress?.currentPrize?.id).toBe('voucher');
+  });
+
+  it('should be complete once every prize is drawn', () => {
+    const progress = getPrizeProgress(withWinners('A-12', 'b7', 'C3'));
+
+    expect(progress).toMatchObject({ currentPrize: null, drawNumber: 3, isComplete: true });
+    expect(formatPrizeProgress(progress!)).toBe('All 3 prizes drawn');
+    expect(getPrizeDrawError(withWinners('A-12', 'b7', 'C3'), 'C3')).toMatch(/All prizes/);
+  });
+
+  it('should match recorded winners to their prize when prizes are reordered', () => {
+    const reordered = [
+      { ...prizes[0], order: 0 },
+      { ...prizes[1], order: 3 },
+    ];
+    const progress = getPrizeProgress({ ...withWinners('A-12', 'b7'), prizes: reordered });
+
+    expect(progress).toMatchObject({ drawNumber: 3, isComplete: false });
+    expect(progress?.currentPrize?.id).toBe('voucher');
+  });
+
+  it('should follow quantity changes and ignore winners of deleted prizes', () => {
+    const moreCars = getPrizeProgress({
+      ...withWinners('A-12'),
+      prizes: [prizes[0], { ...prizes[1], quantity: 2 }],
+    });
+    const carDeleted = getPrizeProgress({ ...withWinners('A-12'), prizes: [prizes[0]] });
+
+    expect(moreCars?.currentPrize?.id).toBe('car');
+    expect(moreCars).toMatchObject({ drawNumber: 2, totalDraws: 4 });
+    expect(carDeleted).toMatchObject({ drawNumber: 1, totalDraws: 2 });
+  });
+
+  it('should treat a competition without prizes as a single draw', () => {
+    expect(getPrizeProgress({ ...competition, prizes: [] })).toBeNull();
+    expect(getPrizeDrawError({ ...competition, prizes: [] }, 'A-12')).toBeNull();
+  });
+});
+
+describe('excluding earlier winners', () => {
+  it('should leave earlier winners out of the pool under the ticket matching rules', () => {
+    // Recorded as "a12" and "B-7"; the entries read "A-12" and "b7"
+    const pool = getEligibleParticipants(withWinners('a12', 'B-7'));
+
+    expect(pool.map((p) => p.ticketNumber)).toEqual(['C3']);
+  });
+
+  it('should refuse to draw a ticket that already won', () => {
+    const drawn = withWinners('a12');
+
+    expect(getPrizeDrawError(drawn, 'A 12')).toMatch(/already won/);
+    expect(getPrizeDrawError(drawn, 'b7')).toBeNull();
+  });
+
+  it('should keep everyone in the pool before the first winner', () => {
+    expect(getEligibleParticipants(competition)).toBe(competition.participants);
+  });
+});
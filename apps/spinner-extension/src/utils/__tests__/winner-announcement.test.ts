@@ -0,0 +1,79 @@
+/**
+ * Winner Announcement Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ANNOUNCEMENT,
+  buildAnnouncement,
+  formatTicketForSpeech,
+} from '../winner-announcement';
+
+const winner = { firstName: 'Jane', lastName: 'Doe', ticketNumber: '1042' };
+
+describe('formatTicketForSpeech', () => {
+  it('should group the digits of numeric tickets for the voice locale', () => {
+    expect(formatTicketForSpeech('1042', 'en-GB')).toBe('1,042');
+    expect(formatTicketForSpeech('1042', 'de-DE')).toBe('1.042');
+    expect(formatTicketForSpeech('7', 'en-GB')).toBe('7');
+  });
+
+  it('should keep every digit of long tickets', () => {
+    expect(formatTicketForSpeech('12345678901234567', 'en-GB')).toBe('12,345,678,901,234,567');
+  });
+
+  it.each(['007', '0', 'A12', 'B-7', '12a'])('should leave %s as it is', (ticket) => {
+    expect(formatTicketForSpeech(ticket, 'en-GB')).toBe(ticket);
+  });
+});
+
+describe('buildAnnouncement', () => {
+  const context = { winner, competitionName: 'Summer Raffle', locale: 'en-GB' };
+
+  it('should fill in the default template', () => {
+    expect(buildAnnouncement(DEFAULT_ANNOUNCEMENT, context)).toBe(
+      'Ticket 1,042 — congratulations Jane Doe!'
+    );
+  });
+
+  it('should fill in every placeholder, each time it appears', () => {
+    const settings = {
+      ...DEFAULT_ANNOUNCEMENT,
+      template: '{competition}: {prize} goes to {name}, ticket {ticket}. Well done {name}!',
+    };
+
+    expect(buildAnnouncement(settings, { ...context, prizeName: 'Car' })).toBe(
+      'Summer Raffle: Car goes to Jane Doe, ticket 1,042. Well done Jane Doe!'
+    );
+  });
+
+  it('should only say the first name when asked', () => {
+    const settings = { ...DEFAULT_ANNOUNCEMENT, firstNameOnly: true };
+
+    expect(buildAnnouncement(settings, context)).toBe('Ticket 1,042 — congratulations Jane!');
+  });
+
+  it('should tidy the spacing left by an empty prize or last name', () => {
+    const settings = {
+      ...DEFAULT_ANNOUNCEMENT,
+      template: 'Winner of {prize} {competition}: {name}',
+    };
+    const noLastName = { ...context, winner: { ...winner, lastName: '' } };
+
+    expect(buildAnnouncement(settings, noLastName)).toBe('Winner of Summer Raffle: Jane');
+  });
+
+  it('should read alphanumeric and zero-padded tickets as entered', () => {
+    const announce = (ticketNumber: string) =>
+      buildAnnouncement(DEFAULT_ANNOUNCEMENT, { ...context, winner: { ...winner, ticketNumber } });
+
+    expect(announce('A-0042')).toBe('Ticket A-0042 — congratulations Jane Doe!');
+    expect(announce('0042')).toBe('Ticket 0042 — congratulations Jane Doe!');
+  });
+
+  it('should leave unknown placeholders alone', () => {
+    const settings = { ...DEFAULT_ANNOUNCEMENT, template: '{name} wins {unknown}' };
+
+    expect(buildAnnouncement(settings, context)).toBe('Jane Doe wins {unknown}');
+  });
+});
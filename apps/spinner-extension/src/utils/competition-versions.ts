@@ -0,0 +1,51 @@
+/**
+ * Competition Versions
+ *
+ * Purpose: Builds the entry list version history recorded when a competition
+ * is imported and each time its entries are updated from a new file.
+ *
+ * SRS Reference:
+ * - FR-1.6: Competition Management (entry updates)
+ */
+
+import type { ParticipantDiff } from '@raffle-spinner/csv-parser';
+import type { Competition, CompetitionVersion } from '@raffle-spinner/storage';
+
+export function createInitialVersion(source: string, participantCount: number): CompetitionVersion {
+  return {
+    version: 1,
+    timestamp: Date.now(),
+    source,
+    participantCount,
+    added: participantCount,
+    removed: 0,
+    changed: 0,
+  };
+}
+
+/**
+ * Returns the competition's history with an entry for an approved update.
+ * Competitions imported before versioning count as version 1.
+ */
+export function appendVersion(
+  competition: Competition,
+  source: string,
+  diff: ParticipantDiff,
+  participantCount: number
+): CompetitionVersion[] {
+  const versions = competition.versions ?? [];
+  const latest = versions[versions.length - 1]?.version ?? 1;
+
+  return [
+    ...versions,
+    {
+      version: latest + 1,
+      timestamp: Date.now(),
+      source,
+      participantCount,
+      added: diff.added.length,
+      removed: diff.removed.length,
+      changed: diff.changed.length,
+    },
+  ];
+}
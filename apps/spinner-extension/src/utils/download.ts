@@ -0,0 +1,25 @@
+/**
+ * Download Utility
+ *
+ * Purpose: Saves generated content (CSV exports, proof bundles) as a file
+ * through a temporary object URL.
+ *
+ * Architecture Decision:
+ * - Single place for the Blob/anchor download pattern
+ * - Works in both the side panel and options page
+ */
+
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Quotes a value for a CSV cell when it holds a comma, quote or newline */
+export function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
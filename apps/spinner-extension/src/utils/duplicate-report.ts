@@ -0,0 +1,53 @@
+/**
+ * Duplicate Report Utility
+ *
+ * Purpose: Builds the CSV of duplicate entries that an import discards or
+ * renumbers, with each entry's source row number and original columns, so
+ * operators can follow up on them outside the extension.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (duplicate handling)
+ */
+
+import type { DuplicateEntry, DuplicateResolutionResult } from '@raffle-spinner/csv-parser';
+import { csvCell, downloadFile } from './download';
+
+/** Source columns across all entries, in first-seen order */
+function sourceColumns(entries: DuplicateEntry[]): string[] {
+  const columns = new Set<string>();
+  entries.forEach((entry) => Object.keys(entry.data).forEach((key) => columns.add(key)));
+  return [...columns];
+}
+
+export function duplicateReportToCsv({ discarded, renumbered }: DuplicateResolutionResult): string {
+  const rows = [
+    ...discarded.map((entry) => ({ entry, outcome: 'Discarded' })),
+    ...renumbered.map(({ entry, ticketNumber }) => ({
+      entry,
+      outcome: `Renumbered to ${ticketNumber}`,
+    })),
+  ].sort((a, b) => a.entry.row - b.entry.row);
+  const columns = sourceColumns(rows.map(({ entry }) => entry));
+
+  return [
+    ['Row', 'Ticket Number', 'First Name', 'Last Name', 'Outcome', ...columns],
+    ...rows.map(({ entry, outcome }) => [
+      String(entry.row),
+      entry.participant.ticketNumber,
+      entry.participant.firstName,
+      entry.participant.lastName,
+      outcome,
+      ...columns.map((column) => entry.data[column] ?? ''),
+    ]),
+  ]
+    .map((row) => row.map(csvCell).join(','))
+    .join('\n');
+}
+
+export function exportDuplicateReport(resolution: DuplicateResolutionResult): void {
+  downloadFile(
+    duplicateReportToCsv(resolution),
+    `duplicate-tickets-${new Date().toISOString().slice(0, 10)}.csv`,
+    'text/csv'
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Entry Update
+ *
+ * Purpose: Puts a re-imported entry list through the same review as a new
+ * import (row issues, then duplicates) and builds the diff the user
+ * approves before a competition's entries are replaced. Ticket matching
+ * rules aren't asked again: the competition's own rules are applied to the
+ * new list and decide which tickets the diff treats as the same.
+ *
+ * SRS Reference:
+ * - FR-1.6: Competition Management (entry updates)
+ * - FR-1.5: Data Validation and Error Handling (row validation, duplicate handling)
+ */
+
+import {
+  diffParticipants,
+  type ParseResult,
+  type ParticipantDiff,
+} from '@raffle-spinner/csv-parser';
+import type {
+  ColumnMapping,
+  Competition,
+  Participant,
+  ParticipantField,
+} from '@raffle-spinner/storage';
+import type { UploadResult } from '@/hooks/useCSVUpload';
+import { nextReviewStep, type ReviewStep } from '@/utils/import-review';
+import {
+  applyTicketNormalization,
+  getTicketKey,
+  getTicketNormalization,
+} from '@/utils/ticket-identity';
+
+const UPDATE_REVIEW_STEPS: readonly ReviewStep[] = ['issues', 'duplicates'];
+
+export interface EntryUpdateReview {
+  participants: Participant[];
+  participantFields?: ParticipantField[];
+  diff: ParticipantDiff;
+  /** Rows left out of the update, after any fixes, and tickets with nothing to match on */
+  skippedRows: number;
+  /** Distinct tickets merged by the competition's ticket matching rules */
+  mergedTickets: number;
+}
+
+export type EntryUpdateState =
+  | { stage: 'reading'; competition: Competition; fileName: string }
+  | { stage: ReviewStep; competition: Competition; fileName: string; pending: UploadResult }
+  | ({ stage: 'review'; competition: Competition; fileName: string } & EntryUpdateReview)
+  | { stage: 'error'; competition: Competition; message: string };
+
+/**
+ * The parsed file as a pending import into the competition, so the import
+ * review steps can be applied to it. Versions are left off; the update
+ * appends its own once approved.
+ */
+export function toPendingUpdate(
+  competition: Competition,
+  result: ParseResult,
+  mapping: ColumnMapping
+): UploadResult {
+  return {
+    competition: {
+      ...competition,
+      participants: result.participants,
+      participantFields: mapping.extraColumns,
+      versions: undefined,
+    },
+    duplicates: result.duplicates,
+    skippedRows: result.skippedRows,
+    totalRows: result.totalRows,
+    issues: result.issues,
+    ticketExpansion: result.ticketExpansion,
+  };
+}
+
+/**
+ * The reviewed entry list under the competition's ticket matching rules,
+ * and how it differs from the current one
+ */
+function buildUpdateReview(competition: Competition, pending: UploadResult): EntryUpdateReview {
+  const policy = getTicketNormalization(competition);
+  const { participants, collisions, unmatchable } = applyTicketNormalization(
+    pending.competition.participants,
+    policy
+  );
+
+  return {
+    participants,
+    participantFields: pending.competition.participantFields,
+    diff: diffParticipants(competition.participants, participants, (ticketNumber) =>
+      getTicketKey(ticketNumber, policy)
+    ),
+    skippedRows: pending.skippedRows + unmatchable.length,
+    mergedTickets: collisions.reduce((sum, c) => sum + c.participants.length - 1, 0),
+  };
+}
+
+/**
+ * The update's next review step after `after`, then the diff for approval
+ * once every step is done
+ */
+export function nextUpdateState(
+  competition: Competition,
+  fileName: string,
+  pending: UploadResult,
+  after?: ReviewStep
+): EntryUpdateState {
+  const step = nextReviewStep(pending, after, UPDATE_REVIEW_STEPS);
+  if (step) {
+    return { stage: step, competition, fileName, pending };
+  }
+  if (pending.competition.participants.length === 0) {
+    return {
+      stage: 'error',
+      competition,
+      message: `No entries found in ${fileName} with the current column mapping.`,
+    };
+  }
+  return { stage: 'review', competition, fileName, ...buildUpdateReview(competition, pending) };
+}
@@ -0,0 +1,55 @@
+/**
+ * Import Issues Utility
+ *
+ * Purpose: Labels the row-level issues found while parsing an import and
+ * builds the CSV report of them, with each row's original columns, so the
+ * source file can be corrected.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (row validation report)
+ */
+
+import type { ValidationError, ValidationIssueType } from '@raffle-spinner/csv-parser';
+import { csvCell, downloadFile } from './download';
+
+export const ISSUE_TYPE_LABELS: Record<ValidationIssueType, string> = {
+  missingName: 'Missing name',
+  missingTicket: 'Missing ticket',
+  invalidTicket: 'Invalid ticket',
+  whitespaceOnly: 'Whitespace only',
+  suspiciousValue: 'Suspicious value',
+};
+
+/** Source columns across all issues, in first-seen order */
+function sourceColumns(issues: ValidationError[]): string[] {
+  const columns = new Set<string>();
+  issues.forEach((issue) => Object.keys(issue.data).forEach((key) => columns.add(key)));
+  return [...columns];
+}
+
+export function issuesToCsv(issues: ValidationError[]): string {
+  const columns = sourceColumns(issues);
+
+  return [
+    ['Row', 'Issue', 'Column', 'Reason', 'Outcome', ...columns],
+    ...issues.map((issue) => [
+      String(issue.row),
+      ISSUE_TYPE_LABELS[issue.type],
+      issue.column ?? '',
+      issue.reason,
+      issue.skipped ? 'Skipped' : 'Imported',
+      ...columns.map((column) => issue.data[column] ?? ''),
+    ]),
+  ]
+    .map((row) => row.map(csvCell).join(','))
+    .join('\n');
+}
+
+export function exportIssuesReport(issues: ValidationError[]): void {
+  if (issues.length === 0) return;
+  downloadFile(
+    issuesToCsv(issues),
+    `import-issues-${new Date().toISOString().slice(0, 10)}.csv`,
+    'text/csv'
+  );
+}
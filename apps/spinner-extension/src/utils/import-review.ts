@@ -0,0 +1,181 @@
+/**
+ * Import Review
+ *
+ * Purpose: Orders the review steps a parsed import goes through (row
+ * issues, ticket matching rules, duplicates) and applies the choices made
+ * in each to the competition about to be saved.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (row validation, ticket identity,
+ *   duplicate handling)
+ */
+
+import {
+  ParticipantCollector,
+  resolveDuplicates,
+  ticketColumn,
+  type DuplicateResolution,
+  type DuplicateResolutionResult,
+  type ValidationError,
+} from '@raffle-spinner/csv-parser';
+import type {
+  ColumnMapping,
+  Competition,
+  Participant,
+  TicketNormalization,
+} from '@raffle-spinner/storage';
+import type { UploadResult } from '@/hooks/useCSVUpload';
+import {
+  applyTicketNormalization,
+  getTicketKey,
+  getTicketNormalization,
+  needsTicketReview,
+} from '@/utils/ticket-identity';
+
+const REVIEW_STEPS = ['issues', 'tickets', 'duplicates'] as const;
+
+export type ReviewStep = (typeof REVIEW_STEPS)[number];
+
+const needsReview: Record<ReviewStep, (result: UploadResult) => boolean> = {
+  issues: (result) => result.issues.length > 0,
+  tickets: (result) => needsTicketReview(result.competition.participants),
+  duplicates: (result) => result.duplicates.length > 0,
+};
+
+/**
+ * The next of `steps` the import needs after `after`, or null when it can
+ * be saved
+ */
+export function nextReviewStep(
+  result: UploadResult,
+  after?: ReviewStep,
+  steps: readonly ReviewStep[] = REVIEW_STEPS
+): ReviewStep | null {
+  const start = after ? steps.indexOf(after) + 1 : 0;
+  return steps.slice(start).find((step) => needsReview[step](result)) ?? null;
+}
+
+/** The competition with its participants replaced, keeping the version count in step */
+function withParticipants(competition: Competition, participants: Participant[]): Competition {
+  return {
+    ...competition,
+    participants,
+    versions: competition.versions?.map((version) => ({
+      ...version,
+      participantCount: participants.length,
+      added: participants.length,
+    })),
+  };
+}
+
+/**
+ * Applies the ticket matching rules chosen for an import. Tickets the rules
+ * merge keep their first entry, and tickets left with nothing to match on
+ * are skipped.
+ */
+export function applyTicketPolicy(result: UploadResult, policy: TicketNormalization): UploadResult {
+  const { participants, collisions, unmatchable } = applyTicketNormalization(
+    result.competition.participants,
+    policy
+  );
+
+  return {
+    ...result,
+    competition: {
+      ...withParticipants(result.competition, participants),
+      ticketNormalization: policy,
+    },
+    skippedRows: result.skippedRows + unmatchable.length,
+    mergedTickets: collisions.reduce((sum, c) => sum + c.participants.length - 1, 0),
+  };
+}
+
+/**
+ * Works out what the chosen duplicate resolutions keep, discard and
+ * renumber. Renumbered tickets are checked with the competition's matching
+ * rules so they can't match an existing ticket.
+ */
+export function previewDuplicateResolution(
+  result: UploadResult,
+  resolutions: Record<string, DuplicateResolution>
+): DuplicateResolutionResult {
+  const policy = getTicketNormalization(result.competition);
+  return resolveDuplicates(
+    result.competition.participants,
+    result.duplicates,
+    resolutions,
+    (ticketNumber) => getTicketKey(ticketNumber, policy)
+  );
+}
+
+export function applyDuplicateResolutions(
+  result: UploadResult,
+  resolutions: Record<string, DuplicateResolution>
+): UploadResult {
+  const duplicateResolution = previewDuplicateResolution(result, resolutions);
+  return {
+    ...result,
+    competition: withParticipants(result.competition, duplicateResolution.participants),
+    duplicateResolution,
+  };
+}
+
+/** Parses one corrected row, keeping its original row number on any issues */
+function recheckRow(
+  data: Record<string, string>,
+  row: number,
+  mapping: ColumnMapping,
+  taken: Set<string>
+): { participants: Participant[]; issues: ValidationError[] } {
+  const collector = new ParticipantCollector(mapping);
+  collector.add(data);
+  const { participants, issues } = collector.getResult();
+
+  const clash = participants.find((p) => taken.has(p.ticketNumber));
+  if (clash) {
+    const reason = `Ticket "${clash.ticketNumber}" is already used by another row`;
+    const column = ticketColumn(data, mapping);
+    return {
+      participants: [],
+      issues: [{ row, type: 'invalidTicket', column, reason, skipped: true, data }],
+    };
+  }
+  return { participants, issues: issues.map((issue) => ({ ...issue, row })) };
+}
+
+/**
+ * Re-imports skipped rows the user corrected, keyed by row number. Rows
+ * that still have problems, or whose ticket is already taken, stay in the
+ * issues list.
+ */
+export function applyRowFixes(
+  result: UploadResult,
+  fixes: Record<number, Record<string, string>>,
+  mapping: ColumnMapping
+): UploadResult {
+  const taken = new Set(result.competition.participants.map((p) => p.ticketNumber));
+  const added: Participant[] = [];
+  const rechecked: ValidationError[] = [];
+  let fixedRows = 0;
+
+  for (const [row, data] of Object.entries(fixes)) {
+    const { participants, issues } = recheckRow(data, Number(row), mapping, taken);
+    rechecked.push(...issues);
+    if (participants.length === 0) continue;
+
+    participants.forEach((p) => taken.add(p.ticketNumber));
+    added.push(...participants);
+    fixedRows++;
+  }
+
+  const participants = [...result.competition.participants, ...added];
+  return {
+    ...result,
+    competition: withParticipants(result.competition, participants),
+    issues: [...result.issues.filter((issue) => !(issue.row in fixes)), ...rechecked].sort(
+      (a, b) => a.row - b.row
+    ),
+    skippedRows: result.skippedRows - fixedRows,
+    fixedRows: (result.fixedRows ?? 0) + fixedRows,
+  };
+}
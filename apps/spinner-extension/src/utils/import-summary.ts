@@ -0,0 +1,69 @@
+/**
+ * Import Summary
+ *
+ * Purpose: Builds the success message shown after a CSV import.
+ * Extracted from useCSVImport.ts to maintain file size limits
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (import summary)
+ */
+
+import type { UploadResult } from '@/hooks/useCSVUpload';
+
+export function formatImportSummary(result: UploadResult): string {
+  const parts = [`Success! ${result.competition.participants.length} participants imported.`];
+
+  parts.push(...describeDuplicates(result), ...describeIssues(result));
+
+  if (result.ticketExpansion && result.ticketExpansion.expandedRows > 0) {
+    const { expandedRows, ticketsCreated } = result.ticketExpansion;
+    parts.push(`${expandedRows} rows were expanded into ${ticketsCreated} tickets.`);
+  }
+
+  if (result.skippedRows > 0) {
+    // Matching rules were chosen when tickets have been checked for merges
+    const reviewedTickets = result.mergedTickets !== undefined;
+    const reason = reviewedTickets ? 'missing data or unmatchable tickets' : 'missing data';
+    parts.push(`${result.skippedRows} rows were skipped due to ${reason}.`);
+  }
+
+  parts.push(...describeInvalidRows(result.ticketExpansion?.invalidRows ?? []));
+
+  return parts.join(' ');
+}
+
+function describeDuplicates({ duplicates, duplicateResolution, mergedTickets }: UploadResult) {
+  const parts: string[] = [];
+  if (duplicateResolution) {
+    const { discarded, renumbered } = duplicateResolution;
+    parts.push(
+      `${duplicates.length} duplicate ticket numbers were found: ${discarded.length} entries discarded, ${renumbered.length} renumbered.`
+    );
+  }
+  if (mergedTickets) {
+    parts.push(`${mergedTickets} tickets were merged by the ticket matching rules.`);
+  }
+  return parts;
+}
+
+function describeIssues({ issues, fixedRows }: UploadResult) {
+  const parts: string[] = [];
+  if (fixedRows) {
+    parts.push(`${fixedRows} skipped rows were fixed before importing.`);
+  }
+  const warnings = issues.filter((issue) => !issue.skipped).length;
+  if (warnings > 0) {
+    parts.push(`${warnings} imported values look like placeholders.`);
+  }
+  return parts;
+}
+
+function describeInvalidRows(invalidRows: Array<{ row: number; reason: string }>): string[] {
+  if (invalidRows.length === 0) {
+    return [];
+  }
+  const [{ row, reason }] = invalidRows;
+  return [
+    `${invalidRows.length} of them had an invalid ticket quantity or range (row ${row}: ${reason}).`,
+  ];
+}
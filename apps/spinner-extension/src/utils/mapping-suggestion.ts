@@ -0,0 +1,49 @@
+/**
+ * Mapping Suggestion
+ *
+ * Purpose: Picks the saved column mapping to preselect for an imported file.
+ * Extracted from useCSVImport.ts to maintain file size limits
+ *
+ * SRS Reference:
+ * - FR-1.4: Column Mapping Interface (saved mappings)
+ */
+
+import type { SavedMapping } from '@raffle-spinner/storage';
+
+/**
+ * Returns the id of the default mapping, else the first saved mapping whose
+ * columns all exist in the file, else the most used mapping ('' for none)
+ */
+export function suggestSavedMapping(
+  headers: string[],
+  savedMappings: SavedMapping[],
+  defaultMapping: SavedMapping | null
+): string {
+  if (defaultMapping) {
+    return defaultMapping.id;
+  }
+  if (savedMappings.length === 0) {
+    return '';
+  }
+
+  // Try to match based on headers
+  const matchingMapping = savedMappings.find(({ mapping: m }) => {
+    const hasNames = m.fullName
+      ? headers.includes(m.fullName)
+      : !!m.firstName &&
+        headers.includes(m.firstName) &&
+        !!m.lastName &&
+        headers.includes(m.lastName);
+    const hasTicketColumns = [m.ticketNumber, m.quantity, m.ticketRange].every(
+      (column) => !column || headers.includes(column)
+    );
+    return !!m.ticketNumber && hasTicketColumns && hasNames;
+  });
+  if (matchingMapping) {
+    return matchingMapping.id;
+  }
+
+  // Use most recently used mapping
+  const [mostUsed] = [...savedMappings].sort((a, b) => b.usageCount - a.usageCount);
+  return mostUsed.usageCount > 0 ? mostUsed.id : '';
+}
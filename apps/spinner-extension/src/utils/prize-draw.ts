@@ -0,0 +1,102 @@
+/**
+ * Prize Draw Utilities
+ *
+ * Purpose: Works out which prize is drawn next in a multi-prize competition
+ * and which tickets are still eligible to win.
+ *
+ * SRS Reference:
+ * - FR-1.6: Competition Management (prize tiers)
+ * - FR-2.2: Winner Selection and Animation (no repeat winners)
+ */
+
+import { getTicketKey, getTicketNormalization } from '@/utils/ticket-identity';
+import type { Competition, Participant, Prize } from '@raffle-spinner/storage';
+
+export interface PrizeProgress {
+  /** Prize awarded by the next spin, or null once every prize is drawn */
+  currentPrize: Prize | null;
+  /** 1-based number of the next winner across all prizes */
+  drawNumber: number;
+  totalDraws: number;
+  isComplete: boolean;
+}
+
+/**
+ * Prizes in draw order, one slot per winner
+ */
+export function getPrizeSlots(prizes: Prize[] = []): Prize[] {
+  return [...prizes]
+    .sort((a, b) => a.order - b.order)
+    .flatMap((prize) => Array.from({ length: Math.max(0, prize.quantity) }, () => prize));
+}
+
+/**
+ * Progress through a competition's prizes, or null for a single-draw competition.
+ * Recorded winners count towards the prize they won, so editing or reordering
+ * prizes mid-draw keeps each prize's remaining winners.
+ */
+export function getPrizeProgress(competition: Competition): PrizeProgress | null {
+  const slots = getPrizeSlots(competition.prizes);
+  if (slots.length === 0) return null;
+
+  const won = new Map<string, number>();
+  competition.prizeWinners?.forEach((w) => won.set(w.prizeId, (won.get(w.prizeId) ?? 0) + 1));
+
+  // Winners beyond a prize's quantity, or of a deleted prize, do not fill a slot
+  const openSlots = slots.filter((prize) => {
+    const wins = won.get(prize.id) ?? 0;
+    won.set(prize.id, wins - 1);
+    return wins <= 0;
+  });
+  const drawn = slots.length - openSlots.length;
+
+  return {
+    currentPrize: openSlots[0] ?? null,
+    drawNumber: Math.min(drawn + 1, slots.length),
+    totalDraws: slots.length,
+    isComplete: openSlots.length === 0,
+  };
+}
+
+/**
+ * Progress label such as "Prize 2 of 5: £50 voucher"
+ */
+export function formatPrizeProgress(progress: PrizeProgress): string {
+  if (progress.isComplete || !progress.currentPrize) {
+    return `All ${progress.totalDraws} prizes drawn`;
+  }
+  return `Prize ${progress.drawNumber} of ${progress.totalDraws}: ${progress.currentPrize.name}`;
+}
+
+/**
+ * Participants who have not already won a prize in this competition
+ */
+export function getEligibleParticipants(competition: Competition): Participant[] {
+  if (!competition.prizeWinners?.length) return competition.participants;
+
+  const policy = getTicketNormalization(competition);
+  const winningTickets = new Set(
+    competition.prizeWinners.map((w) => getTicketKey(w.ticketNumber, policy))
+  );
+  return competition.participants.filter(
+    (p) => !winningTickets.has(getTicketKey(p.ticketNumber, policy))
+  );
+}
+
+/**
+ * Reason a ticket cannot be spun for the next prize, if any
+ */
+export function getPrizeDrawError(competition: Competition, ticketNumber: string): string | null {
+  const progress = getPrizeProgress(competition);
+  if (!progress) return null;
+  if (progress.isComplete) {
+    return 'All prizes for this competition have been drawn';
+  }
+
+  const policy = getTicketNormalization(competition);
+  const key = getTicketKey(ticketNumber, policy);
+  const alreadyWon = competition.prizeWinners?.some(
+    (w) => getTicketKey(w.ticketNumber, policy) === key
+  );
+  return alreadyWon ? 'This ticket has already won a prize in this competition' : null;
+}
@@ -0,0 +1,136 @@
+/**
+ * Ticket Identity
+ *
+ * Purpose: Decides when two tickets are the same ticket. Tickets are stored
+ * and shown exactly as entered; each competition's normalization policy
+ * turns them into a match key used for spinning, prize draws and duplicates.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (ticket identity, duplicate handling)
+ * - FR-2.2: Winner Selection and Animation (ticket lookup)
+ */
+
+import type { Competition, Participant, TicketNormalization } from '@raffle-spinner/storage';
+
+/** Policy for new imports: letters are case-insensitive, everything else counts */
+export const DEFAULT_TICKET_NORMALIZATION: TicketNormalization = {
+  ignoreCase: true,
+  ignoreSeparators: false,
+  ignoreLeadingZeros: false,
+  digitsOnly: false,
+};
+
+/**
+ * Matching used before competitions had a policy. Their tickets were
+ * imported as digits only and matched ignoring leading zeros, so a
+ * re-imported "A12" or "012" is still ticket 12.
+ */
+export const LEGACY_TICKET_NORMALIZATION: TicketNormalization = {
+  ignoreCase: false,
+  ignoreSeparators: false,
+  ignoreLeadingZeros: true,
+  digitsOnly: true,
+};
+
+export const TICKET_NORMALIZATION_OPTIONS: {
+  key: keyof TicketNormalization;
+  label: string;
+  example: string;
+}[] = [
+  { key: 'ignoreCase', label: 'Ignore letter case', example: '"a12" matches "A12"' },
+  { key: 'ignoreSeparators', label: 'Ignore spaces and dashes', example: '"A-12" matches "A12"' },
+  { key: 'ignoreLeadingZeros', label: 'Ignore leading zeros', example: '"007" matches "7"' },
+  { key: 'digitsOnly', label: 'Match on digits only', example: '"A12" matches "B12"' },
+];
+
+// Characters ignored by the ignoreSeparators option
+const SEPARATORS = /[\s\-_./#]/g;
+
+export interface TicketCollision {
+  /** Match key shared by the tickets */
+  key: string;
+  /** Distinct tickets, as entered, that the policy would merge */
+  participants: Participant[];
+}
+
+export function getTicketNormalization(competition: Competition): TicketNormalization {
+  return competition.ticketNormalization ?? LEGACY_TICKET_NORMALIZATION;
+}
+
+/**
+ * Match key for a ticket under a policy. Empty when the policy leaves
+ * nothing to match on, such as digits only for a ticket without digits.
+ */
+export function getTicketKey(ticketNumber: string, policy: TicketNormalization): string {
+  let key = ticketNumber.trim();
+  if (policy.digitsOnly) {
+    key = key.replace(/\D/g, '');
+  } else if (policy.ignoreSeparators) {
+    key = key.replace(SEPARATORS, '');
+  }
+  if (policy.ignoreCase) {
+    key = key.toUpperCase();
+  }
+  if (policy.ignoreLeadingZeros) {
+    // Zeros leading any run of digits, keeping a lone "0"
+    key = key.replace(/(^|\D)0+(?=\d)/g, '$1');
+  }
+  return key;
+}
+
+/**
+ * Finds the participant holding a ticket in a competition, using its policy
+ */
+export function findParticipantByTicket(
+  competition: Competition,
+  ticketNumber: string
+): Participant | undefined {
+  const policy = getTicketNormalization(competition);
+  const key = getTicketKey(ticketNumber, policy);
+  if (!key) return undefined;
+  return competition.participants.find((p) => getTicketKey(p.ticketNumber, policy) === key);
+}
+
+/**
+ * True when the entry list has tickets a normalization policy could change:
+ * letters, separators or leading zeros
+ */
+export function needsTicketReview(participants: Participant[]): boolean {
+  return participants.some((p) => !/^[1-9]\d*$|^0$/.test(p.ticketNumber));
+}
+
+/**
+ * Applies a policy to an imported entry list. Keeps the first participant
+ * for each match key and reports the distinct tickets that were merged, and
+ * the participants left without a key.
+ */
+export function applyTicketNormalization(
+  participants: Participant[],
+  policy: TicketNormalization
+): { participants: Participant[]; collisions: TicketCollision[]; unmatchable: Participant[] } {
+  const byKey = new Map<string, Participant[]>();
+  const unmatchable: Participant[] = [];
+
+  for (const participant of participants) {
+    const key = getTicketKey(participant.ticketNumber, policy);
+    if (!key) {
+      unmatchable.push(participant);
+      continue;
+    }
+    const group = byKey.get(key);
+    if (group) {
+      group.push(participant);
+    } else {
+      byKey.set(key, [participant]);
+    }
+  }
+
+  const groups = Array.from(byKey.entries());
+  return {
+    participants: groups.map(([, group]) => group[0]),
+    collisions: groups
+      .filter(([, group]) => group.length > 1)
+      .map(([key, group]) => ({ key, participants: group })),
+    unmatchable,
+  };
+}
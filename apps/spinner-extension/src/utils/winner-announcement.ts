@@ -0,0 +1,65 @@
+/**
+ * Winner Announcement Utilities
+ *
+ * Purpose: Builds the message spoken when a winner lands, from the
+ * announcement template and the draw being run.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (spoken announcement)
+ */
+
+import type { AnnouncementSettings, Participant } from '@raffle-spinner/storage';
+
+export const DEFAULT_ANNOUNCEMENT: AnnouncementSettings = {
+  enabled: false,
+  rate: 1,
+  template: 'Ticket {ticket} — congratulations {name}!',
+  firstNameOnly: false,
+};
+
+export const ANNOUNCEMENT_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: '{name}', description: "Winner's name" },
+  { key: '{ticket}', description: 'Winning ticket number' },
+  { key: '{competition}', description: 'Competition name' },
+  { key: '{prize}', description: 'Prize being drawn, empty for single-draw competitions' },
+];
+
+export interface AnnouncementContext {
+  winner: Participant;
+  competitionName: string;
+  prizeName?: string;
+  /** Language of the voice, used to group the digits of numeric tickets */
+  locale?: string;
+}
+
+/**
+ * Groups the digits of numeric tickets ("1042" becomes "1,042") so voices
+ * read them as numbers rather than as a year or a string of digits.
+ * Tickets with letters or leading zeros are left as they are.
+ */
+export function formatTicketForSpeech(ticketNumber: string, locale?: string): string {
+  if (!/^[1-9]\d*$/.test(ticketNumber)) return ticketNumber;
+  // BigInt keeps every digit of tickets too long for a Number
+  return BigInt(ticketNumber).toLocaleString(locale);
+}
+
+/**
+ * Fills in the announcement template for a winner
+ */
+export function buildAnnouncement(
+  settings: AnnouncementSettings,
+  { winner, competitionName, prizeName = '', locale }: AnnouncementContext
+): string {
+  const name = settings.firstNameOnly ? winner.firstName : `${winner.firstName} ${winner.lastName}`;
+  const values: Record<string, string> = {
+    '{name}': name.trim(),
+    '{ticket}': formatTicketForSpeech(winner.ticketNumber, locale),
+    '{competition}': competitionName,
+    '{prize}': prizeName,
+  };
+
+  return settings.template
+    .replace(/\{(name|ticket|competition|prize)\}/g, (placeholder) => values[placeholder])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
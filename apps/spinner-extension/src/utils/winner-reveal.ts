@@ -0,0 +1,90 @@
+/**
+ * Winner Reveal Utilities
+ *
+ * Purpose: Works out what the winner overlay shows at each stage of a
+ * reveal, so the side panel and the audience displays stay in step by
+ * sharing only the mode and the stage number.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (winner reveal)
+ */
+
+import type { RevealMode } from '@raffle-spinner/storage';
+
+export const DEFAULT_REVEAL_MODE: RevealMode = 'instant';
+
+// Shown in place of ticket characters that are still hidden
+export const HIDDEN_CHARACTER = '?';
+
+export const REVEAL_MODE_OPTIONS: { value: RevealMode; label: string; description: string }[] = [
+  {
+    value: 'instant',
+    label: 'Instant',
+    description: 'Show the name and ticket at once and clear after 5 seconds',
+  },
+  {
+    value: 'ticket-then-name',
+    label: 'Ticket, then name',
+    description: 'Show the ticket first and the name on the next key press',
+  },
+  {
+    value: 'digit-by-digit',
+    label: 'Digit by digit',
+    description: 'Reveal one ticket digit per key press, then the name',
+  },
+  {
+    value: 'hold',
+    label: 'Hold',
+    description: 'Show the name and ticket at once and keep them until dismissed',
+  },
+];
+
+export interface RevealView {
+  /** Ticket number with hidden characters masked */
+  ticket: string;
+  showName: boolean;
+  /** True once everything is shown; the next step dismisses the winner */
+  isComplete: boolean;
+}
+
+/**
+ * Number of stages in a reveal, the last one showing everything
+ */
+export function getRevealStageCount(mode: RevealMode, ticketNumber: string): number {
+  switch (mode) {
+    case 'ticket-then-name':
+      return 2;
+    case 'digit-by-digit':
+      // All hidden, one stage per character, then the name
+      return ticketNumber.length + 2;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * What the overlay shows at a stage (0-based) of the reveal
+ */
+export function getRevealView(mode: RevealMode, ticketNumber: string, stage: number): RevealView {
+  const lastStage = getRevealStageCount(mode, ticketNumber) - 1;
+  const current = Math.min(Math.max(stage, 0), lastStage);
+  const isComplete = current === lastStage;
+
+  if (mode !== 'digit-by-digit' || isComplete) {
+    return { ticket: ticketNumber, showName: isComplete, isComplete };
+  }
+
+  const shown = ticketNumber.slice(0, current);
+  return {
+    ticket: shown + HIDDEN_CHARACTER.repeat(ticketNumber.length - shown.length),
+    showName: false,
+    isComplete,
+  };
+}
+
+/**
+ * Only instant reveals clear themselves; every other mode waits for the operator
+ */
+export function shouldAutoClear(mode: RevealMode): boolean {
+  return mode === 'instant';
+}
@@ -0,0 +1,54 @@
+/**
+ * Winners Export Utility
+ *
+ * Purpose: Builds the session winners CSV, including the prize each winner
+ * received in multi-prize competitions and their non-private metadata
+ * columns (email, phone, order id...).
+ *
+ * SRS Reference:
+ * - FR-2.4: Winner Display and Session History (winner export)
+ */
+
+import type { Winner } from '@/components/sidepanel/SessionWinners';
+import { csvCell, downloadFile } from './download';
+
+/** Exportable metadata keys across all winners, in first-seen order */
+function exportedMetadataKeys(winners: Winner[]): string[] {
+  const keys = new Set<string>();
+  for (const winner of winners) {
+    Object.keys(winner.metadata ?? {})
+      .filter((key) => !winner.privateFields?.includes(key))
+      .forEach((key) => keys.add(key));
+  }
+  return [...keys];
+}
+
+export function winnersToCsv(winners: Winner[]): string {
+  const metadataKeys = exportedMetadataKeys(winners);
+
+  return [
+    ['First Name', 'Last Name', 'Ticket Number', 'Competition', 'Prize', 'Time', ...metadataKeys],
+    ...winners.map((w) => [
+      w.firstName,
+      w.lastName,
+      w.ticketNumber,
+      w.competition,
+      w.prize ?? '',
+      new Date(w.timestamp).toLocaleString(),
+      ...metadataKeys.map((key) =>
+        w.privateFields?.includes(key) ? '' : (w.metadata?.[key] ?? '')
+      ),
+    ]),
+  ]
+    .map((row) => row.map(csvCell).join(','))
+    .join('\n');
+}
+
+export function exportWinnersCsv(winners: Winner[]): void {
+  if (winners.length === 0) return;
+  downloadFile(
+    winnersToCsv(winners),
+    `raffle-winners-${new Date().toISOString().slice(0, 10)}.csv`,
+    'text/csv'
+  );
+}
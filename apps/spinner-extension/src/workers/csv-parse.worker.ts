@@ -0,0 +1,40 @@
+/**
+ * CSV Parse Worker
+ *
+ * Purpose: Runs import file reading, CSV/spreadsheet parsing, ticket
+ * conversion and duplicate detection off the main thread so 50k+ row imports
+ * don't freeze the options page. Streams progress back after every chunk.
+ *
+ * SRS Reference:
+ * - FR-1.2: CSV Parser Integration
+ * - FR-1.4: Column Mapping Interface (header detection)
+ * - FR-1.5: Data Validation and Error Handling
+ */
+
+import { CSVParser, inspectImportFile } from '@raffle-spinner/csv-parser';
+import type { CSVWorkerRequest, CSVWorkerResponse } from '@/lib/csv-worker';
+
+const respond = (message: CSVWorkerResponse) => postMessage(message);
+
+onmessage = async (event: MessageEvent<CSVWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'inspect') {
+      const inspection = await inspectImportFile(request.file, request.sheetName);
+      respond({ type: 'inspection', inspection });
+      return;
+    }
+
+    const result = await new CSVParser().parseFile(request.file, request.mapping, {
+      sheetName: request.sheetName,
+      onProgress: (progress) => respond({ type: 'progress', progress }),
+    });
+    respond({ type: 'result', result });
+  } catch (error) {
+    respond({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Failed to parse CSV',
+    });
+  }
+};
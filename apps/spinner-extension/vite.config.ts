@@ -24,6 +24,10 @@ export default defineConfig({
       '@': resolve(__dirname, './src'),
     },
   },
+  worker: {
+    // The CSV parse worker is loaded as a module worker
+    format: 'es',
+  },
   build: {
     outDir: 'DrawDaySpinner',
     emptyOutDir: true,
@@ -31,6 +35,8 @@ export default defineConfig({
       input: {
         sidepanel: resolve(__dirname, 'sidepanel.html'),
         options: resolve(__dirname, 'options.html'),
+        audience: resolve(__dirname, 'audience.html'),
+        overlay: resolve(__dirname, 'overlay.html'),
       },
       output: {
         entryFileNames: '[name].js',
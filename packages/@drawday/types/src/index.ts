@@ -19,6 +19,59 @@ export interface Participant {
   firstName: string;
   lastName: string;
   ticketNumber: string;
+  metadata?: Record<string, string>; // Extra import columns (email, phone, order id...)
+}
+
+/**
+ * An extra import column kept in participant metadata
+ */
+export interface ParticipantField {
+  key: string; // Column header, used as the metadata key
+  isPrivate: boolean; // Private fields are shown to the operator but left out of exports
+}
+
+/**
+ * A prize tier awarded in a competition
+ */
+export interface Prize {
+  id: string;
+  name: string;
+  quantity: number; // Number of winners drawn for this prize
+  order: number; // Draw order, lowest first
+  image?: string; // Base64 encoded prize image
+}
+
+/**
+ * A ticket that has won one of a competition's prizes
+ */
+export interface PrizeWinner {
+  prizeId: string;
+  ticketNumber: string;
+  timestamp: number;
+}
+
+/**
+ * A version of a competition's entry list, recorded on import and on each update
+ */
+export interface CompetitionVersion {
+  version: number; // 1 for the original import
+  timestamp: number;
+  source: string; // Name of the imported file
+  participantCount: number;
+  added: number;
+  removed: number;
+  changed: number; // Tickets whose participant name changed
+}
+
+/**
+ * How tickets are compared when spinning, drawing prizes and finding
+ * duplicates. Tickets are always stored and shown as entered.
+ */
+export interface TicketNormalization {
+  ignoreCase: boolean; // "a12" matches "A12"
+  ignoreSeparators: boolean; // "A-12" and "A 12" match "A12"
+  ignoreLeadingZeros: boolean; // "007" matches "7"
+  digitsOnly: boolean; // Only digits count, so "A12" matches "B12"
 }
 
 /**
@@ -29,6 +82,11 @@ export interface Competition {
   name: string;
   participants: Participant[];
   bannerImage?: string; // Base64 encoded image for this specific competition
+  prizes?: Prize[]; // Prize tiers drawn in order; a single draw when empty
+  prizeWinners?: PrizeWinner[]; // Winners so far, excluded from later draws
+  participantFields?: ParticipantField[]; // Metadata columns kept from the import
+  ticketNormalization?: TicketNormalization; // Competitions without one match on digits, ignoring leading zeros
+  versions?: CompetitionVersion[]; // Entry list history, oldest first
   createdAt: number;
   updatedAt: number;
 }
@@ -37,6 +95,33 @@ export interface Competition {
 // Configuration Types
 // ============================================================================
 
+/**
+ * Cubic bezier timing curve, as in CSS `cubic-bezier(x1, y1, x2, y2)`
+ */
+export interface BezierCurve {
+  x1: number; // Control point 1 X (0-1)
+  y1: number; // Control point 1 Y (0-1)
+  x2: number; // Control point 2 X (0-1)
+  y2: number; // Control point 2 Y (0-1)
+}
+
+export type PhysicsDeceleration =
+  | { type: 'bezier'; curve: BezierCurve }
+  | { type: 'spring'; stiffness: number; damping: number }; // Springs bounce around the winner
+
+/**
+ * Named spin physics shared by all spinner types
+ */
+export interface PhysicsProfile {
+  id: string;
+  name: string;
+  rotations: number; // Full rotations before landing
+  acceleration: number; // Share of the spin spent speeding up (0-0.5)
+  deceleration: PhysicsDeceleration;
+  nearMiss?: { overshoot: number; settle: number }; // Items run past the winner, share of the spin settling back
+  tickRate: number; // Most ticks per second; one tick per item passing the pointer
+}
+
 /**
  * Spinner animation physics settings
  */
@@ -44,12 +129,43 @@ export interface SpinnerSettings {
   minSpinDuration: number; // in seconds (used as total animation duration)
   decelerationRate: 'slow' | 'medium' | 'fast';
   spinRotations?: number; // Number of full rotations (default: 5)
-  bezierCurve?: {
-    x1: number; // Control point 1 X (0-1)
-    y1: number; // Control point 1 Y (0-1)
-    x2: number; // Control point 2 X (0-1)
-    y2: number; // Control point 2 Y (0-1)
-  };
+  bezierCurve?: BezierCurve;
+  physicsProfileId?: string; // Active profile; without one, a profile is built from the fields above
+  physicsProfiles?: PhysicsProfile[]; // Profiles saved by the user
+  revealMode?: RevealMode; // How the winner is shown once the spin stops (default: 'instant')
+  streamOverlay?: StreamOverlaySettings; // OBS/live stream overlay output
+  announcement?: AnnouncementSettings; // Spoken winner announcement
+}
+
+/**
+ * Winner reveal modes. Apart from 'instant', the operator steps through the
+ * reveal with the reveal shortcut and dismisses the winner when done.
+ * - instant: name and ticket at once, cleared automatically
+ * - ticket-then-name: ticket first, name on the next step
+ * - digit-by-digit: one ticket character per step, then the name
+ * - hold: name and ticket at once, kept until dismissed
+ */
+export type RevealMode = 'instant' | 'ticket-then-name' | 'digit-by-digit' | 'hold';
+
+/**
+ * Output settings for the streaming overlay captured by OBS
+ */
+export interface StreamOverlaySettings {
+  width: number; // Output resolution in pixels
+  height: number;
+  background: 'chroma' | 'transparent';
+  chromaColor: string; // Hex key colour, used when background is 'chroma'
+}
+
+/**
+ * Spoken winner announcement using the browser's speech synthesis
+ */
+export interface AnnouncementSettings {
+  enabled: boolean;
+  voiceURI?: string; // Speech synthesis voice (defaults to the browser's voice)
+  rate: number; // Speaking rate (0.5-2)
+  template: string; // Message with {name}, {ticket}, {competition} and {prize} placeholders
+  firstNameOnly: boolean; // Privacy: say the first name only
 }
 
 /**
@@ -60,6 +176,9 @@ export interface ColumnMapping {
   lastName?: string;
   fullName?: string; // Single column containing both first and last name
   ticketNumber: string;
+  quantity?: string; // Tickets per row, counted up from the ticket number
+  ticketRange?: string; // Ticket lists ("12, 15, 19") or ranges ("100-104")
+  extraColumns?: ParticipantField[]; // Columns kept as participant metadata
 }
 
 /**
@@ -140,6 +259,21 @@ export interface BrandingSettings {
   showCompanyName: boolean;
 }
 
+/**
+ * Sound effects played during a draw
+ */
+export type SoundEffect = 'tick' | 'drumRoll' | 'fanfare';
+
+/**
+ * Sound effect configuration for the application
+ */
+export interface AudioSettings {
+  pack: string; // Built-in sound pack id
+  volume: number; // Master volume (0-1)
+  muted: boolean;
+  customSounds?: Partial<Record<SoundEffect, string>>; // Base64 encoded uploads, replacing the pack's sounds
+}
+
 /**
  * Color scheme preference
  */
@@ -153,6 +287,7 @@ export interface ThemeSettings {
   colors: ThemeColors;
   spinnerStyle: SpinnerStyle;
   branding: BrandingSettings;
+  audio?: AudioSettings; // Sound effects (defaults to the classic pack)
   customCSS?: string; // Advanced users can add custom CSS
 }
 
@@ -198,6 +333,9 @@ export interface SessionWinner {
   lastName: string;
   ticketNumber: string;
   competition: string;
+  prize?: string; // Name of the prize won, for multi-prize competitions
+  metadata?: Record<string, string>; // Winner's metadata, for contacting them
+  privateFields?: string[]; // Metadata keys left out of winner exports
   timestamp: number;
 }
 
@@ -219,6 +357,59 @@ export interface SpinnerSession {
   lastActivity: number;
 }
 
+// ============================================================================
+// Draw Audit Types
+// ============================================================================
+
+/**
+ * Details of a completed draw, as supplied when it is logged
+ */
+export interface DrawLogEntryInput {
+  competitionId: string;
+  participantListHash: string; // SHA-256 of the entry list at draw time
+  targetTicket: string;
+  winner: Participant;
+  prize?: string; // Prize name, for multi-prize competitions
+  settings: SpinnerSettings; // Snapshot of the physics settings used
+  operator: string; // Email of the signed-in operator
+  timestamp: number;
+}
+
+/**
+ * Draw audit log entry, chained by hash to the previous entry
+ */
+export interface DrawLogEntry extends DrawLogEntryInput {
+  sequence: number; // 0-based position in the log
+  previousHash: string; // Hash of the previous entry (zeros for the first)
+  hash: string; // SHA-256 of this entry's contents and previousHash
+}
+
+/**
+ * Tip of the draw log, stored separately so removed trailing entries are detected
+ */
+export interface DrawLogHead {
+  count: number;
+  hash: string;
+}
+
+/**
+ * A problem found while checking the draw log chain
+ */
+export interface DrawLogIssue {
+  sequence: number;
+  type: 'edited' | 'deleted';
+  message: string;
+}
+
+/**
+ * Result of a draw log integrity check
+ */
+export interface DrawLogVerification {
+  valid: boolean;
+  entryCount: number;
+  issues: DrawLogIssue[];
+}
+
 // ============================================================================
 // Storage Types
 // ============================================================================
@@ -236,6 +427,20 @@ export interface StorageData {
   raffleCount?: number; // Track total raffles conducted
   subscription?: UserSubscription; // Current subscription info
   session?: SpinnerSession; // Current session state for persistence
+  drawLog?: DrawLogEntry[]; // Append-only, hash-chained draw audit log
+  drawLogHead?: DrawLogHead; // Count and hash of the last draw log entry
+  schemaVersion?: number; // Shape version; data without one predates versioning
+}
+
+/**
+ * A stored data upgrade that failed; the data it started from is kept as a backup
+ */
+export interface SchemaMigrationReport {
+  fromVersion: number;
+  failedVersion: number; // The migration step that threw
+  error: string;
+  backupKey: string; // chrome.storage.local key holding the original data
+  timestamp: number;
 }
 
 // ============================================================================
@@ -64,5 +64,57 @@ export function isNumericTicket(ticket: string): boolean {
   return /^\d+$/.test(ticket.trim());
 }
 
+/**
+ * Compares ticket numbers in natural order, so "A2" sorts before "A10".
+ * Runs of digits compare by value, numbers sort before letters and letters
+ * compare case-insensitively.
+ *
+ * @example
+ * ['A10', 'B1', 'A2', '7'].sort(compareTicketNumbers) // ['7', 'A2', 'A10', 'B1']
+ */
+export function compareTicketNumbers(a: string, b: string): number {
+  const aParts = a.trim().match(/\d+|\D+/g) ?? [];
+  const bParts = b.trim().match(/\d+|\D+/g) ?? [];
+
+  for (let i = 0; i < Math.min(aParts.length, bParts.length); i++) {
+    const diff = compareTicketParts(aParts[i], bParts[i]);
+    if (diff !== 0) return diff;
+  }
+  if (aParts.length !== bParts.length) return aParts.length - bParts.length;
+  // Equal apart from case, keep a stable order
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+function compareTicketParts(a: string, b: string): number {
+  const aIsNumber = /^\d/.test(a);
+  const bIsNumber = /^\d/.test(b);
+  if (aIsNumber !== bIsNumber) return aIsNumber ? -1 : 1;
+  if (!aIsNumber) return a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+  // Compare digit strings by value without overflowing long ticket numbers;
+  // "7" sorts before "007"
+  const aValue = a.replace(/^0+/, '');
+  const bValue = b.replace(/^0+/, '');
+  if (aValue.length !== bValue.length) return aValue.length - bValue.length;
+  if (aValue !== bValue) return aValue < bValue ? -1 : 1;
+  return a.length - b.length;
+}
+
+/**
+ * Finds a ticket in a list by its exact ticket number (ignoring surrounding
+ * whitespace), so distinct tickets such as "007" and "7" or "A12" and "C12"
+ * never collide. Callers pass the ticket as entered in the competition;
+ * typed ticket numbers are resolved with the competition's matching rules first.
+ *
+ * @returns The index of the ticket, or -1 when it is not in the list
+ */
+export function findTicketIndex<T extends { ticketNumber: string }>(
+  items: T[],
+  ticketNumber: string
+): number {
+  const target = ticketNumber.trim();
+  return items.findIndex((item) => item.ticketNumber.trim() === target);
+}
+
 // URL utilities
 export * from './url-utils';
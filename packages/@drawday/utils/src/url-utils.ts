@@ -57,6 +57,19 @@ export function createUpgradeUrl(accessToken: string): string {
   });
 }
 
+/**
+ * Creates streaming subscription URL with auto-login
+ *
+ * @param accessToken - User's access token
+ * @returns Streaming subscription auto-login URL
+ */
+export function createStreamingUpgradeUrl(accessToken: string): string {
+  return createAutoLoginUrl({
+    accessToken,
+    returnUrl: '/dashboard/subscription/streaming',
+  });
+}
+
 /**
  * Opens URL in new tab (Chrome Extension safe)
  *
@@ -0,0 +1,209 @@
+/**
+ * Draw Proof Tests
+ * Tests the commit-reveal draw and offline verification of proof bundles
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Participant } from '@drawday/types';
+import { createCommitment, revealDraw } from '../draw';
+import {
+  canonicalParticipantOrder,
+  deriveWinnerIndex,
+  generateSeed,
+  hashParticipantList,
+  seedIncludesPublicSeed,
+} from '../scheme';
+import { verifyDrawProof } from '../verifier';
+import type { DrawProof } from '../types';
+
+const makeParticipants = (count: number): Participant[] =>
+  Array.from({ length: count }, (_, i) => ({
+    firstName: `First${i}`,
+    lastName: `Last${i}`,
+    ticketNumber: String(i + 1),
+  }));
+
+describe('Canonical order', () => {
+  it('should sort tickets into the fixed canonical order', () => {
+    const tickets = ['A10', '10', 'Ä1', '9', 'a1', '100000000000000000000', '010', 'B-1', '2'];
+    const sorted = canonicalParticipantOrder(
+      [...tickets, '99999999999999999999', 'A2'].map((ticketNumber) => ({
+        firstName: 'F',
+        lastName: 'L',
+        ticketNumber,
+      }))
+    );
+
+    expect(sorted.map((p) => p.ticketNumber)).toEqual([
+      '2',
+      '9',
+      '010',
+      '10',
+      '99999999999999999999',
+      '100000000000000000000',
+      'A2',
+      'A10',
+      'B-1',
+      'a1',
+      'Ä1',
+    ]);
+  });
+
+  it('should hash a fixed list to the published list hash', async () => {
+    const list: Participant[] = [
+      { firstName: 'Jane', lastName: 'Doe', ticketNumber: '10' },
+      { firstName: 'Amy', lastName: 'Lee', ticketNumber: '2' },
+      { firstName: 'Bob', lastName: 'Ray', ticketNumber: 'A1' },
+    ];
+
+    // SHA-256 of [["2","Amy","Lee"],["10","Jane","Doe"],["A1","Bob","Ray"]]
+    expect(await hashParticipantList(list)).toBe(
+      'dfedf18a0dff0ff072d7b96fba5fe4f0669b151c2c72492138bdbd2e04851daf'
+    );
+  });
+});
+
+describe('Draw Proof', () => {
+  let participants: Participant[];
+
+  beforeEach(() => {
+    participants = makeParticipants(250);
+  });
+
+  describe('Scheme', () => {
+    it('should hash the list independently of row order', async () => {
+      const reversed = [...participants].reverse();
+      expect(await hashParticipantList(reversed)).toBe(await hashParticipantList(participants));
+    });
+
+    it('should change the list hash when an entry is edited', async () => {
+      const edited = participants.map((p, i) => (i === 10 ? { ...p, lastName: 'Changed' } : p));
+      expect(await hashParticipantList(edited)).not.toBe(await hashParticipantList(participants));
+    });
+
+    it('should derive the same index for the same inputs', async () => {
+      const listHash = await hashParticipantList(participants);
+      const first = await deriveWinnerIndex(listHash, 'seed', participants.length);
+      const second = await deriveWinnerIndex(listHash, 'seed', participants.length);
+
+      expect(first).toBe(second);
+      expect(first).toBeGreaterThanOrEqual(0);
+      expect(first).toBeLessThan(participants.length);
+    });
+
+    it('should include a user seed in the generated seed', () => {
+      expect(generateSeed('lottery 12 19 33')).toMatch(/^[0-9a-f]{64}:lottery 12 19 33$/);
+      expect(generateSeed()).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('Commit and reveal', () => {
+    it('should reveal a winner from the committed list', async () => {
+      const seed = generateSeed();
+      const commitment = await createCommitment(participants, seed);
+      const proof = await revealDraw(participants, seed, commitment);
+
+      expect(proof.listHash).toBe(commitment.listHash);
+      expect(proof.participantCount).toBe(250);
+      expect(participants.map((p) => p.ticketNumber)).toContain(proof.winner.ticketNumber);
+    });
+
+    it('should refuse to reveal when the list changed after the commitment', async () => {
+      const seed = generateSeed();
+      const commitment = await createCommitment(participants, seed);
+
+      await expect(revealDraw(participants.slice(1), seed, commitment)).rejects.toThrow(
+        'entry list has changed'
+      );
+    });
+
+    it('should refuse to reveal with a different seed', async () => {
+      const commitment = await createCommitment(participants, 'original');
+
+      await expect(revealDraw(participants, 'other', commitment)).rejects.toThrow(
+        'seed does not match'
+      );
+    });
+  });
+
+  describe('Verification', () => {
+    let proof: DrawProof;
+
+    beforeEach(async () => {
+      const seed = generateSeed();
+      proof = await revealDraw(participants, seed, await createCommitment(participants, seed));
+    });
+
+    it('should accept an untouched proof with its entry list', async () => {
+      const result = await verifyDrawProof(proof, participants);
+
+      expect(result.valid).toBe(true);
+      expect(result.checks).toHaveLength(6);
+    });
+
+    it('should check seed and index without the entry list', async () => {
+      const result = await verifyDrawProof(proof);
+
+      expect(result.valid).toBe(true);
+      expect(result.checks.map((c) => c.name)).not.toContain('Winner');
+    });
+
+    it('should reject a proof with a swapped winner', async () => {
+      const other = participants.find((p) => p.ticketNumber !== proof.winner.ticketNumber)!;
+      const result = await verifyDrawProof({ ...proof, winner: other }, participants);
+
+      expect(result.valid).toBe(false);
+      expect(result.checks.find((c) => c.name === 'Winner')?.passed).toBe(false);
+    });
+
+    it('should reject a proof with a replaced seed', async () => {
+      const result = await verifyDrawProof({ ...proof, seed: 'forged' });
+
+      expect(result.valid).toBe(false);
+      expect(result.checks.find((c) => c.name === 'Seed commitment')?.passed).toBe(false);
+    });
+
+    it('should reject an entry list that differs from the commitment', async () => {
+      const result = await verifyDrawProof(proof, participants.slice(0, 200));
+
+      expect(result.valid).toBe(false);
+      expect(result.checks.find((c) => c.name === 'Entry list hash')?.passed).toBe(false);
+    });
+  });
+});
+
+describe('Public seed', () => {
+  const participants = makeParticipants(20);
+
+  it('should only accept a seed that ends with the public seed', () => {
+    const seed = generateSeed(' lottery 12:19 ');
+
+    expect(seedIncludesPublicSeed(seed, 'lottery 12:19')).toBe(true);
+    expect(seedIncludesPublicSeed(seed, '19')).toBe(false);
+    expect(seedIncludesPublicSeed(generateSeed(), 'lottery 12:19')).toBe(false);
+  });
+
+  it('should record the public seed and refuse a seed made without it', async () => {
+    const commitment = await createCommitment(participants, generateSeed('abc'), ' abc ');
+
+    expect(commitment.publicSeed).toBe('abc');
+    await expect(createCommitment(participants, generateSeed(), 'abc')).rejects.toThrow(
+      'not generated with the public seed'
+    );
+  });
+
+  it('should reject a proof whose seed does not include the public seed', async () => {
+    const seed = generateSeed('abc');
+    const withPublicSeed = await revealDraw(
+      participants,
+      seed,
+      await createCommitment(participants, seed, 'abc')
+    );
+
+    expect((await verifyDrawProof(withPublicSeed)).valid).toBe(true);
+
+    const result = await verifyDrawProof({ ...withPublicSeed, publicSeed: 'xyz' });
+    expect(result.valid).toBe(false);
+    expect(result.checks.find((c) => c.name === 'Public seed')?.passed).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+/**
+ * Draw Proof Verifier CLI
+ *
+ * Usage: verify-draw-proof <proof.json> [entries.json]
+ *
+ * The entries file is the entry list exported with the proof, either as an
+ * array of participants or as `{ "participants": [...] }`.
+ */
+
+import { readFile } from 'node:fs/promises';
+import type { Participant } from '@drawday/types';
+import { verifyDrawProof } from './verifier';
+import type { DrawProof } from './types';
+
+async function readJson<T>(path: string): Promise<T> {
+  return JSON.parse(await readFile(path, 'utf8')) as T;
+}
+
+async function main(args: string[]): Promise<number> {
+  const [proofPath, entriesPath] = args;
+  if (!proofPath) {
+    console.error('Usage: verify-draw-proof <proof.json> [entries.json]');
+    return 2;
+  }
+
+  const proof = await readJson<DrawProof>(proofPath);
+  let participants: Participant[] | undefined;
+  if (entriesPath) {
+    const entries = await readJson<Participant[] | { participants: Participant[] }>(entriesPath);
+    participants = Array.isArray(entries) ? entries : entries.participants;
+  }
+
+  const result = await verifyDrawProof(proof, participants);
+  result.checks.forEach((c) => {
+    console.log(`${c.passed ? 'PASS' : 'FAIL'}  ${c.name}: ${c.detail}`);
+  });
+  if (!participants) {
+    console.log('NOTE  No entry list given; the list hash and winner were not checked');
+  }
+  console.log(result.valid ? '\nProof is valid' : '\nProof is NOT valid');
+  return result.valid ? 0 : 1;
+}
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(2);
+  });
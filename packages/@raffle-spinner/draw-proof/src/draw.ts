@@ -0,0 +1,92 @@
+/**
+ * Verifiable Draw
+ *
+ * Purpose: Commit-reveal winner selection. The commitment is created and
+ * shown before the draw; the reveal derives the winner from the committed
+ * list and seed and returns the proof bundle to publish.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (verifiable random selection)
+ */
+
+import type { Participant } from '@drawday/types';
+import {
+  canonicalParticipantOrder,
+  deriveWinnerIndex,
+  hashParticipantList,
+  hashSeed,
+  seedIncludesPublicSeed,
+} from './scheme';
+import { DRAW_PROOF_VERSION, type DrawCommitment, type DrawProof } from './types';
+
+/**
+ * Commits to the participant list and a secret seed
+ *
+ * @param participants - Entry list of the competition
+ * @param seed - Secret seed, kept private until the reveal
+ * @param publicSeed - Public seed the secret seed was generated with, if any
+ */
+export async function createCommitment(
+  participants: Participant[],
+  seed: string,
+  publicSeed?: string
+): Promise<DrawCommitment> {
+  if (participants.length === 0) {
+    throw new Error('Cannot commit to a draw without participants');
+  }
+  const published = publicSeed?.trim();
+  if (published && !seedIncludesPublicSeed(seed, published)) {
+    throw new Error('The seed was not generated with the public seed');
+  }
+
+  return {
+    version: DRAW_PROOF_VERSION,
+    algorithm: 'SHA-256',
+    listHash: await hashParticipantList(participants),
+    seedHash: await hashSeed(seed),
+    participantCount: participants.length,
+    ...(published && { publicSeed: published }),
+    committedAt: Date.now(),
+  };
+}
+
+/**
+ * Reveals the seed and selects the winner
+ *
+ * @param participants - Entry list of the competition (must match the commitment)
+ * @param seed - The seed committed to
+ * @param commitment - The commitment published before the draw
+ * @throws Error when the list or seed no longer match the commitment
+ */
+export async function revealDraw(
+  participants: Participant[],
+  seed: string,
+  commitment: DrawCommitment
+): Promise<DrawProof> {
+  const [listHash, seedHash] = await Promise.all([
+    hashParticipantList(participants),
+    hashSeed(seed),
+  ]);
+
+  if (listHash !== commitment.listHash || participants.length !== commitment.participantCount) {
+    throw new Error('The entry list has changed since the draw was committed');
+  }
+  if (seedHash !== commitment.seedHash) {
+    throw new Error('The seed does not match the commitment');
+  }
+
+  const winnerIndex = await deriveWinnerIndex(listHash, seed, participants.length);
+  const winner = canonicalParticipantOrder(participants)[winnerIndex];
+
+  return {
+    ...commitment,
+    seed,
+    winnerIndex,
+    winner: {
+      ticketNumber: winner.ticketNumber,
+      firstName: winner.firstName,
+      lastName: winner.lastName,
+    },
+    revealedAt: Date.now(),
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Draw Proof Package Entry Point
+ *
+ * Purpose: Commit-reveal random winner selection with a proof bundle that
+ * anyone can re-check offline.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (verifiable random selection)
+ */
+
+export * from './types';
+export * from './scheme';
+export * from './draw';
+export * from './verifier';
@@ -0,0 +1,136 @@
+/**
+ * Draw Proof Scheme
+ *
+ * Purpose: The hashing and derivation rules shared by the draw and the
+ * verifier. Any change here must bump DRAW_PROOF_VERSION.
+ *
+ * Scheme (version 1):
+ * - Canonical list: participants sorted by ticket number, serialised as
+ *   JSON `[[ticketNumber, firstName, lastName], ...]`. Ticket numbers are
+ *   split into runs of ASCII digits and runs of anything else; digit runs
+ *   compare by value, other runs by Unicode codepoint, and tickets still
+ *   equal after that ("01" and "1") by codepoint of the whole ticket
+ * - seed = 64 random hex digits, followed by `:${publicSeed}` when a public
+ *   seed is given
+ * - listHash = SHA-256(canonical list), seedHash = SHA-256(seed)
+ * - winnerIndex = SHA-256(`${listHash}:${seed}`) as an unsigned integer,
+ *   modulo the number of participants
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (verifiable random selection)
+ */
+
+import type { Participant } from '@drawday/types';
+
+const SEED_BYTES = 32;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Hex-encoded SHA-256 of a UTF-8 string, using the Web Crypto API available
+ * in browsers, extension pages and Node 20+.
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return toHex(new Uint8Array(digest));
+}
+
+function compareCodepoints(a: string, b: string): number {
+  const left = Array.from(a, (char) => char.codePointAt(0) ?? 0);
+  const right = Array.from(b, (char) => char.codePointAt(0) ?? 0);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return left.length - right.length;
+}
+
+/** Compares digit runs by value, without the size limit of Number */
+function compareDigitRuns(a: string, b: string): number {
+  const left = a.replace(/^0+/, '');
+  const right = b.replace(/^0+/, '');
+  return left.length - right.length || compareCodepoints(left, right);
+}
+
+/**
+ * Orders ticket numbers the same way in every browser and runtime, unlike
+ * localeCompare, whose collation depends on the ICU data available
+ */
+export function compareTicketNumbers(a: string, b: string): number {
+  const leftRuns = a.match(/\d+|\D+/g) ?? [];
+  const rightRuns = b.match(/\d+|\D+/g) ?? [];
+
+  for (let i = 0; i < Math.min(leftRuns.length, rightRuns.length); i++) {
+    const left = leftRuns[i];
+    const right = rightRuns[i];
+    const order =
+      /\d/.test(left[0]) && /\d/.test(right[0])
+        ? compareDigitRuns(left, right)
+        : compareCodepoints(left, right);
+    if (order !== 0) return order;
+  }
+  return leftRuns.length - rightRuns.length || compareCodepoints(a, b);
+}
+
+/**
+ * Sorts participants into the canonical order the winner index refers to.
+ * The order of rows in the imported CSV does not affect the result.
+ */
+export function canonicalParticipantOrder(participants: Participant[]): Participant[] {
+  return [...participants].sort((a, b) => compareTicketNumbers(a.ticketNumber, b.ticketNumber));
+}
+
+/**
+ * Serialises the participant list in canonical form
+ */
+export function canonicalizeParticipants(participants: Participant[]): string {
+  return JSON.stringify(
+    canonicalParticipantOrder(participants).map((p) => [p.ticketNumber, p.firstName, p.lastName])
+  );
+}
+
+export function hashParticipantList(participants: Participant[]): Promise<string> {
+  return sha256Hex(canonicalizeParticipants(participants));
+}
+
+export function hashSeed(seed: string): Promise<string> {
+  return sha256Hex(seed);
+}
+
+/**
+ * Derives the winner index from the committed list hash and revealed seed
+ */
+export async function deriveWinnerIndex(
+  listHash: string,
+  seed: string,
+  participantCount: number
+): Promise<number> {
+  if (!Number.isInteger(participantCount) || participantCount <= 0) {
+    throw new Error('Participant count must be a positive integer');
+  }
+  const digest = await sha256Hex(`${listHash}:${seed}`);
+  return Number(BigInt(`0x${digest}`) % BigInt(participantCount));
+}
+
+/**
+ * Generates a random 256-bit seed as hex, with an optional public seed
+ * appended. The public seed proves which value went into the draw; it does
+ * not stop the operator choosing the outcome, as they pick the random part
+ * and could generate new commitments until one suits them. Only publishing
+ * the commitment before the draw guards against that.
+ */
+export function generateSeed(userSeed?: string): string {
+  const bytes = new Uint8Array(SEED_BYTES);
+  globalThis.crypto.getRandomValues(bytes);
+  const randomPart = toHex(bytes);
+  return userSeed?.trim() ? `${randomPart}:${userSeed.trim()}` : randomPart;
+}
+
+/**
+ * Checks that a revealed seed is a random part followed by the public seed
+ */
+export function seedIncludesPublicSeed(seed: string, publicSeed: string): boolean {
+  const separator = seed.indexOf(':');
+  return separator > 0 && seed.slice(separator + 1) === publicSeed.trim();
+}
@@ -0,0 +1,62 @@
+/**
+ * Draw Proof Types
+ *
+ * Purpose: Type definitions for commit-reveal winner selection, the published
+ * proof bundle and the result of verifying it.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (verifiable random selection)
+ */
+
+/** Version of the hashing and derivation scheme described in scheme.ts */
+export const DRAW_PROOF_VERSION = 1;
+
+/**
+ * Published before the draw. Fixes the entry list and the seed without
+ * revealing the seed, so neither can be changed once the draw starts.
+ */
+export interface DrawCommitment {
+  version: number;
+  algorithm: 'SHA-256';
+  /** SHA-256 of the canonical participant list */
+  listHash: string;
+  /** SHA-256 of the secret seed */
+  seedHash: string;
+  participantCount: number;
+  /** Public seed appended to the secret seed, published with the commitment */
+  publicSeed?: string;
+  /** Unix timestamp (ms) of the commitment */
+  committedAt: number;
+}
+
+/** The winner as recorded in a proof bundle */
+export interface DrawProofWinner {
+  ticketNumber: string;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Published after the draw. Together with the entry list anyone can
+ * recompute the winner offline.
+ */
+export interface DrawProof extends DrawCommitment {
+  /** The revealed seed; its hash must equal seedHash */
+  seed: string;
+  /** Index of the winner within the canonical participant list */
+  winnerIndex: number;
+  winner: DrawProofWinner;
+  /** Unix timestamp (ms) of the reveal */
+  revealedAt: number;
+}
+
+export interface DrawProofCheck {
+  name: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface DrawProofVerification {
+  valid: boolean;
+  checks: DrawProofCheck[];
+}
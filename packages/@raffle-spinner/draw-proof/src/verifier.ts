@@ -0,0 +1,130 @@
+/**
+ * Draw Proof Verifier
+ *
+ * Purpose: Re-checks a published proof bundle offline. Without the entry
+ * list it confirms the seed, that the seed includes the public seed, and the
+ * derived index; with the entry list it also confirms the list hash and the
+ * winner.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (verifiable random selection)
+ */
+
+import type { Participant } from '@drawday/types';
+import {
+  canonicalParticipantOrder,
+  deriveWinnerIndex,
+  hashParticipantList,
+  hashSeed,
+  seedIncludesPublicSeed,
+} from './scheme';
+import {
+  DRAW_PROOF_VERSION,
+  type DrawProof,
+  type DrawProofCheck,
+  type DrawProofVerification,
+} from './types';
+
+function check(name: string, passed: boolean, detail: string): DrawProofCheck {
+  return { name, passed, detail };
+}
+
+async function verifyEntryList(proof: DrawProof, participants: Participant[]) {
+  const listHash = await hashParticipantList(participants);
+  const checks = [
+    check(
+      'Entry list hash',
+      listHash === proof.listHash,
+      listHash === proof.listHash
+        ? 'The entry list matches the committed hash'
+        : `The entry list hashes to ${listHash}, not ${proof.listHash}`
+    ),
+    check(
+      'Entry count',
+      participants.length === proof.participantCount,
+      `${participants.length} entries provided, ${proof.participantCount} committed`
+    ),
+  ];
+
+  const winner = canonicalParticipantOrder(participants)[proof.winnerIndex];
+  const winnerMatches =
+    !!winner &&
+    winner.ticketNumber === proof.winner.ticketNumber &&
+    winner.firstName === proof.winner.firstName &&
+    winner.lastName === proof.winner.lastName;
+  checks.push(
+    check(
+      'Winner',
+      winnerMatches,
+      winner
+        ? `Entry ${proof.winnerIndex} is ticket ${winner.ticketNumber}`
+        : `There is no entry at index ${proof.winnerIndex}`
+    )
+  );
+
+  return checks;
+}
+
+/**
+ * Verifies a proof bundle
+ *
+ * @param proof - Proof bundle published after the draw
+ * @param participants - Optional entry list to check the list hash and winner against
+ */
+export async function verifyDrawProof(
+  proof: DrawProof,
+  participants?: Participant[]
+): Promise<DrawProofVerification> {
+  const checks: DrawProofCheck[] = [
+    check(
+      'Scheme version',
+      proof.version === DRAW_PROOF_VERSION,
+      `Proof uses version ${proof.version}, verifier supports ${DRAW_PROOF_VERSION}`
+    ),
+  ];
+
+  const seedHash = await hashSeed(proof.seed);
+  checks.push(
+    check(
+      'Seed commitment',
+      seedHash === proof.seedHash,
+      seedHash === proof.seedHash
+        ? 'The revealed seed matches the committed seed hash'
+        : 'The revealed seed does not match the committed seed hash'
+    )
+  );
+
+  if (proof.publicSeed !== undefined) {
+    const included = seedIncludesPublicSeed(proof.seed, proof.publicSeed);
+    checks.push(
+      check(
+        'Public seed',
+        included,
+        included
+          ? `The revealed seed ends with the public seed "${proof.publicSeed}"`
+          : `The revealed seed does not include the public seed "${proof.publicSeed}"`
+      )
+    );
+  }
+
+  const expectedIndex =
+    Number.isInteger(proof.participantCount) && proof.participantCount > 0
+      ? await deriveWinnerIndex(proof.listHash, proof.seed, proof.participantCount)
+      : -1;
+  checks.push(
+    check(
+      'Winner index',
+      expectedIndex === proof.winnerIndex,
+      `Seed and list hash select entry ${expectedIndex}, proof states ${proof.winnerIndex}`
+    )
+  );
+
+  if (participants) {
+    checks.push(...(await verifyEntryList(proof, participants)));
+  }
+
+  return {
+    valid: checks.every((c) => c.passed),
+    checks,
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Column Profiler Tests
+ * Tests content-based column detection on exports with unhelpful headers
+ */
+
+import { describe, it, expect } from 'vitest';
+import Papa from 'papaparse';
+import { combineConfidence, profileColumns } from '../column-profiler';
+import { EnhancedColumnMapper } from '../enhanced-column-detector';
+
+function sample(csv: string): { headers: string[]; rows: Record<string, string>[] } {
+  const { data, meta } = Papa.parse<Record<string, string>>(csv.trim(), { header: true });
+  return { headers: meta.fields ?? [], rows: data };
+}
+
+// Form builder export: every column is named after its position
+const formExport = sample(`
+Col1,Col2,Col3,Col4
+1001,Jane,Doe,jane@example.com
+1002,John,Smith,john.smith@example.co.uk
+1003,Amélie,O'Brien,amelie@example.org
+1004,Raj,Patel,raj@example.com
+`);
+
+// Survey export: answers are numbered and the name is one field
+const surveyExport = sample(`
+Timestamp,Answer 1,Answer 2,Answer 3,Answer 4
+2024-03-01 10:12,Jane Doe,Leeds,jane@example.com,TKT-0042
+2024-03-01 10:15,John Smith,York,john@example.com,TKT-0043
+2024-03-01 11:02,Mary Anne Jones,Hull,mary@example.com,TKT-0044
+2024-03-02 09:40,"Patel, Raj",Leeds,raj@example.com,TKT-0045
+`);
+
+// Shop export: order and quantity are numbers too, but only one is unique
+const shopExport = sample(`
+Order,Qty,Customer,Contact,Seat
+A17,1,Jane Doe,jane@example.com,Yes
+A18,2,John Smith,john@example.com,No
+A19,1,Raj Patel,raj@example.com,Yes
+A20,1,Mary Jones,mary@example.com,Yes
+`);
+
+describe('profileColumns', () => {
+  it('should score each kind of content by its share of the sample', () => {
+    const profiles = profileColumns(formExport.headers, formExport.rows);
+
+    expect(profiles.get('Col1')).toMatchObject({ ticketNumber: 100, singleName: 0 });
+    expect(profiles.get('Col2')).toMatchObject({ singleName: 100, fullName: 0 });
+    expect(profiles.get('Col3')?.singleName).toBe(100);
+    expect(profiles.get('Col4')?.email).toBe(100);
+  });
+
+  it('should recognise "Last, First" and three-word names as full names', () => {
+    const profiles = profileColumns(surveyExport.headers, surveyExport.rows);
+
+    expect(profiles.get('Answer 1')?.fullName).toBe(100);
+    expect(profiles.get('Answer 4')?.ticketNumber).toBe(100);
+  });
+
+  it('should discount repeated numbers, which are quantities rather than tickets', () => {
+    const profiles = profileColumns(shopExport.headers, shopExport.rows);
+
+    expect(profiles.get('Order')?.ticketNumber).toBe(100);
+    expect(profiles.get('Qty')?.ticketNumber).toBe(50);
+  });
+
+  it('should ignore blank values and score empty columns as zero', () => {
+    const profiles = profileColumns(
+      ['Ticket', 'Notes'],
+      [
+        { Ticket: '7', Notes: '' },
+        { Ticket: '', Notes: ' ' },
+      ]
+    );
+
+    expect(profiles.get('Ticket')?.ticketNumber).toBe(100);
+    expect(profiles.get('Notes')).toEqual({
+      ticketNumber: 0,
+      singleName: 0,
+      fullName: 0,
+      email: 0,
+    });
+  });
+});
+
+describe('combineConfidence', () => {
+  it('should cap content-only confidence below a header match', () => {
+    expect(combineConfidence(0, 100)).toBe(80);
+    expect(combineConfidence(100, 100)).toBe(100);
+    expect(combineConfidence(100, 0)).toBe(100);
+  });
+
+  it('should let content raise but never lower a header match', () => {
+    expect(combineConfidence(70, 100)).toBe(82);
+    expect(combineConfidence(70, 0)).toBe(70);
+  });
+});
+
+describe('EnhancedColumnMapper with sample rows', () => {
+  const mapper = new EnhancedColumnMapper();
+
+  it('should map a form export with positional headers', () => {
+    const result = mapper.detectHeaders(formExport.headers, formExport.rows);
+
+    expect(result.ticketNumber).toBe('Col1');
+    expect(result.firstName).toBe('Col2');
+    expect(result.lastName).toBe('Col3');
+    expect(result.fullName).toBeNull();
+    expect(result.email).toBe('Col4');
+    expect(result.confidence.ticketNumber).toBeGreaterThanOrEqual(80);
+  });
+
+  it('should map a survey export with a full name and prefixed tickets', () => {
+    const result = mapper.detectHeaders(surveyExport.headers, surveyExport.rows);
+
+    expect(result.fullName).toBe('Answer 1');
+    expect(result.firstName).toBeNull();
+    expect(result.ticketNumber).toBe('Answer 4');
+    expect(result.email).toBe('Answer 3');
+  });
+
+  it('should prefer the unique order column over the quantity column', () => {
+    const result = mapper.detectHeaders(shopExport.headers, shopExport.rows);
+
+    expect(result.ticketNumber).toBe('Order');
+    expect(result.fullName).toBe('Customer');
+    expect(result.email).toBe('Contact');
+  });
+
+  it('should let a matching header outrank content-only matches', () => {
+    const { headers, rows } = sample(`
+City,First Name,Surname,Ticket
+Leeds,Jane,Doe,1
+York,John,Smith,2
+`);
+    const result = mapper.detectHeaders(headers, rows);
+
+    expect(result.firstName).toBe('First Name');
+    expect(result.lastName).toBe('Surname');
+    expect(result.confidence.firstName).toBe(100);
+    expect(result.ticketNumber).toBe('Ticket');
+  });
+
+  it('should keep header matches whose values do not fit the content rules', () => {
+    const { headers, rows } = sample(`
+Participant,Ticket No
+jane doe,1-5
+john smith,"6,7"
+`);
+    const result = mapper.detectHeaders(headers, rows);
+    const headerOnly = mapper.detectHeaders(headers);
+
+    expect(result.fullName).toBe('Participant');
+    expect(result.ticketNumber).toBe('Ticket No');
+    expect(result.confidence.fullName).toBe(headerOnly.confidence.fullName);
+    expect(result.confidence.ticketNumber).toBe(headerOnly.confidence.ticketNumber);
+  });
+
+  it('should keep header-only detection unchanged without samples', () => {
+    const headers = ['First Name', 'Last Name', 'Ticket Number', 'Email'];
+
+    expect(mapper.detectHeaders(headers, [])).toEqual(mapper.detectHeaders(headers));
+    expect(mapper.detectHeaders(headers).email).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Duplicate Resolution Tests
+ * Tests keep first, keep last, keep all and manual duplicate resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ParticipantCollector } from '../participant-collector';
+import { resolveDuplicates } from '../duplicate-resolution';
+
+const mapping = { firstName: 'First', lastName: 'Last', ticketNumber: 'Ticket' };
+
+function parse(rows: Array<[string, string, string]>) {
+  const collector = new ParticipantCollector(mapping);
+  rows.forEach(([First, Last, Ticket]) => collector.add({ First, Last, Ticket }));
+  return collector.getResult();
+}
+
+const names = (participants: Array<{ firstName: string; ticketNumber: string }>) =>
+  participants.map((p) => `${p.ticketNumber}:${p.firstName}`);
+
+describe('resolveDuplicates', () => {
+  const result = parse([
+    ['Jane', 'Doe', '7'],
+    ['Amy', 'Lee', '8'],
+    ['John', 'Smith', '7'],
+    ['Bob', 'Ray', '7'],
+  ]);
+
+  it('should keep the first entry by default and report the rest', () => {
+    const resolved = resolveDuplicates(result.participants, result.duplicates, {});
+
+    expect(names(resolved.participants)).toEqual(['7:Jane', '8:Amy']);
+    expect(resolved.discarded.map((e) => e.row)).toEqual([3, 4]);
+    expect(resolved.renumbered).toEqual([]);
+  });
+
+  it('should keep the last entry in place of the first', () => {
+    const resolved = resolveDuplicates(result.participants, result.duplicates, {
+      '7': { strategy: 'keepLast' },
+    });
+
+    expect(names(resolved.participants)).toEqual(['7:Bob', '8:Amy']);
+    expect(resolved.discarded.map((e) => e.row)).toEqual([1, 3]);
+  });
+
+  it('should keep a manually chosen entry', () => {
+    const resolved = resolveDuplicates(result.participants, result.duplicates, {
+      '7': { strategy: 'manual', keepIndex: 1 },
+    });
+
+    expect(names(resolved.participants)).toEqual(['7:John', '8:Amy']);
+    expect(resolved.discarded.map((e) => e.data.First)).toEqual(['Jane', 'Bob']);
+  });
+
+  it('should keep all entries by renumbering around existing tickets', () => {
+    const withSuffix = parse([
+      ['Jane', 'Doe', '7'],
+      ['Amy', 'Lee', '7-2'],
+      ['John', 'Smith', '7'],
+    ]);
+    const resolved = resolveDuplicates(withSuffix.participants, withSuffix.duplicates, {
+      '7': { strategy: 'keepAll' },
+    });
+
+    expect(names(resolved.participants)).toEqual(['7:Jane', '7-3:John', '7-2:Amy']);
+    expect(resolved.discarded).toEqual([]);
+    expect(resolved.renumbered).toEqual([
+      { entry: withSuffix.duplicates[0].entries[1], ticketNumber: '7-3' },
+    ]);
+  });
+
+  it('should check renumbered tickets with the given match key', () => {
+    const resolved = resolveDuplicates(
+      [{ firstName: 'Amy', lastName: 'Lee', ticketNumber: '72' }, ...result.participants],
+      result.duplicates,
+      { '7': { strategy: 'keepAll' } },
+      (ticket) => ticket.replace(/\D/g, '')
+    );
+
+    expect(resolved.renumbered.map((r) => r.ticketNumber)).toEqual(['7-3', '7-4']);
+  });
+});
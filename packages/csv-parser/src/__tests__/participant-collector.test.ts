@@ -0,0 +1,172 @@
+/**
+ * Participant Collector Tests
+ * Tests row-by-row participant extraction, metadata, alphanumeric tickets,
+ * ticket expansion and duplicates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ParticipantCollector } from '../participant-collector';
+
+const mapping = { firstName: 'First', lastName: 'Last', ticketNumber: 'Ticket' };
+
+describe('ParticipantCollector', () => {
+  it('should build participants from rows', () => {
+    const collector = new ParticipantCollector(mapping);
+    collector.add({ First: 'Jane', Last: 'Doe', Ticket: '1' });
+    collector.add({ First: 'John', Last: 'Smith', Ticket: '2' });
+
+    const result = collector.getResult();
+    expect(result.participants).toEqual([
+      { firstName: 'Jane', lastName: 'Doe', ticketNumber: '1' },
+      { firstName: 'John', lastName: 'Smith', ticketNumber: '2' },
+    ]);
+    expect(result.totalRows).toBe(2);
+    expect(result.skippedRows).toBe(0);
+    expect(result.duplicates).toEqual([]);
+  });
+
+  it('should skip rows with missing fields', () => {
+    const collector = new ParticipantCollector(mapping);
+    collector.add({ First: 'Jane', Last: '', Ticket: '1' });
+    collector.add({ First: 'John', Last: 'Smith', Ticket: '2' });
+
+    const result = collector.getResult();
+    expect(result.participants).toHaveLength(1);
+    expect(result.skippedRows).toBe(1);
+    expect(result.totalRows).toBe(2);
+  });
+
+  it('should keep alphanumeric tickets and leading zeros as entered', () => {
+    const collector = new ParticipantCollector(mapping);
+    collector.add({ First: 'Jane', Last: 'Doe', Ticket: 'A12' });
+    collector.add({ First: 'John', Last: 'Smith', Ticket: 'B12' });
+    collector.add({ First: 'Amy', Last: 'Lee', Ticket: ' 007 ' });
+    collector.add({ First: 'Bob', Last: 'Ray', Ticket: '7' });
+
+    const result = collector.getResult();
+    expect(result.participants.map((p) => p.ticketNumber)).toEqual(['A12', 'B12', '007', '7']);
+    expect(result.duplicates).toEqual([]);
+    expect(result.skippedRows).toBe(0);
+  });
+
+  it('should keep the first occurrence of a duplicate ticket', () => {
+    const collector = new ParticipantCollector(mapping);
+    collector.add({ First: 'Jane', Last: 'Doe', Ticket: '7' });
+    collector.add({ First: 'John', Last: 'Smith', Ticket: '7' });
+
+    const result = collector.getResult();
+    expect(result.participants).toEqual([
+      { firstName: 'Jane', lastName: 'Doe', ticketNumber: '7' },
+    ]);
+    expect(result.duplicates).toEqual([
+      {
+        ticketNumber: '7',
+        entries: [
+          {
+            row: 1,
+            participant: { firstName: 'Jane', lastName: 'Doe', ticketNumber: '7' },
+            data: { First: 'Jane', Last: 'Doe', Ticket: '7' },
+          },
+          {
+            row: 2,
+            participant: { firstName: 'John', lastName: 'Smith', ticketNumber: '7' },
+            data: { First: 'John', Last: 'Smith', Ticket: '7' },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should keep only the mapped cells of duplicate rows', () => {
+    const collector = new ParticipantCollector({ ...mapping, quantity: 'Qty' });
+    collector.add({ First: 'Jane', Last: 'Doe', Ticket: '7', Qty: '1', Notes: 'paid cash' });
+    collector.add({ First: 'John', Last: 'Smith', Ticket: '7', Qty: '1', Notes: '' });
+
+    const [duplicate] = collector.getResult().duplicates;
+    expect(duplicate.entries.map((entry) => entry.data)).toEqual([
+      { First: 'Jane', Last: 'Doe', Ticket: '7', Qty: '1' },
+      { First: 'John', Last: 'Smith', Ticket: '7', Qty: '1' },
+    ]);
+  });
+
+  it('should split a full name column', () => {
+    const collector = new ParticipantCollector({ fullName: 'Name', ticketNumber: 'Ticket' });
+    collector.add({ Name: 'Doe, Jane', Ticket: '1' });
+    collector.add({ Name: 'John Paul Smith', Ticket: '2' });
+
+    expect(collector.getResult().participants).toEqual([
+      { firstName: 'Jane', lastName: 'Doe', ticketNumber: '1' },
+      { firstName: 'John', lastName: 'Paul Smith', ticketNumber: '2' },
+    ]);
+  });
+});
+
+describe('ParticipantCollector ticket expansion and metadata', () => {
+  it('should expand ticket quantities into one participant per ticket', () => {
+    const collector = new ParticipantCollector({ ...mapping, quantity: 'Qty' });
+    collector.add({ First: 'Jane', Last: 'Doe', Ticket: '0010', Qty: '3' });
+    collector.add({ First: 'John', Last: 'Smith', Ticket: '20', Qty: '' });
+
+    const result = collector.getResult();
+    expect(result.participants.map((p) => p.ticketNumber)).toEqual(['0010', '0011', '0012', '20']);
+    expect(result.ticketExpansion).toEqual({
+      expandedRows: 1,
+      ticketsCreated: 3,
+      overlappingTickets: 0,
+      invalidRows: [],
+    });
+  });
+
+  it('should expand ticket ranges and report overlaps and invalid rows', () => {
+    const collector = new ParticipantCollector({ ...mapping, ticketRange: 'Tickets' });
+    collector.add({ First: 'Jane', Last: 'Doe', Ticket: '', Tickets: '1-3' });
+    collector.add({ First: 'John', Last: 'Smith', Ticket: '', Tickets: '3, 4' });
+    collector.add({ First: 'Amy', Last: 'Lee', Ticket: '9', Tickets: '' });
+    collector.add({ First: 'Bob', Last: 'Ray', Ticket: '', Tickets: '8-5' });
+
+    const result = collector.getResult();
+    expect(result.participants.map((p) => p.ticketNumber)).toEqual(['1', '2', '3', '4', '9']);
+    expect(result.duplicates).toHaveLength(1);
+    expect(result.duplicates[0].ticketNumber).toBe('3');
+    expect(result.duplicates[0].entries.map((e) => e.row)).toEqual([1, 2]);
+    expect(result.skippedRows).toBe(1);
+    expect(result.ticketExpansion).toMatchObject({
+      expandedRows: 2,
+      overlappingTickets: 1,
+      invalidRows: [{ row: 4, reason: 'Ticket range "8-5" ends before it starts' }],
+    });
+  });
+
+  it('should read the ticket number column as one ticket when the range cell is empty', () => {
+    const collector = new ParticipantCollector({ ...mapping, ticketRange: 'Tickets' });
+    collector.add({ First: 'Jane', Last: 'Doe', Ticket: 'A 12', Tickets: '' });
+    collector.add({ First: 'John', Last: 'Smith', Ticket: '5-7', Tickets: '' });
+
+    const result = collector.getResult();
+    expect(result.participants.map((p) => p.ticketNumber)).toEqual(['A 12', '5-7']);
+    expect(result.skippedRows).toBe(0);
+    expect(result.ticketExpansion?.invalidRows).toEqual([]);
+  });
+
+  it('should keep non-empty extra columns as metadata', () => {
+    const collector = new ParticipantCollector({
+      ...mapping,
+      extraColumns: [
+        { key: 'Email', isPrivate: false },
+        { key: 'Phone', isPrivate: true },
+      ],
+    });
+    collector.add({
+      First: 'Jane',
+      Last: 'Doe',
+      Ticket: '1',
+      Email: 'jane@example.com',
+      Phone: '',
+    });
+    collector.add({ First: 'John', Last: 'Smith', Ticket: '2', Email: '', Phone: '' });
+
+    const [jane, john] = collector.getResult().participants;
+    expect(jane.metadata).toEqual({ Email: 'jane@example.com' });
+    expect(john).not.toHaveProperty('metadata');
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Participant Diff Tests
+ * Tests ticket-by-ticket comparison of re-imported entry lists
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffParticipants, hasParticipantChanges } from '../participant-diff';
+
+const jane = { firstName: 'Jane', lastName: 'Doe', ticketNumber: '1' };
+const john = { firstName: 'John', lastName: 'Smith', ticketNumber: '2' };
+const amy = { firstName: 'Amy', lastName: 'Lee', ticketNumber: '3' };
+
+describe('diffParticipants', () => {
+  it('should find added, removed and unchanged tickets', () => {
+    const diff = diffParticipants([jane, john], [jane, amy]);
+
+    expect(diff.added).toEqual([amy]);
+    expect(diff.removed).toEqual([john]);
+    expect(diff.changed).toEqual([]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('should report name changes on the same ticket', () => {
+    const renamed = { ...john, lastName: 'Smyth' };
+    const diff = diffParticipants([jane, john], [jane, renamed]);
+
+    expect(diff.changed).toEqual([{ ticketNumber: '2', before: john, after: renamed }]);
+    expect(hasParticipantChanges(diff)).toBe(true);
+  });
+
+  it('should match tickets by key', () => {
+    const keyOf = (ticketNumber: string) => ticketNumber.replace(/^0+/, '').toUpperCase();
+    const padded = { ...jane, ticketNumber: '001' };
+    const lower = { ...amy, ticketNumber: 'a3' };
+    const diff = diffParticipants([jane, { ...amy, ticketNumber: 'A3' }], [padded, lower], keyOf);
+
+    expect(diff.unchanged).toBe(2);
+    expect(hasParticipantChanges(diff)).toBe(false);
+  });
+
+  it('should report no changes for an identical list', () => {
+    const diff = diffParticipants([jane, john], [john, jane]);
+
+    expect(diff.unchanged).toBe(2);
+    expect(hasParticipantChanges(diff)).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Row Validation Tests
+ * Tests the per-row issues reported for skipped rows and suspicious values
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateRow } from '../row-validation';
+import { ParticipantCollector } from '../participant-collector';
+
+const mapping = { firstName: 'First', lastName: 'Last', ticketNumber: 'Ticket' };
+
+describe('validateRow', () => {
+  it('should report no issues for a complete row', () => {
+    expect(validateRow({ First: 'Jane', Last: 'Doe', Ticket: 'A12' }, mapping, 1)).toEqual([]);
+  });
+
+  it('should report missing names and tickets as skipped', () => {
+    const row = { First: 'Jane', Last: '', Ticket: '' };
+
+    expect(validateRow(row, mapping, 3)).toEqual([
+      {
+        row: 3,
+        type: 'missingName',
+        column: 'Last',
+        reason: 'Missing name',
+        skipped: true,
+        data: row,
+      },
+      {
+        row: 3,
+        type: 'missingTicket',
+        column: 'Ticket',
+        reason: 'Missing ticket',
+        skipped: true,
+        data: row,
+      },
+    ]);
+  });
+
+  it('should tell whitespace-only cells apart from empty ones', () => {
+    const issues = validateRow({ First: '  ', Last: 'Doe', Ticket: '7' }, mapping, 1);
+
+    expect(issues.map((i) => [i.type, i.column])).toEqual([['whitespaceOnly', 'First']]);
+  });
+
+  it('should skip tickets without letters or digits', () => {
+    const issues = validateRow({ First: 'Jane', Last: 'Doe', Ticket: '#-' }, mapping, 1);
+
+    expect(issues.map((i) => [i.type, i.skipped])).toEqual([['invalidTicket', true]]);
+  });
+
+  it('should flag placeholder values as warnings', () => {
+    const issues = validateRow({ First: 'Test', Last: 'Doe', Ticket: 'N/A' }, mapping, 1);
+
+    expect(issues.map((i) => [i.type, i.column, i.skipped])).toEqual([
+      ['suspiciousValue', 'First', false],
+      ['suspiciousValue', 'Ticket', false],
+    ]);
+  });
+
+  it('should check the full name column when one is mapped', () => {
+    const issues = validateRow(
+      { Name: '', Ticket: '1' },
+      { fullName: 'Name', ticketNumber: 'Ticket' },
+      1
+    );
+
+    expect(issues.map((i) => i.column)).toEqual(['Name']);
+  });
+});
+
+describe('ParticipantCollector issues', () => {
+  it('should explain every skipped row and keep warned rows', () => {
+    const collector = new ParticipantCollector({ ...mapping, quantity: 'Qty' });
+    collector.add({ First: 'Jane', Last: 'Doe', Ticket: '1', Qty: '' });
+    collector.add({ First: '', Last: 'Smith', Ticket: '2', Qty: '' });
+    collector.add({ First: 'Amy', Last: 'Lee', Ticket: '3', Qty: 'lots' });
+    collector.add({ First: 'Test', Last: 'Entry', Ticket: '4', Qty: '' });
+
+    const result = collector.getResult();
+    expect(result.participants.map((p) => p.ticketNumber)).toEqual(['1', '4']);
+    expect(result.skippedRows).toBe(2);
+    expect(result.issues.map((i) => [i.row, i.type, i.column, i.skipped])).toEqual([
+      [2, 'missingName', 'First', true],
+      [3, 'invalidTicket', 'Qty', true],
+      [4, 'suspiciousValue', 'First', false],
+    ]);
+  });
+});
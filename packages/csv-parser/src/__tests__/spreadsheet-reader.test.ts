@@ -0,0 +1,119 @@
+/**
+ * Spreadsheet Reader Tests
+ * Tests workbook reading, sheet selection and parsing through CSVParser
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { isSpreadsheetFile, readWorkbook } from '../spreadsheet-reader';
+import { CSVParser } from '../parser';
+
+function createWorkbookFile(sheets: Record<string, unknown[][]>, name = 'entries.xlsx'): File {
+  const workbook = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([sheetName, rows]) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName);
+  });
+  const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  return new File([data], name);
+}
+
+const entries = [
+  ['First Name', 'Last Name', 'Ticket'],
+  ['Jane', 'Doe', '0042'],
+  ['John', 'Smith', 7],
+];
+
+describe('isSpreadsheetFile', () => {
+  it('should recognise workbook extensions regardless of case', () => {
+    expect(isSpreadsheetFile({ name: 'entries.XLSX' })).toBe(true);
+    expect(isSpreadsheetFile({ name: 'entries.xls' })).toBe(true);
+    expect(isSpreadsheetFile({ name: 'entries.ods' })).toBe(true);
+    expect(isSpreadsheetFile({ name: 'entries.csv' })).toBe(false);
+    expect(isSpreadsheetFile({ name: 'entries.tsv' })).toBe(false);
+  });
+});
+
+describe('readWorkbook', () => {
+  it('should list sheets and read headers and rows from the first sheet', async () => {
+    const workbook = await readWorkbook(createWorkbookFile({ Entries: entries, Notes: [['x']] }));
+
+    expect(workbook.sheetNames).toEqual(['Entries', 'Notes']);
+    expect(workbook.getHeaders()).toEqual(['First Name', 'Last Name', 'Ticket']);
+    expect(workbook.getRows()).toEqual([
+      { 'First Name': 'Jane', 'Last Name': 'Doe', Ticket: '0042' },
+      { 'First Name': 'John', 'Last Name': 'Smith', Ticket: '7' },
+    ]);
+  });
+
+  it('should read a named sheet', async () => {
+    const workbook = await readWorkbook(
+      createWorkbookFile({ Summary: [['Total'], [2]], Entries: entries })
+    );
+
+    expect(workbook.getHeaders('Entries')).toEqual(['First Name', 'Last Name', 'Ticket']);
+    expect(workbook.getRows('Entries')).toHaveLength(2);
+  });
+
+  it('should read only the first rows when given a limit', async () => {
+    const workbook = await readWorkbook(createWorkbookFile({ Entries: entries }));
+
+    expect(workbook.getRows(undefined, 1)).toEqual([
+      { 'First Name': 'Jane', 'Last Name': 'Doe', Ticket: '0042' },
+    ]);
+    expect(workbook.getRows(undefined, 10)).toHaveLength(2);
+  });
+
+  it('should key rows by the trimmed headers', async () => {
+    const workbook = await readWorkbook(
+      createWorkbookFile({
+        Entries: [
+          [' Name', 'Ticket '],
+          ['Jane Doe', '0042'],
+        ],
+      })
+    );
+
+    expect(workbook.getHeaders()).toEqual(['Name', 'Ticket']);
+    expect(workbook.getRows()).toEqual([{ Name: 'Jane Doe', Ticket: '0042' }]);
+  });
+
+  it('should reject an unknown sheet', async () => {
+    const workbook = await readWorkbook(createWorkbookFile({ Entries: entries }));
+
+    expect(() => workbook.getRows('Missing')).toThrow('Sheet "Missing" not found');
+  });
+});
+
+describe('CSVParser.parseFile with workbooks', () => {
+  it('should build participants from the selected sheet', async () => {
+    const file = createWorkbookFile({ Summary: [['Total']], Entries: entries });
+    const mapping = { firstName: 'First Name', lastName: 'Last Name', ticketNumber: 'Ticket' };
+
+    const result = await new CSVParser().parseFile(file, mapping, { sheetName: 'Entries' });
+
+    expect(result.participants).toEqual([
+      { firstName: 'Jane', lastName: 'Doe', ticketNumber: '0042' },
+      { firstName: 'John', lastName: 'Smith', ticketNumber: '7' },
+    ]);
+    expect(result.totalRows).toBe(2);
+  });
+
+  it('should import a sheet whose headers have stray spaces', async () => {
+    const file = createWorkbookFile({
+      Entries: [
+        ['Name ', ' Ticket '],
+        ['Jane Doe', '0042'],
+      ],
+    });
+
+    const result = await new CSVParser().parseFile(file, {
+      fullName: 'Name',
+      ticketNumber: 'Ticket',
+    });
+
+    expect(result.participants).toEqual([
+      { firstName: 'Jane', lastName: 'Doe', ticketNumber: '0042' },
+    ]);
+    expect(result.skippedRows).toBe(0);
+  });
+});
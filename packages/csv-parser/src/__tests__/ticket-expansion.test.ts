@@ -0,0 +1,65 @@
+/**
+ * Ticket Expansion Tests
+ * Tests ticket list/range parsing and quantity expansion
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_TICKETS_PER_ROW,
+  expandByQuantity,
+  isTicketList,
+  parseQuantity,
+  parseTicketList,
+} from '../ticket-expansion';
+
+describe('parseTicketList', () => {
+  it('should parse comma separated lists', () => {
+    expect(parseTicketList('12, 15, 19')).toEqual({ tickets: ['12', '15', '19'] });
+  });
+
+  it('should expand ranges and keep zero-padding', () => {
+    expect(parseTicketList('0098-0101')).toEqual({ tickets: ['0098', '0099', '0100', '0101'] });
+    expect(parseTicketList('1 – 3; 7')).toEqual({ tickets: ['1', '2', '3', '7'] });
+  });
+
+  it('should expand ranges of tickets longer than 16 digits exactly', () => {
+    expect(parseTicketList('90071992547409919-90071992547409921')).toEqual({
+      tickets: ['90071992547409919', '90071992547409920', '90071992547409921'],
+    });
+  });
+
+  it('should reject reversed ranges and non-numeric tokens', () => {
+    expect(parseTicketList('105-101')).toHaveProperty('error');
+    expect(parseTicketList('12, A4')).toHaveProperty('error');
+  });
+
+  it('should cap the number of tickets per row', () => {
+    expect(parseTicketList(`1-${MAX_TICKETS_PER_ROW + 1}`)).toHaveProperty('error');
+  });
+});
+
+describe('isTicketList', () => {
+  it('should only treat lists and ranges as multiple tickets', () => {
+    expect(isTicketList('100-104')).toBe(true);
+    expect(isTicketList('12 15')).toBe(true);
+    expect(isTicketList('42')).toBe(false);
+    expect(isTicketList('T-042')).toBe(false);
+  });
+});
+
+describe('quantity expansion', () => {
+  it('should treat empty quantities as one ticket and reject invalid ones', () => {
+    expect(parseQuantity('')).toBe(1);
+    expect(parseQuantity(' 3 ')).toBe(3);
+    expect(parseQuantity('0')).toBeNull();
+    expect(parseQuantity('2.5')).toBeNull();
+  });
+
+  it('should count up from the ticket number', () => {
+    expect(expandByQuantity('0099', 3)).toEqual({ tickets: ['0099', '0100', '0101'] });
+    expect(expandByQuantity('T-1', 2)).toHaveProperty('error');
+    expect(expandByQuantity('000123456789012345678', 2)).toEqual({
+      tickets: ['000123456789012345678', '000123456789012345679'],
+    });
+  });
+});
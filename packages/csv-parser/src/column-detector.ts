@@ -19,8 +19,8 @@ import { EnhancedColumnMapper } from './enhanced-column-detector';
 export class IntelligentColumnMapper implements ColumnMapper {
   private enhancedMapper = new EnhancedColumnMapper();
 
-  detectHeaders(headers: string[]): ColumnDetectionResult {
-    return this.enhancedMapper.detectHeaders(headers);
+  detectHeaders(headers: string[], sampleRows?: Record<string, string>[]): ColumnDetectionResult {
+    return this.enhancedMapper.detectHeaders(headers, sampleRows);
   }
 }
 
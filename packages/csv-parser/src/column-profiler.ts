@@ -0,0 +1,150 @@
+/**
+ * Column Profiler
+ *
+ * Purpose: Scores each column by what its first rows contain and picks the
+ * best column for each field, combining that score with the header match,
+ * so columns are recognised when headers say nothing useful ("Col1").
+ * Distinct number sequences suggest a ticket, capitalised single words a
+ * first or last name, two or three capitalised words a full name and '@'
+ * an email address.
+ *
+ * SRS Reference:
+ * - FR-1.4: Column Mapping Interface (content-based detection)
+ */
+
+/** Rows read from the start of a file to profile its columns */
+export const SAMPLE_ROW_COUNT = 20;
+
+/** First and last names look alike, so both share the single-name score */
+export type ColumnContent = 'ticketNumber' | 'singleName' | 'fullName' | 'email';
+
+/** Share of a column's sample values, 0-100, that look like each kind of content */
+export type ColumnProfile = Record<ColumnContent, number>;
+
+// Optional short prefix, then the number: 42, 0042, A12, TKT-1001, #7
+const TICKET_VALUE = /^[A-Za-z]{0,4}[-#]?\d{1,9}$/;
+const NAME_WORD = "\\p{Lu}[\\p{L}'’.-]*";
+const SINGLE_NAME = new RegExp(`^${NAME_WORD}$`, 'u');
+const FULL_NAME = new RegExp(
+  `^${NAME_WORD}(\\s+${NAME_WORD}){1,2}$|^${NAME_WORD},\\s*${NAME_WORD}$`,
+  'u'
+);
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function share(values: string[], test: (value: string) => boolean): number {
+  return values.length === 0 ? 0 : Math.round((values.filter(test).length / values.length) * 100);
+}
+
+function profileValues(values: string[]): ColumnProfile {
+  // Tickets are unique, which tells them apart from quantities and prices
+  const distinct = new Set(values).size / Math.max(values.length, 1);
+  return {
+    ticketNumber: Math.round(share(values, (value) => TICKET_VALUE.test(value)) * distinct),
+    singleName: share(values, (value) => SINGLE_NAME.test(value)),
+    fullName: share(values, (value) => FULL_NAME.test(value)),
+    email: share(values, (value) => EMAIL.test(value)),
+  };
+}
+
+/** Profiles each column from its non-empty sample values */
+export function profileColumns(
+  headers: string[],
+  rows: Record<string, string>[]
+): Map<string, ColumnProfile> {
+  return new Map(
+    headers.map((header) => [
+      header,
+      profileValues(rows.map((row) => row[header]?.trim() ?? '').filter(Boolean)),
+    ])
+  );
+}
+
+/**
+ * Combines a header match with the column's content score. Content alone
+ * is capped at 80% so a matching header still wins; with a matching header
+ * the content can raise the header's confidence but never lowers it, so
+ * values the content rules don't recognise cannot undo header detection.
+ */
+export function combineConfidence(headerConfidence: number, contentScore: number): number {
+  if (headerConfidence === 0) return Math.round(contentScore * 0.8);
+  return Math.max(headerConfidence, Math.round(headerConfidence * 0.6 + contentScore * 0.4));
+}
+
+export interface ColumnMatch {
+  header: string;
+  confidence: number;
+}
+
+/** Confidence, 0-100, that a header names a field; 0 when it doesn't match */
+export type HeaderScorer = (header: string) => number;
+
+/**
+ * Picks the column whose combined header and content confidence is highest
+ * and reaches the threshold; on equal scores the leftmost column wins.
+ */
+export function findBestContentMatch(
+  headers: string[],
+  profiles: Map<string, ColumnProfile>,
+  content: ColumnContent,
+  scoreHeader: HeaderScorer,
+  threshold: number
+): ColumnMatch | null {
+  let bestMatch: ColumnMatch | null = null;
+
+  for (const header of headers) {
+    const confidence = combineConfidence(scoreHeader(header), profiles.get(header)?.[content] ?? 0);
+    if (confidence >= threshold && (!bestMatch || confidence > bestMatch.confidence)) {
+      bestMatch = { header, confidence };
+    }
+  }
+
+  return bestMatch;
+}
+
+/**
+ * Finds first, last and full name columns. Content can't tell a first name
+ * from a last name, so the last name is taken from another column. Single
+ * word columns such as a city only count as names when they beat the best
+ * full name column, and a header such as "Participant" that matches every
+ * name pattern is taken as the full name.
+ */
+export function findContentNameMatches(
+  headers: string[],
+  profiles: Map<string, ColumnProfile>,
+  scorers: Record<'firstName' | 'lastName' | 'fullName', HeaderScorer>,
+  threshold: number
+): [ColumnMatch | null, ColumnMatch | null, ColumnMatch | null] {
+  const firstName = findBestContentMatch(
+    headers,
+    profiles,
+    'singleName',
+    scorers.firstName,
+    threshold
+  );
+  const otherHeaders = headers.filter((header) => header !== firstName?.header);
+  const lastName = findBestContentMatch(
+    otherHeaders,
+    profiles,
+    'singleName',
+    scorers.lastName,
+    threshold
+  );
+  const fullName = findBestContentMatch(headers, profiles, 'fullName', scorers.fullName, threshold);
+
+  // A header matching every name pattern is a full name, as in header-only detection
+  const header = fullName?.header;
+  if (
+    header &&
+    header === firstName?.header &&
+    scorers.firstName(header) > 0 &&
+    scorers.lastName(header) > 0
+  ) {
+    return [null, null, fullName];
+  }
+
+  const weakerName = Math.min(firstName?.confidence ?? 0, lastName?.confidence ?? 0);
+  if (fullName && fullName.confidence > weakerName) {
+    return [null, null, fullName];
+  }
+  return [firstName, lastName, fullName];
+}
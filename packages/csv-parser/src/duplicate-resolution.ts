@@ -0,0 +1,85 @@
+/**
+ * Duplicate Resolution
+ *
+ * Purpose: Applies the operator's choice for each duplicate ticket to the
+ * parsed participants: keep the first or last entry, keep every entry by
+ * renumbering the extra ones with a suffix, or keep a chosen entry. Reports
+ * what was discarded or renumbered so it can be downloaded.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (duplicate handling)
+ */
+
+import { Participant } from '@raffle-spinner/storage';
+import {
+  DuplicateEntry,
+  DuplicateResolution,
+  DuplicateResolutionResult,
+  DuplicateTicket,
+} from './types';
+
+const KEEP_FIRST: DuplicateResolution = { strategy: 'keepFirst' };
+
+function keptIndex(resolution: DuplicateResolution, entries: DuplicateEntry[]): number {
+  switch (resolution.strategy) {
+    case 'keepLast':
+      return entries.length - 1;
+    case 'manual':
+      return Math.min(Math.max(resolution.keepIndex ?? 0, 0), entries.length - 1);
+    default:
+      return 0;
+  }
+}
+
+/** First "<ticket>-<n>" whose key is not taken, counting from 2 */
+function nextFreeTicket(
+  ticketNumber: string,
+  taken: Set<string>,
+  keyOf: (ticketNumber: string) => string
+): string {
+  for (let n = 2; ; n++) {
+    const candidate = `${ticketNumber}-${n}`;
+    if (!taken.has(keyOf(candidate))) return candidate;
+  }
+}
+
+/**
+ * Resolves duplicate tickets in parsed participants, which hold the first
+ * entry of each. Tickets without a resolution keep their first entry.
+ * `keyOf` decides when a renumbered ticket clashes with an existing one.
+ */
+export function resolveDuplicates(
+  participants: Participant[],
+  duplicates: DuplicateTicket[],
+  resolutions: Record<string, DuplicateResolution>,
+  keyOf: (ticketNumber: string) => string = (ticketNumber) => ticketNumber
+): DuplicateResolutionResult {
+  const indexByTicket = new Map(participants.map((p, index) => [p.ticketNumber, index]));
+  const taken = new Set(participants.map((p) => keyOf(p.ticketNumber)));
+  const resolved = participants.map((p) => [p]);
+  const result: DuplicateResolutionResult = { participants: [], discarded: [], renumbered: [] };
+
+  for (const { ticketNumber, entries } of duplicates) {
+    const index = indexByTicket.get(ticketNumber);
+    // Tickets merged or dropped after parsing have nothing left to resolve
+    if (index === undefined) continue;
+
+    const resolution = resolutions[ticketNumber] ?? KEEP_FIRST;
+    if (resolution.strategy === 'keepAll') {
+      for (const entry of entries.slice(1)) {
+        const renumbered = nextFreeTicket(ticketNumber, taken, keyOf);
+        taken.add(keyOf(renumbered));
+        resolved[index].push({ ...entry.participant, ticketNumber: renumbered });
+        result.renumbered.push({ entry, ticketNumber: renumbered });
+      }
+      continue;
+    }
+
+    const kept = keptIndex(resolution, entries);
+    resolved[index] = [entries[kept].participant];
+    result.discarded.push(...entries.filter((_, i) => i !== kept));
+  }
+
+  result.participants = resolved.flat();
+  return result;
+}
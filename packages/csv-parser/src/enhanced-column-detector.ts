@@ -2,7 +2,9 @@
  * Enhanced Intelligent Column Mapper with Fuzzy Matching
  *
  * Purpose: Advanced CSV column detection using fuzzy string matching and
- * confidence scoring to handle various header formats and typos.
+ * confidence scoring to handle various header formats and typos. When sample
+ * rows are given, each column's content is profiled and combined with its
+ * header match, so generic headers ("Col1", "Answer 3") are still detected.
  *
  * SRS Reference:
  * - FR-1.4: Column Mapping Interface (intelligent detection with fuzzy matching)
@@ -11,6 +13,7 @@
 
 import { ColumnMapper, ColumnDetectionResult } from './types';
 import { findBestMatch } from './fuzzy-matcher';
+import { HeaderScorer, findBestContentMatch, findContentNameMatches, profileColumns } from './column-profiler';
 
 // Extensive pattern lists for comprehensive header detection
 const FIRST_NAME_PATTERNS = [
@@ -101,6 +104,11 @@ const TICKET_PATTERNS = [
   'número', 'numero', 'número de entrada', 'billete', 'billet', 'biglietto', 'номер'
 ];
 
+const EMAIL_PATTERNS = ['email', 'e-mail', 'e mail', 'email address', 'mail', 'contact email', 'customer email'];
+
+// Headers that are clearly not names or tickets
+const CONTACT_HEADERS = new Set(['email', 'phone', 'address']);
+
 export class EnhancedColumnMapper implements ColumnMapper {
   private minConfidenceThreshold = 60; // Minimum 60% confidence for auto-mapping
 
@@ -137,38 +145,62 @@ export class EnhancedColumnMapper implements ColumnMapper {
     }
   }
 
-  detectHeaders(headers: string[]): ColumnDetectionResult {
+  detectHeaders(headers: string[], sampleRows: Record<string, string>[] = []): ColumnDetectionResult {
     const results: ColumnDetectionResult = {
       firstName: null,
       lastName: null,
       fullName: null,
       ticketNumber: null,
+      email: null,
       confidence: {
         firstName: 0,
         lastName: 0,
         fullName: 0,
         ticketNumber: 0,
+        email: 0,
       },
       overallConfidence: 0,
     };
 
-    // Find best matches for each field type
-    const firstNameMatch = this.findBestHeaderMatch(headers, FIRST_NAME_PATTERNS);
-    const lastNameMatch = this.findBestHeaderMatch(headers, LAST_NAME_PATTERNS);
-    const fullNameMatch = this.findBestHeaderMatch(headers, FULL_NAME_PATTERNS);
-    const ticketMatch = this.findBestHeaderMatch(headers, TICKET_PATTERNS);
-
+    const profiles = sampleRows.length > 0 ? profileColumns(headers, sampleRows) : null;
     const usedHeaders = new Set<string>();
 
-    // Process name fields
+    // Find best matches for each name field type, then process them
+    const [firstNameMatch, lastNameMatch, fullNameMatch] = profiles
+      ? findContentNameMatches(headers, profiles, {
+          firstName: this.headerScorer(FIRST_NAME_PATTERNS),
+          lastName: this.headerScorer(LAST_NAME_PATTERNS),
+          fullName: this.headerScorer(FULL_NAME_PATTERNS),
+        }, this.minConfidenceThreshold)
+      : [
+          this.findBestHeaderMatch(headers, FIRST_NAME_PATTERNS),
+          this.findBestHeaderMatch(headers, LAST_NAME_PATTERNS),
+          this.findBestHeaderMatch(headers, FULL_NAME_PATTERNS),
+        ];
     this.processNameFields(firstNameMatch, lastNameMatch, fullNameMatch, results, usedHeaders);
 
+    const unusedHeaders = headers.filter((header) => !usedHeaders.has(header));
+    const ticketMatch = profiles
+      ? findBestContentMatch(unusedHeaders, profiles, 'ticketNumber', this.headerScorer(TICKET_PATTERNS), this.minConfidenceThreshold)
+      : this.findBestHeaderMatch(headers, TICKET_PATTERNS);
+
     // Find ticket number that hasn't been used for names
     if (ticketMatch && 
         ticketMatch.confidence >= this.minConfidenceThreshold &&
         !usedHeaders.has(ticketMatch.header)) {
       results.ticketNumber = ticketMatch.header;
       results.confidence.ticketNumber = ticketMatch.confidence;
+      usedHeaders.add(ticketMatch.header);
+    }
+
+    // Email is only suggested from content, as a private extra column
+    const emailMatch = profiles && findBestContentMatch(
+      headers.filter((header) => !usedHeaders.has(header)), profiles, 'email',
+      this.headerScorer(EMAIL_PATTERNS), this.minConfidenceThreshold
+    );
+    if (emailMatch) {
+      results.email = emailMatch.header;
+      results.confidence.email = emailMatch.confidence;
     }
 
     // Calculate overall confidence
@@ -185,8 +217,7 @@ export class EnhancedColumnMapper implements ColumnMapper {
 
     for (const header of headers) {
       // Skip headers that are clearly not names or tickets
-      const normalizedHeader = header.toLowerCase();
-      if (normalizedHeader === 'email' || normalizedHeader === 'phone' || normalizedHeader === 'address') {
+      if (CONTACT_HEADERS.has(header.toLowerCase())) {
         continue;
       }
       
@@ -203,6 +234,14 @@ export class EnhancedColumnMapper implements ColumnMapper {
     return bestMatch;
   }
 
+  // Contact headers are skipped for names and tickets but still match email
+  private headerScorer(patterns: string[]): HeaderScorer {
+    return (header) =>
+      patterns !== EMAIL_PATTERNS && CONTACT_HEADERS.has(header.toLowerCase())
+        ? 0
+        : findBestMatch(header, patterns, this.minConfidenceThreshold)?.confidence ?? 0;
+  }
+
   private calculateOverallConfidence(results: ColumnDetectionResult): number {
     let totalScore = 0;
     let maxPossibleScore = 0;
@@ -11,6 +11,13 @@
 
 export * from './types';
 export * from './column-detector';
+export * from './column-profiler';
+export * from './duplicate-resolution';
 export * from './enhanced-column-detector';
 export * from './fuzzy-matcher';
+export * from './participant-collector';
+export * from './participant-diff';
 export * from './parser';
+export * from './row-validation';
+export * from './spreadsheet-reader';
+export * from './ticket-expansion';
@@ -0,0 +1,52 @@
+/**
+ * Name Splitter
+ *
+ * Purpose: Splits a full name column into first and last names.
+ * Extracted from participant-collector.ts to maintain file size limits
+ *
+ * SRS Reference:
+ * - FR-1.4: Column Mapping Interface (full name columns)
+ */
+
+export function splitFullName(fullName: string): {
+  firstName: string;
+  lastName: string;
+} {
+  const trimmed = fullName.trim();
+
+  // Handle various name formats
+  // Format: "Last, First" or "Last,First"
+  if (trimmed.includes(',')) {
+    const parts = trimmed.split(',').map((p) => p.trim());
+    if (parts.length >= 2) {
+      return {
+        firstName: parts[1],
+        lastName: parts[0],
+      };
+    }
+  }
+
+  // Format: "First Last" or "First Middle Last" etc.
+  const parts = trimmed.split(/\s+/);
+
+  if (parts.length === 1) {
+    // Only one word, use it as both first and last name
+    return {
+      firstName: parts[0],
+      lastName: parts[0],
+    };
+  } else if (parts.length === 2) {
+    // Standard "First Last" format
+    return {
+      firstName: parts[0],
+      lastName: parts[1],
+    };
+  } else {
+    // Multiple words: treat first word as first name, rest as last name
+    // This handles "First Middle Last" -> "First" "Middle Last"
+    return {
+      firstName: parts[0],
+      lastName: parts.slice(1).join(' '),
+    };
+  }
+}
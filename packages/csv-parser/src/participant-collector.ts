@@ -0,0 +1,227 @@
+/**
+ * Participant Collector
+ *
+ * Purpose: Turns CSV rows into participants one row at a time, keeping extra
+ * columns as metadata, expanding ticket quantities and ranges and tracking
+ * duplicates as it goes. Each ticket keeps only the cells of its source row
+ * the mapping reads, so streamed imports never hold every raw row. Tickets
+ * are kept exactly as entered (trimmed), so alphanumeric tickets such as
+ * "A12" and "B12" stay distinct. Extracted from parser.ts so whole-file and streamed parsing
+ * build the same ParseResult. Rows are checked by row-validation.ts first,
+ * and every problem is reported with the row it came from.
+ *
+ * SRS Reference:
+ * - FR-1.2: CSV Parser Integration (row processing)
+ * - FR-1.5: Data Validation and Error Handling (participant validation, duplicate handling)
+ */
+
+import { Participant, ColumnMapping } from '@raffle-spinner/storage';
+import { DuplicateEntry, ParseResult, ValidationError } from './types';
+import {
+  TicketExpansionResult,
+  expandByQuantity,
+  isTicketList,
+  parseQuantity,
+  parseTicketList,
+} from './ticket-expansion';
+import { splitFullName } from './name-splitter';
+import { ticketColumn, validateRow } from './row-validation';
+
+export class ParticipantCollector {
+  private participants: Participant[] = [];
+  private ticketMap = new Map<string, DuplicateEntry[]>();
+  private skippedRows = 0;
+  private totalRows = 0;
+  private expandedRows = 0;
+  private expandedTickets = new Set<string>();
+  private invalidRows: ValidationError[] = [];
+  private issues: ValidationError[] = [];
+
+  constructor(private mapping: ColumnMapping) {}
+
+  get rowCount(): number {
+    return this.totalRows;
+  }
+
+  add(row: Record<string, string>): void {
+    this.totalRows++;
+    const issues = validateRow(row, this.mapping, this.totalRows);
+    this.issues.push(...issues);
+    const participant = issues.some((issue) => issue.skipped) ? null : this.extractParticipant(row);
+
+    if (!participant) {
+      this.skippedRows++;
+      return;
+    }
+
+    const data = mappedCells(row, this.mapping);
+    const expansion = this.expandTickets(row, participant.ticketNumber);
+    if (expansion) {
+      if ('error' in expansion) {
+        this.addInvalidRow(row, participant.ticketNumber, expansion.error);
+        return;
+      }
+
+      this.expandedRows++;
+      for (const ticketNumber of expansion.tickets) {
+        this.expandedTickets.add(ticketNumber);
+        this.addTicket({ ...participant, ticketNumber }, data);
+      }
+      return;
+    }
+
+    this.addTicket(participant, data);
+  }
+
+  /** Reports a row whose ticket quantity or range can't be expanded */
+  private addInvalidRow(row: Record<string, string>, ticketNumber: string, reason: string): void {
+    const column = this.isRangeList(row, ticketNumber)
+      ? ticketColumn(row, this.mapping)
+      : this.mapping.quantity;
+    const issue: ValidationError = {
+      row: this.totalRows,
+      reason,
+      type: 'invalidTicket',
+      column,
+      skipped: true,
+      data: row,
+    };
+    this.invalidRows.push(issue);
+    this.issues.push(issue);
+    this.skippedRows++;
+  }
+
+  private addTicket(participant: Participant, data: Record<string, string>): void {
+    // Track duplicates with their source rows so they can be resolved later
+    const entry = { row: this.totalRows, participant, data };
+    const entries = this.ticketMap.get(participant.ticketNumber);
+    if (entries) {
+      entries.push(entry);
+    } else {
+      this.ticketMap.set(participant.ticketNumber, [entry]);
+      this.participants.push(participant);
+    }
+  }
+
+  getResult(): ParseResult {
+    // Find duplicates
+    const duplicates = Array.from(this.ticketMap.entries())
+      .filter(([_, entries]) => entries.length > 1)
+      .map(([ticketNumber, entries]) => ({ ticketNumber, entries }));
+
+    return {
+      participants: this.participants,
+      duplicates,
+      skippedRows: this.skippedRows,
+      totalRows: this.totalRows,
+      issues: this.issues,
+      ticketExpansion: this.getExpansionSummary(duplicates),
+    };
+  }
+
+  private getExpansionSummary(
+    duplicates: ParseResult['duplicates']
+  ): ParseResult['ticketExpansion'] {
+    if (!this.mapping.quantity && !this.mapping.ticketRange) {
+      return undefined;
+    }
+
+    return {
+      expandedRows: this.expandedRows,
+      ticketsCreated: this.expandedTickets.size,
+      overlappingTickets: duplicates.filter((d) => this.expandedTickets.has(d.ticketNumber)).length,
+      invalidRows: this.invalidRows,
+    };
+  }
+
+  /**
+   * Returns the tickets a row expands to, or null for a single-ticket row.
+   * A list or range in the ticket range column wins over a quantity.
+   */
+  private expandTickets(
+    row: Record<string, string>,
+    ticketNumber: string
+  ): TicketExpansionResult | null {
+    const { quantity } = this.mapping;
+    if (this.isRangeList(row, ticketNumber)) {
+      return parseTicketList(ticketNumber);
+    }
+    if (!quantity) {
+      return null;
+    }
+
+    const count = parseQuantity(row[quantity]);
+    if (count === null) {
+      return { error: `Invalid ticket quantity "${row[quantity]?.trim()}"` };
+    }
+    return count > 1 ? expandByQuantity(ticketNumber, count) : null;
+  }
+
+  /**
+   * True for a list or range read from the ticket range column. Tickets from
+   * the ticket number column are single tickets, even with a space ("A 12").
+   */
+  private isRangeList(row: Record<string, string>, ticketNumber: string): boolean {
+    const { ticketRange } = this.mapping;
+    return (
+      !!ticketRange && ticketColumn(row, this.mapping) === ticketRange && isTicketList(ticketNumber)
+    );
+  }
+
+  /** A filled ticket range cell takes the place of the ticket number */
+  private readTicket(row: Record<string, string>): string | undefined {
+    return row[ticketColumn(row, this.mapping)]?.trim();
+  }
+
+  private extractParticipant(row: Record<string, string>): Participant | null {
+    let firstName: string | undefined;
+    let lastName: string | undefined;
+
+    // Check if we're using a full name column or separate columns
+    if (this.mapping.fullName) {
+      const fullName = row[this.mapping.fullName]?.trim();
+      if (!fullName) return null;
+
+      // Split the full name intelligently
+      const nameParts = splitFullName(fullName);
+      firstName = nameParts.firstName;
+      lastName = nameParts.lastName;
+    } else {
+      // Use separate first and last name columns
+      firstName = row[this.mapping.firstName || '']?.trim();
+      lastName = row[this.mapping.lastName || '']?.trim();
+    }
+
+    const ticketNumber = this.readTicket(row);
+
+    // Skip if any required field is missing
+    if (!firstName || !lastName || !ticketNumber) {
+      return null;
+    }
+
+    const metadata = extractMetadata(row, this.mapping);
+    return { firstName, lastName, ticketNumber, ...(metadata && { metadata }) };
+  }
+}
+
+/** The cells of a row the mapping reads, so entries don't keep whole rows */
+function mappedCells(row: Record<string, string>, mapping: ColumnMapping): Record<string, string> {
+  const { extraColumns = [], ...fields } = mapping;
+  const columns = [...Object.values(fields), ...extraColumns.map(({ key }) => key)];
+  return Object.fromEntries(
+    columns
+      .filter((column): column is string => typeof column === 'string' && column in row)
+      .map((column) => [column, row[column]])
+  );
+}
+
+/** Non-empty values of the extra columns kept from the import, if any */
+function extractMetadata(
+  row: Record<string, string>,
+  { extraColumns = [] }: ColumnMapping
+): Record<string, string> | undefined {
+  const entries = extraColumns
+    .map(({ key }) => [key, row[key]?.trim() ?? ''])
+    .filter(([, value]) => value);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
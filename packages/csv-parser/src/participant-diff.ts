@@ -0,0 +1,49 @@
+/**
+ * Participant Diff
+ *
+ * Purpose: Compares a re-imported entry list with a competition's current
+ * participants, ticket by ticket, so updates can be reviewed before saving.
+ * Tickets are matched by key, so the competition's ticket matching rules
+ * decide when "007" and "7" are the same ticket.
+ *
+ * SRS Reference:
+ * - FR-1.6: Competition Management (entry updates)
+ */
+
+import { Participant } from '@raffle-spinner/storage';
+import { ParticipantDiff } from './types';
+
+const fullName = (participant: Participant) => `${participant.firstName} ${participant.lastName}`;
+
+export function diffParticipants(
+  current: Participant[],
+  incoming: Participant[],
+  keyOf: (ticketNumber: string) => string = (ticketNumber) => ticketNumber
+): ParticipantDiff {
+  const currentByTicket = new Map(current.map((p) => [keyOf(p.ticketNumber), p]));
+  const incomingTickets = new Set(incoming.map((p) => keyOf(p.ticketNumber)));
+
+  const diff: ParticipantDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const participant of incoming) {
+    const existing = currentByTicket.get(keyOf(participant.ticketNumber));
+    if (!existing) {
+      diff.added.push(participant);
+    } else if (fullName(existing) !== fullName(participant)) {
+      diff.changed.push({
+        ticketNumber: participant.ticketNumber,
+        before: existing,
+        after: participant,
+      });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  diff.removed = current.filter((p) => !incomingTickets.has(keyOf(p.ticketNumber)));
+  return diff;
+}
+
+export function hasParticipantChanges(diff: ParticipantDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
@@ -0,0 +1,105 @@
+/**
+ * Row Validation
+ *
+ * Purpose: Checks the mapped cells of one CSV row before it becomes a
+ * participant, reporting why a row is skipped (missing name or ticket,
+ * whitespace-only cells, tickets without letters or digits) and flagging
+ * placeholder values such as "test" or "N/A" that are imported but worth a
+ * second look.
+ *
+ * SRS Reference:
+ * - FR-1.5: Data Validation and Error Handling (row validation)
+ */
+
+import { ColumnMapping } from '@raffle-spinner/storage';
+import { ValidationError, ValidationIssueType } from './types';
+
+// Placeholder values left in entry lists, compared case-insensitively
+const SUSPICIOUS_VALUES = new Set([
+  'test',
+  'testing',
+  'n/a',
+  'na',
+  'none',
+  'null',
+  'undefined',
+  'unknown',
+  'tbc',
+  'tbd',
+  'xxx',
+  'asdf',
+  '-',
+  '?',
+]);
+
+export function isSuspiciousValue(value: string): boolean {
+  return SUSPICIOUS_VALUES.has(value.trim().toLowerCase());
+}
+
+/** Columns holding the participant's name under a mapping */
+function nameColumns({ fullName, firstName, lastName }: ColumnMapping): string[] {
+  return fullName ? [fullName] : [firstName ?? '', lastName ?? ''];
+}
+
+/** The column the ticket is read from; a filled ticket range cell wins */
+export function ticketColumn(row: Record<string, string>, mapping: ColumnMapping): string {
+  const { ticketRange, ticketNumber } = mapping;
+  return ticketRange && row[ticketRange]?.trim() ? ticketRange : ticketNumber;
+}
+
+/** Issue for an empty or whitespace-only required cell, if any */
+function checkRequired(
+  row: Record<string, string>,
+  column: string,
+  type: ValidationIssueType,
+  label: string
+): Pick<ValidationError, 'type' | 'reason'> | null {
+  const value = row[column];
+  if (value && !value.trim()) {
+    return { type: 'whitespaceOnly', reason: `${label} only contains spaces` };
+  }
+  return value ? null : { type, reason: `Missing ${label.toLowerCase()}` };
+}
+
+/**
+ * Returns the issues found in a row. A row with a skipped issue should not
+ * become a participant; other issues are warnings.
+ */
+export function validateRow(
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  rowNumber: number
+): ValidationError[] {
+  const ticket = ticketColumn(row, mapping);
+  const required: Array<[string, ValidationIssueType, string]> = [
+    ...nameColumns(mapping).map((column): [string, ValidationIssueType, string] => [
+      column,
+      'missingName',
+      'Name',
+    ]),
+    [ticket, 'missingTicket', 'Ticket'],
+  ];
+
+  return required.flatMap(([column, type, label]) => {
+    const issue =
+      checkRequired(row, column, type, label) ?? checkValue(row[column], column === ticket, label);
+    return issue ? [{ row: rowNumber, column, data: row, skipped: true, ...issue }] : [];
+  });
+}
+
+/** Issue for a filled cell whose value can't or shouldn't be used, if any */
+function checkValue(
+  value: string,
+  isTicket: boolean,
+  label: string
+): (Pick<ValidationError, 'type' | 'reason'> & { skipped?: boolean }) | null {
+  const trimmed = value.trim();
+  if (isTicket && !/[\p{L}\p{N}]/u.test(trimmed)) {
+    return { type: 'invalidTicket', reason: `Ticket "${trimmed}" has no letters or digits` };
+  }
+  if (isSuspiciousValue(trimmed)) {
+    const reason = `${label} "${trimmed}" looks like a placeholder`;
+    return { type: 'suspiciousValue', reason, skipped: false };
+  }
+  return null;
+}
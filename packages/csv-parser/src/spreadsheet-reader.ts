@@ -0,0 +1,112 @@
+/**
+ * Spreadsheet Reader
+ *
+ * Purpose: Reads Excel (XLSX/XLS), OpenDocument (ODS) and Google Sheets
+ * exports into the same header-keyed rows Papa produces for CSV, and reads
+ * the header row and first rows of any supported file for column detection.
+ *
+ * SRS Reference:
+ * - FR-1.1: CSV File Upload Interface (accepted file types)
+ * - FR-1.3: File Format Validation (spreadsheet formats)
+ * - FR-1.4: Column Mapping Interface (header detection)
+ */
+
+import Papa from 'papaparse';
+import type { WorkSheet } from 'xlsx';
+import { FileInspection } from './types';
+import { SAMPLE_ROW_COUNT } from './column-profiler';
+
+/** File extensions accepted by the importer, for file inputs */
+export const SUPPORTED_IMPORT_EXTENSIONS = ['.csv', '.tsv', '.txt', '.xlsx', '.xls', '.ods'];
+
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+
+export function isSpreadsheetFile(file: Pick<File, 'name'>): boolean {
+  const name = file.name.toLowerCase();
+  return SPREADSHEET_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
+export interface SpreadsheetWorkbook {
+  sheetNames: string[];
+  getHeaders(sheetName?: string): string[];
+  /**
+   * Reads every row, or only the first `limit` rows after the header. Rows
+   * are keyed by the trimmed headers `getHeaders` returns.
+   */
+  getRows(sheetName?: string, limit?: number): Record<string, string>[];
+}
+
+function trimKeys(row: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(row).map(([key, value]) => [key.trim(), value]));
+}
+
+/**
+ * Loads a workbook. Sheet lookups default to the first sheet.
+ */
+export async function readWorkbook(file: File): Promise<SpreadsheetWorkbook> {
+  // Loaded on demand so pages that only import CSVs don't bundle the workbook reader
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+
+  const getSheet = (sheetName = workbook.SheetNames[0]): WorkSheet => {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) {
+      throw new Error(`Sheet "${sheetName}" not found in ${file.name}`);
+    }
+    return sheet;
+  };
+
+  return {
+    sheetNames: workbook.SheetNames,
+    getHeaders: (sheetName) => {
+      const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(getSheet(sheetName), {
+        header: 1,
+        blankrows: false,
+      });
+      return headerRow.map((header) => String(header ?? '').trim());
+    },
+    // Formatted text keeps ticket numbers like 0042 as they appear in the sheet
+    getRows: (sheetName, limit) => {
+      const sheet = getSheet(sheetName);
+      const range = XLSX.utils.decode_range(sheet['!ref'] ?? 'A1');
+      if (limit !== undefined) {
+        range.e.r = Math.min(range.e.r, range.s.r + limit);
+      }
+      return XLSX.utils
+        .sheet_to_json<Record<string, string>>(sheet, { defval: '', raw: false, range })
+        .map(trimKeys);
+    },
+  };
+}
+
+/**
+ * Reads the header row, the first rows and the sheet names of a CSV, TSV
+ * or spreadsheet file. The delimiter of CSV/TSV files is detected
+ * automatically.
+ */
+export async function inspectImportFile(file: File, sheetName?: string): Promise<FileInspection> {
+  if (isSpreadsheetFile(file)) {
+    const workbook = await readWorkbook(file);
+    return {
+      headers: workbook.getHeaders(sheetName),
+      sheetNames: workbook.sheetNames,
+      sampleRows: workbook.getRows(sheetName, SAMPLE_ROW_COUNT),
+    };
+  }
+
+  return new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      preview: SAMPLE_ROW_COUNT + 1,
+      skipEmptyLines: true,
+      complete: (results) => {
+        const [headerRow = [], ...rows] = results.data;
+        const headers = headerRow.map((header) => header.trim());
+        const sampleRows = rows.map((row) =>
+          Object.fromEntries(headers.map((header, index) => [header, row[index] ?? '']))
+        );
+        resolve({ headers, sheetNames: [], sampleRows });
+      },
+      error: (error) => reject(new Error(`Failed to read file: ${error.message}`)),
+    });
+  });
+}
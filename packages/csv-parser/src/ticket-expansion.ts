@@ -0,0 +1,97 @@
+/**
+ * Ticket Expansion
+ *
+ * Purpose: Expands a single entry row into several tickets, either from a
+ * quantity ("5 tickets starting at 0100") or from a ticket list/range column
+ * ("12, 15, 19", "100-104" or a mix of both).
+ *
+ * SRS Reference:
+ * - FR-1.2: CSV Parser Integration (row processing)
+ * - FR-1.5: Data Validation and Error Handling (ticket validation)
+ */
+
+/** Upper bound on tickets from one row, so a typo can't create millions of entries */
+export const MAX_TICKETS_PER_ROW = 10000;
+
+export type TicketExpansionResult = { tickets: string[] } | { error: string };
+
+const RANGE_PATTERN = /^(\d+)-(\d+)$/;
+
+/**
+ * Normalises spaced and typographic dashes ("100 – 104") and splits on
+ * commas, semicolons and whitespace
+ */
+function tokenize(value: string): string[] {
+  return value
+    .replace(/\s*[-–—]\s*/g, '-')
+    .split(/[\s,;]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Counts up from start, keeping its zero-padding ("0098" -> "0099", "0100").
+ * BigInt keeps long ticket numbers exact past Number's 2^53 limit.
+ */
+function countUp(start: string, count: number): string[] {
+  const first = BigInt(start);
+  const width = start.startsWith('0') ? start.length : 0;
+  return Array.from({ length: count }, (_, i) => String(first + BigInt(i)).padStart(width, '0'));
+}
+
+/**
+ * True when a ticket list/range cell holds more than one ticket. Single
+ * tickets go through the regular ticket handling (including conversion of
+ * non-numeric tickets).
+ */
+export function isTicketList(value: string): boolean {
+  const tokens = tokenize(value);
+  return tokens.length > 1 || RANGE_PATTERN.test(tokens[0] ?? '');
+}
+
+export function parseTicketList(value: string): TicketExpansionResult {
+  const tickets: string[] = [];
+
+  for (const token of tokenize(value)) {
+    const range = RANGE_PATTERN.exec(token);
+    if (range) {
+      const [, start, end] = range;
+      const count = BigInt(end) - BigInt(start) + 1n;
+      if (count < 1) {
+        return { error: `Ticket range "${token}" ends before it starts` };
+      }
+      if (BigInt(tickets.length) + count > MAX_TICKETS_PER_ROW) {
+        return { error: `More than ${MAX_TICKETS_PER_ROW} tickets in one row` };
+      }
+      tickets.push(...countUp(start, Number(count)));
+    } else if (/^\d+$/.test(token)) {
+      tickets.push(token);
+    } else {
+      return { error: `"${token}" is not a ticket number or range` };
+    }
+  }
+
+  return tickets.length > 0 ? { tickets } : { error: 'No tickets listed' };
+}
+
+/**
+ * Parses a quantity cell. Empty cells count as one ticket; anything that
+ * isn't a whole number from 1 to MAX_TICKETS_PER_ROW returns null.
+ */
+export function parseQuantity(value: string | undefined): number | null {
+  const trimmed = value?.trim() ?? '';
+  if (!trimmed) {
+    return 1;
+  }
+  if (!/^\d+$/.test(trimmed)) {
+    return null;
+  }
+  const quantity = Number(trimmed);
+  return quantity >= 1 && quantity <= MAX_TICKETS_PER_ROW ? quantity : null;
+}
+
+export function expandByQuantity(ticketNumber: string, quantity: number): TicketExpansionResult {
+  if (!/^\d+$/.test(ticketNumber)) {
+    return { error: `Ticket "${ticketNumber}" must be numeric to expand a quantity` };
+  }
+  return { tickets: countUp(ticketNumber, quantity) };
+}
@@ -12,20 +12,79 @@
 
 import { Participant } from '@raffle-spinner/storage';
 
+/** One row holding a ticket that appears more than once */
+export interface DuplicateEntry {
+  /** Data row the entry came from, counting from 1 after the header */
+  row: number;
+  participant: Participant;
+  /** Cells of the source row the column mapping reads, keyed by column header */
+  data: Record<string, string>;
+}
+
+export interface DuplicateTicket {
+  ticketNumber: string;
+  /** Entries holding the ticket, in file order */
+  entries: DuplicateEntry[];
+}
+
+export type DuplicateStrategy = 'keepFirst' | 'keepLast' | 'keepAll' | 'manual';
+
+export interface DuplicateResolution {
+  strategy: DuplicateStrategy;
+  /** Entry kept by the manual strategy, as an index into the ticket's entries */
+  keepIndex?: number;
+}
+
+export interface DuplicateResolutionResult {
+  participants: Participant[];
+  /** Entries left out of the competition */
+  discarded: DuplicateEntry[];
+  /** Entries kept under a new ticket by the keep all strategy */
+  renumbered: Array<{ entry: DuplicateEntry; ticketNumber: string }>;
+}
+
 export interface ParseResult {
+  /** One participant per ticket; the first entry of each duplicate ticket */
   participants: Participant[];
-  duplicates: Array<{
-    ticketNumber: string;
-    names: string[];
-  }>;
+  duplicates: DuplicateTicket[];
   skippedRows: number;
   totalRows: number;
-  ticketConversions?: Array<{
-    original: string;
-    converted: string | null;
-    firstName: string;
-    lastName: string;
-  }>;
+  /** Problems found in individual rows, in row order */
+  issues: ValidationError[];
+  /** Present when the mapping has a quantity or ticket range column */
+  ticketExpansion?: {
+    /** Rows that expanded into more than one ticket */
+    expandedRows: number;
+    /** Distinct tickets created from those rows */
+    ticketsCreated: number;
+    /** Duplicate tickets that involve an expanded row */
+    overlappingTickets: number;
+    /** Rows skipped for an invalid quantity or ticket range */
+    invalidRows: ValidationError[];
+  };
+}
+
+/** Ticket-by-ticket comparison of a re-imported entry list */
+export interface ParticipantDiff {
+  added: Participant[];
+  removed: Participant[];
+  /** Tickets whose participant name changed */
+  changed: Array<{ ticketNumber: string; before: Participant; after: Participant }>;
+  unchanged: number;
+}
+
+export interface ParseProgress {
+  rowsProcessed: number;
+  bytesProcessed: number;
+  totalBytes: number;
+}
+
+export interface FileInspection {
+  headers: string[];
+  /** Sheets in a workbook; empty for CSV/TSV files */
+  sheetNames: string[];
+  /** First rows of the file, keyed by header, for content-based detection */
+  sampleRows: Record<string, string>[];
 }
 
 export interface ColumnDetectionResult {
@@ -33,20 +92,39 @@ export interface ColumnDetectionResult {
   lastName: string | null;
   fullName: string | null;
   ticketNumber: string | null;
+  /** Only detected from sample values, as a suggested private column */
+  email: string | null;
   confidence: {
     firstName: number;
     lastName: number;
     fullName: number;
     ticketNumber: number;
+    email: number;
   };
   overallConfidence: number;
 }
 
 export interface ColumnMapper {
-  detectHeaders(headers: string[]): ColumnDetectionResult;
+  /** Sample rows, when given, are profiled and combined with the header match */
+  detectHeaders(headers: string[], sampleRows?: Record<string, string>[]): ColumnDetectionResult;
 }
 
+export type ValidationIssueType =
+  | 'missingName'
+  | 'missingTicket'
+  | 'invalidTicket'
+  | 'whitespaceOnly'
+  | 'suspiciousValue';
+
 export interface ValidationError {
+  /** Data row the issue was found in, counting from 1 after the header */
   row: number;
   reason: string;
+  type: ValidationIssueType;
+  /** Column holding the problem value */
+  column?: string;
+  /** Skipped rows are left out of the import; the rest are warnings */
+  skipped: boolean;
+  /** Every cell of the source row, keyed by column header */
+  data: Record<string, string>;
 }
@@ -0,0 +1,64 @@
+/**
+ * Physics Profiles Tests
+ * Tests resolving the active profile and the fallback for older settings
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PhysicsProfile, SpinnerSettings } from '@raffle-spinner/storage';
+import {
+  DECELERATION_CURVES,
+  DEFAULT_TICK_RATE,
+  getPhysicsProfiles,
+  resolvePhysicsProfile,
+} from '../physics-profiles';
+
+const settings: SpinnerSettings = { minSpinDuration: 3, decelerationRate: 'fast' };
+
+const saved: PhysicsProfile = {
+  id: 'saved',
+  name: 'Saved',
+  rotations: 12,
+  acceleration: 0.3,
+  deceleration: { type: 'spring', stiffness: 90, damping: 3 },
+  tickRate: 10,
+};
+
+describe('resolvePhysicsProfile', () => {
+  it('should use the active built-in or saved profile', () => {
+    expect(resolvePhysicsProfile({ ...settings, physicsProfileId: 'dramatic' }).id).toBe(
+      'dramatic'
+    );
+    expect(
+      resolvePhysicsProfile({ ...settings, physicsProfileId: 'saved', physicsProfiles: [saved] })
+    ).toBe(saved);
+  });
+
+  it('should build a profile from spinRotations and bezierCurve', () => {
+    const curve = { x1: 0.2, y1: 0.8, x2: 0.4, y2: 1 };
+    const profile = resolvePhysicsProfile({ ...settings, spinRotations: 9, bezierCurve: curve });
+
+    expect(profile).toMatchObject({
+      id: 'custom',
+      rotations: 9,
+      acceleration: 0,
+      deceleration: { type: 'bezier', curve },
+      tickRate: DEFAULT_TICK_RATE,
+    });
+  });
+
+  it('should fall back to the deceleration preset and five rotations', () => {
+    const profile = resolvePhysicsProfile({ ...settings, physicsProfileId: 'deleted' });
+
+    expect(profile.rotations).toBe(5);
+    expect(profile.deceleration).toEqual({ type: 'bezier', curve: DECELERATION_CURVES.fast });
+  });
+});
+
+describe('getPhysicsProfiles', () => {
+  it('should list built-in profiles before saved ones', () => {
+    const profiles = getPhysicsProfiles({ ...settings, physicsProfiles: [saved] });
+
+    expect(profiles[0].id).toBe('quick-draw');
+    expect(profiles[profiles.length - 1]).toBe(saved);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Profile Motion Tests
+ * Checks the whole-spin easing of every built-in profile and the tick rate limit
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { BUILT_IN_PHYSICS_PROFILES } from '../physics-profiles';
+import { createProfileEasing, createTicker } from '../profile-motion';
+
+// One item is 1% of the spin distance
+const ITEM_FRACTION = 0.01;
+const STEPS = 2000;
+
+const profile = (id: string) => BUILT_IN_PHYSICS_PROFILES.find((p) => p.id === id)!;
+
+/** Easing values at evenly spaced points from 0 to 1 */
+const sample = (easing: (t: number) => number) =>
+  Array.from({ length: STEPS + 1 }, (_, i) => easing(i / STEPS));
+
+describe('createProfileEasing', () => {
+  it.each(BUILT_IN_PHYSICS_PROFILES.map((p) => p.id))('should run from 0 to 1 (%s)', (id) => {
+    const easing = createProfileEasing(profile(id), ITEM_FRACTION);
+
+    expect(easing(0)).toBe(0);
+    expect(easing(1)).toBe(1);
+    expect(easing(-0.5)).toBe(0);
+    expect(easing(1.5)).toBe(1);
+  });
+
+  it('should overshoot the winner and settle back onto it for near miss', () => {
+    const nearMiss = profile('near-miss');
+    const values = sample(createProfileEasing(nearMiss, ITEM_FRACTION));
+    const peak = Math.max(...values);
+    const settleStart = Math.ceil((1 - nearMiss.nearMiss!.settle) * STEPS);
+
+    expect(peak).toBeCloseTo(1 + nearMiss.nearMiss!.overshoot * ITEM_FRACTION);
+    values.slice(settleStart + 1).forEach((value, i) => {
+      expect(value).toBeLessThanOrEqual(values[settleStart + i]);
+      expect(value).toBeGreaterThanOrEqual(1);
+    });
+  });
+
+  it('should not overshoot without an item size', () => {
+    const values = sample(createProfileEasing(profile('near-miss')));
+
+    expect(Math.max(...values)).toBeLessThanOrEqual(1);
+  });
+
+  it('should move the spring continuously, bouncing around the winner', () => {
+    const values = sample(createProfileEasing(profile('spring'), ITEM_FRACTION));
+    const largestStep = Math.max(...values.slice(1).map((value, i) => Math.abs(value - values[i])));
+
+    expect(largestStep).toBeLessThan(0.01);
+    expect(Math.max(...values)).toBeGreaterThan(1);
+    expect(Math.max(...values)).toBeLessThan(1 + ITEM_FRACTION);
+  });
+
+  it.each(['quick-draw', 'standard', 'dramatic'])('should never move backwards (%s)', (id) => {
+    const values = sample(createProfileEasing(profile(id), ITEM_FRACTION));
+
+    values.slice(1).forEach((value, i) => expect(value).toBeGreaterThanOrEqual(values[i] - 1e-9));
+  });
+});
+
+describe('createTicker', () => {
+  it('should tick once per item passed, at most tickRate times a second', () => {
+    const onTick = vi.fn();
+    const tick = createTicker(10, 20, onTick);
+
+    // One item every 10ms for a second: 100 items, but only 20 ticks allowed
+    for (let ms = 0; ms <= 1000; ms += 10) tick(ms, ms);
+
+    expect(onTick).toHaveBeenCalledTimes(20);
+  });
+
+  it('should not tick while the same item is under the pointer', () => {
+    const onTick = vi.fn();
+    const tick = createTicker(10, 20, onTick);
+
+    tick(0, 0);
+    tick(9, 500);
+    expect(onTick).not.toHaveBeenCalled();
+
+    tick(10, 1000);
+    expect(onTick).toHaveBeenCalledTimes(1);
+  });
+});
@@ -25,3 +25,40 @@ export const easingFunctions = {
     return t < 0.5 ? 2 * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
   },
 };
+
+/**
+ * Creates an easing function from cubic-bezier control points, matching the
+ * CSS `cubic-bezier(x1, y1, x2, y2)` timing function used by the curve editor.
+ *
+ * The curve is solved for x by bisection, so the returned function maps
+ * animation progress (x) to eased progress (y).
+ */
+export function createBezierEasing(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): (t: number) => number {
+  const bezier = (t: number, p1: number, p2: number): number => {
+    const mt = 1 - t;
+    return 3 * mt * mt * t * p1 + 3 * mt * t * t * p2 + t * t * t;
+  };
+
+  return (x: number): number => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    let low = 0;
+    let high = 1;
+    let t = x;
+    for (let i = 0; i < 30; i++) {
+      t = (low + high) / 2;
+      if (bezier(t, x1, x2) < x) {
+        low = t;
+      } else {
+        high = t;
+      }
+    }
+    return bezier(t, y1, y2);
+  };
+}
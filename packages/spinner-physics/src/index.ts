@@ -2,7 +2,7 @@
  * Spinner Physics Package Entry Point
  *
  * Purpose: Main export file for the spinner physics package, providing access to
- * physics calculations, easing functions, and type definitions.
+ * physics calculations, easing functions, physics profiles, and type definitions.
  *
  * SRS Reference:
  * - FR-2.2: Winner Selection and Animation (package public API)
@@ -12,4 +12,7 @@
 
 export * from './types';
 export * from './easing';
+export * from './physics-profiles';
+export * from './profile-motion';
 export * from './spinner-physics';
+export * from './time-source';
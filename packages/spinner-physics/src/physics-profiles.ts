@@ -0,0 +1,95 @@
+/**
+ * Physics Profiles
+ *
+ * Purpose: Built-in spin physics profiles and resolution of the active
+ * profile from spinner settings, so every spinner type moves the same way
+ * for the same settings.
+ *
+ * SRS Reference:
+ * - FR-1.7: Spinner Physics Configuration (named physics profiles)
+ */
+
+import type { BezierCurve, PhysicsProfile, SpinnerSettings } from '@raffle-spinner/storage';
+
+export const DEFAULT_TICK_RATE = 20;
+
+/**
+ * Bezier equivalents of the slow/medium/fast deceleration presets
+ */
+export const DECELERATION_CURVES: Record<SpinnerSettings['decelerationRate'], BezierCurve> = {
+  slow: { x1: 0.33, y1: 1, x2: 0.68, y2: 1 },
+  medium: { x1: 0.5, y1: 1, x2: 0.89, y2: 1 },
+  fast: { x1: 0.45, y1: 0, x2: 0.55, y2: 1 },
+};
+
+export const BUILT_IN_PHYSICS_PROFILES: PhysicsProfile[] = [
+  {
+    id: 'quick-draw',
+    name: 'Quick Draw',
+    rotations: 3,
+    acceleration: 0.05,
+    deceleration: { type: 'bezier', curve: { x1: 0, y1: 0, x2: 0.58, y2: 1 } },
+    tickRate: 25,
+  },
+  {
+    id: 'standard',
+    name: 'Standard',
+    rotations: 5,
+    acceleration: 0.1,
+    deceleration: { type: 'bezier', curve: DECELERATION_CURVES.slow },
+    tickRate: DEFAULT_TICK_RATE,
+  },
+  {
+    id: 'dramatic',
+    name: 'Dramatic',
+    rotations: 8,
+    acceleration: 0.2,
+    deceleration: { type: 'bezier', curve: { x1: 0.1, y1: 0.9, x2: 0.2, y2: 1 } },
+    tickRate: 15,
+  },
+  {
+    id: 'near-miss',
+    name: 'Near Miss',
+    rotations: 6,
+    acceleration: 0.1,
+    deceleration: { type: 'bezier', curve: DECELERATION_CURVES.slow },
+    nearMiss: { overshoot: 0.6, settle: 0.15 },
+    tickRate: DEFAULT_TICK_RATE,
+  },
+  {
+    id: 'spring',
+    name: 'Spring',
+    rotations: 5,
+    acceleration: 0.1,
+    deceleration: { type: 'spring', stiffness: 150, damping: 5 },
+    tickRate: DEFAULT_TICK_RATE,
+  },
+];
+
+/**
+ * Built-in profiles followed by the user's saved profiles
+ */
+export function getPhysicsProfiles(settings: SpinnerSettings): PhysicsProfile[] {
+  return [...BUILT_IN_PHYSICS_PROFILES, ...(settings.physicsProfiles ?? [])];
+}
+
+/**
+ * The profile in use. Settings without an active profile get one built from
+ * their rotations and curve, so older settings keep their behaviour.
+ */
+export function resolvePhysicsProfile(settings: SpinnerSettings): PhysicsProfile {
+  const active = getPhysicsProfiles(settings).find((p) => p.id === settings.physicsProfileId);
+  if (active) return active;
+
+  return {
+    id: 'custom',
+    name: 'Custom',
+    rotations: settings.spinRotations ?? 5,
+    acceleration: 0,
+    deceleration: {
+      type: 'bezier',
+      curve: settings.bezierCurve ?? DECELERATION_CURVES[settings.decelerationRate],
+    },
+    tickRate: DEFAULT_TICK_RATE,
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Profile Motion
+ *
+ * Purpose: Turns a physics profile into an easing function covering the
+ * whole spin (acceleration, deceleration and near-miss settle), and plays
+ * ticks as items pass the pointer.
+ *
+ * SRS Reference:
+ * - FR-1.7: Spinner Physics Configuration (named physics profiles)
+ * - FR-2.2: Winner Selection and Animation (smooth animation transitions)
+ */
+
+import type { PhysicsDeceleration, PhysicsProfile } from '@raffle-spinner/storage';
+import { createBezierEasing } from './easing';
+
+type Easing = (t: number) => number;
+
+// Share of the deceleration in which a spring bounces around the winner
+const SPRING_SHARE = 0.3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * Spring deceleration: a cubic ease-out onto the winner followed by a damped
+ * bounce measured in items, so the bounce looks the same however far the
+ * spinner travels.
+ */
+function createSpringEasing(stiffness: number, damping: number, itemFraction: number): Easing {
+  const omega = Math.sqrt(stiffness);
+  return (u: number) => {
+    const v = (u - (1 - SPRING_SHARE)) / SPRING_SHARE;
+    if (v <= 0) {
+      return 1 - Math.pow(1 - u / (1 - SPRING_SHARE), 3);
+    }
+    return 1 + itemFraction * Math.exp(-damping * v) * Math.sin(omega * v) * (1 - v);
+  };
+}
+
+export function createDecelerationEasing(
+  deceleration: PhysicsDeceleration,
+  itemFraction = 0
+): Easing {
+  if (deceleration.type === 'spring') {
+    return createSpringEasing(deceleration.stiffness, deceleration.damping, itemFraction);
+  }
+  const { x1, y1, x2, y2 } = deceleration.curve;
+  return createBezierEasing(x1, y1, x2, y2);
+}
+
+/**
+ * Creates the easing for a whole spin. The result is 0 at the start and
+ * exactly 1 at the end, and may pass 1 while overshooting.
+ *
+ * @param itemFraction Distance of one item as a share of the whole spin,
+ *   used to size near-miss overshoots and spring bounces
+ */
+export function createProfileEasing(profile: PhysicsProfile, itemFraction = 0): Easing {
+  const decelerate = createDecelerationEasing(profile.deceleration, itemFraction);
+  const acceleration = clamp(profile.acceleration, 0, 0.5);
+  const overshoot = (profile.nearMiss?.overshoot ?? 0) * itemFraction;
+  const settle = overshoot > 0 ? clamp(profile.nearMiss?.settle ?? 0, 0.01, 0.5) : 0;
+
+  // Distance covered while speeding up, chosen so the speed carries on
+  // smoothly into the deceleration
+  const startSpeed = Math.max(decelerate(0.001) / 0.001, 1);
+  const accelDistance =
+    (startSpeed * acceleration) / (2 * (1 - acceleration) + startSpeed * acceleration);
+
+  const main = (t: number) => {
+    if (t < acceleration) {
+      return accelDistance * Math.pow(t / acceleration, 2);
+    }
+    return (
+      accelDistance + (1 - accelDistance) * decelerate((t - acceleration) / (1 - acceleration))
+    );
+  };
+
+  return (t: number) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    if (t < 1 - settle) {
+      return main(t / (1 - settle)) * (1 + overshoot);
+    }
+    // Near miss: stop just past the winner, then ease back onto it
+    return 1 + overshoot * (1 - smoothstep((t - (1 - settle)) / settle));
+  };
+}
+
+/**
+ * Returns a function to call with each new position. It calls `onTick` once
+ * per item passing the pointer, at most `tickRate` times per second.
+ */
+export function createTicker(itemSize: number, tickRate: number, onTick?: () => void) {
+  let lastItem: number | null = null;
+  let lastTickAt = -Infinity;
+
+  return (position: number, now: number): void => {
+    const item = Math.floor(position / itemSize);
+    const passed = lastItem !== null && item !== lastItem;
+    lastItem = item;
+    if (!onTick || !passed || now - lastTickAt < 1000 / tickRate) return;
+    lastTickAt = now;
+    onTick();
+  };
+}
@@ -12,10 +12,18 @@
 
 import { SpinConfig, SpinAnimation, WheelSegment } from './types';
 import { easingFunctions } from './easing';
+import { createProfileEasing } from './profile-motion';
+import type { RandomSource } from './time-source';
 
 export class SpinnerPhysics {
+  /**
+   * @param random Random source for the number of rotations, seedable for
+   *   repeatable spins (defaults to Math.random)
+   */
+  constructor(private readonly random: RandomSource = Math.random) {}
+
   calculateSpinAnimation(config: SpinConfig): SpinAnimation {
-    const { targetIndex, totalItems, minDuration, decelerationRate } = config;
+    const { targetIndex, totalItems, minDuration, decelerationRate, profile } = config;
 
     // Calculate the angle for each segment
     const segmentAngle = (2 * Math.PI) / totalItems;
@@ -26,7 +34,8 @@ export class SpinnerPhysics {
     // Add multiple full rotations for visual effect
     const minRotations = 3;
     const maxRotations = 5;
-    const rotations = minRotations + Math.random() * (maxRotations - minRotations);
+    const rotations =
+      profile?.rotations ?? minRotations + this.random() * (maxRotations - minRotations);
 
     // Calculate total rotation
     const totalRotation = rotations * 2 * Math.PI + targetAngle;
@@ -38,7 +47,9 @@ export class SpinnerPhysics {
       duration,
       startAngle: 0,
       endAngle: totalRotation,
-      easing: easingFunctions[decelerationRate],
+      easing: profile
+        ? createProfileEasing(profile, segmentAngle / totalRotation)
+        : easingFunctions[decelerationRate],
     };
   }
 
@@ -0,0 +1,47 @@
+/**
+ * Time and Randomness Sources
+ *
+ * Purpose: Injectable random number and animation clock sources, so spin
+ * animations can be replayed deterministically outside the browser.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (repeatable spin animations)
+ */
+
+/**
+ * Returns a number in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Schedules animation frames and reports the current time in milliseconds
+ */
+export interface AnimationClock {
+  now: () => number;
+  requestFrame: (callback: (time: number) => void) => number;
+  cancelFrame: (handle: number) => void;
+}
+
+/**
+ * Creates a seeded random source (mulberry32). The same seed always gives
+ * the same sequence.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Clock backed by performance.now and requestAnimationFrame
+ */
+export const browserClock: AnimationClock = {
+  now: () => performance.now(),
+  requestFrame: (callback) => requestAnimationFrame(callback),
+  cancelFrame: (handle) => cancelAnimationFrame(handle),
+};
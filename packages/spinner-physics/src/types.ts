@@ -10,11 +10,14 @@
  * - FR-2.2: Performance optimization (WheelSegment for large datasets)
  */
 
+import type { PhysicsProfile } from '@raffle-spinner/storage';
+
 export interface SpinConfig {
   targetIndex: number;
   totalItems: number;
   minDuration: number; // seconds
   decelerationRate: 'slow' | 'medium' | 'fast';
+  profile?: PhysicsProfile; // Sets rotations and easing; decelerationRate is then ignored
 }
 
 export interface SpinAnimation {
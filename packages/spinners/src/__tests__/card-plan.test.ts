@@ -0,0 +1,112 @@
+/**
+ * Card Plan Tests
+ * Checks that the card shuffle deals, knocks out and finally reveals the
+ * target ticket, down to one and two participants
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom } from '@raffle-spinner/spinner-physics';
+import { buildCardPlan } from '../cards/utils/card-plan';
+import { getCardFrame, getCardSlots } from '../cards/utils/card-frames';
+import { createParticipants } from './spin-harness';
+
+const MAX_DECK_SIZE = 8;
+const CENTER = { x: 400, y: 300 };
+
+describe('buildCardPlan', () => {
+  it.each([
+    [1, '1'],
+    [2, '1'],
+    [2, '2'],
+    [8, '5'],
+    [500, '437'],
+  ])('should deal the target ticket with %i participants (ticket %s)', (count, ticket) => {
+    const participants = createParticipants(count);
+    const plan = buildCardPlan(participants, ticket, MAX_DECK_SIZE, createSeededRandom(count))!;
+
+    expect(plan.deck).toHaveLength(Math.min(count, MAX_DECK_SIZE));
+    expect(new Set(plan.deck).size).toBe(plan.deck.length);
+    expect(plan.deck[plan.winnerIndex].ticketNumber).toBe(ticket);
+  });
+
+  it.each([1, 2, 3, 8, 500])('should knock out every card but the winner (%i)', (count) => {
+    const plan = buildCardPlan(
+      createParticipants(count),
+      '1',
+      MAX_DECK_SIZE,
+      createSeededRandom(7)
+    )!;
+    const survivors = plan.eliminationRound.filter((round) => round === -1);
+
+    expect(survivors).toHaveLength(1);
+    expect(plan.eliminationRound[plan.winnerIndex]).toBe(-1);
+    plan.eliminationRound.forEach((round, i) => {
+      if (i !== plan.winnerIndex) expect(round).toBeLessThan(plan.rounds);
+    });
+  });
+
+  it('should start the shuffle from the deal order', () => {
+    const plan = buildCardPlan(createParticipants(5), '3', MAX_DECK_SIZE, createSeededRandom(1))!;
+
+    expect(plan.shuffles[0]).toEqual([0, 1, 2, 3, 4]);
+    plan.shuffles.forEach((step) => expect([...step].sort()).toEqual([0, 1, 2, 3, 4]));
+  });
+
+  it('should deal the exact ticket when others differ only in zeros or letters', () => {
+    const lookalikes = [
+      ...createParticipants(9),
+      { ...createParticipants(1)[0], ticketNumber: '007' },
+    ];
+    const plan = buildCardPlan(lookalikes, '007', MAX_DECK_SIZE, createSeededRandom(2))!;
+
+    expect(plan.deck[plan.winnerIndex].ticketNumber).toBe('007');
+    expect(buildCardPlan(lookalikes, '07', MAX_DECK_SIZE)).toBeNull();
+    expect(buildCardPlan(lookalikes, 'C7', MAX_DECK_SIZE)).toBeNull();
+  });
+
+  it('should return null for a ticket that is not in the competition', () => {
+    expect(buildCardPlan(createParticipants(3), '99', MAX_DECK_SIZE)).toBeNull();
+    expect(buildCardPlan([], '1', MAX_DECK_SIZE)).toBeNull();
+  });
+});
+
+describe('getCardFrame', () => {
+  it.each([1, 2, 8, 500])('should reveal the target ticket at the centre (%i)', (count) => {
+    const ticket = String(count);
+    const plan = buildCardPlan(
+      createParticipants(count),
+      ticket,
+      MAX_DECK_SIZE,
+      createSeededRandom(3)
+    )!;
+    const slots = getCardSlots(plan.deck.length, 800, 600);
+    const frames = plan.deck.map((_, i) => getCardFrame(plan, i, 1, slots, CENTER));
+    const shown = frames.filter((frame) => frame.opacity === 1);
+
+    expect(shown).toHaveLength(1);
+    expect(plan.deck[frames.indexOf(shown[0])].ticketNumber).toBe(ticket);
+    expect(shown[0]).toMatchObject({ ...CENTER, flip: 1 });
+    frames.forEach((frame) => expect(Number.isFinite(frame.x + frame.y + frame.scale)).toBe(true));
+  });
+
+  it('should keep every card face down until the shuffle ends', () => {
+    const plan = buildCardPlan(createParticipants(8), '1', MAX_DECK_SIZE, createSeededRandom(5))!;
+    const slots = getCardSlots(8, 800, 600);
+
+    [0, 0.1, 0.25, 0.39].forEach((progress) => {
+      plan.deck.forEach((_, i) => {
+        expect(getCardFrame(plan, i, progress, slots, CENTER).flip).toBe(0);
+      });
+    });
+  });
+
+  it('should leave only the winner face down before the reveal', () => {
+    const plan = buildCardPlan(createParticipants(8), '6', MAX_DECK_SIZE, createSeededRandom(9))!;
+    const slots = getCardSlots(8, 800, 600);
+    const faceDown = plan.deck.filter(
+      (_, i) => getCardFrame(plan, i, 0.85, slots, CENTER).flip < 0.5
+    );
+
+    expect(faceDown.map((p) => p.ticketNumber)).toEqual(['6']);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Slot Machine Engine Tests
+ * Replays spins frame by frame and checks landing, subset swap timing and
+ * the winner handed to onSpinComplete, with numeric and alphanumeric tickets
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { SpinnerSettings } from '@raffle-spinner/storage';
+import { SpinnerPhysics, createSeededRandom } from '@raffle-spinner/spinner-physics';
+import { createParticipants, replaySpin } from './spin-harness';
+import { sortParticipants } from '../slot-machine/utils/subsets';
+
+const settings: SpinnerSettings = { minSpinDuration: 5, decelerationRate: 'medium' };
+const participants = createParticipants(5000);
+
+describe('slot machine engine', () => {
+  it.each([
+    ['first ticket', '1'],
+    ['last ticket', '5000'],
+    ['wrap-around near the start', '3'],
+    ['wrap-around near the end', '4998'],
+    ['middle ticket', '2500'],
+  ])('should land on the %s with 5,000 participants', (_, ticket) => {
+    const replay = replaySpin({ participants, targetTicketNumber: ticket, settings });
+
+    expect(replay.frames[replay.frames.length - 1].done).toBe(true);
+    expect(replay.landedOn.ticketNumber).toBe(ticket);
+    expect(replay.winner.ticketNumber).toBe(ticket);
+  });
+
+  it.each(['quick-draw', 'standard', 'dramatic', 'near-miss', 'spring'])(
+    'should land on the winner with the %s profile',
+    (physicsProfileId) => {
+      const replay = replaySpin({
+        participants,
+        targetTicketNumber: '1234',
+        settings: { ...settings, physicsProfileId },
+      });
+
+      expect(replay.landedOn.ticketNumber).toBe('1234');
+    }
+  );
+
+  it.each([1, 2])('should land on the winner with %i participant(s)', (count) => {
+    const small = createParticipants(count);
+    const ticket = String(count);
+    const replay = replaySpin({ participants: small, targetTicketNumber: ticket, settings });
+
+    expect(replay.landedOn.ticketNumber).toBe(ticket);
+    expect(replay.winner.ticketNumber).toBe(ticket);
+  });
+
+  it.each(['0042', '42', 'A42'])('should land on ticket %s, not a lookalike', (ticket) => {
+    const lookalikes = [
+      ...participants,
+      { firstName: 'Zero', lastName: 'Padded', ticketNumber: '0042' },
+      { firstName: 'Letter', lastName: 'Prefixed', ticketNumber: 'A42' },
+    ];
+    const replay = replaySpin({ participants: lookalikes, targetTicketNumber: ticket, settings });
+
+    expect(replay.landedOn.ticketNumber).toBe(ticket);
+  });
+
+  it.each([8, 16, 33, 100])('should land the same way at %ims per frame', (frameMs) => {
+    const replay = replaySpin({ participants, targetTicketNumber: '4321', settings, frameMs });
+
+    expect(replay.landedOn.ticketNumber).toBe('4321');
+    expect(replay.frames.every((frame) => Number.isFinite(frame.position))).toBe(true);
+  });
+
+  it('should swap the subset once, on the first frame after acceleration', () => {
+    const replay = replaySpin({
+      participants,
+      targetTicketNumber: '777',
+      settings: { ...settings, physicsProfileId: 'dramatic' },
+    });
+    const swapAt = replay.swapProgress * settings.minSpinDuration * 1000;
+    const firstFrameAfter = replay.frames.find((frame) => frame.time >= swapAt);
+
+    expect(replay.swapProgress).toBe(0.2);
+    expect(replay.swapTime).toBe(firstFrameAfter?.time);
+  });
+
+  it('should finish within the configured spin duration', () => {
+    const replay = replaySpin({ participants, targetTicketNumber: '10', settings });
+    const lastFrame = replay.frames[replay.frames.length - 1];
+
+    expect(lastFrame.time).toBeLessThanOrEqual(settings.minSpinDuration * 1000 + 16);
+  });
+});
+
+describe('seeded spinner physics', () => {
+  const config = {
+    targetIndex: 3,
+    totalItems: 10,
+    minDuration: 5,
+    decelerationRate: 'slow' as const,
+  };
+
+  it('should plan identical spins for the same seed', () => {
+    const first = new SpinnerPhysics(createSeededRandom(42)).calculateSpinAnimation(config);
+    const second = new SpinnerPhysics(createSeededRandom(42)).calculateSpinAnimation(config);
+
+    expect(second.endAngle).toBe(first.endAngle);
+  });
+
+  it('should plan different spins for different seeds', () => {
+    const first = new SpinnerPhysics(createSeededRandom(1)).calculateSpinAnimation(config);
+    const second = new SpinnerPhysics(createSeededRandom(2)).calculateSpinAnimation(config);
+
+    expect(second.endAngle).not.toBe(first.endAngle);
+  });
+});
+
+describe('alphanumeric tickets', () => {
+  const lettered = ['A', 'B', 'C'].flatMap((prefix) =>
+    Array.from({ length: 400 }, (_, i) => ({
+      firstName: 'Entrant',
+      lastName: `${prefix}${i + 1}`,
+      ticketNumber: `${prefix}${i + 1}`,
+    }))
+  );
+
+  it('should sort tickets in natural order', () => {
+    const sorted = sortParticipants([
+      { firstName: 'A', lastName: 'Ten', ticketNumber: 'A10' },
+      { firstName: 'B', lastName: 'One', ticketNumber: 'B1' },
+      { firstName: 'A', lastName: 'Two', ticketNumber: 'A2' },
+      { firstName: 'Seven', lastName: 'Padded', ticketNumber: '007' },
+      { firstName: 'Seven', lastName: 'Plain', ticketNumber: '7' },
+    ]);
+
+    expect(sorted.map((p) => p.ticketNumber)).toEqual(['7', '007', 'A2', 'A10', 'B1']);
+  });
+
+  it.each(['A12', 'B12', 'C400'])('should land on %s without colliding tickets', (ticket) => {
+    const replay = replaySpin({ participants: lettered, targetTicketNumber: ticket, settings });
+
+    expect(replay.landedOn.ticketNumber).toBe(ticket);
+    expect(replay.winner.ticketNumber).toBe(ticket);
+  });
+
+  it('should tell "007" and "7" apart', () => {
+    const padded = [
+      ...createParticipants(20),
+      { firstName: 'Bond', lastName: 'James', ticketNumber: '007' },
+    ];
+
+    expect(
+      replaySpin({ participants: padded, targetTicketNumber: '007', settings }).winner.lastName
+    ).toBe('James');
+    expect(
+      replaySpin({ participants: padded, targetTicketNumber: '7', settings }).winner.ticketNumber
+    ).toBe('7');
+  });
+});
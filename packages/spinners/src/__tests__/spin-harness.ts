@@ -0,0 +1,93 @@
+/**
+ * Spin Harness
+ * Replays slot machine spins frame by frame against a fake clock, swapping
+ * subsets the same way the slot machine does
+ */
+
+import type { Participant, SpinnerSettings } from '@raffle-spinner/storage';
+import {
+  createSlotMachineEngine,
+  getCenterIndex,
+  type SlotMachineFrame,
+} from '../slot-machine/utils/slot-machine-engine';
+import {
+  createInitialSubset,
+  createWinnerSubset,
+  findTicketIndex,
+  sortParticipants,
+} from '../slot-machine/utils/subsets';
+
+export const ITEM_HEIGHT = 80;
+const SUBSET_SIZE = 100;
+// Stops a broken engine from looping forever
+const MAX_FRAMES = 10_000;
+
+export interface ReplayOptions {
+  participants: Participant[];
+  targetTicketNumber: string;
+  settings: SpinnerSettings;
+  /** Time between frames in milliseconds */
+  frameMs?: number;
+}
+
+export interface SpinReplay {
+  frames: (SlotMachineFrame & { time: number })[];
+  /** Time of the subset swap, or null when it never happened */
+  swapTime: number | null;
+  /** Progress at which the engine planned the swap */
+  swapProgress: number;
+  winner: Participant;
+  /** Entry in the centre row of the wheel after the last frame */
+  landedOn: Participant;
+}
+
+export function createParticipants(count: number, firstTicket = 1): Participant[] {
+  return Array.from({ length: count }, (_, i) => ({
+    firstName: `First${i}`,
+    lastName: `Last${i}`,
+    ticketNumber: String(firstTicket + i),
+  }));
+}
+
+export function replaySpin({
+  participants,
+  targetTicketNumber,
+  settings,
+  frameMs = 16,
+}: ReplayOptions): SpinReplay {
+  const sorted = sortParticipants(participants);
+  let subset = createInitialSubset(sorted, SUBSET_SIZE);
+  let swapTime: number | null = null;
+  let now = 0;
+
+  const engine = createSlotMachineEngine({
+    participants: subset,
+    targetTicketNumber,
+    settings,
+    itemHeight: ITEM_HEIGHT,
+    startTime: now,
+    getParticipants: () => subset,
+    onMaxVelocity: () => {
+      swapTime = now;
+      subset = createWinnerSubset(sorted, targetTicketNumber, SUBSET_SIZE);
+      return findTicketIndex(subset, targetTicketNumber);
+    },
+  });
+
+  const frames: SpinReplay['frames'] = [];
+  while (frames.length < MAX_FRAMES) {
+    now += frameMs;
+    const frame = engine.step(now);
+    frames.push({ ...frame, time: now });
+    if (frame.done) break;
+  }
+
+  const finalPosition = frames[frames.length - 1].position;
+  return {
+    frames,
+    swapTime,
+    swapProgress: engine.swapProgress,
+    winner: engine.getWinner(),
+    landedOn: subset[getCenterIndex(finalPosition, subset.length, ITEM_HEIGHT)],
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Wheel Landing Tests
+ * Checks that the prize wheel lands in the middle of the winner's segment,
+ * before and after re-aiming for the swapped-in winner subset
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  FULL_TURN,
+  angleAt,
+  landingAngle,
+  reaimLanding,
+  type LandingSegment,
+} from '../wheel/utils/wheel-landing';
+
+/** Segment under the pointer at an absolute wheel angle */
+const segmentAt = (angle: number, total: number) =>
+  Math.floor((((angle % FULL_TURN) + FULL_TURN) % FULL_TURN) / (FULL_TURN / total));
+
+describe('landingAngle', () => {
+  it.each([
+    [0, 12],
+    [11, 12],
+    [1, 2],
+    [0, 1],
+  ])('should land segment %i of %i after at least one full turn', (index, total) => {
+    const target = landingAngle(3, 3 + 10 * FULL_TURN, index, total);
+
+    expect(segmentAt(target, total)).toBe(index);
+    expect(target - 3).toBeGreaterThanOrEqual(FULL_TURN);
+  });
+
+  it('should land in the middle of the segment', () => {
+    const target = landingAngle(0, 5 * FULL_TURN, 2, 8);
+
+    expect(target % FULL_TURN).toBeCloseTo(2.5 * (FULL_TURN / 8));
+  });
+});
+
+describe('reaimLanding', () => {
+  const initial: LandingSegment = {
+    from: 0,
+    to: landingAngle(0, 20 * FULL_TURN, 5, 10),
+    easeFrom: 0,
+  };
+
+  it('should continue from the current angle without a jump', () => {
+    const eased = 0.3;
+    const angle = angleAt(initial, eased);
+    const reaimed = reaimLanding(initial, angle, eased, 17, 40);
+
+    expect(angleAt(reaimed, eased)).toBeCloseTo(angle);
+    expect(angleAt(reaimed, 1)).toBe(reaimed.to);
+  });
+
+  it('should land on the winner in the swapped subset', () => {
+    const eased = 0.2;
+    const angle = angleAt(initial, eased);
+    const reaimed = reaimLanding(initial, angle, eased, 17, 40);
+
+    expect(segmentAt(reaimed.to, 40)).toBe(17);
+    expect(reaimed.to - angle).toBeGreaterThanOrEqual(FULL_TURN);
+  });
+
+  it('should keep roughly the planned distance left to travel', () => {
+    const eased = 0.1;
+    const angle = angleAt(initial, eased);
+    const reaimed = reaimLanding(initial, angle, eased, 0, 3);
+
+    expect(Math.abs(reaimed.to - initial.to)).toBeLessThanOrEqual(FULL_TURN);
+  });
+});
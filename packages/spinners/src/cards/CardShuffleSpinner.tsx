@@ -0,0 +1,165 @@
+/**
+ * Card Shuffle Spinner Component
+ *
+ * A card-based alternative to the slot machine. A deck of face-down
+ * participant cards is shuffled, narrowed down in elimination rounds where
+ * the losing cards flip face up, and the last card is flipped to reveal the
+ * winner.
+ *
+ * Features:
+ * - Deals at most 12 cards, so competitions of any size draw instantly
+ * - Timeline eased with the configured bezier curve and spin duration
+ * - Customizable theme colours and fonts
+ * - Canvas-based rendering for smooth performance
+ *
+ * @module CardShuffleSpinner
+ * @category Components
+ */
+
+import { useRef, useEffect, useCallback } from 'react';
+import { convertTheme, findTicketIndex, type InternalThemeSettings } from '@drawday/utils';
+import { useCardShuffleAnimation } from './hooks/useCardShuffleAnimation';
+import { useCardShuffleRenderer } from './hooks/useCardShuffleRenderer';
+import { buildCardPlan, type CardPlan } from './utils/card-plan';
+import { BaseSpinnerProps, DEFAULT_SPINNER_THEME } from '../types';
+
+// Visual constants
+const CANVAS_WIDTH = 366;
+const CANVAS_HEIGHT = 416;
+const MAX_DECK_SIZE = 12;
+
+export interface CardShuffleSpinnerProps extends BaseSpinnerProps {
+  /** Optional width for the canvas */
+  canvasWidth?: number;
+  /** Optional height for the canvas */
+  canvasHeight?: number;
+}
+
+/**
+ * CardShuffleSpinner Component
+ *
+ * Renders an animated card shuffle for participant selection and reports the
+ * winner through onSpinComplete, exactly like SlotMachineWheel.
+ *
+ * @param props - Component properties
+ * @param props.participants - Array of participants to draw from
+ * @param props.targetTicketNumber - Winning ticket number to reveal
+ * @param props.settings - Animation settings (duration, bezier curve)
+ * @param props.isSpinning - Controls animation state
+ * @param props.onSpinComplete - Callback when the winner card is revealed
+ * @param props.onError - Error handler callback
+ * @param props.theme - Visual theme configuration
+ *
+ * @example
+ * ```tsx
+ * <CardShuffleSpinner
+ *   participants={participants}
+ *   targetTicketNumber="123"
+ *   settings={{ minSpinDuration: 3, decelerationRate: 'medium' }}
+ *   isSpinning={isSpinning}
+ *   onSpinComplete={(winner) => console.log('Winner:', winner)}
+ * />
+ * ```
+ */
+export function CardShuffleSpinner({
+  participants,
+  targetTicketNumber = '',
+  settings,
+  isSpinning,
+  onSpinComplete,
+  onError,
+  theme = DEFAULT_SPINNER_THEME,
+  className,
+  canvasWidth = CANVAS_WIDTH,
+  canvasHeight = CANVAS_HEIGHT,
+  resolution = 1,
+}: CardShuffleSpinnerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isAnimatingRef = useRef(false);
+  const planRef = useRef<CardPlan | null>(null);
+  const progressRef = useRef(0);
+
+  // Convert theme to internal format
+  const internalTheme: InternalThemeSettings = convertTheme(theme);
+  const idleCount = Math.min(participants.length, MAX_DECK_SIZE);
+
+  const { drawCards } = useCardShuffleRenderer({
+    canvasWidth,
+    canvasHeight,
+    resolution,
+    theme: internalTheme,
+  });
+
+  const handleFrame = useCallback(
+    (progress: number) => {
+      progressRef.current = progress;
+      drawCards(canvasRef, planRef.current, idleCount, progress);
+    },
+    [drawCards, idleCount]
+  );
+
+  const handleComplete = useCallback(() => {
+    isAnimatingRef.current = false;
+    // Report the winner from the full list, not the dealt deck
+    const actualWinner = participants[findTicketIndex(participants, targetTicketNumber)];
+    if (actualWinner) {
+      onSpinComplete(actualWinner);
+    } else if (onError) {
+      onError(`Ticket ${targetTicketNumber} not found`);
+    }
+  }, [participants, targetTicketNumber, onSpinComplete, onError]);
+
+  const { start, cancel } = useCardShuffleAnimation({
+    settings,
+    onFrame: handleFrame,
+    onComplete: handleComplete,
+  });
+
+  // A new competition deals a fresh face-down deck
+  useEffect(() => {
+    planRef.current = null;
+    progressRef.current = 0;
+  }, [participants]);
+
+  // Handle spin start/stop
+  useEffect(() => {
+    if (isSpinning && !isAnimatingRef.current) {
+      if (participants.length === 0) {
+        onError?.('No participants available');
+        return;
+      }
+
+      const plan = buildCardPlan(participants, targetTicketNumber, MAX_DECK_SIZE);
+      if (!plan) {
+        onError?.(`Ticket ${targetTicketNumber} not found`);
+        return;
+      }
+
+      isAnimatingRef.current = true;
+      planRef.current = plan;
+      start();
+    } else if (!isSpinning && isAnimatingRef.current) {
+      isAnimatingRef.current = false;
+      cancel();
+    }
+  }, [isSpinning, participants, targetTicketNumber, start, cancel, onError]);
+
+  // Redraw when the deck or theme changes
+  useEffect(() => {
+    if (!isAnimatingRef.current) {
+      drawCards(canvasRef, planRef.current, idleCount, progressRef.current);
+    }
+  }, [drawCards, idleCount]);
+
+  return (
+    <div className={`inline-flex ${className || ''}`} style={{ background: 'transparent' }}>
+      <canvas
+        ref={canvasRef}
+        width={Math.round(canvasWidth * resolution)}
+        height={Math.round(canvasHeight * resolution)}
+        className="block"
+        style={{ width: canvasWidth, height: canvasHeight, background: 'transparent' }}
+      />
+    </div>
+  );
+}
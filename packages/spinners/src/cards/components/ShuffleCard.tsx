@@ -0,0 +1,132 @@
+/**
+ * Shuffle Card Component
+ *
+ * Purpose: Renders a single playing card of the card shuffle spinner, either
+ * face down (themed card back) or face up (participant name and ticket).
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (visual representation)
+ */
+
+import { Participant } from '@raffle-spinner/storage';
+import { adjustBrightness, type InternalThemeSettings } from '@drawday/utils';
+import { CARD_HEIGHT, CARD_WIDTH, type CardFrame } from '../utils/card-frames';
+
+interface ShuffleCardProps {
+  ctx: CanvasRenderingContext2D;
+  frame: CardFrame;
+  /** Participant printed on the face; null cards can only be shown face down */
+  participant: Participant | null;
+  theme: InternalThemeSettings;
+}
+
+const CORNER_RADIUS = 8;
+
+const nameSizes = {
+  small: 10,
+  medium: 11,
+  large: 12,
+  'extra-large': 14,
+};
+const ticketSizes = {
+  small: 13,
+  medium: 15,
+  large: 17,
+  'extra-large': 19,
+};
+
+function traceCard(ctx: CanvasRenderingContext2D) {
+  const x = -CARD_WIDTH / 2;
+  const y = -CARD_HEIGHT / 2;
+  ctx.beginPath();
+  ctx.moveTo(x + CORNER_RADIUS, y);
+  ctx.arcTo(x + CARD_WIDTH, y, x + CARD_WIDTH, y + CARD_HEIGHT, CORNER_RADIUS);
+  ctx.arcTo(x + CARD_WIDTH, y + CARD_HEIGHT, x, y + CARD_HEIGHT, CORNER_RADIUS);
+  ctx.arcTo(x, y + CARD_HEIGHT, x, y, CORNER_RADIUS);
+  ctx.arcTo(x, y, x + CARD_WIDTH, y, CORNER_RADIUS);
+  ctx.closePath();
+}
+
+function drawCardBack(ctx: CanvasRenderingContext2D, theme: InternalThemeSettings) {
+  const style = theme.spinnerStyle;
+  const gradient = ctx.createLinearGradient(0, -CARD_HEIGHT / 2, 0, CARD_HEIGHT / 2);
+  gradient.addColorStop(0, adjustBrightness(style.backgroundColor, 20));
+  gradient.addColorStop(1, adjustBrightness(style.backgroundColor, -20));
+  ctx.fillStyle = gradient;
+  ctx.fill();
+
+  // Diamond emblem in the highlight colour
+  ctx.fillStyle = style.highlightColor;
+  ctx.beginPath();
+  ctx.moveTo(0, -18);
+  ctx.lineTo(12, 0);
+  ctx.lineTo(0, 18);
+  ctx.lineTo(-12, 0);
+  ctx.closePath();
+  ctx.fill();
+
+  // Inner frame
+  ctx.strokeStyle = adjustBrightness(style.borderColor, -40);
+  ctx.lineWidth = 1;
+  ctx.strokeRect(-CARD_WIDTH / 2 + 6, -CARD_HEIGHT / 2 + 6, CARD_WIDTH - 12, CARD_HEIGHT - 12);
+}
+
+function drawCardFace(
+  ctx: CanvasRenderingContext2D,
+  participant: Participant,
+  theme: InternalThemeSettings
+) {
+  const style = theme.spinnerStyle;
+  const fontFamily = style.fontFamily || 'sans-serif';
+  const textWidth = CARD_WIDTH - 10;
+
+  ctx.fillStyle = adjustBrightness(style.backgroundColor, 35);
+  ctx.fill();
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  ctx.fillStyle = style.ticketColor;
+  ctx.font = `bold ${ticketSizes[style.ticketSize]}px ${fontFamily}`;
+  ctx.fillText(`#${participant.ticketNumber}`, 0, -16, textWidth);
+
+  ctx.fillStyle = style.nameColor;
+  ctx.font = `${nameSizes[style.nameSize]}px ${fontFamily}`;
+  ctx.fillText(participant.firstName, 0, 10, textWidth);
+  ctx.fillText(participant.lastName, 0, 26, textWidth);
+}
+
+/**
+ * Draws a card at its current frame. The flip is rendered by squeezing the
+ * card horizontally; the face replaces the back half way through.
+ */
+export function drawShuffleCard({ ctx, frame, participant, theme }: ShuffleCardProps) {
+  const showFace = frame.flip > 0.5 && participant !== null;
+  const squeeze = Math.max(0.02, Math.abs(Math.cos(Math.PI * frame.flip)));
+
+  ctx.save();
+  ctx.globalAlpha = frame.opacity;
+  ctx.translate(frame.x, frame.y);
+  ctx.scale(frame.scale * squeeze, frame.scale);
+
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
+  ctx.shadowBlur = 8;
+  ctx.shadowOffsetY = 3;
+  traceCard(ctx);
+  ctx.fillStyle = theme.spinnerStyle.backgroundColor;
+  ctx.fill();
+  ctx.shadowColor = 'transparent';
+
+  if (showFace && participant) {
+    drawCardFace(ctx, participant, theme);
+  } else {
+    drawCardBack(ctx, theme);
+  }
+
+  traceCard(ctx);
+  ctx.strokeStyle = theme.spinnerStyle.borderColor;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  ctx.restore();
+}
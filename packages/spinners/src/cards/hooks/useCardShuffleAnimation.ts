@@ -0,0 +1,81 @@
+/**
+ * useCardShuffleAnimation Hook
+ *
+ * Drives the card shuffle timeline. Progress runs over the configured spin
+ * duration and is eased with the user's bezier curve (falling back to the
+ * deceleration preset) so the shuffle is quick and the final reveal lingers.
+ */
+
+import { useCallback, useRef } from 'react';
+import { SpinnerSettings } from '@raffle-spinner/storage';
+import { createBezierEasing, easingFunctions } from '@raffle-spinner/spinner-physics';
+
+interface CardShuffleAnimationOptions {
+  settings: SpinnerSettings;
+  onFrame: (progress: number) => void;
+  onComplete: () => void;
+}
+
+interface AnimationControls {
+  start: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Resolves the easing function for the current spinner settings
+ */
+export function getSettingsEasing(settings: SpinnerSettings): (t: number) => number {
+  if (settings.bezierCurve) {
+    const { x1, y1, x2, y2 } = settings.bezierCurve;
+    return createBezierEasing(x1, y1, x2, y2);
+  }
+  return easingFunctions[settings.decelerationRate];
+}
+
+export function useCardShuffleAnimation({
+  settings,
+  onFrame,
+  onComplete,
+}: CardShuffleAnimationOptions): AnimationControls {
+  const animationRef = useRef<number | null>(null);
+
+  /**
+   * Cancel any ongoing animation
+   */
+  const cancel = useCallback(() => {
+    if (animationRef.current) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Start the shuffle timeline from the beginning
+   */
+  const start = useCallback(() => {
+    cancel();
+
+    const duration = settings.minSpinDuration * 1000;
+    const easing = getSettingsEasing(settings);
+    const startTime = performance.now();
+
+    const animate = (currentTime: number) => {
+      const progress = Math.min((currentTime - startTime) / duration, 1);
+      onFrame(easing(progress));
+
+      if (progress < 1) {
+        animationRef.current = requestAnimationFrame(animate);
+      } else {
+        animationRef.current = null;
+        onComplete();
+      }
+    };
+
+    animationRef.current = requestAnimationFrame(animate);
+  }, [settings, onFrame, onComplete, cancel]);
+
+  return {
+    start,
+    cancel,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Custom hook for card shuffle rendering logic
+ * Draws every card of the deck at its frame for the current progress
+ */
+
+import { useCallback } from 'react';
+import type { InternalThemeSettings } from '@drawday/utils';
+import { drawShuffleCard } from '../components/ShuffleCard';
+import { getCardFrame, getCardSlots, type CardFrame } from '../utils/card-frames';
+import type { CardPlan } from '../utils/card-plan';
+
+export interface UseCardShuffleRendererProps {
+  canvasWidth: number;
+  canvasHeight: number;
+  resolution?: number;
+  theme: InternalThemeSettings;
+}
+
+export function useCardShuffleRenderer({
+  canvasWidth,
+  canvasHeight,
+  resolution = 1,
+  theme,
+}: UseCardShuffleRendererProps) {
+  /**
+   * Draws the deck. Without a plan (before the first draw) the cards are
+   * dealt face down in their grid slots.
+   *
+   * @param canvasRef - Reference to the canvas element
+   * @param plan - Plan of the current draw, or null when idle
+   * @param idleCount - Number of face-down cards to show when idle
+   * @param progress - Eased draw progress (0-1)
+   */
+  const drawCards = useCallback(
+    (
+      canvasRef: React.RefObject<HTMLCanvasElement>,
+      plan: CardPlan | null,
+      idleCount: number,
+      progress: number
+    ) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      ctx.setTransform(resolution, 0, 0, resolution, 0, 0);
+      ctx.clearRect(0, 0, canvasWidth, canvasHeight);
+
+      const count = plan ? plan.deck.length : idleCount;
+      if (count === 0) return;
+
+      const slots = getCardSlots(count, canvasWidth, canvasHeight);
+
+      if (!plan) {
+        slots.forEach((slot) => {
+          const frame: CardFrame = { ...slot, scale: 1, flip: 0, opacity: 1 };
+          drawShuffleCard({ ctx, frame, participant: null, theme });
+        });
+        return;
+      }
+
+      const center = { x: canvasWidth / 2, y: canvasHeight / 2 };
+      const frames = plan.deck.map((_, i) => getCardFrame(plan, i, progress, slots, center));
+
+      // Knocked-out cards first, the winner last so it is revealed on top
+      const drawOrder = plan.deck
+        .map((_, i) => i)
+        .filter((i) => i !== plan.winnerIndex)
+        .sort((a, b) => frames[a].opacity - frames[b].opacity);
+      drawOrder.push(plan.winnerIndex);
+
+      drawOrder.forEach((i) => {
+        drawShuffleCard({ ctx, frame: frames[i], participant: plan.deck[i], theme });
+      });
+    },
+    [canvasWidth, canvasHeight, resolution, theme]
+  );
+
+  return { drawCards };
+}
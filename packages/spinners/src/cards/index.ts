@@ -0,0 +1,14 @@
+/**
+ * Card Shuffle Spinner Module
+ *
+ * Exports all components and hooks related to the card shuffle spinner
+ */
+
+export { CardShuffleSpinner } from './CardShuffleSpinner';
+export type { CardShuffleSpinnerProps } from './CardShuffleSpinner';
+
+export { useCardShuffleAnimation } from './hooks/useCardShuffleAnimation';
+
+export { drawShuffleCard } from './components/ShuffleCard';
+export { buildCardPlan } from './utils/card-plan';
+export type { CardPlan } from './utils/card-plan';
@@ -0,0 +1,113 @@
+/**
+ * Card Shuffle Frames
+ *
+ * Derives the position, scale, flip and opacity of every card from the eased
+ * progress of the draw. The draw plays in three phases:
+ * shuffle (cards trade places), elimination rounds (losing cards flip face up
+ * and fade) and the reveal (the last card moves to the centre and flips).
+ */
+
+import type { CardPlan } from './card-plan';
+
+export interface CardSlot {
+  x: number;
+  y: number;
+}
+
+export interface CardFrame extends CardSlot {
+  /** Size multiplier relative to the base card size */
+  scale: number;
+  /** 0 = face down, 1 = face up; the face shows once past 0.5 */
+  flip: number;
+  opacity: number;
+}
+
+export const CARD_WIDTH = 72;
+export const CARD_HEIGHT = 100;
+const CARD_GAP = 16;
+
+// Phase boundaries on the eased progress (0-1)
+const SHUFFLE_END = 0.4;
+const REVEAL_START = 0.85;
+const FLIP_START = 0.93;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+const smoothstep = (value: number) => {
+  const x = clamp01(value);
+  return x * x * (3 - 2 * x);
+};
+const lerp = (from: number, to: number, amount: number) => from + (to - from) * amount;
+
+/**
+ * Lays out card centres in a grid centred on the canvas
+ */
+export function getCardSlots(count: number, width: number, height: number): CardSlot[] {
+  const columns = count <= 4 ? count : count <= 6 ? 3 : 4;
+  const rows = Math.ceil(count / columns);
+  const gridWidth = columns * CARD_WIDTH + (columns - 1) * CARD_GAP;
+  const gridHeight = rows * CARD_HEIGHT + (rows - 1) * CARD_GAP;
+  const left = (width - gridWidth) / 2 + CARD_WIDTH / 2;
+  const top = (height - gridHeight) / 2 + CARD_HEIGHT / 2;
+
+  return Array.from({ length: count }, (_, i) => ({
+    x: left + (i % columns) * (CARD_WIDTH + CARD_GAP),
+    y: top + Math.floor(i / columns) * (CARD_HEIGHT + CARD_GAP),
+  }));
+}
+
+/**
+ * Computes the frame of a single card at the given eased progress
+ *
+ * @param plan - Plan created at spin start
+ * @param cardIndex - Index of the card within the deck
+ * @param progress - Eased draw progress (0-1)
+ * @param slots - Grid slots from getCardSlots
+ * @param center - Point the winning card is revealed at
+ */
+export function getCardFrame(
+  plan: CardPlan,
+  cardIndex: number,
+  progress: number,
+  slots: CardSlot[],
+  center: CardSlot
+): CardFrame {
+  const steps = plan.shuffles.length - 1;
+  const restingSlot = slots[plan.shuffles[steps][cardIndex]];
+
+  if (progress < SHUFFLE_END) {
+    const stepProgress = (progress / SHUFFLE_END) * steps;
+    const step = Math.min(Math.floor(stepProgress), steps - 1);
+    const amount = smoothstep(stepProgress - step);
+    const from = slots[plan.shuffles[step][cardIndex]];
+    const to = slots[plan.shuffles[step + 1][cardIndex]];
+    return {
+      x: lerp(from.x, to.x, amount),
+      y: lerp(from.y, to.y, amount),
+      scale: 1 + 0.12 * Math.sin(Math.PI * amount),
+      flip: 0,
+      opacity: 1,
+    };
+  }
+
+  const round = plan.eliminationRound[cardIndex];
+  if (round >= 0) {
+    const roundLength = (REVEAL_START - SHUFFLE_END) / plan.rounds;
+    const local = (progress - SHUFFLE_END - round * roundLength) / roundLength;
+    const fade = smoothstep(local * 2 - 1);
+    return {
+      ...restingSlot,
+      scale: 1 - 0.15 * fade,
+      flip: smoothstep(local * 2),
+      opacity: 1 - 0.65 * fade,
+    };
+  }
+
+  const move = smoothstep((progress - REVEAL_START) / (FLIP_START - REVEAL_START));
+  return {
+    x: lerp(restingSlot.x, center.x, move),
+    y: lerp(restingSlot.y, center.y, move),
+    scale: 1 + 0.8 * move,
+    flip: smoothstep((progress - FLIP_START) / (1 - FLIP_START)),
+    opacity: 1,
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Card Shuffle Plan
+ *
+ * Pure helpers that decide which cards are dealt, how they are shuffled and
+ * in which round each card is knocked out. Everything random is decided once
+ * at spin start so that every frame can be derived from the eased progress.
+ */
+
+import { Participant } from '@raffle-spinner/storage';
+import { findTicketIndex } from '@drawday/utils';
+
+export interface CardPlan {
+  /** Participants dealt face down, including the winner */
+  deck: Participant[];
+  /** Index of the winner within the deck */
+  winnerIndex: number;
+  /** Slot occupied by each card after every shuffle step (step 0 is the deal) */
+  shuffles: number[][];
+  /** Round in which each card is eliminated (-1 for the winner) */
+  eliminationRound: number[];
+  /** Number of elimination rounds */
+  rounds: number;
+}
+
+const SHUFFLE_STEPS = 6;
+
+/**
+ * Fisher-Yates shuffle returning a new array
+ */
+function shuffled<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Picks `count` distinct participants (other than the winner) without
+ * copying the full list, so that large competitions stay cheap.
+ */
+function pickOthers(
+  participants: Participant[],
+  winnerPosition: number,
+  count: number,
+  random: () => number
+): Participant[] {
+  const picked = new Set<number>([winnerPosition]);
+  while (picked.size < count + 1) {
+    picked.add(Math.floor(random() * participants.length));
+  }
+  picked.delete(winnerPosition);
+  return [...picked].map((index) => participants[index]);
+}
+
+/**
+ * Splits the losing cards into rounds, knocking out half of the remaining
+ * losers each round until only the winner is left.
+ */
+function planEliminations(deckSize: number, winnerIndex: number, random: () => number) {
+  const eliminationRound = new Array<number>(deckSize).fill(-1);
+  let remaining = shuffled(
+    Array.from({ length: deckSize }, (_, i) => i).filter((i) => i !== winnerIndex),
+    random
+  );
+  let rounds = 0;
+
+  while (remaining.length > 0) {
+    const knockedOut = remaining.slice(0, Math.ceil(remaining.length / 2));
+    knockedOut.forEach((cardIndex) => {
+      eliminationRound[cardIndex] = rounds;
+    });
+    remaining = remaining.slice(knockedOut.length);
+    rounds++;
+  }
+
+  return { eliminationRound, rounds };
+}
+
+/**
+ * Builds the complete plan for one card shuffle draw.
+ *
+ * @param participants - Full participant list of the competition
+ * @param targetTicketNumber - Winning ticket number
+ * @param maxDeckSize - Maximum number of cards dealt
+ * @param random - Random source (defaults to Math.random)
+ * @returns The plan, or null when the ticket is not in the competition
+ */
+export function buildCardPlan(
+  participants: Participant[],
+  targetTicketNumber: string,
+  maxDeckSize: number,
+  random: () => number = Math.random
+): CardPlan | null {
+  const winnerPosition = findTicketIndex(participants, targetTicketNumber);
+  if (winnerPosition === -1) return null;
+
+  const deckSize = Math.min(participants.length, maxDeckSize);
+  const winner = participants[winnerPosition];
+  const deck = shuffled(
+    [winner, ...pickOthers(participants, winnerPosition, deckSize - 1, random)],
+    random
+  );
+  const winnerIndex = deck.indexOf(winner);
+
+  const slots = Array.from({ length: deckSize }, (_, i) => i);
+  const shuffles = [slots];
+  for (let step = 0; step < SHUFFLE_STEPS; step++) {
+    shuffles.push(shuffled(slots, random));
+  }
+
+  return {
+    deck,
+    winnerIndex,
+    shuffles,
+    ...planEliminations(deckSize, winnerIndex, random),
+  };
+}
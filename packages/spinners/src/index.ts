@@ -10,3 +10,9 @@ export * from './types';
 
 // Export slot machine spinner
 export * from './slot-machine';
+
+// Export prize wheel spinner
+export * from './wheel';
+
+// Export card shuffle spinner
+export * from './cards';
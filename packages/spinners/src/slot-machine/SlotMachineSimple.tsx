@@ -11,7 +11,7 @@
 
 import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { Participant } from '@raffle-spinner/storage';
-import { normalizeTicketNumber } from '@drawday/utils';
+import { compareTicketNumbers, findTicketIndex } from '@drawday/utils';
 import { drawSlotMachineSegment } from './components/SlotMachineSegment';
 import { drawSlotMachineFrame } from './components/SlotMachineFrame';
 import { BaseSpinnerProps } from '../types';
@@ -128,6 +128,7 @@ export function SlotMachineSimple({
   settings,
   rotations = 5,
   bezierCurve = DEFAULT_BEZIER,
+  resolution = 1,
 }: SlotMachineSimpleProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [displaySubset, setDisplaySubset] = useState<Participant[]>([]);
@@ -142,11 +143,7 @@ export function SlotMachineSimple({
 
   // Sort participants by ticket number
   const sortedParticipants = useMemo(() => {
-    return [...participants].sort((a, b) => {
-      const aNum = normalizeTicketNumber(a.ticketNumber);
-      const bNum = normalizeTicketNumber(b.ticketNumber);
-      return aNum.localeCompare(bNum, undefined, { numeric: true });
-    });
+    return [...participants].sort((a, b) => compareTicketNumbers(a.ticketNumber, b.ticketNumber));
   }, [participants]);
 
   // Create subset with winner at index 0
@@ -155,10 +152,7 @@ export function SlotMachineSimple({
       return sortedParticipants.slice(0, SUBSET_SIZE);
     }
 
-    const normalizedTarget = normalizeTicketNumber(targetTicketNumber);
-    const winnerIndex = sortedParticipants.findIndex(
-      (p) => normalizeTicketNumber(p.ticketNumber) === normalizedTarget
-    );
+    const winnerIndex = findTicketIndex(sortedParticipants, targetTicketNumber);
 
     if (winnerIndex === -1) {
       // Winner not found
@@ -238,6 +232,7 @@ export function SlotMachineSimple({
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
+      ctx.setTransform(resolution, 0, 0, resolution, 0, 0);
       ctx.clearRect(0, 0, canvasWidth, canvasHeight);
       ctx.save();
 
@@ -289,7 +284,7 @@ export function SlotMachineSimple({
         theme: internalTheme,
       });
     },
-    [displaySubset, internalTheme, canvasWidth, canvasHeight]
+    [displaySubset, internalTheme, canvasWidth, canvasHeight, resolution]
   );
 
   // Redraw when position changes
@@ -361,8 +356,8 @@ export function SlotMachineSimple({
     <div className="slot-machine-container">
       <canvas
         ref={canvasRef}
-        width={canvasWidth}
-        height={canvasHeight}
+        width={Math.round(canvasWidth * resolution)}
+        height={Math.round(canvasHeight * resolution)}
         className="slot-machine-canvas"
         style={{ width: `${canvasWidth}px`, height: `${canvasHeight}px` }}
       />
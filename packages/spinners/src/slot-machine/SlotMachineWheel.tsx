@@ -27,6 +27,7 @@ const ITEM_HEIGHT = 80;
 const FRAME_BORDER_WIDTH = 8;
 const CANVAS_WIDTH = 350 + FRAME_BORDER_WIDTH * 2; // WHEEL_WIDTH + borders
 const CANVAS_HEIGHT = 5 * 80 + FRAME_BORDER_WIDTH * 2; // VIEWPORT_HEIGHT + borders
+const CANVAS_STYLE = { imageRendering: 'crisp-edges', background: 'transparent' } as const;
 
 export interface SlotMachineWheelProps extends BaseSpinnerProps {
   /** Optional width for the canvas */
@@ -51,6 +52,7 @@ export interface SlotMachineWheelProps extends BaseSpinnerProps {
  * @param props.isSpinning - Controls animation state
  * @param props.onSpinComplete - Callback when spin animation completes
  * @param props.onError - Error handler callback
+ * @param props.onTick - Called as tickets pass the center line
  * @param props.theme - Visual theme configuration
  * @param props.canvasWidth - Canvas width in pixels (default: 400)
  * @param props.canvasHeight - Canvas height in pixels (default: 500)
@@ -75,11 +77,13 @@ export function SlotMachineWheel({
   isSpinning,
   onSpinComplete,
   onError,
+  onTick,
   theme = DEFAULT_SPINNER_THEME,
   className,
   canvasWidth = CANVAS_WIDTH,
   canvasHeight = CANVAS_HEIGHT,
   showDebug = false,
+  resolution = 1,
 }: SlotMachineWheelProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const isAnimatingRef = useRef(false);
@@ -96,6 +100,7 @@ export function SlotMachineWheel({
     findWinnerInFullList,
     finalPositionRef,
     hasSwappedRef,
+    subsetRef,
   } = useSubsetManager({
     participants,
     targetTicketNumber,
@@ -106,16 +111,11 @@ export function SlotMachineWheel({
   const { drawWheel } = useWheelRenderer({
     canvasWidth,
     canvasHeight,
+    resolution,
     showDebug,
     theme: internalTheme,
   });
 
-  // Store current subset in a ref for animation to access
-  const currentSubsetRef = useRef(displaySubset);
-  useEffect(() => {
-    currentSubsetRef.current = displaySubset;
-  }, [displaySubset]);
-
   // Animation hook with subset
   const { spin, cancel } = useSlotMachineAnimation({
     participants: displaySubset,
@@ -141,11 +141,12 @@ export function SlotMachineWheel({
     onPositionUpdate: (pos: number) => {
       setPosition(pos);
       finalPositionRef.current = pos; // Always store the latest position
-      drawWheel(canvasRef, pos, currentSubsetRef.current);
+      drawWheel(canvasRef, pos, subsetRef.current);
     },
     onMaxVelocity: handleMaxVelocity,
+    onTick,
     itemHeight: ITEM_HEIGHT,
-    getParticipants: () => currentSubsetRef.current,
+    getParticipants: () => subsetRef.current,
   });
 
   // Handle spin start/stop
@@ -178,13 +179,10 @@ export function SlotMachineWheel({
     >
       <canvas
         ref={canvasRef}
-        width={canvasWidth}
-        height={canvasHeight}
+        width={Math.round(canvasWidth * resolution)}
+        height={Math.round(canvasHeight * resolution)}
         className="block"
-        style={{
-          imageRendering: 'crisp-edges',
-          background: 'transparent',
-        }}
+        style={{ width: canvasWidth, height: canvasHeight, ...CANVAS_STYLE }}
       />
     </div>
   );
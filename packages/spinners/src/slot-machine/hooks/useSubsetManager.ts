@@ -5,22 +5,29 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Participant } from '@raffle-spinner/storage';
-import { normalizeTicketNumber } from '@drawday/utils';
+import {
+  createInitialSubset,
+  createWinnerSubset as buildWinnerSubset,
+  findTicketIndex,
+  sortParticipants,
+} from '../utils/subsets';
 
 export interface UseSubsetManagerProps {
   participants: Participant[];
   targetTicketNumber: string;
   itemHeight: number;
+  /** Number of entries kept on the wheel at once (defaults to 100) */
+  subsetSize?: number;
 }
 
 // Subset configuration constants
 const SUBSET_SIZE = 100; // Total entries to show in the wheel (50 first + 50 last)
-const SUBSET_HALF = 50; // Half of the subset size
 
 export function useSubsetManager({
   participants,
   targetTicketNumber,
   itemHeight,
+  subsetSize = SUBSET_SIZE,
 }: UseSubsetManagerProps) {
   const [displaySubset, setDisplaySubset] = useState<Participant[]>([]);
   const [position, setPosition] = useState(0);
@@ -29,15 +36,17 @@ export function useSubsetManager({
   const hasInitializedRef = useRef(false);
   const lastParticipantsRef = useRef(participants);
   const finalPositionRef = useRef<number | null>(null);
+  // Mirrors displaySubset without waiting for a render, so the animation
+  // sees the winner subset in the same frame it is swapped in
+  const subsetRef = useRef<Participant[]>([]);
+
+  const showSubset = useCallback((subset: Participant[]) => {
+    subsetRef.current = subset;
+    setDisplaySubset(subset);
+  }, []);
 
   // Sort participants by ticket number to get consistent ordering - MEMOIZED
-  const sortedParticipants = useMemo(() => {
-    return [...participants].sort((a, b) => {
-      const aNum = parseInt(a.ticketNumber.replace(/\D/g, '')) || 0;
-      const bNum = parseInt(b.ticketNumber.replace(/\D/g, '')) || 0;
-      return aNum - bNum;
-    });
-  }, [participants]);
+  const sortedParticipants = useMemo(() => sortParticipants(participants), [participants]);
 
   /**
    * Creates a new subset with the winner positioned for optimal animation.
@@ -46,55 +55,10 @@ export function useSubsetManager({
    *
    * @returns Subset of participants with winner positioned centrally
    */
-  const createWinnerSubset = useCallback(() => {
-    // Find the winner in sorted participants
-    const normalizedTarget = normalizeTicketNumber(targetTicketNumber);
-    const winnerIndex = sortedParticipants.findIndex(
-      (p) => normalizeTicketNumber(p.ticketNumber) === normalizedTarget
-    );
-
-    if (winnerIndex === -1) {
-      // Winner not found - shouldn't happen as validation is in SidePanel
-      // Fallback to initial subset pattern
-      if (sortedParticipants.length <= SUBSET_SIZE) {
-        return sortedParticipants;
-      }
-      const firstHalf = sortedParticipants.slice(0, SUBSET_HALF);
-      const lastHalf = sortedParticipants.slice(-SUBSET_HALF);
-      return [...firstHalf, ...lastHalf];
-    }
-
-    // If we have 100 or fewer participants, return all of them
-    if (sortedParticipants.length <= SUBSET_SIZE) {
-      return [...sortedParticipants];
-    }
-
-    // Create subset with winner approximately in the middle
-    const subset: Participant[] = [];
-    const halfSize = Math.floor(SUBSET_SIZE / 2);
-
-    // Calculate start index to center the winner
-    const startIdx = winnerIndex - halfSize;
-
-    if (startIdx < 0) {
-      // Winner is in the first half, need to wrap around from the end
-      // Fix: properly handle negative indices by adding array length
-      const wrapStartIdx = sortedParticipants.length + startIdx;
-      const fromEnd = sortedParticipants.slice(wrapStartIdx);
-      const fromStart = sortedParticipants.slice(0, winnerIndex + halfSize);
-      subset.push(...fromEnd, ...fromStart);
-    } else if (startIdx + SUBSET_SIZE > sortedParticipants.length) {
-      // Winner is in the last half, need to wrap around to the beginning
-      const fromMiddle = sortedParticipants.slice(startIdx);
-      const fromBeginning = sortedParticipants.slice(0, SUBSET_SIZE - fromMiddle.length);
-      subset.push(...fromMiddle, ...fromBeginning);
-    } else {
-      // Winner is in the middle, can take a continuous slice
-      subset.push(...sortedParticipants.slice(startIdx, startIdx + SUBSET_SIZE));
-    }
-
-    return subset;
-  }, [sortedParticipants, targetTicketNumber]);
+  const createWinnerSubset = useCallback(
+    () => buildWinnerSubset(sortedParticipants, targetTicketNumber, subsetSize),
+    [sortedParticipants, targetTicketNumber, subsetSize]
+  );
 
   /**
    * Handles the subset swap at maximum velocity.
@@ -109,18 +73,15 @@ export function useSubsetManager({
       // Swap to winner subset at max velocity
 
       // Find winner's new index in the subset
-      const normalizedTarget = normalizeTicketNumber(targetTicketNumber);
-      const newWinnerIndex = winnerSubset.findIndex(
-        (p) => normalizeTicketNumber(p.ticketNumber) === normalizedTarget
-      );
+      const newWinnerIndex = findTicketIndex(winnerSubset, targetTicketNumber);
 
-      setDisplaySubset(winnerSubset);
+      showSubset(winnerSubset);
 
       // Return the new index so animation can adjust
       return newWinnerIndex;
     }
     return -1;
-  }, [createWinnerSubset, targetTicketNumber]);
+  }, [createWinnerSubset, targetTicketNumber, showSubset]);
 
   /**
    * Finds the winner in the complete participant list.
@@ -129,8 +90,7 @@ export function useSubsetManager({
    * @returns The winning participant or undefined if not found
    */
   const findWinnerInFullList = useCallback(() => {
-    const normalizedTarget = normalizeTicketNumber(targetTicketNumber);
-    return participants.find((p) => normalizeTicketNumber(p.ticketNumber) === normalizedTarget);
+    return participants[findTicketIndex(participants, targetTicketNumber)];
   }, [participants, targetTicketNumber]);
 
   /**
@@ -164,33 +124,9 @@ export function useSubsetManager({
     
     if (sortedParticipants.length > 0) {
       hasInitializedRef.current = true; // Mark as initialized
-      let initialSubset: Participant[];
-
-      if (sortedParticipants.length <= SUBSET_SIZE) {
-        // If we have 100 or fewer participants, use all of them
-        initialSubset = [...sortedParticipants];
-
-        // If we have fewer than SUBSET_SIZE, repeat to fill the wheel
-        if (initialSubset.length < SUBSET_SIZE) {
-          const repeated = [...initialSubset];
-          while (repeated.length < SUBSET_SIZE) {
-            repeated.push(
-              ...sortedParticipants.slice(
-                0,
-                Math.min(sortedParticipants.length, SUBSET_SIZE - repeated.length)
-              )
-            );
-          }
-          initialSubset = repeated;
-        }
-      } else {
-        // Take first 50 and last 50 entries to create wrap-around effect
-        const firstHalf = sortedParticipants.slice(0, SUBSET_HALF);
-        const lastHalf = sortedParticipants.slice(-SUBSET_HALF);
-        initialSubset = [...firstHalf, ...lastHalf];
-      }
+      const initialSubset = createInitialSubset(sortedParticipants, subsetSize);
 
-      setDisplaySubset(initialSubset);
+      showSubset(initialSubset);
 
       // Only set initial position if we don't have a final position stored
       if (finalPositionRef.current === null) {
@@ -201,7 +137,7 @@ export function useSubsetManager({
         setPosition(startPosition);
       }
     }
-  }, [sortedParticipants, itemHeight, resetState]);
+  }, [sortedParticipants, itemHeight, resetState, subsetSize, showSubset]);
 
   return {
     displaySubset,
@@ -212,5 +148,6 @@ export function useSubsetManager({
     resetState,
     finalPositionRef,
     hasSwappedRef,
+    subsetRef,
   };
 }
\ No newline at end of file
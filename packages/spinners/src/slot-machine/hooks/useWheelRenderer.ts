@@ -12,6 +12,7 @@ import { drawSlotMachineFrame } from '../components/SlotMachineFrame';
 export interface UseWheelRendererProps {
   canvasWidth: number;
   canvasHeight: number;
+  resolution?: number;
   showDebug?: boolean;
   theme: InternalThemeSettings;
 }
@@ -28,6 +29,7 @@ export interface WheelRendererConstants {
 export function useWheelRenderer({
   canvasWidth,
   canvasHeight,
+  resolution = 1,
   showDebug = false,
   theme,
 }: UseWheelRendererProps) {
@@ -62,6 +64,7 @@ export function useWheelRenderer({
       if (!ctx) return;
 
       // Clear canvas - make it completely transparent
+      ctx.setTransform(resolution, 0, 0, resolution, 0, 0);
       ctx.clearRect(0, 0, canvasWidth, canvasHeight);
 
       // Define viewport area - now starts at top-left with border
@@ -137,7 +140,11 @@ export function useWheelRenderer({
           ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
           ctx.font = '10px monospace';
           ctx.textAlign = 'left';
-          ctx.fillText(`i=${i}, idx=${participantIndex}`, 10, yPosition + constants.ITEM_HEIGHT / 2);
+          ctx.fillText(
+            `i=${i}, idx=${participantIndex}`,
+            10,
+            yPosition + constants.ITEM_HEIGHT / 2
+          );
           if (isCenter) {
             ctx.fillStyle = 'rgba(255, 0, 0, 0.8)';
             ctx.fillText('← CENTER', 60, yPosition + constants.ITEM_HEIGHT / 2);
@@ -151,9 +158,7 @@ export function useWheelRenderer({
       const bottomShadowOpacity = theme?.spinnerStyle?.bottomShadowOpacity ?? 0.3;
       const shadowSize = (theme?.spinnerStyle?.shadowSize ?? 30) / 100; // Convert percentage to decimal
       const shadowColor =
-        theme?.spinnerStyle?.shadowColor ||
-        theme?.spinnerStyle?.backgroundColor ||
-        '#1a1a1a';
+        theme?.spinnerStyle?.shadowColor || theme?.spinnerStyle?.backgroundColor || '#1a1a1a';
 
       const rgb = hexToRgb(shadowColor);
 
@@ -198,11 +203,11 @@ export function useWheelRenderer({
         theme,
       });
     },
-    [theme, canvasWidth, canvasHeight, showDebug, constants]
+    [theme, canvasWidth, canvasHeight, resolution, showDebug, constants]
   );
 
   return {
     drawWheel,
     constants,
   };
-}
\ No newline at end of file
+}
@@ -14,5 +14,12 @@ export type { SlotMachineSimpleProps } from './SlotMachineSimple';
 
 export { useSlotMachineAnimation } from './hooks/useSlotMachineAnimation';
 
+export { createSlotMachineEngine, getCenterIndex, CENTER_INDEX } from './utils/slot-machine-engine';
+export type {
+  SlotMachineEngine,
+  SlotMachineEngineOptions,
+  SlotMachineFrame,
+} from './utils/slot-machine-engine';
+
 export { drawSlotMachineSegment } from './components/SlotMachineSegment';
 export { drawSlotMachineFrame } from './components/SlotMachineFrame';
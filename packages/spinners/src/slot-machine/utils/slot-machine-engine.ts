@@ -0,0 +1,157 @@
+/**
+ * Slot Machine Engine
+ *
+ * Pure, time-stepped core of the slot machine animation. The engine holds
+ * no timers: every frame the caller passes the current time and gets back
+ * the wheel position, so spins can be replayed frame by frame in tests with
+ * a fake clock.
+ */
+
+import { Participant, PhysicsProfile, SpinnerSettings } from '@raffle-spinner/storage';
+import { createProfileEasing, resolvePhysicsProfile } from '@raffle-spinner/spinner-physics';
+import { logger } from '@drawday/utils';
+import { findTicketIndex } from './subsets';
+
+/** Row of the five visible rows that holds the winner when the wheel stops */
+export const CENTER_INDEX = 2;
+
+// The swap happens in this window of progress after the acceleration phase
+const MIN_SWAP_PROGRESS = 0.05;
+const SWAP_WINDOW = 0.1;
+// Progress treated as the end of the spin
+const COMPLETE_PROGRESS = 0.999;
+
+export interface SlotMachineEngineOptions {
+  /** Entries on the wheel when the spin starts */
+  participants: Participant[];
+  targetTicketNumber: string;
+  settings: SpinnerSettings;
+  itemHeight: number;
+  /** Time the spin starts, in milliseconds */
+  startTime: number;
+  /** Returns the entries currently on the wheel */
+  getParticipants?: () => Participant[];
+  /** Swaps in the winner subset, returning the winner's index or -1 */
+  onMaxVelocity?: () => number;
+}
+
+export interface SlotMachineFrame {
+  /** Scroll position of the wheel in pixels */
+  position: number;
+  /** Progress through the current part of the spin (0-1) */
+  progress: number;
+  done: boolean;
+}
+
+export interface SlotMachineEngine {
+  /** Advances the spin to the given time */
+  step: (now: number) => SlotMachineFrame;
+  /** Entry the wheel is heading for */
+  getWinner: () => Participant;
+  /** Progress at which the winner subset is swapped in */
+  swapProgress: number;
+}
+
+interface Segment {
+  startTime: number;
+  duration: number;
+  distance: number;
+  easing: (t: number) => number;
+}
+
+/**
+ * Returns the index of the entry in the centre row at a scroll position
+ */
+export function getCenterIndex(position: number, total: number, itemHeight: number): number {
+  const circumference = total * itemHeight;
+  const normalized = ((position % circumference) + circumference) % circumference;
+  return (Math.floor(normalized / itemHeight) + CENTER_INDEX) % total;
+}
+
+/**
+ * Plans a run of full rotations that stops with the given entry in the
+ * centre row
+ */
+function planSegment(
+  profile: PhysicsProfile,
+  index: number,
+  total: number,
+  itemHeight: number,
+  timing: { startTime: number; duration: number }
+): Segment {
+  const circumference = total * itemHeight;
+  const offset =
+    ((((index - CENTER_INDEX) * itemHeight) % circumference) + circumference) % circumference;
+  const distance = profile.rotations * circumference + offset;
+  return { ...timing, distance, easing: createProfileEasing(profile, itemHeight / distance) };
+}
+
+export function createSlotMachineEngine({
+  participants,
+  targetTicketNumber,
+  settings,
+  itemHeight,
+  startTime,
+  getParticipants = () => participants,
+  onMaxVelocity,
+}: SlotMachineEngineOptions): SlotMachineEngine {
+  const profile = resolvePhysicsProfile(settings);
+  const duration = settings.minSpinDuration * 1000;
+  const swapProgress = Math.max(MIN_SWAP_PROGRESS, profile.acceleration);
+
+  // Until the winner is swapped in, aim for the middle of the wheel
+  let winnerIndex = findTicketIndex(participants, targetTicketNumber);
+  if (winnerIndex === -1) {
+    winnerIndex = Math.floor(participants.length / 2);
+  }
+  let winner = participants[winnerIndex];
+  let segment = planSegment(profile, winnerIndex, participants.length, itemHeight, {
+    startTime,
+    duration,
+  });
+  let hasSwapped = false;
+
+  const swap = (now: number) => {
+    hasSwapped = true;
+    if ((onMaxVelocity?.() ?? -1) < 0) return;
+
+    const subset = getParticipants();
+    const index = findTicketIndex(subset, targetTicketNumber);
+    if (index === -1) return;
+
+    winner = subset[index];
+    // Already at full speed, so the rest of the spin skips the acceleration phase
+    segment = planSegment({ ...profile, acceleration: 0 }, index, subset.length, itemHeight, {
+      startTime: now,
+      duration: duration * (1 - swapProgress),
+    });
+    logger.debug('Subset swapped - winner found', {
+      component: 'useSlotMachineAnimation',
+      metadata: {
+        winnerIndex: index,
+        winnerTicket: winner.ticketNumber,
+        subsetSize: subset.length,
+      },
+    });
+  };
+
+  const progressAt = (now: number) => Math.min((now - segment.startTime) / segment.duration, 1);
+
+  const step = (now: number): SlotMachineFrame => {
+    let progress = progressAt(now);
+
+    const inSwapWindow = progress >= swapProgress && progress < swapProgress + SWAP_WINDOW;
+    if (!hasSwapped && onMaxVelocity && inSwapWindow) {
+      swap(now);
+      progress = progressAt(now);
+    }
+
+    if (progress >= COMPLETE_PROGRESS) {
+      // Land exactly on the winner
+      return { position: segment.distance, progress: 1, done: true };
+    }
+    return { position: segment.distance * segment.easing(progress), progress, done: false };
+  };
+
+  return { step, getWinner: () => winner, swapProgress };
+}
@@ -0,0 +1,81 @@
+/**
+ * Slot Machine Subsets
+ *
+ * Pure helpers that pick which entries are on the slot machine wheel. The
+ * wheel only ever holds a subset of the competition: the first and last
+ * entries before the spin, then a subset centred on the winner once it is
+ * swapped in at maximum velocity.
+ */
+
+import { Participant } from '@raffle-spinner/storage';
+import { compareTicketNumbers, findTicketIndex as findTicket } from '@drawday/utils';
+
+/**
+ * Sorts participants by ticket number in natural order ("A2" before "A10")
+ */
+export function sortParticipants(participants: Participant[]): Participant[] {
+  return [...participants].sort((a, b) => compareTicketNumbers(a.ticketNumber, b.ticketNumber));
+}
+
+/**
+ * Finds the index of a ticket in a list, or -1 when it is not there
+ */
+export function findTicketIndex(participants: Participant[], ticketNumber: string): number {
+  return findTicket(participants, ticketNumber);
+}
+
+/**
+ * Creates the subset shown before the spin: the first and last entries, so
+ * the wheel appears to wrap around. Small competitions are repeated to fill
+ * the wheel.
+ */
+export function createInitialSubset(sorted: Participant[], subsetSize: number): Participant[] {
+  if (sorted.length > subsetSize) {
+    const subsetHalf = Math.floor(subsetSize / 2);
+    return [...sorted.slice(0, subsetHalf), ...sorted.slice(-subsetHalf)];
+  }
+
+  const repeated = [...sorted];
+  while (repeated.length < subsetSize && sorted.length > 0) {
+    repeated.push(...sorted.slice(0, Math.min(sorted.length, subsetSize - repeated.length)));
+  }
+  return repeated;
+}
+
+/**
+ * Creates the subset swapped in at maximum velocity, with the winner
+ * approximately in the middle and wrapping around either end of the list.
+ */
+export function createWinnerSubset(
+  sorted: Participant[],
+  targetTicketNumber: string,
+  subsetSize: number
+): Participant[] {
+  const subsetHalf = Math.floor(subsetSize / 2);
+  const winnerIndex = findTicketIndex(sorted, targetTicketNumber);
+
+  if (sorted.length <= subsetSize) {
+    return [...sorted];
+  }
+
+  if (winnerIndex === -1) {
+    // Winner not found - shouldn't happen as validation is in SidePanel
+    return [...sorted.slice(0, subsetHalf), ...sorted.slice(-subsetHalf)];
+  }
+
+  const startIdx = winnerIndex - subsetHalf;
+
+  if (startIdx < 0) {
+    // Winner is in the first half, wrap around from the end
+    return [
+      ...sorted.slice(sorted.length + startIdx),
+      ...sorted.slice(0, winnerIndex + subsetHalf),
+    ];
+  }
+  if (startIdx + subsetSize > sorted.length) {
+    // Winner is in the last half, wrap around to the beginning
+    const fromMiddle = sorted.slice(startIdx);
+    return [...fromMiddle, ...sorted.slice(0, subsetSize - fromMiddle.length)];
+  }
+  return sorted.slice(startIdx, startIdx + subsetSize);
+}
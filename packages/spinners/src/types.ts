@@ -88,8 +88,12 @@ export interface BaseSpinnerProps {
   onSpinComplete: (winner: Participant) => void;
   /** Callback for errors */
   onError?: (error: string) => void;
+  /** Called as items pass the pointer, at most at the physics profile's tick rate */
+  onTick?: () => void;
   /** Optional theme configuration */
   theme?: SpinnerTheme;
   /** Optional CSS class name */
   className?: string;
+  /** Canvas pixels per CSS pixel, so a spinner scaled up with CSS stays sharp (default: 1) */
+  resolution?: number;
 }
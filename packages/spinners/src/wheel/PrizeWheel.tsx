@@ -0,0 +1,176 @@
+/**
+ * Prize Wheel Component
+ *
+ * A classic rotating prize wheel spinner. Shares the subset swapping strategy
+ * of the slot machine so that large participant lists stay smooth: the wheel
+ * only ever carries a small slice of the competition, and the slice holding
+ * the winner is swapped in while the wheel is at top speed.
+ *
+ * Features:
+ * - Subset swapping for performance (displays 24 slices, swaps at max velocity)
+ * - Spin plan and landing angle from the shared SpinnerPhysics engine
+ * - Customizable theme colours and fonts
+ * - Canvas-based rendering for smooth performance
+ *
+ * @module PrizeWheel
+ * @category Components
+ */
+
+import { useRef, useEffect, useCallback } from 'react';
+import { convertTheme, type InternalThemeSettings } from '@drawday/utils';
+import { useSubsetManager } from '../slot-machine/hooks/useSubsetManager';
+import { usePrizeWheelAnimation } from './hooks/usePrizeWheelAnimation';
+import { usePrizeWheelRenderer } from './hooks/usePrizeWheelRenderer';
+import { BaseSpinnerProps, DEFAULT_SPINNER_THEME } from '../types';
+
+// Visual constants
+const CANVAS_SIZE = 400;
+// Slices carried by the wheel at once, small enough to keep names legible
+const WHEEL_SUBSET_SIZE = 24;
+
+export interface PrizeWheelProps extends BaseSpinnerProps {
+  /** Optional width and height for the square canvas */
+  canvasSize?: number;
+}
+
+/**
+ * PrizeWheel Component
+ *
+ * Renders an animated prize wheel for participant selection. The winning
+ * slice comes to rest under the pointer at the top of the wheel.
+ *
+ * @param props - Component properties
+ * @param props.participants - Array of participants to display
+ * @param props.targetTicketNumber - Winning ticket number to land on
+ * @param props.settings - Animation settings (duration, deceleration)
+ * @param props.isSpinning - Controls animation state
+ * @param props.onSpinComplete - Callback when spin animation completes
+ * @param props.onError - Error handler callback
+ * @param props.onTick - Called as segments pass the pointer
+ * @param props.theme - Visual theme configuration
+ * @param props.canvasSize - Canvas width and height in pixels (default: 400)
+ *
+ * @example
+ * ```tsx
+ * <PrizeWheel
+ *   participants={participants}
+ *   targetTicketNumber="123"
+ *   settings={{ minSpinDuration: 3, decelerationRate: 'medium' }}
+ *   isSpinning={isSpinning}
+ *   onSpinComplete={(winner) => console.log('Winner:', winner)}
+ *   theme={customTheme}
+ * />
+ * ```
+ */
+export function PrizeWheel({
+  participants,
+  targetTicketNumber = '',
+  settings,
+  isSpinning,
+  onSpinComplete,
+  onError,
+  onTick,
+  theme = DEFAULT_SPINNER_THEME,
+  className,
+  canvasSize = CANVAS_SIZE,
+  resolution = 1,
+}: PrizeWheelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isAnimatingRef = useRef(false);
+  const rotationRef = useRef(0);
+
+  // Convert theme to internal format
+  const internalTheme: InternalThemeSettings = convertTheme(theme);
+
+  const { displaySubset, handleMaxVelocity, findWinnerInFullList, hasSwappedRef } =
+    useSubsetManager({
+      participants,
+      targetTicketNumber,
+      itemHeight: 0,
+      subsetSize: WHEEL_SUBSET_SIZE,
+    });
+
+  const { drawWheel } = usePrizeWheelRenderer({
+    canvasSize,
+    resolution,
+    theme: internalTheme,
+  });
+
+  // Store current subset in a ref for animation to access
+  const currentSubsetRef = useRef(displaySubset);
+  useEffect(() => {
+    currentSubsetRef.current = displaySubset;
+  }, [displaySubset]);
+
+  const getParticipants = useCallback(() => currentSubsetRef.current, []);
+
+  const handleAngleUpdate = useCallback(
+    (angle: number) => {
+      rotationRef.current = angle;
+      drawWheel(canvasRef, angle, currentSubsetRef.current);
+    },
+    [drawWheel]
+  );
+
+  const handleComplete = useCallback(() => {
+    isAnimatingRef.current = false;
+    // Use the actual winner from the full list, not the subset
+    const actualWinner = findWinnerInFullList();
+    if (actualWinner) {
+      onSpinComplete(actualWinner);
+    } else if (onError) {
+      onError(`Ticket ${targetTicketNumber} not found`);
+    }
+  }, [findWinnerInFullList, onSpinComplete, onError, targetTicketNumber]);
+
+  const handleError = useCallback(
+    (error: string) => {
+      isAnimatingRef.current = false;
+      hasSwappedRef.current = false;
+      if (onError) onError(error);
+    },
+    [onError, hasSwappedRef]
+  );
+
+  const { spin, cancel } = usePrizeWheelAnimation({
+    targetTicketNumber,
+    settings,
+    getParticipants,
+    onMaxVelocity: handleMaxVelocity,
+    onAngleUpdate: handleAngleUpdate,
+    onTick,
+    onSpinComplete: handleComplete,
+    onError: handleError,
+  });
+
+  // Handle spin start/stop
+  useEffect(() => {
+    if (isSpinning && !isAnimatingRef.current) {
+      isAnimatingRef.current = true;
+      hasSwappedRef.current = false; // Reset swap flag for new spin
+      spin();
+    } else if (!isSpinning && isAnimatingRef.current) {
+      isAnimatingRef.current = false;
+      cancel();
+    }
+  }, [isSpinning, spin, cancel, hasSwappedRef]);
+
+  // Redraw when the subset or theme changes
+  useEffect(() => {
+    if (displaySubset.length > 0) {
+      drawWheel(canvasRef, rotationRef.current, displaySubset);
+    }
+  }, [displaySubset, drawWheel]);
+
+  return (
+    <div className={`inline-flex ${className || ''}`} style={{ background: 'transparent' }}>
+      <canvas
+        ref={canvasRef}
+        width={Math.round(canvasSize * resolution)}
+        height={Math.round(canvasSize * resolution)}
+        className="block"
+        style={{ width: canvasSize, height: canvasSize, background: 'transparent' }}
+      />
+    </div>
+  );
+}
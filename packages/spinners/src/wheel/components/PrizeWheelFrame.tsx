@@ -0,0 +1,90 @@
+/**
+ * Prize Wheel Frame Component
+ *
+ * Renders the decorative rim, centre hub and the fixed pointer that marks
+ * the winning slice at the top of the prize wheel.
+ *
+ * @module PrizeWheelFrame
+ * @category Components/PrizeWheel
+ */
+
+import { adjustBrightness, type InternalThemeSettings } from '@drawday/utils';
+
+interface PrizeWheelFrameProps {
+  ctx: CanvasRenderingContext2D;
+  centerX: number;
+  centerY: number;
+  radius: number;
+  rimWidth: number;
+  theme: InternalThemeSettings;
+}
+
+/**
+ * Draws the rim, hub and pointer around the wheel
+ *
+ * @param props - Frame rendering properties
+ * @param props.ctx - Canvas 2D rendering context
+ * @param props.centerX - Wheel centre X in pixels
+ * @param props.centerY - Wheel centre Y in pixels
+ * @param props.radius - Radius of the segment area in pixels
+ * @param props.rimWidth - Width of the outer rim in pixels
+ * @param props.theme - Theme settings for colors and styles
+ */
+export function drawPrizeWheelFrame({
+  ctx,
+  centerX,
+  centerY,
+  radius,
+  rimWidth,
+  theme,
+}: PrizeWheelFrameProps) {
+  const borderColor = theme.spinnerStyle.borderColor;
+  const highlightColor = theme.spinnerStyle.highlightColor;
+
+  ctx.save();
+
+  // Metallic outer rim
+  const rimGradient = ctx.createLinearGradient(0, centerY - radius, 0, centerY + radius);
+  rimGradient.addColorStop(0, adjustBrightness(borderColor, 20));
+  rimGradient.addColorStop(0.5, adjustBrightness(borderColor, -60));
+  rimGradient.addColorStop(1, adjustBrightness(borderColor, 20));
+  ctx.strokeStyle = rimGradient;
+  ctx.lineWidth = rimWidth;
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius + rimWidth / 2, 0, 2 * Math.PI);
+  ctx.stroke();
+
+  // Centre hub
+  const hubRadius = Math.max(12, radius * 0.12);
+  const hubGradient = ctx.createRadialGradient(
+    centerX - hubRadius / 3,
+    centerY - hubRadius / 3,
+    hubRadius / 4,
+    centerX,
+    centerY,
+    hubRadius
+  );
+  hubGradient.addColorStop(0, adjustBrightness(borderColor, 60));
+  hubGradient.addColorStop(1, adjustBrightness(borderColor, -40));
+  ctx.fillStyle = hubGradient;
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, hubRadius, 0, 2 * Math.PI);
+  ctx.fill();
+
+  // Pointer at the top, overlapping the rim and pointing inward
+  const pointerTop = centerY - radius - rimWidth - 4;
+  const pointerWidth = 18;
+  const pointerLength = rimWidth + 26;
+  ctx.fillStyle = highlightColor;
+  ctx.strokeStyle = adjustBrightness(highlightColor, -60);
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(centerX - pointerWidth, pointerTop);
+  ctx.lineTo(centerX + pointerWidth, pointerTop);
+  ctx.lineTo(centerX, pointerTop + pointerLength);
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.restore();
+}
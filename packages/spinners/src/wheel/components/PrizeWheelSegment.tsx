@@ -0,0 +1,113 @@
+/**
+ * Prize Wheel Segment Component
+ *
+ * Purpose: Renders a single participant slice of the prize wheel with
+ * alternating theme colours and radial ticket/name labels.
+ *
+ * SRS Reference:
+ * - FR-2.2: Winner Selection and Animation (visual representation)
+ */
+
+import { Participant } from '@raffle-spinner/storage';
+import { adjustBrightness, type InternalThemeSettings } from '@drawday/utils';
+
+interface PrizeWheelSegmentProps {
+  ctx: CanvasRenderingContext2D;
+  participant: Participant;
+  segmentIndex: number;
+  totalSegments: number;
+  /** Screen angle (radians) where the slice starts */
+  startAngle: number;
+  /** Screen angle (radians) where the slice ends */
+  endAngle: number;
+  centerX: number;
+  centerY: number;
+  radius: number;
+  /** Draw the participant name alongside the ticket number */
+  showName: boolean;
+  theme: InternalThemeSettings;
+}
+
+// Font sizes match the slot machine scale, capped by the slice width below
+const nameSizes = {
+  small: 11,
+  medium: 12,
+  large: 14,
+  'extra-large': 16,
+};
+const ticketSizes = {
+  small: 12,
+  medium: 14,
+  large: 16,
+  'extra-large': 18,
+};
+
+/**
+ * Picks the fill for a slice. Odd-sized wheels get a third shade on the last
+ * slice so two neighbouring slices never share a colour.
+ */
+function getSegmentColor(index: number, total: number, baseColor: string): string {
+  if (total > 1 && total % 2 === 1 && index === total - 1) {
+    return adjustBrightness(baseColor, -20);
+  }
+  return index % 2 === 0 ? baseColor : adjustBrightness(baseColor, 30);
+}
+
+export function drawPrizeWheelSegment({
+  ctx,
+  participant,
+  segmentIndex,
+  totalSegments,
+  startAngle,
+  endAngle,
+  centerX,
+  centerY,
+  radius,
+  showName,
+  theme,
+}: PrizeWheelSegmentProps) {
+  const style = theme.spinnerStyle;
+
+  ctx.save();
+
+  // Slice body
+  ctx.beginPath();
+  ctx.moveTo(centerX, centerY);
+  ctx.arc(centerX, centerY, radius, startAngle, endAngle);
+  ctx.closePath();
+  ctx.fillStyle = getSegmentColor(segmentIndex, totalSegments, style.backgroundColor);
+  ctx.fill();
+
+  if (totalSegments > 1) {
+    ctx.strokeStyle = style.borderColor;
+    ctx.lineWidth = totalSegments > 50 ? 0.5 : 1;
+    ctx.stroke();
+  }
+
+  // Radial label, reading from the rim towards the hub
+  const sliceWidth = (endAngle - startAngle) * radius * 0.85;
+  const fontFamily = style.fontFamily || 'sans-serif';
+  const ticketSize = Math.min(ticketSizes[style.ticketSize], sliceWidth * 0.7);
+  const nameSize = Math.min(nameSizes[style.nameSize], sliceWidth * 0.45);
+
+  ctx.translate(centerX, centerY);
+  ctx.rotate((startAngle + endAngle) / 2);
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+
+  const textX = radius - 12;
+  const showNameLine = showName && nameSize >= 8;
+
+  ctx.fillStyle = style.ticketColor;
+  ctx.font = `bold ${ticketSize}px ${fontFamily}`;
+  ctx.fillText(`#${participant.ticketNumber}`, textX, showNameLine ? -nameSize / 2 : 0);
+
+  if (showNameLine) {
+    ctx.fillStyle = style.nameColor;
+    ctx.font = `${nameSize}px ${fontFamily}`;
+    const name = `${participant.firstName} ${participant.lastName}`.trim();
+    ctx.fillText(name, textX, ticketSize / 2, radius * 0.6);
+  }
+
+  ctx.restore();
+}
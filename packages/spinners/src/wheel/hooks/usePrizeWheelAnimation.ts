@@ -0,0 +1,198 @@
+/**
+ * usePrizeWheelAnimation Hook
+ *
+ * Manages the rotation of the prize wheel, using the shared SpinnerPhysics
+ * engine and the active physics profile for the spin plan, and re-targeting
+ * the landing angle once the winner subset has been swapped in at maximum
+ * velocity. The landing angle maths lives in utils/wheel-landing.ts.
+ */
+
+import { useCallback, useRef } from 'react';
+import { Participant, SpinnerSettings } from '@raffle-spinner/storage';
+import {
+  SpinnerPhysics,
+  createTicker,
+  resolvePhysicsProfile,
+} from '@raffle-spinner/spinner-physics';
+import { findTicketIndex, logger } from '@drawday/utils';
+import {
+  FULL_TURN,
+  angleAt,
+  landingAngle,
+  reaimLanding,
+  type LandingSegment,
+} from '../utils/wheel-landing';
+
+interface PrizeWheelAnimationOptions {
+  targetTicketNumber: string;
+  settings: SpinnerSettings;
+  getParticipants: () => Participant[];
+  onMaxVelocity?: () => number;
+  onAngleUpdate: (angle: number) => void;
+  onTick?: () => void; // A segment passed the pointer, limited to the profile's tick rate
+  onSpinComplete: () => void;
+  onError?: (error: string) => void;
+}
+
+interface AnimationControls {
+  spin: () => void;
+  cancel: () => void;
+}
+
+// Earliest progress at which the winner subset is swapped in (wheel is at top speed)
+const SWAP_PROGRESS = 0.05;
+
+const physics = new SpinnerPhysics();
+
+/**
+ * Index the spin first aims for: the target ticket, or the middle of the
+ * wheel while the winner is not on it yet
+ */
+function initialTargetIndex(subset: Participant[], targetTicketNumber: string): number {
+  const index = findTicketIndex(subset, targetTicketNumber);
+  return index === -1 ? Math.floor(subset.length / 2) : index;
+}
+
+/**
+ * The landing re-aimed at the winner in a newly swapped-in subset, or null
+ * when the winner is not in it
+ */
+function reaimForSubset(
+  landing: LandingSegment,
+  subset: Participant[],
+  targetTicketNumber: string,
+  angle: number,
+  eased: number
+): LandingSegment | null {
+  const newIndex = findTicketIndex(subset, targetTicketNumber);
+  if (newIndex === -1) return null;
+
+  logger.debug('Prize wheel re-targeted after subset swap', {
+    component: 'usePrizeWheelAnimation',
+    metadata: { newIndex, subsetSize: subset.length },
+  });
+  return reaimLanding(landing, angle, eased, newIndex, subset.length);
+}
+
+export function usePrizeWheelAnimation({
+  targetTicketNumber,
+  settings,
+  getParticipants,
+  onMaxVelocity,
+  onAngleUpdate,
+  onTick,
+  onSpinComplete,
+  onError,
+}: PrizeWheelAnimationOptions): AnimationControls {
+  const animationRef = useRef<number | null>(null);
+  const isSpinningRef = useRef(false);
+  const angleRef = useRef(0);
+
+  /**
+   * Cancel any ongoing animation
+   */
+  const cancel = useCallback(() => {
+    if (animationRef.current) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+    isSpinningRef.current = false;
+  }, []);
+
+  /**
+   * Start the spin animation
+   */
+  const spin = useCallback(() => {
+    if (isSpinningRef.current) {
+      return;
+    }
+
+    const initialSubset = getParticipants();
+    if (initialSubset.length === 0) {
+      onError?.('No participants available');
+      return;
+    }
+
+    const targetIndex = initialTargetIndex(initialSubset, targetTicketNumber);
+
+    const profile = resolvePhysicsProfile(settings);
+    const plan = physics.calculateSpinAnimation({
+      targetIndex,
+      totalItems: initialSubset.length,
+      minDuration: settings.minSpinDuration,
+      decelerationRate: settings.decelerationRate,
+      profile,
+    });
+    const swapProgress = Math.max(SWAP_PROGRESS, profile.acceleration);
+    const tick = createTicker(FULL_TURN / initialSubset.length, profile.tickRate, onTick);
+
+    const startAngle = angleRef.current;
+    let landing: LandingSegment = {
+      from: startAngle,
+      to: landingAngle(startAngle, startAngle + plan.endAngle, targetIndex, initialSubset.length),
+      easeFrom: 0,
+    };
+    let plannedSubset = initialSubset;
+    let hasTriggeredMaxVelocity = false;
+
+    // The swapped subset arrives on a later render; re-aim once it is visible
+    const reaimAfterSwap = (angle: number, eased: number) => {
+      const subset = getParticipants();
+      if (subset === plannedSubset || subset.length === 0) return;
+
+      plannedSubset = subset;
+      landing = reaimForSubset(landing, subset, targetTicketNumber, angle, eased) ?? landing;
+    };
+
+    isSpinningRef.current = true;
+    const startTime = performance.now();
+
+    const animate = (currentTime: number) => {
+      if (!isSpinningRef.current) return;
+
+      const progress = Math.min((currentTime - startTime) / plan.duration, 1);
+      const eased = plan.easing(progress);
+      const angle = angleAt(landing, eased);
+
+      if (!hasTriggeredMaxVelocity && progress >= swapProgress && onMaxVelocity) {
+        hasTriggeredMaxVelocity = true;
+        onMaxVelocity();
+      }
+
+      if (progress < 1) {
+        reaimAfterSwap(angle, eased);
+      }
+
+      angleRef.current = angle;
+      onAngleUpdate(angle);
+      tick(angle, currentTime);
+
+      if (progress < 1) {
+        animationRef.current = requestAnimationFrame(animate);
+      } else {
+        // Land exactly on the planned angle and keep it for the next spin
+        angleRef.current = landing.to;
+        onAngleUpdate(landing.to);
+        isSpinningRef.current = false;
+        animationRef.current = null;
+        onSpinComplete();
+      }
+    };
+
+    animationRef.current = requestAnimationFrame(animate);
+  }, [
+    targetTicketNumber,
+    settings,
+    getParticipants,
+    onMaxVelocity,
+    onAngleUpdate,
+    onTick,
+    onSpinComplete,
+    onError,
+  ]);
+
+  return {
+    spin,
+    cancel,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Custom hook for prize wheel rendering logic
+ * Handles the canvas drawing operations for the rotating prize wheel
+ */
+
+import { useCallback } from 'react';
+import { Participant } from '@raffle-spinner/storage';
+import { SpinnerPhysics } from '@raffle-spinner/spinner-physics';
+import type { InternalThemeSettings } from '@drawday/utils';
+import { drawPrizeWheelSegment } from '../components/PrizeWheelSegment';
+import { drawPrizeWheelFrame } from '../components/PrizeWheelFrame';
+
+export interface UsePrizeWheelRendererProps {
+  canvasSize: number;
+  resolution?: number;
+  theme: InternalThemeSettings;
+}
+
+// Visual constants
+const RIM_WIDTH = 12;
+const POINTER_SPACE = 16;
+// Above this many slices only ticket numbers fit on the wheel
+const MAX_SEGMENTS_WITH_NAMES = 30;
+// The pointer sits at the top of the wheel (12 o'clock)
+const POINTER_ANGLE = -Math.PI / 2;
+
+const physics = new SpinnerPhysics();
+
+export function usePrizeWheelRenderer({
+  canvasSize,
+  resolution = 1,
+  theme,
+}: UsePrizeWheelRendererProps) {
+  /**
+   * Draws the complete wheel at the specified rotation.
+   * Segment i sits under the pointer while the rotation is within
+   * [i, i + 1) segment angles, matching SpinnerPhysics.getSegmentAtAngle.
+   *
+   * @param canvasRef - Reference to the canvas element
+   * @param rotation - Current wheel rotation in radians
+   * @param subset - Current subset of participants to display
+   */
+  const drawWheel = useCallback(
+    (canvasRef: React.RefObject<HTMLCanvasElement>, rotation: number, subset: Participant[]) => {
+      const canvas = canvasRef.current;
+      if (!canvas || subset.length === 0) return;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      ctx.setTransform(resolution, 0, 0, resolution, 0, 0);
+      ctx.clearRect(0, 0, canvasSize, canvasSize);
+
+      const centerX = canvasSize / 2;
+      const centerY = canvasSize / 2 + POINTER_SPACE / 2;
+      const radius = canvasSize / 2 - RIM_WIDTH - POINTER_SPACE;
+      const showName = subset.length <= MAX_SEGMENTS_WITH_NAMES;
+
+      // Slices are laid out anticlockwise so a clockwise spin walks the
+      // pointer forward through the subset
+      physics.createWheelSegments(subset.length).forEach((segment) => {
+        drawPrizeWheelSegment({
+          ctx,
+          participant: subset[segment.index],
+          segmentIndex: segment.index,
+          totalSegments: subset.length,
+          startAngle: POINTER_ANGLE + rotation - segment.endAngle,
+          endAngle: POINTER_ANGLE + rotation - segment.startAngle,
+          centerX,
+          centerY,
+          radius,
+          showName,
+          theme,
+        });
+      });
+
+      drawPrizeWheelFrame({
+        ctx,
+        centerX,
+        centerY,
+        radius,
+        rimWidth: RIM_WIDTH,
+        theme,
+      });
+    },
+    [canvasSize, resolution, theme]
+  );
+
+  return { drawWheel };
+}
@@ -0,0 +1,13 @@
+/**
+ * Prize Wheel Spinner Module
+ *
+ * Exports all components and hooks related to the prize wheel spinner
+ */
+
+export { PrizeWheel } from './PrizeWheel';
+export type { PrizeWheelProps } from './PrizeWheel';
+
+export { usePrizeWheelAnimation } from './hooks/usePrizeWheelAnimation';
+
+export { drawPrizeWheelSegment } from './components/PrizeWheelSegment';
+export { drawPrizeWheelFrame } from './components/PrizeWheelFrame';
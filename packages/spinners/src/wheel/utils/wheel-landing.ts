@@ -0,0 +1,57 @@
+/**
+ * Wheel Landing
+ *
+ * Pure angle maths for landing the prize wheel on the winner's segment, and
+ * for re-aiming mid-spin once the winner subset has been swapped in, without
+ * the wheel jumping or changing speed abruptly.
+ */
+
+export const FULL_TURN = 2 * Math.PI;
+
+/**
+ * Part of the eased timeline being played: the angle moves from `from` to
+ * `to` while the eased value moves from `easeFrom` to 1
+ */
+export interface LandingSegment {
+  from: number;
+  to: number;
+  easeFrom: number;
+}
+
+/**
+ * Returns the absolute angle that lands the given segment under the pointer,
+ * at least one full turn beyond the current angle.
+ */
+export function landingAngle(
+  currentAngle: number,
+  roughEnd: number,
+  index: number,
+  total: number
+): number {
+  const segmentAngle = FULL_TURN / total;
+  const turnStart = roughEnd - (((roughEnd % FULL_TURN) + FULL_TURN) % FULL_TURN);
+  let target = turnStart + index * segmentAngle + segmentAngle / 2;
+  while (target - currentAngle < FULL_TURN) {
+    target += FULL_TURN;
+  }
+  return target;
+}
+
+/** Wheel angle at an eased progress value within the segment */
+export function angleAt({ from, to, easeFrom }: LandingSegment, eased: number): number {
+  return from + ((to - from) * (eased - easeFrom)) / (1 - easeFrom || 1);
+}
+
+/**
+ * Continues the spin from the current angle and eased progress, now landing
+ * on `index` of a wheel with `total` segments
+ */
+export function reaimLanding(
+  segment: LandingSegment,
+  angle: number,
+  eased: number,
+  index: number,
+  total: number
+): LandingSegment {
+  return { from: angle, easeFrom: eased, to: landingAngle(angle, segment.to, index, total) };
+}
@@ -0,0 +1,114 @@
+/**
+ * Backup Tests
+ * Tests the checksummed backup round trip and how a backup is restored
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BACKUP_FORMAT_VERSION,
+  createBackup,
+  planBackupImport,
+  readBackup,
+  type BackupData,
+} from '../backup';
+import { CURRENT_SCHEMA_VERSION } from '../schema-migrations';
+import type { Competition, SavedMapping } from '../types';
+
+const competition = (id: string, updatedAt = 1000): Competition => ({
+  id,
+  name: `Raffle ${id}`,
+  participants: [{ firstName: 'Jane', lastName: 'Doe', ticketNumber: '007' }],
+  createdAt: 1000,
+  updatedAt,
+});
+
+const mapping = (id: string): SavedMapping => ({
+  id,
+  name: `Mapping ${id}`,
+  mapping: { fullName: 'Name', ticketNumber: 'Ticket' },
+  createdAt: 0,
+  updatedAt: 0,
+  usageCount: 0,
+});
+
+const data = (competitions: Competition[], savedMappings: SavedMapping[] = []): BackupData => ({
+  competitions,
+  settings: { minSpinDuration: 3, decelerationRate: 'medium' },
+  columnMapping: null,
+  savedMappings,
+});
+
+describe('backup files', () => {
+  it('should read back the data it was created from', async () => {
+    const original = data([competition('c1')], [mapping('m1')]);
+    const text = JSON.stringify(await createBackup(original));
+    const backup = await readBackup(text);
+
+    expect(backup.data).toMatchObject(original);
+    expect(backup.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('should reject a backup edited after export', async () => {
+    const file = await createBackup(data([competition('c1')]));
+    file.data.competitions[0].participants[0].ticketNumber = '008';
+
+    await expect(readBackup(JSON.stringify(file))).rejects.toThrow(/checksum/);
+  });
+
+  it('should reject backups from a newer version', async () => {
+    const file = await createBackup(data([]));
+
+    await expect(
+      readBackup(JSON.stringify({ ...file, formatVersion: BACKUP_FORMAT_VERSION + 1 }))
+    ).rejects.toThrow(/newer version/);
+    await expect(
+      readBackup(JSON.stringify({ ...file, schemaVersion: CURRENT_SCHEMA_VERSION + 1 }))
+    ).rejects.toThrow(/newer version/);
+  });
+
+  it('should reject files that are not backups', async () => {
+    await expect(readBackup('not json')).rejects.toThrow(/not a Raffle Spinner backup/);
+    await expect(readBackup('{"format":"other"}')).rejects.toThrow(/not a Raffle Spinner/);
+  });
+
+  it('should upgrade a backup from an older schema', async () => {
+    const old = data([competition('c1')]);
+    (old.competitions[0].participants[0] as { ticketNumber: unknown }).ticketNumber = 7;
+    const file = { ...(await createBackup(old)), schemaVersion: 1 };
+
+    const backup = await readBackup(JSON.stringify(file));
+
+    expect(backup.data.competitions[0].participants[0].ticketNumber).toBe('7');
+  });
+});
+
+describe('planBackupImport', () => {
+  const current = data([competition('shared', 500), competition('local')], [mapping('m-local')]);
+  const backup = data([competition('shared', 900), competition('new')], [mapping('m-new')]);
+
+  it('should merge only what is missing and keep current competitions', () => {
+    const plan = planBackupImport(current, backup, 'merge');
+
+    expect(plan.competitionsToSave.map((c) => c.id)).toEqual(['new']);
+    expect(plan.competitionsToDelete).toEqual([]);
+    expect(plan.mappingsToSave.map((m) => m.id)).toEqual(['m-new']);
+    expect(plan.mappingsToDelete).toEqual([]);
+    expect(plan.restoreSettings).toBe(false);
+  });
+
+  it('should replace everything with the backup', () => {
+    const plan = planBackupImport(current, backup, 'replace');
+
+    expect(plan.competitionsToSave.map((c) => c.id)).toEqual(['shared', 'new']);
+    expect(plan.competitionsToDelete).toEqual(['local']);
+    expect(plan.mappingsToSave.map((m) => m.id)).toEqual(['m-new']);
+    expect(plan.mappingsToDelete).toEqual(['m-local']);
+    expect(plan.restoreSettings).toBe(true);
+  });
+
+  it.each(['merge', 'replace'] as const)('should report conflicting competitions (%s)', (mode) => {
+    expect(planBackupImport(current, backup, mode).conflicts).toEqual([
+      { id: 'shared', name: 'Raffle shared', currentUpdatedAt: 500, backupUpdatedAt: 900 },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Directus Sync Transport Tests
+ * Tests the requests the transport makes against a mocked fetch
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { DirectusSyncTransport } from '../directus-sync-transport';
+import { toRecord } from '../sync-merge';
+
+const BASE_URL = 'https://directus.example.com';
+
+const json = (data: unknown, status = 200) =>
+  new Response(JSON.stringify({ data }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+function createTransport(
+  respond: (url: string, init: RequestInit) => Response = () => json([]),
+  token: string | null = 'token-1'
+) {
+  const fetch = vi.fn(async (url: string | URL | Request, init: RequestInit = {}) =>
+    respond(String(url), init)
+  );
+  const transport = new DirectusSyncTransport({
+    baseUrl: BASE_URL,
+    getAccessToken: async () => token,
+    fetch: fetch as unknown as typeof globalThis.fetch,
+  });
+  return { transport, fetch };
+}
+
+describe('DirectusSyncTransport', () => {
+  it('should pull the current user’s records from every collection', async () => {
+    const { transport, fetch } = createTransport((url) =>
+      url.includes('raffle_competitions')
+        ? json([{ id: 1, record_id: 'c1', updated_at: '1700', deleted: false, data: { id: 'c1' } }])
+        : json([])
+    );
+
+    const records = await transport.pull();
+
+    expect(records).toEqual([
+      { collection: 'competitions', id: 'c1', updatedAt: 1700, deleted: false, data: { id: 'c1' } },
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(fetch).toHaveBeenCalledWith(
+      `${BASE_URL}/items/raffle_competitions?filter[user_created][_eq]=$CURRENT_USER&limit=-1`,
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer token-1' }),
+      })
+    );
+  });
+
+  it('should create new records and update existing ones', async () => {
+    const { transport, fetch } = createTransport((_url, init) =>
+      init.method ? json(null) : json([{ id: 7, record_id: 'c1' }])
+    );
+
+    await transport.push([
+      toRecord('competitions', 'c1', 200, { id: 'c1' }),
+      toRecord('competitions', 'c2', 300),
+    ]);
+
+    const calls = fetch.mock.calls.map(([url, init]) => [init?.method ?? 'GET', url]);
+    expect(calls).toEqual([
+      [
+        'GET',
+        `${BASE_URL}/items/raffle_competitions?filter[user_created][_eq]=$CURRENT_USER&filter[record_id][_in]=c1,c2&fields=id,record_id&limit=-1`,
+      ],
+      ['POST', `${BASE_URL}/items/raffle_competitions`],
+      ['PATCH', `${BASE_URL}/items/raffle_competitions/7`],
+    ]);
+    expect(JSON.parse(fetch.mock.calls[1][1]?.body as string)).toEqual([
+      { record_id: 'c2', updated_at: 300, deleted: true, data: null },
+    ]);
+    expect(JSON.parse(fetch.mock.calls[2][1]?.body as string)).toEqual({
+      record_id: 'c1',
+      updated_at: 200,
+      deleted: false,
+      data: { id: 'c1' },
+    });
+  });
+
+  it('should not call the server when there is nothing to push', async () => {
+    const { transport, fetch } = createTransport();
+
+    await transport.push([]);
+
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should require a logged-in user', async () => {
+    const { transport, fetch } = createTransport(undefined, null);
+
+    await expect(transport.pull()).rejects.toThrow('Log in to sync your data');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should report a failed request with its status', async () => {
+    const { transport } = createTransport(() => json(null, 403));
+
+    await expect(transport.pull()).rejects.toThrow('Sync request failed (403)');
+  });
+});
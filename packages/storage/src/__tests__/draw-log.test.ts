@@ -0,0 +1,95 @@
+/**
+ * Draw Log Tests
+ * Tests hash chaining and integrity checks of the draw audit log
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DRAW_LOG_GENESIS_HASH,
+  createDrawLogEntry,
+  toDrawLogHead,
+  verifyDrawLogChain,
+} from '../draw-log';
+import type { DrawLogEntry, DrawLogHead } from '../types';
+
+const drawInput = (ticket: string) => ({
+  competitionId: 'c1',
+  participantListHash: 'a'.repeat(64),
+  targetTicket: ticket,
+  winner: { firstName: 'Jane', lastName: 'Doe', ticketNumber: ticket },
+  settings: { minSpinDuration: 3, decelerationRate: 'medium' as const },
+  operator: 'operator@example.com',
+  timestamp: 1000 + Number(ticket),
+});
+
+async function buildLog(tickets: string[]): Promise<[DrawLogEntry[], DrawLogHead | undefined]> {
+  const entries: DrawLogEntry[] = [];
+  let head: DrawLogHead | undefined;
+  for (const ticket of tickets) {
+    const entry = await createDrawLogEntry(drawInput(ticket), head);
+    entries.push(entry);
+    head = toDrawLogHead(entry);
+  }
+  return [entries, head];
+}
+
+describe('Draw log', () => {
+  let entries: DrawLogEntry[];
+  let head: DrawLogHead | undefined;
+
+  beforeEach(async () => {
+    [entries, head] = await buildLog(['1', '2', '3']);
+  });
+
+  it('should chain each entry to the one before it', () => {
+    expect(entries.map((e) => e.sequence)).toEqual([0, 1, 2]);
+    expect(entries[0].previousHash).toBe(DRAW_LOG_GENESIS_HASH);
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    expect(entries[2].previousHash).toBe(entries[1].hash);
+    expect(head).toEqual({ count: 3, hash: entries[2].hash });
+  });
+
+  it('should accept an intact chain', async () => {
+    expect(await verifyDrawLogChain(entries, head)).toEqual({
+      valid: true,
+      entryCount: 3,
+      issues: [],
+    });
+  });
+
+  it('should report an edited entry', async () => {
+    const winner = { firstName: 'John', lastName: 'Smith', ticketNumber: '2' };
+    const edited = entries.map((e, i) => (i === 1 ? { ...e, winner } : e));
+
+    const result = await verifyDrawLogChain(edited, head);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ sequence: 1, type: 'edited' })]);
+  });
+
+  it('should report entries deleted from the end by the head', async () => {
+    const result = await verifyDrawLogChain(entries.slice(0, 2), head);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      {
+        sequence: 2,
+        type: 'deleted',
+        message: '1 entry(s) missing from the end of the log',
+      },
+    ]);
+  });
+
+  it('should report an entry deleted from the middle', async () => {
+    const result = await verifyDrawLogChain([entries[0], entries[2]], head);
+
+    expect(result.issues).toEqual([expect.objectContaining({ sequence: 1, type: 'deleted' })]);
+  });
+
+  it('should report reordered entries', async () => {
+    const result = await verifyDrawLogChain([entries[0], entries[2], entries[1]], head);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toContainEqual(expect.objectContaining({ sequence: 1, type: 'edited' }));
+  });
+});
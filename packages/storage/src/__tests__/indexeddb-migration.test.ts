@@ -0,0 +1,104 @@
+/**
+ * IndexedDB Migration Tests
+ * Tests moving both chrome.storage layouts into IndexedDB exactly once
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { openDatabase } from '../indexeddb-database';
+import { MIGRATED_FLAG_KEY, migrateFromChromeStorage } from '../indexeddb-migration';
+import { readCompetitions, readValue } from '../indexeddb-records';
+import { CURRENT_SCHEMA_VERSION } from '../schema-migrations';
+import type { Competition } from '../types';
+
+let chromeData: Record<string, unknown>;
+let databaseCount = 0;
+
+const competition = (id: string): Competition => ({
+  id,
+  name: `Raffle ${id}`,
+  participants: [{ firstName: 'Jane', lastName: 'Doe', ticketNumber: '1' }],
+  createdAt: 1000,
+  updatedAt: 1000,
+});
+
+const pick = (keys: string | string[]) =>
+  Object.fromEntries(
+    [keys].flat().flatMap((key) => (key in chromeData ? [[key, chromeData[key]]] : []))
+  );
+
+describe('migrateFromChromeStorage', () => {
+  let db: IDBDatabase;
+
+  beforeEach(async () => {
+    chromeData = {};
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          get: vi.fn(async (keys: string | string[]) => pick(keys)),
+          set: vi.fn(async (items: Record<string, unknown>) => Object.assign(chromeData, items)),
+          remove: vi.fn(async (key: string) => delete chromeData[key]),
+        },
+      },
+    });
+    db = await openDatabase(`drawday-migration-test-${++databaseCount}`);
+  });
+
+  afterEach(() => {
+    db.close();
+    vi.unstubAllGlobals();
+  });
+
+  it('should migrate the per-key layout of the optimized adapter', async () => {
+    Object.assign(chromeData, {
+      competitions: [competition('c1')],
+      settings: { minSpinDuration: 5, decelerationRate: 'slow' },
+      raffleCount: 7,
+      session: { spinTarget: '1' },
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+    });
+
+    await migrateFromChromeStorage(db);
+
+    expect((await readCompetitions(db)).map((c) => c.id)).toEqual(['c1']);
+    expect(await readValue(db, 'settings', null)).toMatchObject({ minSpinDuration: 5 });
+    expect(await readValue(db, 'raffleCount', 0)).toBe(7);
+    expect(await readValue(db, 'session', null)).toEqual({ spinTarget: '1' });
+    expect(await readValue(db, MIGRATED_FLAG_KEY, false)).toBe(true);
+    expect(chromeData.competitions).toEqual([]);
+  });
+
+  it('should migrate the data key and keep the theme there', async () => {
+    chromeData.data = { competitions: [competition('c1')], raffleCount: 2, theme: { x: 1 } };
+
+    await migrateFromChromeStorage(db);
+
+    expect((await readCompetitions(db)).map((c) => c.id)).toEqual(['c1']);
+    expect(await readValue(db, 'raffleCount', 0)).toBe(2);
+    expect(await readValue(db, 'theme', null)).toBeNull();
+    expect(chromeData.data).toMatchObject({ competitions: [], theme: { x: 1 } });
+  });
+
+  it('should merge both layouts without defaults replacing stored values', async () => {
+    chromeData.data = {
+      competitions: [competition('old')],
+      settings: { minSpinDuration: 9, decelerationRate: 'fast' },
+    };
+    Object.assign(chromeData, { competitions: [competition('new')], raffleCount: 4 });
+
+    await migrateFromChromeStorage(db);
+
+    expect((await readCompetitions(db)).map((c) => c.id).sort()).toEqual(['new', 'old']);
+    expect(await readValue(db, 'settings', null)).toMatchObject({ minSpinDuration: 9 });
+    expect(await readValue(db, 'raffleCount', 0)).toBe(4);
+  });
+
+  it('should not migrate again once done', async () => {
+    await migrateFromChromeStorage(db);
+    chromeData.competitions = [competition('late')];
+
+    await migrateFromChromeStorage(db);
+
+    expect(await readCompetitions(db)).toEqual([]);
+  });
+});
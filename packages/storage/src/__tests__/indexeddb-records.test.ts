@@ -0,0 +1,106 @@
+/**
+ * IndexedDB Records Tests
+ * Tests splitting competitions into records and joining them back together
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  PARTICIPANTS_BY_COMPETITION,
+  STORES,
+  openDatabase,
+  requestToPromise,
+} from '../indexeddb-database';
+import {
+  clearDatabase,
+  readCompetition,
+  readCompetitions,
+  readValue,
+  removeCompetition,
+  writeCompetitions,
+  writeValues,
+} from '../indexeddb-records';
+import type { Competition } from '../types';
+
+let databaseCount = 0;
+
+const competition = (id: string, tickets: string[], createdAt = 1000): Competition => ({
+  id,
+  name: `Raffle ${id}`,
+  participants: tickets.map((ticketNumber) => ({
+    firstName: 'Jane',
+    lastName: `Doe ${ticketNumber}`,
+    ticketNumber,
+  })),
+  createdAt,
+  updatedAt: createdAt,
+});
+
+describe('IndexedDB records', () => {
+  let db: IDBDatabase;
+
+  const countParticipants = (competitionId: string) =>
+    requestToPromise(
+      db
+        .transaction(STORES.PARTICIPANTS)
+        .objectStore(STORES.PARTICIPANTS)
+        .index(PARTICIPANTS_BY_COMPETITION)
+        .count(IDBKeyRange.bound([competitionId, 0], [competitionId, Infinity]))
+    );
+
+  beforeEach(async () => {
+    db = await openDatabase(`drawday-records-test-${++databaseCount}`);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should store one participant per ticket and read them back in order', async () => {
+    const saved = competition('c1', ['30', '4', 'A12']);
+    await writeCompetitions(db, [saved]);
+
+    expect(await countParticipants('c1')).toBe(3);
+    expect(await readCompetition(db, 'c1')).toEqual(saved);
+  });
+
+  it('should replace participants dropped from a competition', async () => {
+    await writeCompetitions(db, [competition('c1', ['1', '2', '3'])]);
+    await writeCompetitions(db, [competition('c1', ['2'])]);
+
+    expect(await countParticipants('c1')).toBe(1);
+    expect((await readCompetition(db, 'c1'))?.participants).toHaveLength(1);
+  });
+
+  it('should read competitions in creation order', async () => {
+    await writeCompetitions(db, [competition('late', ['1'], 2000), competition('early', ['1'])]);
+
+    expect((await readCompetitions(db)).map((c) => c.id)).toEqual(['early', 'late']);
+  });
+
+  it('should remove a competition with its participants only', async () => {
+    await writeCompetitions(db, [competition('c1', ['1', '2']), competition('c10', ['1'])]);
+    await removeCompetition(db, 'c1');
+
+    expect(await readCompetition(db, 'c1')).toBeNull();
+    expect(await countParticipants('c1')).toBe(0);
+    expect(await countParticipants('c10')).toBe(1);
+  });
+
+  it('should delete values written as undefined', async () => {
+    await writeValues(db, { raffleCount: 3, session: { spinTarget: '1' } });
+    await writeValues(db, { session: undefined });
+
+    expect(await readValue(db, 'raffleCount', 0)).toBe(3);
+    expect(await readValue(db, 'session', null)).toBeNull();
+  });
+
+  it('should clear every store', async () => {
+    await writeCompetitions(db, [competition('c1', ['1'])]);
+    await writeValues(db, { raffleCount: 3 });
+    await clearDatabase(db);
+
+    expect(await readCompetitions(db)).toEqual([]);
+    expect(await readValue(db, 'raffleCount', 0)).toBe(0);
+  });
+});
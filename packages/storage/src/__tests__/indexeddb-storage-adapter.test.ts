@@ -0,0 +1,188 @@
+/**
+ * IndexedDB Storage Adapter Tests
+ * Tests round-tripping data, image Blobs and the one-time chrome.storage migration
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IndexedDBStorageAdapter } from '../indexeddb-storage-adapter';
+import { STORES, openDatabase, requestToPromise } from '../indexeddb-database';
+import type { Competition, SavedMapping, SpinnerSession } from '../types';
+
+// PNG signature bytes, enough for a Blob round trip
+const PNG_DATA_URL = 'data:image/png;base64,iVBORw0KGgo=';
+
+let chromeData: Record<string, unknown>;
+let databaseCount = 0;
+
+// Node has no FileReader; read Blobs back the way the browser does
+class FileReaderStub {
+  result: string | null = null;
+  error: Error | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then((buffer) => {
+      this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onload?.();
+    });
+  }
+}
+
+const competition = (id: string, overrides: Partial<Competition> = {}): Competition => ({
+  id,
+  name: `Raffle ${id}`,
+  participants: [
+    { firstName: 'Jane', lastName: 'Doe', ticketNumber: '2', metadata: { Email: 'j@x.com' } },
+    { firstName: 'John', lastName: 'Smith', ticketNumber: '1' },
+  ],
+  createdAt: 1000,
+  updatedAt: 1000,
+  ...overrides,
+});
+
+const newDatabaseName = () => `drawday-test-${++databaseCount}`;
+
+beforeEach(() => {
+  chromeData = {};
+  vi.stubGlobal('FileReader', FileReaderStub);
+  vi.stubGlobal('chrome', {
+    storage: {
+      local: {
+        get: vi.fn(async (keys: string | string[]) =>
+          Object.fromEntries(
+            [keys].flat().flatMap((key) => (key in chromeData ? [[key, chromeData[key]]] : []))
+          )
+        ),
+        set: vi.fn(async (items: Record<string, unknown>) => Object.assign(chromeData, items)),
+        remove: vi.fn(async (key: string) => delete chromeData[key]),
+      },
+    },
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('IndexedDBStorageAdapter round trip', () => {
+  let adapter: IndexedDBStorageAdapter;
+
+  beforeEach(() => {
+    adapter = new IndexedDBStorageAdapter({
+      databaseName: newDatabaseName(),
+      migrateFromChromeStorage: false,
+    });
+  });
+
+  it('should read back saved competitions with participants in import order', async () => {
+    const saved = competition('c1');
+    await adapter.saveCompetition(saved);
+    await adapter.saveCompetition(competition('c2', { createdAt: 2000 }));
+
+    expect(await adapter.getCompetition('c1')).toEqual(saved);
+    expect((await adapter.getCompetitions()).map((c) => c.id)).toEqual(['c1', 'c2']);
+
+    await adapter.deleteCompetition('c1');
+    expect(await adapter.getCompetition('c1')).toBeNull();
+  });
+
+  it('should keep saved mappings and clear a deleted default', async () => {
+    const mapping: SavedMapping = {
+      id: 'm1',
+      name: 'Shop export',
+      mapping: { fullName: 'Name', ticketNumber: 'Ticket' },
+      createdAt: 0,
+      updatedAt: 0,
+      usageCount: 0,
+    };
+    await adapter.saveSavedMapping(mapping);
+    await adapter.setDefaultMapping('m1');
+
+    expect(await adapter.getDefaultMapping()).toEqual(mapping);
+
+    await adapter.deleteSavedMapping('m1');
+    expect(await adapter.getSavedMappings()).toEqual([]);
+    expect(await adapter.getDefaultMapping()).toBeNull();
+  });
+
+  it('should save, read and clear the session', async () => {
+    const session: SpinnerSession = {
+      sessionWinners: [],
+      currentTicketNumber: '7',
+      isSpinning: false,
+      spinTarget: '7',
+      sessionStartTime: 0,
+      lastActivity: 0,
+    };
+    await adapter.saveSession(session);
+
+    expect(await adapter.getSession()).toMatchObject({ currentTicketNumber: '7' });
+
+    await adapter.clearSession();
+    expect(await adapter.getSession()).toBeNull();
+  });
+
+  it('should chain draw log entries', async () => {
+    const input = {
+      competitionId: 'c1',
+      participantListHash: 'a'.repeat(64),
+      targetTicket: '1',
+      winner: { firstName: 'John', lastName: 'Smith', ticketNumber: '1' },
+      settings: await adapter.getSettings(),
+      operator: 'operator@example.com',
+      timestamp: 1000,
+    };
+    await Promise.all([adapter.appendDrawLogEntry(input), adapter.appendDrawLogEntry(input)]);
+
+    expect((await adapter.getDrawLog('c1')).map((e) => e.sequence)).toEqual([0, 1]);
+    expect(await adapter.verifyDrawLog()).toMatchObject({ valid: true, entryCount: 2 });
+  });
+});
+
+describe('IndexedDBStorageAdapter images and migration', () => {
+  it('should store base64 images as Blobs and restore them', async () => {
+    const databaseName = newDatabaseName();
+    const adapter = new IndexedDBStorageAdapter({ databaseName, migrateFromChromeStorage: false });
+    const saved = competition('c1', {
+      bannerImage: PNG_DATA_URL,
+      prizes: [{ id: 'p1', name: 'Car', quantity: 1, order: 0, image: PNG_DATA_URL }],
+    });
+    await adapter.saveCompetition(saved);
+
+    const db = await openDatabase(databaseName);
+    const record = await requestToPromise(
+      db.transaction(STORES.COMPETITIONS).objectStore(STORES.COMPETITIONS).get('c1')
+    );
+    const banner = await requestToPromise(
+      db.transaction(STORES.IMAGES).objectStore(STORES.IMAGES).get('c1/banner')
+    );
+    db.close();
+
+    expect(record.bannerImage).toBeUndefined();
+    expect(record.imageKeys).toEqual(['c1/banner', 'c1/prize/p1']);
+    expect(banner).toBeInstanceOf(Blob);
+    expect(banner.type).toBe('image/png');
+    expect(await adapter.getCompetition('c1')).toEqual(saved);
+  });
+
+  it('should migrate chrome.storage data once', async () => {
+    const databaseName = newDatabaseName();
+    chromeData.data = { competitions: [competition('c1')], raffleCount: 4 };
+
+    const first = new IndexedDBStorageAdapter({ databaseName });
+    expect((await first.getCompetitions()).map((c) => c.id)).toEqual(['c1']);
+    expect(await first.getRaffleCount()).toBe(4);
+    expect(chromeData.data).toMatchObject({ competitions: [] });
+
+    // Data written to chrome.storage later is not imported again
+    chromeData.data = { competitions: [competition('c2')] };
+    const second = new IndexedDBStorageAdapter({ databaseName });
+    expect((await second.getCompetitions()).map((c) => c.id)).toEqual(['c1']);
+
+    await second.clear();
+    const third = new IndexedDBStorageAdapter({ databaseName });
+    expect(await third.getCompetitions()).toEqual([]);
+  });
+});
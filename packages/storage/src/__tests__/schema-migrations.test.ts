@@ -0,0 +1,66 @@
+/**
+ * Schema Migrations Tests
+ * Tests upgrading stored data from older schema versions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  createDefaultStorageData,
+  migrateStorageData,
+} from '../schema-migrations';
+import type { StorageData } from '../types';
+
+// Data saved before schema versions existed: no defaults, numeric tickets
+const versionZeroData = {
+  competitions: [
+    {
+      id: 'c1',
+      name: 'Summer Raffle',
+      participants: [{ firstName: 'Jane', lastName: 'Doe', ticketNumber: 42 }],
+      createdAt: 1000,
+    },
+  ],
+} as unknown as Partial<StorageData>;
+
+describe('migrateStorageData', () => {
+  it('should upgrade data without a schema version through every migration', () => {
+    const outcome = migrateStorageData(versionZeroData);
+
+    expect(outcome).toMatchObject({ ok: true, fromVersion: 0, applied: [1, 2] });
+    if (!outcome.ok) return;
+    expect(outcome.data).toMatchObject({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      settings: { minSpinDuration: 3, decelerationRate: 'medium' },
+      columnMapping: null,
+      savedMappings: [],
+      raffleCount: 0,
+    });
+    expect(outcome.data.competitions[0]).toMatchObject({
+      participants: [{ firstName: 'Jane', lastName: 'Doe', ticketNumber: '42' }],
+      createdAt: 1000,
+      updatedAt: 1000,
+    });
+  });
+
+  it('should report the migration that failed', () => {
+    const corrupt = { schemaVersion: 1, competitions: {} } as unknown as Partial<StorageData>;
+
+    expect(migrateStorageData(corrupt)).toMatchObject({
+      ok: false,
+      fromVersion: 1,
+      failedVersion: 2,
+    });
+  });
+
+  it('should leave data at the current version unchanged', () => {
+    const data = createDefaultStorageData();
+
+    expect(migrateStorageData(data)).toEqual({
+      ok: true,
+      data,
+      fromVersion: CURRENT_SCHEMA_VERSION,
+      applied: [],
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Schema Upgrade Tests
+ * Tests saving upgraded data and backing up data whose upgrade fails
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, createDefaultStorageData } from '../schema-migrations';
+import { getSchemaMigrationReport, upgradeStoredData } from '../schema-upgrade';
+import type { StorageData } from '../types';
+
+let stored: Record<string, unknown>;
+
+const chromeStorage = {
+  get: vi.fn(async (key: string) => (key in stored ? { [key]: stored[key] } : {})),
+  set: vi.fn(async (items: Record<string, unknown>) => {
+    stored = { ...stored, ...items };
+  }),
+  remove: vi.fn(async (key: string) => {
+    delete stored[key];
+  }),
+};
+
+const corrupt = (name: string) =>
+  ({ schemaVersion: 1, competitions: { name } }) as unknown as Partial<StorageData>;
+
+describe('upgradeStoredData', () => {
+  beforeEach(() => {
+    stored = {};
+    vi.clearAllMocks();
+    vi.stubGlobal('chrome', { storage: { local: chromeStorage } });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should save data upgraded from version 0', async () => {
+    stored.schemaMigrationReport = { fromVersion: 0 };
+    const save = vi.fn(async () => {});
+
+    const data = await upgradeStoredData({ competitions: [] }, 'raffle', save);
+
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(save).toHaveBeenCalledWith(data);
+    expect(await getSchemaMigrationReport()).toBeNull();
+  });
+
+  it('should back up the original data once and report a failed upgrade', async () => {
+    const save = vi.fn(async () => {});
+    const original = corrupt('first load');
+
+    const data = await upgradeStoredData(original, 'raffle', save);
+    await upgradeStoredData(corrupt('second load'), 'raffle', save);
+
+    expect(data).toBe(original);
+    expect(save).not.toHaveBeenCalled();
+    expect(stored['raffleBackup-v1']).toEqual(original);
+    expect(await getSchemaMigrationReport()).toMatchObject({
+      fromVersion: 1,
+      failedVersion: 2,
+      backupKey: 'raffleBackup-v1',
+    });
+  });
+
+  it('should not touch data already at the current version', async () => {
+    const current = createDefaultStorageData();
+    const save = vi.fn(async () => {});
+
+    expect(await upgradeStoredData(current, 'raffle', save)).toBe(current);
+    expect(save).not.toHaveBeenCalled();
+    expect(chromeStorage.set).not.toHaveBeenCalled();
+    expect(chromeStorage.remove).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Sync Merge Tests
+ * Tests which records planSync applies locally and which it pushes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planSync, toRecord } from '../sync-merge';
+
+const competition = (id: string, updatedAt: number) =>
+  toRecord('competitions', id, updatedAt, { id, name: `Raffle ${id}`, updatedAt });
+
+describe('planSync', () => {
+  describe('remote changes', () => {
+    it('should apply a remote record newer than the synced version', () => {
+      const remote = competition('c1', 200);
+      const plan = planSync([remote], [], [competition('c1', 100)], { 'competitions:c1': 100 });
+
+      expect(plan.apply).toEqual([remote]);
+      expect(plan.push).toEqual([]);
+      expect(plan.syncedVersions).toEqual({ 'competitions:c1': 200 });
+    });
+
+    it('should skip a remote record already synced', () => {
+      const plan = planSync([competition('c1', 100)], [], [competition('c1', 100)], {
+        'competitions:c1': 100,
+      });
+
+      expect(plan.apply).toEqual([]);
+      expect(plan.push).toEqual([]);
+    });
+
+    it('should apply a record created on another device', () => {
+      const remote = competition('c2', 50);
+      const plan = planSync([remote], [], [], {});
+
+      expect(plan.apply).toEqual([remote]);
+      expect(plan.syncedVersions).toEqual({ 'competitions:c2': 50 });
+    });
+  });
+
+  describe('queued changes', () => {
+    it('should push a queued change newer than the remote copy', () => {
+      const change = competition('c1', 300);
+      const plan = planSync([competition('c1', 200)], [change], [change], {
+        'competitions:c1': 100,
+      });
+
+      expect(plan.apply).toEqual([]);
+      expect(plan.push).toEqual([change]);
+      expect(plan.syncedVersions).toEqual({ 'competitions:c1': 300 });
+    });
+
+    it('should apply the remote copy when it is newer than the queued change', () => {
+      const remote = competition('c1', 300);
+      const change = competition('c1', 200);
+      const plan = planSync([remote], [change], [change], { 'competitions:c1': 100 });
+
+      expect(plan.apply).toEqual([remote]);
+      expect(plan.push).toEqual([]);
+      expect(plan.syncedVersions).toEqual({ 'competitions:c1': 300 });
+    });
+
+    it('should let the local change win a tie', () => {
+      const change = competition('c1', 200);
+      const plan = planSync([competition('c1', 200)], [change], [change], {});
+
+      expect(plan.apply).toEqual([]);
+      expect(plan.push).toEqual([change]);
+    });
+  });
+
+  describe('tombstones', () => {
+    it('should apply a remote deletion of a local record', () => {
+      const tombstone = toRecord('competitions', 'c1', 200);
+      const plan = planSync([tombstone], [], [competition('c1', 100)], {
+        'competitions:c1': 100,
+      });
+
+      expect(plan.apply).toEqual([tombstone]);
+      expect(plan.syncedVersions).toEqual({ 'competitions:c1': 200 });
+    });
+
+    it('should record but not apply a deletion of a record never pulled', () => {
+      const plan = planSync([toRecord('competitions', 'c1', 200)], [], [], {});
+
+      expect(plan.apply).toEqual([]);
+      expect(plan.syncedVersions).toEqual({ 'competitions:c1': 200 });
+    });
+
+    it('should push a queued deletion', () => {
+      const tombstone = toRecord('savedMappings', 'm1', 300);
+      const plan = planSync([toRecord('savedMappings', 'm1', 100, {})], [tombstone], [], {
+        'savedMappings:m1': 100,
+      });
+
+      expect(plan.push).toEqual([tombstone]);
+      expect(tombstone.deleted).toBe(true);
+    });
+  });
+
+  describe('records from before sync was enabled', () => {
+    it('should push local records the server has not seen', () => {
+      const local = [competition('c1', 100), competition('c2', 100)];
+      const plan = planSync([], [], local, {});
+
+      expect(plan.push).toEqual(local);
+      expect(plan.syncedVersions).toEqual({ 'competitions:c1': 100, 'competitions:c2': 100 });
+    });
+
+    it('should push a local record newer than the remote copy', () => {
+      const local = competition('c1', 300);
+      const plan = planSync([competition('c1', 200)], [], [local], {});
+
+      expect(plan.apply).toEqual([]);
+      expect(plan.push).toEqual([local]);
+    });
+
+    it('should take the remote copy when it is newer than the local record', () => {
+      const remote = competition('c1', 300);
+      const plan = planSync([remote], [], [competition('c1', 200)], {});
+
+      expect(plan.apply).toEqual([remote]);
+      expect(plan.push).toEqual([]);
+    });
+  });
+});
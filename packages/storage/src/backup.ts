@@ -0,0 +1,169 @@
+/**
+ * Backup
+ *
+ * Purpose: Serializes extension data (competitions, saved mappings, settings,
+ * theme and session) into a versioned, checksummed backup file, reads it
+ * back, and plans how a backup is restored over the current data.
+ *
+ * SRS Reference:
+ * - Data Layer: Backup and restore
+ * - FR-1.6: Competition Management (portable competition data)
+ *
+ * Architecture Decision:
+ * - Images stay embedded as data URLs, so one JSON file holds everything
+ * - The draw audit log and subscription are not included; the log's hash
+ *   chain belongs to the install that recorded it
+ * - Backups from older schema versions go through the schema migrations
+ */
+
+import { Competition, SavedMapping, StorageData } from './types';
+import { canonicalJson, sha256Hex } from './hashing';
+import { CURRENT_SCHEMA_VERSION, migrateStorageData } from './schema-migrations';
+
+export const BACKUP_FORMAT = 'raffle-spinner-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export type BackupData = Pick<
+  StorageData,
+  | 'competitions'
+  | 'settings'
+  | 'columnMapping'
+  | 'savedMappings'
+  | 'defaultMappingId'
+  | 'theme'
+  | 'session'
+>;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: number;
+  checksum: string; // SHA-256 of the canonical JSON of `data`
+  data: BackupData;
+}
+
+/**
+ * merge adds competitions and saved mappings missing from this install;
+ * replace makes this install match the backup exactly
+ */
+export type BackupImportMode = 'merge' | 'replace';
+
+export interface BackupConflict {
+  id: string;
+  name: string;
+  currentUpdatedAt: number;
+  backupUpdatedAt: number;
+}
+
+export interface BackupImportPlan {
+  mode: BackupImportMode;
+  competitionsToSave: Competition[];
+  competitionsToDelete: string[];
+  mappingsToSave: SavedMapping[];
+  mappingsToDelete: string[];
+  conflicts: BackupConflict[]; // Competition ids in both; merge keeps the current one
+  restoreSettings: boolean; // Settings, column mapping, theme and session
+}
+
+export async function createBackup(data: BackupData): Promise<BackupFile> {
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    checksum: await sha256Hex(canonicalJson(data)),
+    data,
+  };
+}
+
+function parseBackupFile(text: string): BackupFile {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a Raffle Spinner backup');
+  }
+
+  if (file?.format !== BACKUP_FORMAT || !file.data) {
+    throw new Error('This file is not a Raffle Spinner backup');
+  }
+  if (file.formatVersion > BACKUP_FORMAT_VERSION || file.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version. Update the extension first.');
+  }
+  return file;
+}
+
+/**
+ * Parses and verifies a backup file, upgrading its data to the current schema
+ */
+export async function readBackup(text: string): Promise<BackupFile> {
+  const file = parseBackupFile(text);
+
+  if ((await sha256Hex(canonicalJson(file.data))) !== file.checksum) {
+    throw new Error('The backup file is damaged or was edited (checksum mismatch)');
+  }
+
+  const outcome = migrateStorageData({ ...file.data, schemaVersion: file.schemaVersion });
+  if (!outcome.ok) {
+    throw new Error(`The backup could not be upgraded: ${outcome.error}`);
+  }
+
+  const { competitions, settings, columnMapping, savedMappings, defaultMappingId, theme, session } =
+    outcome.data;
+  return {
+    ...file,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    data: {
+      competitions,
+      settings,
+      columnMapping,
+      savedMappings,
+      defaultMappingId,
+      theme,
+      session,
+    },
+  };
+}
+
+export function planBackupImport(
+  current: BackupData,
+  backup: BackupData,
+  mode: BackupImportMode
+): BackupImportPlan {
+  const currentById = new Map(current.competitions.map((c) => [c.id, c]));
+  const backupIds = new Set(backup.competitions.map((c) => c.id));
+  const currentMappingIds = new Set(current.savedMappings?.map((m) => m.id));
+  const backupMappingIds = new Set(backup.savedMappings?.map((m) => m.id));
+  const replacing = mode === 'replace';
+
+  const conflicts = backup.competitions.flatMap((competition) => {
+    const existing = currentById.get(competition.id);
+    return existing
+      ? [
+          {
+            id: competition.id,
+            name: competition.name,
+            currentUpdatedAt: existing.updatedAt,
+            backupUpdatedAt: competition.updatedAt,
+          },
+        ]
+      : [];
+  });
+
+  return {
+    mode,
+    competitionsToSave: backup.competitions.filter((c) => replacing || !currentById.has(c.id)),
+    competitionsToDelete: replacing
+      ? current.competitions.filter((c) => !backupIds.has(c.id)).map((c) => c.id)
+      : [],
+    mappingsToSave: (backup.savedMappings ?? []).filter(
+      (m) => replacing || !currentMappingIds.has(m.id)
+    ),
+    mappingsToDelete: replacing
+      ? [...currentMappingIds].filter((id) => !backupMappingIds.has(id))
+      : [],
+    conflicts,
+    restoreSettings: replacing,
+  };
+}
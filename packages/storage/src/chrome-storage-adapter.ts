@@ -9,6 +9,7 @@
  * - FR-1.6: Competition Management (persistent competition data)
  * - FR-1.7: Spinner Physics Configuration (persistent settings)
  * - FR-1.4: Column Mapping Interface (persistent column mappings)
+ * - FR-2.4: Winner Display and Session History (persistent draw audit log)
  */
 
 import { StorageAdapter } from './storage-adapter';
@@ -20,29 +21,23 @@ import {
   StorageData,
   UserSubscription,
   SpinnerSession,
+  DrawLogEntry,
+  DrawLogEntryInput,
+  DrawLogVerification,
 } from './types';
-
-const DEFAULT_SETTINGS: SpinnerSettings = {
-  minSpinDuration: 3,
-  decelerationRate: 'medium',
-};
+import { createDrawLogEntry, filterDrawLog, toDrawLogHead, verifyDrawLogChain } from './draw-log';
+import { createDefaultStorageData } from './schema-migrations';
+import { upgradeStoredData } from './schema-upgrade';
 
 export class ChromeStorageAdapter implements StorageAdapter {
+  private drawLogQueue: Promise<unknown> = Promise.resolve(); // Keeps the hash chain linear
+
   private async getData(): Promise<StorageData> {
     const result = await chrome.storage.local.get('data');
-    return (
-      result.data || {
-        competitions: [],
-        settings: DEFAULT_SETTINGS,
-        columnMapping: null,
-        savedMappings: [],
-        defaultMappingId: undefined,
-        theme: undefined, // Include theme in default structure
-        raffleCount: 0,
-        subscription: undefined,
-        session: undefined, // No active session by default
-      }
-    );
+    if (!result.data) {
+      return createDefaultStorageData();
+    }
+    return upgradeStoredData(result.data, 'data', (data) => chrome.storage.local.set({ data }));
   }
 
   private async setData(data: Partial<StorageData>): Promise<void> {
@@ -213,6 +208,29 @@ export class ChromeStorageAdapter implements StorageAdapter {
     }
   }
 
+  async appendDrawLogEntry(input: DrawLogEntryInput): Promise<DrawLogEntry> {
+    const append = this.drawLogQueue.then(async () => {
+      const data = await this.getData();
+      const entry = await createDrawLogEntry(input, data.drawLogHead);
+      await this.setData({
+        drawLog: [...(data.drawLog || []), entry],
+        drawLogHead: toDrawLogHead(entry),
+      });
+      return entry;
+    });
+    this.drawLogQueue = append.catch(() => undefined);
+    return append;
+  }
+
+  async getDrawLog(competitionId?: string): Promise<DrawLogEntry[]> {
+    return filterDrawLog((await this.getData()).drawLog || [], competitionId);
+  }
+
+  async verifyDrawLog(): Promise<DrawLogVerification> {
+    const data = await this.getData();
+    return verifyDrawLogChain(data.drawLog || [], data.drawLogHead);
+  }
+
   async clear(): Promise<void> {
     await chrome.storage.local.clear();
   }
@@ -0,0 +1,121 @@
+/**
+ * Directus Sync Transport
+ *
+ * Purpose: Stores synced records in Directus collections owned by the
+ * logged-in user, using the same access tokens as the auth service.
+ *
+ * SRS Reference:
+ * - Data Layer: Cross-device sync
+ *
+ * Architecture Decision:
+ * - Each collection has the fields record_id (string), updated_at (bigint,
+ *   milliseconds), deleted (boolean) and data (json); Directus sets
+ *   user_created, and permissions limit users to their own items
+ * - `fetch` and the base URL are injectable, so the transport can run
+ *   against a local Directus or a mock server
+ */
+
+import { SyncCollection, SyncRecord, SyncTransport } from './sync-transport';
+
+export const DIRECTUS_SYNC_COLLECTIONS: Record<SyncCollection, string> = {
+  competitions: 'raffle_competitions',
+  savedMappings: 'raffle_saved_mappings',
+  theme: 'raffle_themes',
+};
+
+interface DirectusSyncItem {
+  id: number;
+  record_id: string;
+  updated_at: number;
+  deleted: boolean;
+  data: unknown;
+}
+
+export interface DirectusSyncOptions {
+  baseUrl: string;
+  getAccessToken: () => Promise<string | null>;
+  fetch?: typeof fetch;
+}
+
+export class DirectusSyncTransport implements SyncTransport {
+  constructor(private readonly options: DirectusSyncOptions) {}
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const token = await this.options.getAccessToken();
+    if (!token) {
+      throw new Error('Log in to sync your data');
+    }
+
+    const doFetch = this.options.fetch ?? fetch;
+    const response = await doFetch(`${this.options.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Sync request failed (${response.status})`);
+    }
+    return response.status === 204 ? (undefined as T) : (await response.json()).data;
+  }
+
+  async pull(): Promise<SyncRecord[]> {
+    const entries = Object.entries(DIRECTUS_SYNC_COLLECTIONS) as Array<[SyncCollection, string]>;
+    const pulled = await Promise.all(
+      entries.map(async ([collection, name]) => {
+        const items = await this.request<DirectusSyncItem[]>(
+          `/items/${name}?filter[user_created][_eq]=$CURRENT_USER&limit=-1`
+        );
+        return items.map((item) => ({
+          collection,
+          id: item.record_id,
+          updatedAt: Number(item.updated_at),
+          deleted: item.deleted,
+          data: item.data,
+        }));
+      })
+    );
+    return pulled.flat();
+  }
+
+  async push(records: SyncRecord[]): Promise<void> {
+    for (const [collection, name] of Object.entries(DIRECTUS_SYNC_COLLECTIONS)) {
+      const batch = records.filter((record) => record.collection === collection);
+      if (batch.length > 0) {
+        await this.upsert(name, batch);
+      }
+    }
+  }
+
+  private async upsert(name: string, records: SyncRecord[]): Promise<void> {
+    const ids = records.map((record) => encodeURIComponent(record.id)).join(',');
+    const existing = await this.request<Array<Pick<DirectusSyncItem, 'id' | 'record_id'>>>(
+      `/items/${name}?filter[user_created][_eq]=$CURRENT_USER&filter[record_id][_in]=${ids}&fields=id,record_id&limit=-1`
+    );
+    const itemIds = new Map(existing.map((item) => [item.record_id, item.id]));
+
+    const toItem = (record: SyncRecord) => ({
+      record_id: record.id,
+      updated_at: record.updatedAt,
+      deleted: record.deleted,
+      data: record.data,
+    });
+
+    const created = records.filter((record) => !itemIds.has(record.id));
+    if (created.length > 0) {
+      await this.request(`/items/${name}`, {
+        method: 'POST',
+        body: JSON.stringify(created.map(toItem)),
+      });
+    }
+
+    for (const record of records.filter((r) => itemIds.has(r.id))) {
+      await this.request(`/items/${name}/${itemIds.get(record.id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(toItem(record)),
+      });
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Draw Audit Log
+ *
+ * Purpose: Hash chaining and integrity checking for the append-only draw log.
+ * Every entry stores the SHA-256 of its own contents plus the hash of the entry
+ * before it, so editing or removing any entry breaks the chain.
+ *
+ * SRS Reference:
+ * - FR-2.4: Winner Display and Session History (auditable draw history)
+ * - Data Layer: Draw log persistence shared by all storage adapters
+ */
+
+import {
+  DrawLogEntry,
+  DrawLogEntryInput,
+  DrawLogHead,
+  DrawLogIssue,
+  DrawLogVerification,
+} from './types';
+import { canonicalJson, sha256Hex } from './hashing';
+
+export const DRAW_LOG_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Hash an entry's contents together with its sequence and previous hash
+ */
+export async function computeDrawLogHash(entry: Omit<DrawLogEntry, 'hash'>): Promise<string> {
+  const { competitionId, participantListHash, targetTicket, winner, prize, settings, operator } =
+    entry;
+  return sha256Hex(
+    canonicalJson({
+      sequence: entry.sequence,
+      previousHash: entry.previousHash,
+      competitionId,
+      participantListHash,
+      targetTicket,
+      winner,
+      prize,
+      settings,
+      operator,
+      timestamp: entry.timestamp,
+    })
+  );
+}
+
+/**
+ * Build the next entry in the chain
+ */
+export async function createDrawLogEntry(
+  input: DrawLogEntryInput,
+  head: DrawLogHead | undefined
+): Promise<DrawLogEntry> {
+  const unsigned = {
+    ...input,
+    sequence: head?.count ?? 0,
+    previousHash: head?.hash ?? DRAW_LOG_GENESIS_HASH,
+  };
+  return { ...unsigned, hash: await computeDrawLogHash(unsigned) };
+}
+
+/**
+ * Head record pointing at the given entry
+ */
+export function toDrawLogHead(entry: DrawLogEntry): DrawLogHead {
+  return { count: entry.sequence + 1, hash: entry.hash };
+}
+
+/**
+ * Entries for one competition, or the whole log
+ */
+export function filterDrawLog(entries: DrawLogEntry[], competitionId?: string): DrawLogEntry[] {
+  return competitionId ? entries.filter((e) => e.competitionId === competitionId) : entries;
+}
+
+/**
+ * Walk the chain and report entries that were edited or deleted.
+ * The stored head catches entries removed from the end of the log.
+ */
+export async function verifyDrawLogChain(
+  entries: DrawLogEntry[],
+  head: DrawLogHead | undefined
+): Promise<DrawLogVerification> {
+  const issues: DrawLogIssue[] = [];
+  let expectedSequence = 0;
+  let previousHash = DRAW_LOG_GENESIS_HASH;
+
+  for (const entry of entries) {
+    if (entry.sequence > expectedSequence) {
+      const missing =
+        entry.sequence - expectedSequence === 1
+          ? `Entry ${entry.sequence} is`
+          : `Entries ${expectedSequence + 1} to ${entry.sequence} are`;
+      issues.push({ sequence: expectedSequence, type: 'deleted', message: `${missing} missing` });
+    } else if (entry.previousHash !== previousHash) {
+      issues.push({
+        sequence: entry.sequence,
+        type: 'edited',
+        message: `Entry ${entry.sequence + 1} does not follow the entry before it`,
+      });
+    }
+
+    const { hash, ...unsigned } = entry;
+    if ((await computeDrawLogHash(unsigned)) !== hash) {
+      issues.push({
+        sequence: entry.sequence,
+        type: 'edited',
+        message: `Entry ${entry.sequence + 1} has been modified since it was recorded`,
+      });
+    }
+
+    expectedSequence = entry.sequence + 1;
+    previousHash = hash;
+  }
+
+  const tailIssue = checkLogTail(expectedSequence, previousHash, head);
+  if (tailIssue) issues.push(tailIssue);
+  return { valid: issues.length === 0, entryCount: entries.length, issues };
+}
+
+/**
+ * Compare the end of the chain with the stored head
+ */
+function checkLogTail(
+  count: number,
+  lastHash: string,
+  head: DrawLogHead | undefined
+): DrawLogIssue | null {
+  const expectedCount = head?.count ?? 0;
+  if (expectedCount > count) {
+    return {
+      sequence: count,
+      type: 'deleted',
+      message: `${expectedCount - count} entry(s) missing from the end of the log`,
+    };
+  }
+  if (expectedCount < count || (head && head.hash !== lastHash)) {
+    return {
+      sequence: Math.max(count - 1, 0),
+      type: 'edited',
+      message: 'The last entry does not match the recorded end of the log',
+    };
+  }
+  return null;
+}
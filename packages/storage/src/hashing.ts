@@ -0,0 +1,37 @@
+/**
+ * Hashing
+ *
+ * Purpose: Canonical JSON serialization and SHA-256 hashing shared by the
+ * draw audit log and backup files, so checksums survive a storage or file
+ * round trip.
+ *
+ * SRS Reference:
+ * - FR-2.4: Winner Display and Session History (auditable draw history)
+ * - Data Layer: Backup and restore
+ */
+
+/**
+ * Serialize a value with sorted object keys so the hash does not depend on
+ * property order after a storage round trip
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,95 @@
+/**
+ * Image Blobs
+ *
+ * Purpose: Converts the base64 data URLs used for banner and prize images to
+ * Blobs for IndexedDB, which stores binary data without base64's 33% overhead,
+ * and back again when competitions are read.
+ *
+ * SRS Reference:
+ * - Data Layer: IndexedDB storage implementation
+ * - FR-1.6: Competition Management (competition banners, prize images)
+ */
+
+import { Competition } from './types';
+
+/** Images moved out of a competition record, keyed by image key */
+export type CompetitionImages = Map<string, Blob>;
+
+const BASE64_DATA_URL = /^data:([^;,]*)(?:;[^,]*)?;base64,/;
+
+export function isBase64DataUrl(value: string | undefined): value is string {
+  return !!value && BASE64_DATA_URL.test(value);
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const type = BASE64_DATA_URL.exec(dataUrl)?.[1] || 'application/octet-stream';
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  return new Blob([Uint8Array.from(binary, (char) => char.charCodeAt(0))], { type });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export const bannerImageKey = (competitionId: string) => `${competitionId}/banner`;
+export const prizeImageKey = (competitionId: string, prizeId: string) =>
+  `${competitionId}/prize/${prizeId}`;
+
+/**
+ * Moves base64 banner and prize images out of a competition. Other image
+ * values (e.g. URLs) stay inline.
+ */
+export function extractImages(competition: Competition): {
+  competition: Competition;
+  images: CompetitionImages;
+} {
+  const images: CompetitionImages = new Map();
+  const { bannerImage, prizes } = competition;
+
+  if (isBase64DataUrl(bannerImage)) {
+    images.set(bannerImageKey(competition.id), dataUrlToBlob(bannerImage));
+  }
+  prizes?.forEach((prize) => {
+    if (isBase64DataUrl(prize.image)) {
+      images.set(prizeImageKey(competition.id, prize.id), dataUrlToBlob(prize.image));
+    }
+  });
+
+  return {
+    competition: {
+      ...competition,
+      bannerImage: isBase64DataUrl(bannerImage) ? undefined : bannerImage,
+      prizes: prizes?.map((prize) =>
+        isBase64DataUrl(prize.image) ? { ...prize, image: undefined } : prize
+      ),
+    },
+    images,
+  };
+}
+
+/**
+ * Puts stored images back into a competition as data URLs
+ */
+export async function restoreImages(
+  competition: Competition,
+  images: CompetitionImages
+): Promise<Competition> {
+  const dataUrls = new Map<string, string>();
+  for (const [key, blob] of images) {
+    dataUrls.set(key, await blobToDataUrl(blob));
+  }
+
+  return {
+    ...competition,
+    bannerImage: dataUrls.get(bannerImageKey(competition.id)) ?? competition.bannerImage,
+    prizes: competition.prizes?.map((prize) => ({
+      ...prize,
+      image: dataUrls.get(prizeImageKey(competition.id, prize.id)) ?? prize.image,
+    })),
+  };
+}
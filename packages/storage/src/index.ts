@@ -11,11 +11,34 @@
 
 export * from './types';
 export * from './storage-adapter';
+export * from './draw-log';
+export * from './schema-migrations';
+export * from './schema-upgrade';
+export * from './backup';
 export * from './chrome-storage-adapter';
 export * from './optimized-chrome-storage-adapter';
+export * from './indexeddb-storage-adapter';
+export * from './sync-transport';
+export * from './directus-sync-transport';
+export * from './sync-state';
+export * from './sync-storage-adapter';
 export * from './storage-benchmark';
 
 import { OptimizedChromeStorageAdapter } from './optimized-chrome-storage-adapter';
+import { IndexedDBStorageAdapter } from './indexeddb-storage-adapter';
+import { StorageAdapter } from './storage-adapter';
 
-// Default export for convenience - now using optimized adapter
-export const storage = new OptimizedChromeStorageAdapter();
+// Default export for convenience - IndexedDB keeps large competitions clear of
+// the chrome.storage quota and migrates existing chrome.storage data on first use
+export let storage: StorageAdapter =
+  typeof indexedDB !== 'undefined'
+    ? new IndexedDBStorageAdapter()
+    : new OptimizedChromeStorageAdapter();
+
+/**
+ * Replaces the default storage, e.g. with a SyncStorageAdapter wrapping it.
+ * Call before anything reads from storage.
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  storage = adapter;
+}
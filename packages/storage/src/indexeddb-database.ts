@@ -0,0 +1,66 @@
+/**
+ * IndexedDB Database
+ *
+ * Purpose: Opens the IndexedDB database used by the IndexedDB storage adapter
+ * and wraps IDBRequest/IDBTransaction callbacks in promises.
+ *
+ * SRS Reference:
+ * - Data Layer: IndexedDB storage implementation
+ *
+ * Object Stores:
+ * - competitions: competition records without participants or images
+ * - participants: one record per ticket, keyed by [competitionId, ticketNumber]
+ * - images: banner and prize images as Blobs
+ * - keyval: settings, mappings, session, draw log and other single values
+ */
+
+export const DB_NAME = 'drawday-storage';
+const DB_VERSION = 1;
+
+export const STORES = {
+  COMPETITIONS: 'competitions',
+  PARTICIPANTS: 'participants',
+  IMAGES: 'images',
+  KEYVAL: 'keyval',
+} as const;
+
+// Participants are read back in their original import order
+export const PARTICIPANTS_BY_COMPETITION = 'byCompetition';
+
+export function openDatabase(name = DB_NAME): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(STORES.COMPETITIONS, { keyPath: 'id' });
+      db.createObjectStore(STORES.PARTICIPANTS, {
+        keyPath: ['competitionId', 'ticketNumber'],
+      }).createIndex(PARTICIPANTS_BY_COMPETITION, ['competitionId', 'order']);
+      db.createObjectStore(STORES.IMAGES);
+      db.createObjectStore(STORES.KEYVAL);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error(`Database ${name} is blocked by another connection`));
+  });
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves once every request in the transaction has been committed
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
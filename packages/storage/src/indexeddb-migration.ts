@@ -0,0 +1,101 @@
+/**
+ * IndexedDB Migration
+ *
+ * Purpose: Moves data saved by the chrome.storage adapters into IndexedDB the
+ * first time the IndexedDB adapter opens. ChromeStorageAdapter keeps it all
+ * under the `data` key; OptimizedChromeStorageAdapter keeps each part under
+ * its own key.
+ *
+ * SRS Reference:
+ * - Data Layer: IndexedDB storage implementation
+ * - FR-1.6: Competition Management (persistent competition data)
+ *
+ * Architecture Decision:
+ * - Competitions are removed from chrome.storage afterwards to free its
+ *   quota; the theme stays in `data` as ThemeContext reads it
+ * - The per-key layout is imported last, so it wins over older `data`
+ *   values when an install has both
+ * - The migrated flag is written last, so an interrupted migration re-runs
+ * - Data is brought up to the current schema before it is copied
+ */
+
+import { StorageData } from './types';
+import { openDatabase } from './indexeddb-database';
+import { readValue, writeCompetitions, writeValues } from './indexeddb-records';
+import { upgradeStoredData } from './schema-upgrade';
+
+export const MIGRATED_FLAG_KEY = 'migratedFromChromeStorage';
+
+// Keys OptimizedChromeStorageAdapter stores each part of the data under
+const PER_KEY_LAYOUT = [
+  'competitions',
+  'settings',
+  'columnMapping',
+  'savedMappings',
+  'defaultMappingId',
+  'raffleCount',
+  'subscription',
+  'session',
+  'drawLog',
+  'drawLogHead',
+  'schemaVersion',
+];
+
+/**
+ * Copies competitions and the given values into IndexedDB. Returns whether
+ * there were any competitions to copy.
+ */
+async function importStoredData(
+  db: IDBDatabase,
+  stored: StorageData,
+  keys: string[] = Object.keys(stored)
+): Promise<boolean> {
+  // Theme is left in chrome.storage for ThemeContext
+  const { competitions = [], theme: _theme, ...rest } = stored;
+  const values = Object.fromEntries(
+    Object.entries(rest).filter(([key]) => keys.includes(key) || key === 'schemaVersion')
+  );
+
+  await writeCompetitions(db, competitions);
+  await writeValues(db, values);
+  return competitions.length > 0;
+}
+
+export async function migrateFromChromeStorage(db: IDBDatabase): Promise<void> {
+  if (await readValue(db, MIGRATED_FLAG_KEY, false)) {
+    return;
+  }
+
+  const result = await chrome.storage.local.get('data');
+  const stored: StorageData | undefined =
+    result.data &&
+    (await upgradeStoredData(result.data, 'data', (data) => chrome.storage.local.set({ data })));
+
+  if (stored && (await importStoredData(db, stored))) {
+    await chrome.storage.local.set({ data: { ...stored, competitions: [] } });
+  }
+
+  const perKey = await chrome.storage.local.get(PER_KEY_LAYOUT);
+  if (Object.keys(perKey).length > 0) {
+    const upgraded = await upgradeStoredData(perKey, 'storageKeys', (data) =>
+      chrome.storage.local.set(data)
+    );
+    // Defaults filled in by the upgrade must not replace values from `data`
+    if (await importStoredData(db, upgraded, Object.keys(perKey))) {
+      await chrome.storage.local.set({ competitions: [] });
+    }
+  }
+
+  await writeValues(db, { [MIGRATED_FLAG_KEY]: true });
+}
+
+/**
+ * Opens the database, first migrating chrome.storage data into it if asked
+ */
+export async function openMigratedDatabase(name: string, migrate: boolean): Promise<IDBDatabase> {
+  const db = await openDatabase(name);
+  if (migrate) {
+    await migrateFromChromeStorage(db);
+  }
+  return db;
+}
@@ -0,0 +1,181 @@
+/**
+ * IndexedDB Records
+ *
+ * Purpose: Reads and writes competitions, participants, images and single
+ * values in the IndexedDB database. A competition is split into a record,
+ * one participant record per ticket and one Blob per image, and joined back
+ * together when read.
+ *
+ * SRS Reference:
+ * - Data Layer: IndexedDB storage implementation
+ * - FR-1.6: Competition Management (persistent competition data)
+ */
+
+import { Competition, Participant } from './types';
+import {
+  PARTICIPANTS_BY_COMPETITION,
+  STORES,
+  requestToPromise,
+  transactionDone,
+} from './indexeddb-database';
+import { CompetitionImages, extractImages, restoreImages } from './image-blobs';
+
+type CompetitionRecord = Omit<Competition, 'participants'> & {
+  participantCount: number;
+  imageKeys: string[];
+};
+
+type ParticipantRecord = Participant & {
+  competitionId: string;
+  order: number;
+};
+
+interface LoadedCompetition {
+  record: CompetitionRecord;
+  participants: ParticipantRecord[];
+  images: CompetitionImages;
+}
+
+const COMPETITION_STORES = [STORES.COMPETITIONS, STORES.PARTICIPANTS, STORES.IMAGES];
+
+// Every participant key for a competition sorts between [id] and [id, []]
+const participantKeys = (competitionId: string) =>
+  IDBKeyRange.bound([competitionId], [competitionId, []]);
+
+// Image keys are prefixed with the competition id
+const competitionImageKeys = (competitionId: string) =>
+  IDBKeyRange.bound(`${competitionId}/`, `${competitionId}/\uffff`);
+
+function toParticipant({ competitionId: _id, order: _order, ...participant }: ParticipantRecord) {
+  return participant as Participant;
+}
+
+function toCompetition({
+  participantCount: _count,
+  imageKeys: _keys,
+  ...record
+}: CompetitionRecord) {
+  return record as Omit<Competition, 'participants'>;
+}
+
+async function loadCompetition(
+  transaction: IDBTransaction,
+  record: CompetitionRecord
+): Promise<LoadedCompetition> {
+  const index = transaction.objectStore(STORES.PARTICIPANTS).index(PARTICIPANTS_BY_COMPETITION);
+  const imageStore = transaction.objectStore(STORES.IMAGES);
+
+  const [participants, blobs] = await Promise.all([
+    requestToPromise(index.getAll(IDBKeyRange.bound([record.id, 0], [record.id, Infinity]))),
+    Promise.all(record.imageKeys.map((key) => requestToPromise(imageStore.get(key)))),
+  ]);
+
+  const images: CompetitionImages = new Map();
+  record.imageKeys.forEach((key, i) => blobs[i] && images.set(key, blobs[i]));
+  return { record, participants, images };
+}
+
+// Blobs are converted back to data URLs once the transaction has finished
+async function assemble({ record, participants, images }: LoadedCompetition): Promise<Competition> {
+  return restoreImages(
+    { ...toCompetition(record), participants: participants.map(toParticipant) },
+    images
+  );
+}
+
+export async function readCompetitions(db: IDBDatabase): Promise<Competition[]> {
+  const transaction = db.transaction(COMPETITION_STORES, 'readonly');
+  const done = transactionDone(transaction);
+  const records: CompetitionRecord[] = await requestToPromise(
+    transaction.objectStore(STORES.COMPETITIONS).getAll()
+  );
+  const loaded = await Promise.all(records.map((record) => loadCompetition(transaction, record)));
+  await done;
+
+  // Keep the order competitions were created in, as chrome.storage did
+  loaded.sort((a, b) => a.record.createdAt - b.record.createdAt);
+  return Promise.all(loaded.map(assemble));
+}
+
+export async function readCompetition(db: IDBDatabase, id: string): Promise<Competition | null> {
+  const transaction = db.transaction(COMPETITION_STORES, 'readonly');
+  const done = transactionDone(transaction);
+  const record: CompetitionRecord | undefined = await requestToPromise(
+    transaction.objectStore(STORES.COMPETITIONS).get(id)
+  );
+  const loaded = record && (await loadCompetition(transaction, record));
+  await done;
+
+  return loaded ? assemble(loaded) : null;
+}
+
+/**
+ * Replaces each competition's record, participants and images in one transaction
+ */
+export async function writeCompetitions(
+  db: IDBDatabase,
+  competitions: Competition[]
+): Promise<void> {
+  // Images are converted before the transaction starts so it cannot auto-commit mid-write
+  const prepared = competitions.map(extractImages);
+  const transaction = db.transaction(COMPETITION_STORES, 'readwrite');
+  const competitionStore = transaction.objectStore(STORES.COMPETITIONS);
+  const participantStore = transaction.objectStore(STORES.PARTICIPANTS);
+  const imageStore = transaction.objectStore(STORES.IMAGES);
+
+  for (const { competition, images } of prepared) {
+    const { participants, ...rest } = competition;
+    participantStore.delete(participantKeys(competition.id));
+    imageStore.delete(competitionImageKeys(competition.id));
+
+    competitionStore.put({
+      ...rest,
+      participantCount: participants.length,
+      imageKeys: [...images.keys()],
+    } satisfies CompetitionRecord);
+    participants.forEach((participant, order) => {
+      participantStore.put({ ...participant, competitionId: competition.id, order });
+    });
+    images.forEach((blob, key) => imageStore.put(blob, key));
+  }
+
+  return transactionDone(transaction);
+}
+
+export async function removeCompetition(db: IDBDatabase, id: string): Promise<void> {
+  const transaction = db.transaction(COMPETITION_STORES, 'readwrite');
+  transaction.objectStore(STORES.COMPETITIONS).delete(id);
+  transaction.objectStore(STORES.PARTICIPANTS).delete(participantKeys(id));
+  transaction.objectStore(STORES.IMAGES).delete(competitionImageKeys(id));
+  return transactionDone(transaction);
+}
+
+export async function readValue<T>(db: IDBDatabase, key: string, defaultValue: T): Promise<T> {
+  const transaction = db.transaction(STORES.KEYVAL, 'readonly');
+  const value = await requestToPromise(transaction.objectStore(STORES.KEYVAL).get(key));
+  return value ?? defaultValue;
+}
+
+/**
+ * Writes several values in one transaction. Undefined values are deleted.
+ */
+export async function writeValues(db: IDBDatabase, values: Record<string, unknown>): Promise<void> {
+  const transaction = db.transaction(STORES.KEYVAL, 'readwrite');
+  const store = transaction.objectStore(STORES.KEYVAL);
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === undefined) {
+      store.delete(key);
+    } else {
+      store.put(value, key);
+    }
+  });
+
+  return transactionDone(transaction);
+}
+
+export async function clearDatabase(db: IDBDatabase): Promise<void> {
+  const transaction = db.transaction([...COMPETITION_STORES, STORES.KEYVAL], 'readwrite');
+  [...COMPETITION_STORES, STORES.KEYVAL].forEach((name) => transaction.objectStore(name).clear());
+  return transactionDone(transaction);
+}
@@ -0,0 +1,197 @@
+/**
+ * IndexedDB Storage Adapter
+ *
+ * Purpose: IndexedDB storage implementation for competitions with very large
+ * participant lists. Participants are stored one record per ticket and images
+ * as Blobs, so competitions are not limited by the chrome.storage quota and a
+ * read only loads what it needs.
+ *
+ * SRS Reference:
+ * - Data Layer: IndexedDB storage implementation
+ * - FR-1.6: Competition Management (persistent competition data)
+ * - FR-1.7: Spinner Physics Configuration (persistent settings)
+ * - FR-1.4: Column Mapping Interface (persistent column mappings)
+ * - FR-2.4: Winner Display and Session History (persistent draw audit log)
+ *
+ * Architecture Decision:
+ * - Data saved by the chrome.storage adapters is migrated once, on first use
+ * - Participants are keyed by [competitionId, ticketNumber]
+ */
+
+import { StorageAdapter } from './storage-adapter';
+import {
+  Competition,
+  SpinnerSettings,
+  ColumnMapping,
+  SavedMapping,
+  UserSubscription,
+  SpinnerSession,
+  DrawLogEntry,
+  DrawLogEntryInput,
+  DrawLogVerification,
+} from './types';
+import { filterDrawLog, verifyDrawLogChain } from './draw-log';
+import { createDefaultStorageData } from './schema-migrations';
+import { DB_NAME } from './indexeddb-database';
+import {
+  clearDatabase,
+  readCompetition,
+  readCompetitions,
+  readValue,
+  removeCompetition,
+  writeCompetitions,
+  writeValues,
+} from './indexeddb-records';
+import { MIGRATED_FLAG_KEY, openMigratedDatabase } from './indexeddb-migration';
+import {
+  appendDrawLog,
+  readDefaultMapping,
+  readDrawLog,
+  readSavedMappings,
+  readSession,
+  removeSavedMapping,
+  writeSavedMapping,
+  writeSession,
+} from './indexeddb-values';
+
+export interface IndexedDBStorageOptions {
+  databaseName?: string;
+  migrateFromChromeStorage?: boolean; // Default: true
+}
+
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private drawLogQueue: Promise<unknown> = Promise.resolve(); // Keeps the hash chain linear
+
+  constructor(private readonly options: IndexedDBStorageOptions = {}) {}
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const { databaseName = DB_NAME, migrateFromChromeStorage: migrate = true } = this.options;
+      this.dbPromise = openMigratedDatabase(databaseName, migrate);
+      // Let the next call retry if opening or migrating failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async getCompetitions(): Promise<Competition[]> {
+    return readCompetitions(await this.db());
+  }
+
+  async getCompetition(id: string): Promise<Competition | null> {
+    return readCompetition(await this.db(), id);
+  }
+
+  async saveCompetition(competition: Competition): Promise<void> {
+    await writeCompetitions(await this.db(), [competition]);
+  }
+
+  async deleteCompetition(id: string): Promise<void> {
+    await removeCompetition(await this.db(), id);
+  }
+
+  async getSettings(): Promise<SpinnerSettings> {
+    return readValue(await this.db(), 'settings', createDefaultStorageData().settings);
+  }
+
+  async saveSettings(settings: SpinnerSettings): Promise<void> {
+    await writeValues(await this.db(), { settings });
+  }
+
+  async getColumnMapping(): Promise<ColumnMapping | null> {
+    return readValue<ColumnMapping | null>(await this.db(), 'columnMapping', null);
+  }
+
+  async saveColumnMapping(mapping: ColumnMapping): Promise<void> {
+    await writeValues(await this.db(), { columnMapping: mapping });
+  }
+
+  // Saved mappings methods
+  async getSavedMappings(): Promise<SavedMapping[]> {
+    return readSavedMappings(await this.db());
+  }
+
+  async getSavedMapping(id: string): Promise<SavedMapping | null> {
+    const mappings = await this.getSavedMappings();
+    return mappings.find((m) => m.id === id) || null;
+  }
+
+  async saveSavedMapping(mapping: SavedMapping): Promise<void> {
+    await writeSavedMapping(await this.db(), mapping);
+  }
+
+  async deleteSavedMapping(id: string): Promise<void> {
+    await removeSavedMapping(await this.db(), id);
+  }
+
+  async getDefaultMapping(): Promise<SavedMapping | null> {
+    return readDefaultMapping(await this.db());
+  }
+
+  async setDefaultMapping(id: string | null): Promise<void> {
+    await writeValues(await this.db(), { defaultMappingId: id || undefined });
+  }
+
+  // Subscription methods
+  async getSubscription(): Promise<UserSubscription | null> {
+    return readValue<UserSubscription | null>(await this.db(), 'subscription', null);
+  }
+
+  async saveSubscription(subscription: UserSubscription): Promise<void> {
+    await writeValues(await this.db(), { subscription });
+  }
+
+  // Raffle counting methods
+  async getRaffleCount(): Promise<number> {
+    return readValue(await this.db(), 'raffleCount', 0);
+  }
+
+  async incrementRaffleCount(): Promise<number> {
+    const newCount = (await this.getRaffleCount()) + 1;
+    await writeValues(await this.db(), { raffleCount: newCount });
+    return newCount;
+  }
+
+  async resetRaffleCount(): Promise<void> {
+    await writeValues(await this.db(), { raffleCount: 0 });
+  }
+
+  // Session persistence methods
+  async getSession(): Promise<SpinnerSession | null> {
+    return readSession(this.db());
+  }
+
+  async saveSession(session: SpinnerSession): Promise<void> {
+    await writeSession(this.db(), session);
+  }
+
+  async clearSession(): Promise<void> {
+    await writeSession(this.db(), null);
+  }
+
+  async appendDrawLogEntry(input: DrawLogEntryInput): Promise<DrawLogEntry> {
+    const append = this.drawLogQueue.then(async () => appendDrawLog(await this.db(), input));
+    this.drawLogQueue = append.catch(() => undefined);
+    return append;
+  }
+
+  async getDrawLog(competitionId?: string): Promise<DrawLogEntry[]> {
+    const { entries } = await readDrawLog(await this.db());
+    return filterDrawLog(entries, competitionId);
+  }
+
+  async verifyDrawLog(): Promise<DrawLogVerification> {
+    const { entries, head } = await readDrawLog(await this.db());
+    return verifyDrawLogChain(entries, head);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.db();
+    await clearDatabase(db);
+    // Cleared data must not be replaced by a second migration
+    await writeValues(db, { [MIGRATED_FLAG_KEY]: true });
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * IndexedDB Values
+ *
+ * Purpose: Saved column mappings, the spinner session and the draw log,
+ * kept as single values in the IndexedDB database. Extracted from
+ * indexeddb-storage-adapter.ts to maintain file size limits.
+ *
+ * SRS Reference:
+ * - Data Layer: IndexedDB storage implementation
+ * - FR-1.4: Column Mapping Interface (persistent column mappings)
+ * - FR-2.4: Winner Display and Session History (persistent draw audit log)
+ */
+
+import {
+  DrawLogEntry,
+  DrawLogEntryInput,
+  DrawLogHead,
+  SavedMapping,
+  SpinnerSession,
+} from './types';
+import { createDrawLogEntry, toDrawLogHead } from './draw-log';
+import { readValue, writeValues } from './indexeddb-records';
+
+export function readSavedMappings(db: IDBDatabase): Promise<SavedMapping[]> {
+  return readValue<SavedMapping[]>(db, 'savedMappings', []);
+}
+
+/**
+ * Adds a mapping, or replaces the one with the same id
+ */
+export async function writeSavedMapping(db: IDBDatabase, mapping: SavedMapping): Promise<void> {
+  const mappings = await readSavedMappings(db);
+  const index = mappings.findIndex((m) => m.id === mapping.id);
+
+  if (index >= 0) {
+    mappings[index] = {
+      ...mapping,
+      updatedAt: Date.now(),
+    };
+  } else {
+    mappings.push(mapping);
+  }
+
+  await writeValues(db, { savedMappings: mappings });
+}
+
+export async function removeSavedMapping(db: IDBDatabase, id: string): Promise<void> {
+  const mappings = await readSavedMappings(db);
+  const defaultMappingId = await readValue<string | undefined>(db, 'defaultMappingId', undefined);
+
+  await writeValues(db, {
+    savedMappings: mappings.filter((m) => m.id !== id),
+    // If we're deleting the default mapping, clear the default
+    ...(defaultMappingId === id && { defaultMappingId: undefined }),
+  });
+}
+
+export async function readDefaultMapping(db: IDBDatabase): Promise<SavedMapping | null> {
+  const defaultId = await readValue<string | undefined>(db, 'defaultMappingId', undefined);
+  if (!defaultId) return null;
+  const mappings = await readSavedMappings(db);
+  return mappings.find((m) => m.id === defaultId) || null;
+}
+
+/**
+ * Session persistence should be non-blocking, so the session helpers take
+ * the database promise and log failures to open or read it instead of
+ * throwing
+ */
+export async function readSession(db: Promise<IDBDatabase>): Promise<SpinnerSession | null> {
+  try {
+    return await readValue<SpinnerSession | null>(await db, 'session', null);
+  } catch (error) {
+    console.error('Failed to get session:', error);
+    return null;
+  }
+}
+
+/**
+ * Saves the session with its last activity time, or clears it
+ */
+export async function writeSession(
+  db: Promise<IDBDatabase>,
+  session: SpinnerSession | null
+): Promise<void> {
+  try {
+    await writeValues(await db, {
+      session: session ? { ...session, lastActivity: Date.now() } : undefined,
+    });
+  } catch (error) {
+    console.error(`Failed to ${session ? 'save' : 'clear'} session:`, error);
+  }
+}
+
+export async function readDrawLog(
+  db: IDBDatabase
+): Promise<{ entries: DrawLogEntry[]; head: DrawLogHead | undefined }> {
+  return {
+    entries: await readValue<DrawLogEntry[]>(db, 'drawLog', []),
+    head: await readValue<DrawLogHead | undefined>(db, 'drawLogHead', undefined),
+  };
+}
+
+/**
+ * Chains a new entry onto the log. Callers must not append concurrently.
+ */
+export async function appendDrawLog(
+  db: IDBDatabase,
+  input: DrawLogEntryInput
+): Promise<DrawLogEntry> {
+  const { entries, head } = await readDrawLog(db);
+  const entry = await createDrawLogEntry(input, head);
+  await writeValues(db, { drawLog: [...entries, entry], drawLogHead: toDrawLogHead(entry) });
+  return entry;
+}
@@ -22,7 +22,13 @@ import {
   SavedMapping,
   UserSubscription,
   SpinnerSession,
+  DrawLogEntry,
+  DrawLogEntryInput,
+  DrawLogHead,
+  DrawLogVerification,
 } from './types';
+import { createDrawLogEntry, filterDrawLog, toDrawLogHead, verifyDrawLogChain } from './draw-log';
+import { upgradeStoredData } from './schema-upgrade';
 
 // Storage key constants for granular access
 const STORAGE_KEYS = {
@@ -35,6 +41,9 @@ const STORAGE_KEYS = {
   RAFFLE_COUNT: 'raffleCount',
   SUBSCRIPTION: 'subscription',
   SESSION: 'session',
+  DRAW_LOG: 'drawLog',
+  DRAW_LOG_HEAD: 'drawLogHead',
+  SCHEMA_VERSION: 'schemaVersion',
 } as const;
 
 const DEFAULT_SETTINGS: SpinnerSettings = {
@@ -64,6 +73,12 @@ export class OptimizedChromeStorageAdapter implements StorageAdapter {
   private writeTimeout: ReturnType<typeof setTimeout> | null = null;
   private isProcessingWrites = false;
 
+  // Stored keys are upgraded to the current schema before the first read or write
+  private schemaReady: Promise<void> | null = null;
+
+  // Serializes draw log appends so concurrent draws cannot fork the hash chain
+  private drawLogQueue: Promise<unknown> = Promise.resolve();
+
   // Cache TTL in milliseconds (5 minutes)
   private readonly CACHE_TTL = 5 * 60 * 1000;
 
@@ -73,10 +88,30 @@ export class OptimizedChromeStorageAdapter implements StorageAdapter {
   // Batch size for write operations
   private readonly BATCH_SIZE = 10;
 
+  /**
+   * Upgrade the granular storage keys to the current schema once per instance
+   */
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = (async () => {
+        const keys = Object.values(STORAGE_KEYS);
+        const stored = await chrome.storage.local.get(keys);
+        await upgradeStoredData(stored, 'storageKeys', async (data) => {
+          await chrome.storage.local.set(data);
+        });
+      })().catch((error) => {
+        console.error('Failed to upgrade storage schema:', error);
+        this.schemaReady = null;
+      });
+    }
+    return this.schemaReady;
+  }
+
   /**
    * Get data from cache or storage with automatic cache management
    */
   private async getCachedData<T>(key: string, defaultValue: T, forceRefresh = false): Promise<T> {
+    await this.ensureSchema();
     const cacheEntry = this.cache.get(key);
     const now = Date.now();
 
@@ -168,6 +203,9 @@ export class OptimizedChromeStorageAdapter implements StorageAdapter {
     this.isProcessingWrites = true;
 
     try {
+      // Queued writes must not be overwritten by the schema upgrade
+      await this.ensureSchema();
+
       // Sort by priority and timestamp
       this.writeQueue.sort((a, b) => {
         const priorityOrder = { high: 0, normal: 1, low: 2 };
@@ -401,6 +439,41 @@ export class OptimizedChromeStorageAdapter implements StorageAdapter {
     }
   }
 
+  // Draw audit log methods (audit records are never deferred)
+  async appendDrawLogEntry(input: DrawLogEntryInput): Promise<DrawLogEntry> {
+    const append = this.drawLogQueue.then(async () => {
+      const entries = await this.getCachedData<DrawLogEntry[]>(STORAGE_KEYS.DRAW_LOG, []);
+      const head = await this.getCachedData<DrawLogHead | undefined>(
+        STORAGE_KEYS.DRAW_LOG_HEAD,
+        undefined
+      );
+      const entry = await createDrawLogEntry(input, head);
+
+      this.queueWrite(STORAGE_KEYS.DRAW_LOG, [...entries, entry], 'high');
+      this.queueWrite(STORAGE_KEYS.DRAW_LOG_HEAD, toDrawLogHead(entry), 'high');
+      await this.flushWrites();
+      return entry;
+    });
+    this.drawLogQueue = append.catch(() => undefined);
+    return append;
+  }
+
+  async getDrawLog(competitionId?: string): Promise<DrawLogEntry[]> {
+    const entries = await this.getCachedData<DrawLogEntry[]>(STORAGE_KEYS.DRAW_LOG, []);
+    return filterDrawLog(entries, competitionId);
+  }
+
+  async verifyDrawLog(): Promise<DrawLogVerification> {
+    // Always re-read storage so the check covers what is actually persisted
+    const entries = await this.getCachedData<DrawLogEntry[]>(STORAGE_KEYS.DRAW_LOG, [], true);
+    const head = await this.getCachedData<DrawLogHead | undefined>(
+      STORAGE_KEYS.DRAW_LOG_HEAD,
+      undefined,
+      true
+    );
+    return verifyDrawLogChain(entries, head);
+  }
+
   // Clear all data and cache
   async clear(): Promise<void> {
     this.cache.clear();
@@ -412,6 +485,7 @@ export class OptimizedChromeStorageAdapter implements StorageAdapter {
     }
 
     await chrome.storage.local.clear();
+    this.schemaReady = null;
   }
 
   /**
@@ -0,0 +1,111 @@
+/**
+ * Schema Migrations
+ *
+ * Purpose: Ordered registry of migrations that upgrade stored data saved by
+ * older versions of the extension to the current StorageData shape. Each
+ * migration takes the output of the one before it, so a change to
+ * Competition, ThemeSettings or any other stored type ships as a new entry
+ * at the end of the list.
+ *
+ * SRS Reference:
+ * - Data Layer: Storage schema versioning
+ * - FR-1.6: Competition Management (persistent competition data)
+ *
+ * Architecture Decision:
+ * - Data without a schemaVersion is treated as version 0
+ * - Migrations are pure; the adapters decide where results are written
+ * - Never remove or reorder entries, as installs may be on any version
+ */
+
+import { SpinnerSettings, StorageData } from './types';
+
+export interface SchemaMigration {
+  version: number; // Schema version the data has after this migration
+  description: string;
+  migrate: (data: StorageData) => StorageData;
+}
+
+export type SchemaMigrationOutcome =
+  | { ok: true; data: StorageData; fromVersion: number; applied: number[] }
+  | { ok: false; fromVersion: number; failedVersion: number; error: string };
+
+const DEFAULT_SETTINGS: SpinnerSettings = {
+  minSpinDuration: 3,
+  decelerationRate: 'medium',
+};
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Fill in defaults for fields missing from early installs',
+    migrate: (data) => ({
+      ...data,
+      competitions: data.competitions ?? [],
+      settings: { ...DEFAULT_SETTINGS, ...data.settings },
+      columnMapping: data.columnMapping ?? null,
+      savedMappings: data.savedMappings ?? [],
+      raffleCount: data.raffleCount ?? 0,
+    }),
+  },
+  {
+    version: 2,
+    description: 'Store ticket numbers as strings and date every competition',
+    migrate: (data) => ({
+      ...data,
+      competitions: data.competitions.map((competition) => ({
+        ...competition,
+        participants: (competition.participants ?? []).map((participant) => ({
+          ...participant,
+          ticketNumber: String(participant.ticketNumber),
+        })),
+        createdAt: competition.createdAt ?? 0,
+        updatedAt: competition.updatedAt ?? competition.createdAt ?? 0,
+      })),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+export function createDefaultStorageData(): StorageData {
+  return {
+    competitions: [],
+    settings: DEFAULT_SETTINGS,
+    columnMapping: null,
+    savedMappings: [],
+    raffleCount: 0,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+  };
+}
+
+export function needsSchemaMigration(data: Partial<StorageData>): boolean {
+  return (data.schemaVersion ?? 0) < CURRENT_SCHEMA_VERSION;
+}
+
+/**
+ * Runs every migration newer than the data's schema version, in order.
+ * Stops at the first migration that throws and reports which one failed.
+ */
+export function migrateStorageData(stored: Partial<StorageData>): SchemaMigrationOutcome {
+  const fromVersion = stored.schemaVersion ?? 0;
+  const applied: number[] = [];
+  let data = stored as StorageData;
+
+  for (const migration of SCHEMA_MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+
+    try {
+      data = { ...migration.migrate(data), schemaVersion: migration.version };
+      applied.push(migration.version);
+    } catch (error) {
+      return {
+        ok: false,
+        fromVersion,
+        failedVersion: migration.version,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  return { ok: true, data, fromVersion, applied };
+}
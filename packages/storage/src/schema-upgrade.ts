@@ -0,0 +1,80 @@
+/**
+ * Schema Upgrade
+ *
+ * Purpose: Applies the schema migrations to data read from chrome.storage,
+ * saves the upgraded data and, when a migration fails, backs up the original
+ * data and records a report instead of resetting it.
+ *
+ * SRS Reference:
+ * - Data Layer: Storage schema versioning
+ *
+ * Architecture Decision:
+ * - After a failure the original data is still returned and left in place,
+ *   and the upgrade is retried on the next load
+ * - The backup is written once per starting version so retries cannot
+ *   overwrite it with partially changed data
+ */
+
+import { SchemaMigrationReport, StorageData } from './types';
+import { migrateStorageData, needsSchemaMigration } from './schema-migrations';
+
+const REPORT_KEY = 'schemaMigrationReport';
+
+/**
+ * Returns the stored data upgraded to the current schema. `save` is only
+ * called when migrations ran successfully.
+ */
+export async function upgradeStoredData(
+  stored: Partial<StorageData>,
+  source: string,
+  save: (data: StorageData) => Promise<void>
+): Promise<StorageData> {
+  if (!needsSchemaMigration(stored)) {
+    return stored as StorageData;
+  }
+
+  const outcome = migrateStorageData(stored);
+  if (outcome.ok) {
+    await save(outcome.data);
+    // A failure reported by an earlier load no longer applies
+    await chrome.storage.local.remove(REPORT_KEY);
+    return outcome.data;
+  }
+
+  const backupKey = `${source}Backup-v${outcome.fromVersion}`;
+  const existing = await chrome.storage.local.get(backupKey);
+  const report: SchemaMigrationReport = {
+    fromVersion: outcome.fromVersion,
+    failedVersion: outcome.failedVersion,
+    error: outcome.error,
+    backupKey,
+    timestamp: Date.now(),
+  };
+
+  await chrome.storage.local.set({
+    ...(!existing[backupKey] && { [backupKey]: stored }),
+    [REPORT_KEY]: report,
+  });
+  console.error(
+    `Storage schema migration to version ${outcome.failedVersion} failed; data backed up to "${backupKey}":`,
+    outcome.error
+  );
+
+  return stored as StorageData;
+}
+
+export async function getSchemaMigrationReport(): Promise<SchemaMigrationReport | null> {
+  const result = await chrome.storage.local.get(REPORT_KEY);
+  return result[REPORT_KEY] ?? null;
+}
+
+export async function getSchemaMigrationBackup(
+  report: SchemaMigrationReport
+): Promise<Partial<StorageData> | null> {
+  const result = await chrome.storage.local.get(report.backupKey);
+  return result[report.backupKey] ?? null;
+}
+
+export async function clearSchemaMigrationReport(): Promise<void> {
+  await chrome.storage.local.remove(REPORT_KEY);
+}
@@ -9,6 +9,7 @@
  * - FR-1.6: Competition Management (persistence operations)
  * - FR-1.7: Spinner Physics Configuration (settings persistence)
  * - FR-1.4: Column Mapping Interface (mapping persistence)
+ * - FR-2.4: Winner Display and Session History (draw audit log)
  */
 
 import {
@@ -18,6 +19,9 @@ import {
   SavedMapping,
   UserSubscription,
   SpinnerSession,
+  DrawLogEntry,
+  DrawLogEntryInput,
+  DrawLogVerification,
 } from './types';
 
 export interface StorageAdapter {
@@ -54,5 +58,10 @@ export interface StorageAdapter {
   saveSession(session: SpinnerSession): Promise<void>;
   clearSession(): Promise<void>;
 
+  // Draw audit log methods (append-only, hash-chained)
+  appendDrawLogEntry(input: DrawLogEntryInput): Promise<DrawLogEntry>;
+  getDrawLog(competitionId?: string): Promise<DrawLogEntry[]>;
+  verifyDrawLog(): Promise<DrawLogVerification>;
+
   clear(): Promise<void>;
 }
@@ -4,11 +4,17 @@
  * Purpose: Measure current chrome.storage.local performance to establish
  * baseline metrics for optimization efforts. Focuses on operations that
  * impact user experience during live drawing sessions.
+ *
+ * compareStorageAdapters() runs the same suites against the chrome.storage
+ * adapters and the IndexedDB adapter and reports them side by side.
  */
 
 /* eslint-disable no-console, max-lines */
 
 import { ChromeStorageAdapter } from './chrome-storage-adapter';
+import { OptimizedChromeStorageAdapter } from './optimized-chrome-storage-adapter';
+import { IndexedDBStorageAdapter } from './indexeddb-storage-adapter';
+import { StorageAdapter } from './storage-adapter';
 import { Competition, SpinnerSettings, SpinnerSession } from './types';
 
 export interface BenchmarkResult {
@@ -28,11 +34,18 @@ export interface BenchmarkSuite {
   target: number; // Target time in ms
 }
 
+export interface AdapterBenchmark {
+  adapterName: string;
+  suites: BenchmarkSuite[];
+  overallPassed: boolean;
+}
+
 /**
  * Performance benchmark class for storage operations
  */
 export class StorageBenchmark {
-  private storage = new ChromeStorageAdapter();
+  constructor(private storage: StorageAdapter = new ChromeStorageAdapter()) {}
+
   private testCompetitions: Competition[] = [];
   private testSettings: SpinnerSettings = {
     minSpinDuration: 3,
@@ -395,4 +408,62 @@ export class StorageBenchmark {
   async cleanup(): Promise<void> {
     await this.storage.clear();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Run the full benchmark against each storage adapter in turn.
+ * Every adapter clears its storage, so run this on test data only.
+ */
+export async function compareStorageAdapters(): Promise<{
+  adapters: AdapterBenchmark[];
+  summary: string;
+}> {
+  const candidates: Array<[string, StorageAdapter]> = [
+    ['ChromeStorageAdapter', new ChromeStorageAdapter()],
+    ['OptimizedChromeStorageAdapter', new OptimizedChromeStorageAdapter()],
+    [
+      'IndexedDBStorageAdapter',
+      new IndexedDBStorageAdapter({
+        databaseName: 'drawday-storage-benchmark',
+        migrateFromChromeStorage: false,
+      }),
+    ],
+  ];
+
+  const adapters: AdapterBenchmark[] = [];
+  for (const [adapterName, adapter] of candidates) {
+    console.log(`🧪 Benchmarking ${adapterName}...`);
+    const benchmark = new StorageBenchmark(adapter);
+    const { suites, overallPassed } = await benchmark.runFullBenchmark();
+    await benchmark.cleanup();
+    adapters.push({ adapterName, suites, overallPassed });
+  }
+
+  return { adapters, summary: generateComparisonReport(adapters) };
+}
+
+/**
+ * Average time per operation, one column per adapter
+ */
+function generateComparisonReport(adapters: AdapterBenchmark[]): string {
+  const operations = adapters[0].suites.flatMap((suite) =>
+    suite.results.map((result) => result.operation)
+  );
+  const avgTime = (adapter: AdapterBenchmark, operation: string) =>
+    adapter.suites
+      .flatMap((suite) => suite.results)
+      .find((result) => result.operation === operation)
+      ?.avgTime.toFixed(2) ?? '-';
+
+  const lines = [
+    '📊 STORAGE ADAPTER COMPARISON (avg ms)',
+    ['Operation', ...adapters.map((adapter) => adapter.adapterName)].join(' | '),
+    ...operations.map((operation) =>
+      [operation, ...adapters.map((adapter) => avgTime(adapter, operation))].join(' | ')
+    ),
+    ['Overall', ...adapters.map((adapter) => (adapter.overallPassed ? '✅ PASSED' : '❌ FAILED'))].join(
+      ' | '
+    ),
+  ];
+  return lines.join('\n');
+}
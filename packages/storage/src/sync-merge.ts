@@ -0,0 +1,137 @@
+/**
+ * Sync Merge
+ *
+ * Purpose: Decides which remote records are written locally and which local
+ * changes are pushed when a device syncs. Conflicts are resolved per record
+ * by updatedAt: the newer change wins, and a tie goes to the local change.
+ * Also converts between local data and sync records.
+ *
+ * SRS Reference:
+ * - Data Layer: Cross-device sync
+ */
+
+import { StorageAdapter } from './storage-adapter';
+import { Competition, SavedMapping, ThemeSettings } from './types';
+import { SyncCollection, SyncRecord, syncRecordKey } from './sync-transport';
+
+export const toRecord = (
+  collection: SyncCollection,
+  id: string,
+  updatedAt: number,
+  data: unknown = null
+): SyncRecord => ({ collection, id, updatedAt, deleted: data === null, data });
+
+export interface SyncPlan {
+  apply: SyncRecord[]; // Remote records newer than the local copy
+  push: SyncRecord[]; // Local changes newer than the remote copy
+  syncedVersions: Record<string, number>;
+}
+
+type RecordsByKey = Map<string, SyncRecord>;
+
+const byKey = (records: SyncRecord[]): RecordsByKey =>
+  new Map(records.map((record) => [syncRecordKey(record), record]));
+
+/**
+ * Remote records to write locally; records their versions in `versions`
+ */
+function pickRemoteChanges(
+  remote: RecordsByKey,
+  queued: RecordsByKey,
+  local: RecordsByKey,
+  versions: Record<string, number>
+): SyncRecord[] {
+  const apply: SyncRecord[] = [];
+
+  for (const [key, record] of remote) {
+    const change = queued.get(key);
+    const baseline = versions[key] ?? local.get(key)?.updatedAt ?? -Infinity;
+    const isNewer = change ? record.updatedAt > change.updatedAt : record.updatedAt > baseline;
+    if (!isNewer) continue;
+
+    // Tombstones only need applying when there is something to delete
+    if (!record.deleted || local.has(key)) apply.push(record);
+    versions[key] = record.updatedAt;
+  }
+  return apply;
+}
+
+/**
+ * Queued changes, plus records that existed before sync was turned on,
+ * that are at least as new as the remote copy
+ */
+function pickLocalChanges(
+  remote: RecordsByKey,
+  queued: RecordsByKey,
+  local: RecordsByKey,
+  versions: Record<string, number>
+): SyncRecord[] {
+  const unsynced = [...local].filter(([key]) => versions[key] === undefined && !queued.has(key));
+
+  return [
+    ...[...queued].filter(
+      ([key, change]) => change.updatedAt >= (remote.get(key)?.updatedAt ?? -Infinity)
+    ),
+    ...unsynced.filter(
+      ([key, record]) => record.updatedAt > (remote.get(key)?.updatedAt ?? -Infinity)
+    ),
+  ].map(([, record]) => record);
+}
+
+/**
+ * @param local Current local records, used for records never synced before
+ */
+export function planSync(
+  remote: SyncRecord[],
+  queue: SyncRecord[],
+  local: SyncRecord[],
+  syncedVersions: Record<string, number>
+): SyncPlan {
+  const [remoteByKey, queuedByKey, localByKey] = [byKey(remote), byKey(queue), byKey(local)];
+  const versions = { ...syncedVersions };
+
+  const apply = pickRemoteChanges(remoteByKey, queuedByKey, localByKey, versions);
+  const push = pickLocalChanges(remoteByKey, queuedByKey, localByKey, versions);
+
+  push.forEach((record) => (versions[syncRecordKey(record)] = record.updatedAt));
+  return { apply, push, syncedVersions: versions };
+}
+
+/**
+ * Current competitions and saved mappings as sync records
+ */
+export async function readLocalRecords(adapter: StorageAdapter): Promise<SyncRecord[]> {
+  const [competitions, mappings] = await Promise.all([
+    adapter.getCompetitions(),
+    adapter.getSavedMappings(),
+  ]);
+  return [
+    ...competitions.map((c) => toRecord('competitions', c.id, c.updatedAt, c)),
+    ...mappings.map((m) => toRecord('savedMappings', m.id, m.updatedAt, m)),
+  ];
+}
+
+/**
+ * Writes remote records to the adapter and returns the remote theme, if any,
+ * since the theme is not stored through the adapter
+ */
+export async function applyRemoteRecords(
+  adapter: StorageAdapter,
+  records: SyncRecord[]
+): Promise<ThemeSettings | undefined> {
+  let theme: ThemeSettings | undefined;
+  for (const record of records) {
+    if (record.collection === 'competitions') {
+      await (record.deleted
+        ? adapter.deleteCompetition(record.id)
+        : adapter.saveCompetition(record.data as Competition));
+    } else if (record.collection === 'savedMappings') {
+      await (record.deleted
+        ? adapter.deleteSavedMapping(record.id)
+        : adapter.saveSavedMapping(record.data as SavedMapping));
+    } else if (!record.deleted) {
+      theme = record.data as ThemeSettings;
+    }
+  }
+  return theme;
+}
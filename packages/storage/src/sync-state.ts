@@ -0,0 +1,45 @@
+/**
+ * Sync State
+ *
+ * Purpose: Persists whether sync is on, the queue of local changes waiting
+ * to be pushed, and the version of each record last synced, so changes made
+ * offline survive until the next successful sync.
+ *
+ * SRS Reference:
+ * - Data Layer: Cross-device sync
+ */
+
+import { SyncRecord, syncRecordKey } from './sync-transport';
+
+const SYNC_STATE_KEY = 'cloudSync';
+
+export interface SyncState {
+  enabled: boolean;
+  queue: SyncRecord[]; // Local changes not pushed yet, one per record
+  syncedVersions: Record<string, number>; // updatedAt last pushed or pulled, by record key
+  lastSyncedAt?: number;
+  lastError?: string;
+}
+
+const DEFAULT_SYNC_STATE: SyncState = {
+  enabled: false,
+  queue: [],
+  syncedVersions: {},
+};
+
+export async function loadSyncState(): Promise<SyncState> {
+  const result = await chrome.storage.local.get(SYNC_STATE_KEY);
+  return { ...DEFAULT_SYNC_STATE, ...result[SYNC_STATE_KEY] };
+}
+
+export async function saveSyncState(state: SyncState): Promise<void> {
+  await chrome.storage.local.set({ [SYNC_STATE_KEY]: state });
+}
+
+/**
+ * Adds a change to the queue, replacing an older queued change to the same record
+ */
+export function enqueueChange(queue: SyncRecord[], change: SyncRecord): SyncRecord[] {
+  const key = syncRecordKey(change);
+  return [...queue.filter((queued) => syncRecordKey(queued) !== key), change];
+}
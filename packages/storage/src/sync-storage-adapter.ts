@@ -0,0 +1,175 @@
+/**
+ * Sync Storage Adapter
+ *
+ * Purpose: StorageAdapter decorator that keeps competitions, saved mappings
+ * and the theme in sync across a user's devices. Every call goes to the
+ * wrapped adapter first; when sync is on, changes are queued and pushed to
+ * the remote store, and sync() pulls changes made on other devices.
+ *
+ * SRS Reference:
+ * - Data Layer: Cross-device sync
+ * - FR-1.6: Competition Management (shared competition data)
+ *
+ * Architecture Decision:
+ * - The queue is persisted, so changes made offline are pushed on the next
+ *   successful sync
+ * - Remote records are written straight to the wrapped adapter, so they
+ *   are not queued to be pushed back
+ */
+
+import { StorageAdapter } from './storage-adapter';
+import { Competition, SavedMapping, ThemeSettings } from './types';
+import { SyncRecord, SyncTransport } from './sync-transport';
+import { SyncState, enqueueChange, loadSyncState, saveSyncState } from './sync-state';
+import { applyRemoteRecords, planSync, readLocalRecords, toRecord } from './sync-merge';
+
+export interface SyncResult {
+  applied: SyncRecord[]; // Remote changes written locally
+  pushed: number;
+  theme?: ThemeSettings; // Newer theme from another device, for the caller to apply
+  error?: string; // Set when the remote store could not be reached
+}
+
+export type SyncListener = (result: SyncResult) => void;
+
+export class SyncStorageAdapter implements StorageAdapter {
+  // Serializes state updates so queued changes are not lost
+  private stateQueue: Promise<unknown> = Promise.resolve();
+  private listeners = new Set<SyncListener>();
+
+  constructor(
+    private readonly inner: StorageAdapter,
+    private readonly transport: SyncTransport
+  ) {}
+
+  private updateState(update: (state: SyncState) => SyncState | Promise<SyncState>) {
+    const next = this.stateQueue.then(async () => {
+      const state = await update(await loadSyncState());
+      await saveSyncState(state);
+      return state;
+    });
+    this.stateQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async queueChange(change: SyncRecord): Promise<void> {
+    const state = await this.updateState((current) =>
+      current.enabled ? { ...current, queue: enqueueChange(current.queue, change) } : current
+    );
+    if (state.enabled) {
+      // Pulls first so a newer change from another device is not overwritten;
+      // offline changes stay queued for the next sync
+      this.sync().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Notifies the listener after each sync that wrote remote changes locally
+   */
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSyncState(): Promise<SyncState> {
+    return loadSyncState();
+  }
+
+  async setSyncEnabled(enabled: boolean): Promise<void> {
+    await this.updateState((state) => ({ ...state, enabled, lastError: undefined }));
+  }
+
+  /**
+   * Pulls remote changes, writes the newer ones locally and pushes local changes
+   */
+  async sync(): Promise<SyncResult> {
+    let result: SyncResult = { applied: [], pushed: 0 };
+
+    await this.updateState(async (state) => {
+      if (!state.enabled) return state;
+      try {
+        const [remote, local] = await Promise.all([
+          this.transport.pull(),
+          readLocalRecords(this.inner),
+        ]);
+        const plan = planSync(remote, state.queue, local, state.syncedVersions);
+        const theme = await applyRemoteRecords(this.inner, plan.apply);
+        await this.transport.push(plan.push);
+
+        result = { applied: plan.apply, pushed: plan.push.length, theme };
+        return {
+          ...state,
+          queue: [],
+          syncedVersions: plan.syncedVersions,
+          lastSyncedAt: Date.now(),
+          lastError: undefined,
+        };
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+        return { ...state, lastError: result.error };
+      }
+    });
+
+    if (result.applied.length > 0) {
+      this.listeners.forEach((listener) => listener(result));
+    }
+    return result;
+  }
+
+  /**
+   * Queues a theme change; the theme itself is stored by ThemeContext.
+   * Pass updatedAt 0 to push the theme only if no other device has one.
+   */
+  async saveTheme(theme: ThemeSettings, updatedAt = Date.now()): Promise<void> {
+    await this.queueChange(toRecord('theme', 'theme', updatedAt, theme));
+  }
+
+  // Synced writes
+  async saveCompetition(competition: Competition): Promise<void> {
+    await this.inner.saveCompetition(competition);
+    await this.queueChange(
+      toRecord('competitions', competition.id, competition.updatedAt, competition)
+    );
+  }
+
+  async deleteCompetition(id: string): Promise<void> {
+    await this.inner.deleteCompetition(id);
+    await this.queueChange(toRecord('competitions', id, Date.now()));
+  }
+
+  async saveSavedMapping(mapping: SavedMapping): Promise<void> {
+    await this.inner.saveSavedMapping(mapping);
+    const saved = await this.inner.getSavedMapping(mapping.id);
+    await this.queueChange(toRecord('savedMappings', mapping.id, Date.now(), saved ?? mapping));
+  }
+
+  async deleteSavedMapping(id: string): Promise<void> {
+    await this.inner.deleteSavedMapping(id);
+    await this.queueChange(toRecord('savedMappings', id, Date.now()));
+  }
+
+  // Everything else is device-local
+  getCompetitions = () => this.inner.getCompetitions();
+  getCompetition = (id: string) => this.inner.getCompetition(id);
+  getSettings = () => this.inner.getSettings();
+  saveSettings: StorageAdapter['saveSettings'] = (settings) => this.inner.saveSettings(settings);
+  getColumnMapping = () => this.inner.getColumnMapping();
+  saveColumnMapping: StorageAdapter['saveColumnMapping'] = (m) => this.inner.saveColumnMapping(m);
+  getSavedMappings = () => this.inner.getSavedMappings();
+  getSavedMapping = (id: string) => this.inner.getSavedMapping(id);
+  getDefaultMapping = () => this.inner.getDefaultMapping();
+  setDefaultMapping = (id: string | null) => this.inner.setDefaultMapping(id);
+  getSubscription = () => this.inner.getSubscription();
+  saveSubscription: StorageAdapter['saveSubscription'] = (s) => this.inner.saveSubscription(s);
+  getRaffleCount = () => this.inner.getRaffleCount();
+  incrementRaffleCount = () => this.inner.incrementRaffleCount();
+  resetRaffleCount = () => this.inner.resetRaffleCount();
+  getSession = () => this.inner.getSession();
+  saveSession: StorageAdapter['saveSession'] = (session) => this.inner.saveSession(session);
+  clearSession = () => this.inner.clearSession();
+  appendDrawLogEntry: StorageAdapter['appendDrawLogEntry'] = (input) =>
+    this.inner.appendDrawLogEntry(input);
+  getDrawLog = (competitionId?: string) => this.inner.getDrawLog(competitionId);
+  verifyDrawLog = () => this.inner.verifyDrawLog();
+  clear = () => this.inner.clear();
+}
@@ -0,0 +1,56 @@
+/**
+ * Sync Transport
+ *
+ * Purpose: Interface between the sync storage adapter and the remote store
+ * holding a user's synced records, plus an in-memory transport for tests
+ * and development without a backend.
+ *
+ * SRS Reference:
+ * - Data Layer: Cross-device sync
+ */
+
+export type SyncCollection = 'competitions' | 'savedMappings' | 'theme';
+
+/**
+ * One synced record. Deletions are kept as tombstones so other devices
+ * can tell a deleted record from one they have not pulled yet.
+ */
+export interface SyncRecord {
+  collection: SyncCollection;
+  id: string;
+  updatedAt: number; // Last change on the device that made it; newest wins
+  deleted: boolean;
+  data: unknown; // null for tombstones
+}
+
+export interface SyncTransport {
+  pull(): Promise<SyncRecord[]>;
+  push(records: SyncRecord[]): Promise<void>;
+}
+
+export const syncRecordKey = (record: Pick<SyncRecord, 'collection' | 'id'>) =>
+  `${record.collection}:${record.id}`;
+
+/**
+ * Keeps records in memory. Set `online` to false to simulate a lost connection.
+ */
+export class MemorySyncTransport implements SyncTransport {
+  online = true;
+  readonly records = new Map<string, SyncRecord>();
+
+  async pull(): Promise<SyncRecord[]> {
+    this.assertOnline();
+    return [...this.records.values()].map((record) => structuredClone(record));
+  }
+
+  async push(records: SyncRecord[]): Promise<void> {
+    this.assertOnline();
+    records.forEach((record) => this.records.set(syncRecordKey(record), structuredClone(record)));
+  }
+
+  private assertOnline() {
+    if (!this.online) {
+      throw new Error('Sync server is unreachable');
+    }
+  }
+}
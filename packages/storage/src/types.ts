@@ -15,11 +15,22 @@
 export type {
   // Core Domain Types
   Participant,
+  ParticipantField,
+  TicketNormalization,
   Competition,
+  CompetitionVersion,
+  Prize,
+  PrizeWinner,
 
   // Configuration Types
   SpinnerSettings,
   SpinnerSettings as Settings, // Alias for backward compatibility
+  StreamOverlaySettings,
+  AnnouncementSettings,
+  BezierCurve,
+  PhysicsDeceleration,
+  PhysicsProfile,
+  RevealMode,
   ColumnMapping,
   SavedMapping,
 
@@ -30,6 +41,8 @@ export type {
   ThemeColors,
   SpinnerStyle,
   BrandingSettings,
+  SoundEffect,
+  AudioSettings,
   ThemeSettings,
   ColorScheme,
 
@@ -37,8 +50,16 @@ export type {
   SessionWinner,
   SpinnerSession,
 
+  // Draw Audit Types
+  DrawLogEntryInput,
+  DrawLogEntry,
+  DrawLogHead,
+  DrawLogIssue,
+  DrawLogVerification,
+
   // Storage Types
   StorageData,
+  SchemaMigrationReport,
 
   // Subscription Types
   SubscriptionTier,